@@ -112,6 +112,32 @@ describe("config", () => {
     });
   });
 
+  describe("mention names", () => {
+    it("should default to hivemoot when HIVEMOOT_MENTION_NAMES is unset", async () => {
+      delete process.env.HIVEMOOT_MENTION_NAMES;
+
+      const config = await import("./config.js");
+
+      expect(config.MENTION_NAMES).toEqual(["hivemoot"]);
+    });
+
+    it("should parse a comma-separated list, normalizing and deduplicating names", async () => {
+      process.env.HIVEMOOT_MENTION_NAMES = " @Colony-Queen , colony-queen[bot], queen ";
+
+      const config = await import("./config.js");
+
+      expect(config.MENTION_NAMES).toEqual(["colony-queen", "queen"]);
+    });
+
+    it("should drop invalid names and fall back when none are left", async () => {
+      process.env.HIVEMOOT_MENTION_NAMES = "not a name, -bad-";
+
+      const config = await import("./config.js");
+
+      expect(config.MENTION_NAMES).toEqual(["hivemoot"]);
+    });
+  });
+
   describe("voting comment signature", () => {
     it("should include SIGNATURES.VOTING in VOTING_START message", async () => {
       const config = await import("./config.js");
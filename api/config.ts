@@ -6,6 +6,7 @@
  */
 
 import { SIGNATURES, buildNotificationComment, NOTIFICATION_TYPES } from "./lib/bot-comments.js";
+import type { RatioThreshold, VoteAuditEntry, VoteCounts, VoteReaction } from "./lib/types.js";
 
 // ───────────────────────────────────────────────────────────────────────────────
 // Configuration Boundaries
@@ -34,6 +35,8 @@ export const CONFIG_BOUNDS = {
   },
   voting: {
     minVoters: { min: 0, max: 50, default: 3 },
+    weight: { min: 0, max: 10, default: 1 },
+    ratio: { min: 0.5, max: 1 },
   },
   requiredVoters: {
     maxEntries: 20,
@@ -41,6 +44,30 @@ export const CONFIG_BOUNDS = {
   },
   mergeReady: {
     minApprovals: { min: 1, max: 20, default: 1 },
+    autoMergeCooldownMinutes: { min: 0, max: 7 * 24 * 60, default: 0 }, // up to 7 days
+    maxRequiredReviews: 10,
+    maxCheckPatterns: 50,
+  },
+  team: {
+    maxRoles: 20,
+    maxMembers: 100,
+  },
+  profiles: {
+    maxProfiles: 20,
+    maxLabels: 20,
+  },
+  extension: {
+    maxMinutes: 7 * 24 * 60, // 7 days per /extend
+  },
+  commands: {
+    maxVerbs: 30,
+  },
+  mentions: {
+    maxAliases: 10,
+  },
+  standup: {
+    healthRuleThreshold: { min: 1, max: 365 },
+    maxTargets: 5,
   },
 } as const;
 
@@ -81,6 +108,47 @@ export const VOTING_DURATION_MS = parseMinutesToMs(
   DEFAULT_PHASE_DURATION_MINUTES
 );
 
+// ───────────────────────────────────────────────────────────────────────────────
+// Command Mentions
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Mention names used when HIVEMOOT_MENTION_NAMES is unset.
+ * Limited to @hivemoot to avoid spamming the real @queen GitHub account.
+ */
+const DEFAULT_MENTION_NAMES = ["hivemoot"] as const;
+
+/**
+ * Normalize a mention name: strips whitespace, a leading @, and a trailing
+ * `[bot]`, then lowercases. Returns null unless the result is a valid
+ * GitHub login or app slug.
+ */
+export const normalizeMentionName = (value: string): string | null => {
+  const name = value.trim().replace(/^@/, "").replace(/\[bot\]$/i, "").toLowerCase();
+  return /^[a-z0-9](?:[a-z0-9]|-(?=[a-z0-9])){0,38}$/.test(name) ? name : null;
+};
+
+/**
+ * Parse a comma-separated list of mention names from an environment variable.
+ * Invalid entries are dropped; an empty result falls back to the default.
+ */
+const parseMentionNames = (envVar: string | undefined): string[] => {
+  const names = new Set<string>();
+  for (const entry of (envVar ?? "").split(",")) {
+    const name = normalizeMentionName(entry);
+    if (name) {
+      names.add(name);
+    }
+  }
+  return names.size > 0 ? [...names] : [...DEFAULT_MENTION_NAMES];
+};
+
+/**
+ * Names the bot answers to in `@<name> /<verb>` commands. The first is the
+ * one shown in replies. The app's slug and per-repo aliases are added at runtime.
+ */
+export const MENTION_NAMES: readonly string[] = parseMentionNames(process.env.HIVEMOOT_MENTION_NAMES);
+
 // ───────────────────────────────────────────────────────────────────────────────
 // Bot Signature & Identifiers
 // ───────────────────────────────────────────────────────────────────────────────
@@ -91,9 +159,61 @@ export const SIGNATURE = "\n\n---\nbuzz buzz 🐝 Hivemoot Queen";
 // Message Templates
 // ───────────────────────────────────────────────────────────────────────────────
 
-/** Format vote results for display */
-const formatVotes = (votes: { thumbsUp: number; thumbsDown: number; confused: number; eyes: number }) =>
-  `**Results:** 👍 ${votes.thumbsUp} | 👎 ${votes.thumbsDown} | 😕 ${votes.confused} | 👀 ${votes.eyes}`;
+/**
+ * Format vote results for display.
+ * When weighted voting is configured, the weighted tally that decided the
+ * outcome is shown below the raw head count.
+ */
+export const formatVotes = (votes: VoteCounts) => {
+  const raw = `**Results:** 👍 ${votes.thumbsUp} | 👎 ${votes.thumbsDown} | 😕 ${votes.confused} | 👀 ${votes.eyes}`;
+  if (!votes.weighted) {
+    return raw;
+  }
+  const { weighted } = votes;
+  return `${raw}\n**Weighted:** 👍 ${weighted.thumbsUp} | 👎 ${weighted.thumbsDown} | 😕 ${weighted.confused} | 👀 ${weighted.eyes}`;
+};
+
+/**
+ * Format a duration as its two largest units, e.g. "2d 3h", "5h 12m", "45m".
+ */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60_000));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) {
+    return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  }
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+  return `${minutes}m`;
+}
+
+const VOTE_REACTION_EMOJI: Record<VoteReaction, string> = {
+  "+1": "👍",
+  "-1": "👎",
+  confused: "😕",
+  eyes: "👀",
+};
+
+const VOTE_AUDIT_STATUS: Record<VoteAuditEntry["status"], string> = {
+  counted: "counted",
+  discarded: "discarded (multiple reactions)",
+  missing: "missing (required voter)",
+};
+
+/** Explain how far the approval tally fell short of a ratio threshold */
+const formatRatioShortfall = (threshold: RatioThreshold) => {
+  const percent = Math.round(threshold.ratio * 100);
+  const tally = `(👍 ${threshold.approvals} of ${threshold.decisive}, needed ${threshold.needed})`;
+  if (threshold.missedBy === null) {
+    return `The ${percent}% approval threshold was missed ${tally}; it can't be met while any 👎 remain.`;
+  }
+  const plural = threshold.missedBy === 1 ? "" : "s";
+  return `The ${percent}% approval threshold was missed ${tally}; ` +
+    `${threshold.missedBy} more 👍 vote${plural} would meet it.`;
+};
 
 const formatVotingRequirements = (opts: {
   minVoters: number;
@@ -145,6 +265,10 @@ export const MESSAGES = {
   // Posted when a new issue is opened and decision method is manual.
   ISSUE_WELCOME_MANUAL,
 
+  // Section added to the discussion welcome when team roles are expected to weigh in
+  welcomeExpectedRoles: (roles: Array<{ name: string; description: string }>) => `**Expected to weigh in:**
+${roles.map((role) => `- **${role.name}**${role.description ? ` — ${role.description}` : ""}`).join("\n")}`,
+
   // Posted when a new PR is opened with no linked issues
   PR_NO_LINKED_ISSUE: `# 🐝 No Linked Issue
 
@@ -173,6 +297,39 @@ Time for hivemoot to decide.${priorityReminder}
 Voting closes in ~24 hours.${SIGNATURE}`;
   },
 
+  // Collapsible per-voter audit table, inserted above the signature of voting outcome comments
+  voteAuditTable: (entries: VoteAuditEntry[]) => {
+    const rows = entries.map((entry) => {
+      const vote = entry.reactions.map((reaction) => VOTE_REACTION_EMOJI[reaction]).join(" ") || "—";
+      const votedAt = entry.votedAt ? entry.votedAt.replace("T", " ").replace(/\.\d+Z$|Z$/, " UTC") : "—";
+      return `| @${entry.user} | ${vote} | ${VOTE_AUDIT_STATUS[entry.status]} | ${votedAt} |`;
+    });
+    return `<details>
+<summary>Vote audit (${entries.length} ${entries.length === 1 ? "entry" : "entries"})</summary>
+
+| Voter | Vote | Status | Voted at |
+| --- | --- | --- | --- |
+${rows.join("\n")}
+
+</details>`;
+  },
+
+  // Appended to the voting comment when a governance profile matches the issue's labels
+  votingProfile: (profileName: string) =>
+    `**Governance profile:** \`${profileName}\` — this issue's labels select its discussion and voting rules.`,
+
+  // Posted by /extend when a maintainer pushes back a phase's exits
+  phaseExtended: (params: {
+    phase: string;
+    extension: string;
+    extendedBy: string;
+    deadline: string;
+  }) => `# 🐝 Phase Extended ⏳
+
+@${params.extendedBy} extended \`${params.phase}\` by **${params.extension}**. Every exit for this phase moves back by the same amount.
+
+**New deadline:** ${params.deadline}${SIGNATURE}`,
+
   // Backward-compat alias
   VOTING_START: `# 🐝 Voting Phase
 
@@ -186,8 +343,12 @@ Time for hivemoot to decide.
 
 Voting closes in ~24 hours.${SIGNATURE}`,
 
+  // Prepended to the outcome message when a veto voter's 👎 decided the outcome
+  votingVetoed: (vetoers: string[]) =>
+    `**Vetoed** — 👎 from ${vetoers.map((u) => `@${u}`).join(", ")} (veto) overrides the tally.\n\n`,
+
   // Posted when voting ends with a ready-to-implement outcome
-  votingEndReadyToImplement: (votes: { thumbsUp: number; thumbsDown: number; confused: number; eyes: number }) => `# 🐝 Ready to Implement ✅
+  votingEndReadyToImplement: (votes: VoteCounts) => `# 🐝 Ready to Implement ✅
 
 ${formatVotes(votes)}
 
@@ -199,21 +360,35 @@ Next steps:
 - Implementation slots are limited; additional PRs may be deferred to a later round.${SIGNATURE}`,
 
   // Posted when voting ends with rejection
-  votingEndRejected: (votes: { thumbsUp: number; thumbsDown: number; confused: number; eyes: number }) => `# 🐝 Rejected ❌
+  votingEndRejected: (votes: VoteCounts) => `# 🐝 Rejected ❌
 
 ${formatVotes(votes)}
 
 Hivemoot has decided. This proposal is closed.${SIGNATURE}`,
 
+  // Posted by /reject when a maintainer closes a proposal without a vote
+  commandRejected: (sender: string, reason?: string) => `# 🐝 Rejected ❌
+
+Rejected by @${sender} via \`/reject\` command.${reason ? `\n\n**Reason:**\n> ${reason}` : ""}
+
+This proposal is closed.${SIGNATURE}`,
+
+  // Posted by /duplicate when a maintainer closes a proposal in favor of another issue
+  commandDuplicate: (sender: string, duplicateOf: number, reason?: string) => `# 🐝 Duplicate 🔁
+
+Closed as a duplicate of #${duplicateOf} by @${sender} via \`/duplicate\` command.${reason ? `\n\n**Reason:**\n> ${reason}` : ""}
+
+Please continue the conversation on #${duplicateOf}.${SIGNATURE}`,
+
   // Posted when voting ends with needs-more-discussion (majority abstain)
-  votingEndNeedsMoreDiscussion: (votes: { thumbsUp: number; thumbsDown: number; confused: number; eyes: number }) => `# 🐝 Needs More Discussion 💬
+  votingEndNeedsMoreDiscussion: (votes: VoteCounts) => `# 🐝 Needs More Discussion 💬
 
 ${formatVotes(votes)}
 
 Back to the drawing board. Returning to discussion phase.${SIGNATURE}`,
 
   // Posted when voting ends with needs-human-input (eyes majority)
-  votingEndNeedsHumanInput: (votes: { thumbsUp: number; thumbsDown: number; confused: number; eyes: number }) => `# 🐝 Needs Human Input 👀
+  votingEndNeedsHumanInput: (votes: VoteCounts) => `# 🐝 Needs Human Input 👀
 
 ${formatVotes(votes)}
 
@@ -221,16 +396,16 @@ The hive has spoken — this issue needs a human to weigh in. The issue remains
 
 Remove the \`hivemoot:needs-human\` label when you've addressed the concern.${SIGNATURE}`,
 
-  // Posted when voting ends with tie/no votes (first round - extended voting begins)
-  votingEndInconclusive: (votes: { thumbsUp: number; thumbsDown: number; confused: number; eyes: number }) => `# 🐝 Extended Voting ⚖️
+  // Posted when voting ends with tie/no votes or a missed ratio threshold (first round - extended voting begins)
+  votingEndInconclusive: (votes: VoteCounts, threshold?: RatioThreshold) => `# 🐝 Extended Voting ⚖️
 
 ${formatVotes(votes)}
 
-The initial vote was tied. Voting continues — react to the voting comment above.${SIGNATURE}`,
+${threshold ? formatRatioShortfall(threshold) : "The initial vote was tied."} Voting continues — react to the voting comment above.${SIGNATURE}`,
 
   // Posted when voting requirements (quorum/required voters) are not met
   votingEndRequirementsNotMet: (params: {
-    votes: { thumbsUp: number; thumbsDown: number; confused: number; eyes: number };
+    votes: VoteCounts;
     minVoters: number;
     validVoters: number;
     missingRequired: string[];
@@ -256,7 +431,7 @@ ${params.final
 
   // Posted when extended voting resolves with a clear winner
   votingEndInconclusiveResolved: (
-    votes: { thumbsUp: number; thumbsDown: number; confused: number; eyes: number },
+    votes: VoteCounts,
     outcome: "ready-to-implement" | "rejected" | "needs-human-input"
   ) => {
     const config = {
@@ -283,11 +458,11 @@ ${formatVotes(votes)}
 ${config.explanation}${SIGNATURE}`;
   },
 
-  // Posted when extended voting still results in a tie (final closure)
-  votingEndInconclusiveFinal: (votes: { thumbsUp: number; thumbsDown: number; confused: number; eyes: number }) => `# 🐝 Inconclusive (Final) 🔒
+  // Posted when extended voting still results in a tie or missed ratio threshold (final closure)
+  votingEndInconclusiveFinal: (votes: VoteCounts, threshold?: RatioThreshold) => `# 🐝 Inconclusive (Final) 🔒
 
 ${formatVotes(votes)}
-
+${threshold ? `\n${formatRatioShortfall(threshold)}\n` : ""}
 Hivemoot couldn't reach consensus after two voting periods. Closing this issue.
 
 A maintainer can reopen if circumstances change.${SIGNATURE}`,
@@ -322,6 +497,7 @@ export const LABELS = {
   VOTING: "hivemoot:voting",
   READY_TO_IMPLEMENT: "hivemoot:ready-to-implement",
   REJECTED: "hivemoot:rejected",
+  DUPLICATE: "hivemoot:duplicate",
   EXTENDED_VOTING: "hivemoot:extended-voting",
   INCONCLUSIVE: "hivemoot:inconclusive",
   IMPLEMENTATION: "hivemoot:candidate",
@@ -415,6 +591,11 @@ export const REQUIRED_REPOSITORY_LABELS: readonly RepositoryLabelDefinition[] =
     color: "d73a4a",
     description: "Proposal was rejected by voting.",
   },
+  {
+    name: LABELS.DUPLICATE,
+    color: "cfd3d7",
+    description: "Proposal was closed as a duplicate.",
+  },
   {
     name: LABELS.EXTENDED_VOTING,
     color: "fbca04",
@@ -3,8 +3,9 @@ import { GovernanceService } from "../../lib/governance.js";
 import { createIssueOperations } from "../../lib/github-client.js";
 import { getLinkedIssues } from "../../lib/graphql-queries.js";
 import { processImplementationIntake, recalculateLeaderboardForPR } from "../../lib/implementation-intake.js";
-import { evaluateMergeReadiness, loadRepositoryConfig } from "../../lib/index.js";
+import { evaluateMergeReadiness, loadRepositoryConfig, processAutoMerge } from "../../lib/index.js";
 import { LABELS, MESSAGES, REQUIRED_REPOSITORY_LABELS } from "../../config.js";
+import { createJournalMetadata, generateMetadataTag } from "../../lib/bot-comments.js";
 import type { IssueRef } from "../../lib/types.js";
 import type { IncomingMessage, ServerResponse } from "http";
 import { app as registerWebhookApp } from "./index.js";
@@ -51,6 +52,7 @@ vi.mock("../../lib/index.js", async () => {
             durationMs: 0,
           },
         },
+        profiles: [],
         pr: {
           maxPRsPerIssue: 3,
           trustedReviewers: [],
@@ -58,8 +60,11 @@ vi.mock("../../lib/index.js", async () => {
           mergeReady: {},
         },
       },
+      commands: {},
+      mentions: { aliases: [] },
     }),
     evaluateMergeReadiness: vi.fn().mockResolvedValue(undefined),
+    processAutoMerge: vi.fn().mockResolvedValue({ action: "skipped", reason: "test" }),
   };
 });
 
@@ -86,13 +91,21 @@ function buildIterator<T>(pages: T[][]): AsyncIterable<{ data: T[] }> {
   };
 }
 
-function createWebhookHarness() {
+function createWebhookHarness(options?: { appSlug?: string }) {
   const handlers = new Map<string, WebhookHandler>();
   const probotApp = {
     log: {
       info: vi.fn(),
       error: vi.fn(),
+      warn: vi.fn(),
     },
+    auth: vi.fn(async () => ({
+      rest: {
+        apps: {
+          getAuthenticated: vi.fn().mockResolvedValue({ data: { slug: options?.appSlug ?? "hivemoot" } }),
+        },
+      },
+    })),
     on: vi.fn((event: string | string[], handler: WebhookHandler) => {
       if (Array.isArray(event)) {
         for (const entry of event) {
@@ -156,6 +169,68 @@ function createInstallationOctokit(options?: {
   };
 }
 
+/**
+ * Octokit stub with the PR and issue endpoints PROperations needs.
+ */
+const createReviewOctokit = () => ({
+  rest: {
+    pulls: {
+      get: vi.fn().mockResolvedValue({
+        data: {
+          number: 1,
+          state: "open",
+          merged: false,
+          created_at: "2026-01-01T00:00:00Z",
+          updated_at: "2026-01-01T00:00:00Z",
+          user: { login: "author" },
+          head: { sha: "abc123" },
+          base: { ref: "main" },
+          mergeable: true,
+        },
+      }),
+      update: vi.fn().mockResolvedValue({}),
+      listReviews: vi.fn().mockResolvedValue({ data: [] }),
+      listCommits: vi.fn().mockResolvedValue({ data: [] }),
+      listReviewComments: vi.fn().mockResolvedValue({ data: [] }),
+    },
+    issues: {
+      get: vi.fn().mockResolvedValue({ data: { reactions: { "+1": 0, "-1": 0, confused: 0 } } }),
+      addLabels: vi.fn().mockResolvedValue({}),
+      removeLabel: vi.fn().mockResolvedValue({}),
+      createComment: vi.fn().mockResolvedValue({}),
+      update: vi.fn().mockResolvedValue({}),
+      listForRepo: vi.fn().mockResolvedValue({ data: [] }),
+      listEventsForTimeline: vi.fn().mockResolvedValue({ data: [] }),
+      listComments: vi.fn().mockResolvedValue({ data: [] }),
+      lock: vi.fn().mockResolvedValue({}),
+      unlock: vi.fn().mockResolvedValue({}),
+    },
+    checks: {
+      listForRef: vi.fn().mockResolvedValue({ data: { total_count: 0, check_runs: [] } }),
+    },
+    repos: {
+      getCombinedStatusForRef: vi.fn().mockResolvedValue({
+        data: {
+          state: "success",
+          total_count: 0,
+          statuses: [],
+        },
+      }),
+    },
+    reactions: {
+      listForIssueComment: vi.fn().mockResolvedValue({ data: [] }),
+      listForIssue: vi.fn().mockResolvedValue({ data: [] }),
+    },
+  },
+  paginate: {
+    iterator: vi.fn().mockImplementation(() => ({
+      async *[Symbol.asyncIterator]() {
+        yield { data: [] };
+      },
+    })),
+  },
+});
+
 describe("Queen Bot", () => {
   describe("Installation label bootstrap handlers", () => {
     it("should bootstrap labels from installation.created payload repositories", async () => {
@@ -732,6 +807,10 @@ describe("Queen Bot", () => {
         reactions: {
           createForIssueComment: vi.fn().mockResolvedValue({}),
           listForIssueComment: vi.fn().mockResolvedValue({ data: [] }),
+          createForPullRequestReviewComment: vi.fn().mockResolvedValue({}),
+          listForPullRequestReviewComment: vi.fn().mockResolvedValue({ data: [] }),
+          deleteForIssueComment: vi.fn().mockResolvedValue({}),
+          deleteForPullRequestComment: vi.fn().mockResolvedValue({}),
           listForIssue: vi.fn().mockResolvedValue({ data: [] }),
         },
         issues: {
@@ -811,6 +890,111 @@ describe("Queen Bot", () => {
       );
     });
 
+    it("should dispatch every command in a comment with one combined reply", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("issue_comment.created")!;
+      const octokit = createCommandOctokit();
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+      await handler({
+        octokit,
+        log,
+        payload: {
+          issue: {
+            number: 10,
+            labels: [{ name: LABELS.DISCUSSION }],
+          },
+          comment: {
+            id: 200,
+            body: "@hivemoot /squash\n@hivemoot /vote",
+            user: { login: "maintainer" },
+            performed_via_github_app: null,
+          },
+          repository: {
+            name: "test-repo",
+            full_name: "hivemoot/test-repo",
+            owner: { login: "hivemoot" },
+          },
+        },
+      });
+
+      // /squash is rejected on an issue, so /vote is skipped
+      expect(octokit.rest.reactions.createForIssueComment).toHaveBeenCalledTimes(2);
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledTimes(1);
+      const body = octokit.rest.issues.createComment.mock.calls[0][0].body as string;
+      expect(body).toContain("- ❌ `/squash`");
+      expect(body).toContain("- ⏭️ `/vote`");
+    });
+
+    function commandPayload(body: string) {
+      return {
+        issue: {
+          number: 10,
+          labels: [{ name: LABELS.DISCUSSION }],
+        },
+        comment: {
+          id: 200,
+          body,
+          user: { login: "maintainer" },
+          performed_via_github_app: null,
+        },
+        repository: {
+          name: "test-repo",
+          full_name: "hivemoot/test-repo",
+          owner: { login: "hivemoot" },
+        },
+      };
+    }
+
+    it("should answer to the app's own slug", async () => {
+      const { handlers } = createWebhookHarness({ appSlug: "colony-queen" });
+      const handler = handlers.get("issue_comment.created")!;
+      const octokit = createCommandOctokit();
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+      await handler({ octokit, log, payload: commandPayload("@colony-queen /vote") });
+
+      expect(octokit.rest.reactions.createForIssueComment).toHaveBeenCalledWith(
+        expect.objectContaining({ content: "eyes" }),
+      );
+    });
+
+    it("should answer to per-repo mention aliases", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("issue_comment.created")!;
+      const octokit = createCommandOctokit();
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+      const repoConfig = {
+        governance: { proposals: {}, profiles: [], pr: { trustedReviewers: [] } },
+        commands: {},
+        mentions: { aliases: ["queen"] },
+      };
+      // Loaded once to find the alias, once more by the command router
+      vi.mocked(loadRepositoryConfig)
+        .mockResolvedValueOnce(repoConfig as any)
+        .mockResolvedValueOnce(repoConfig as any);
+
+      await handler({ octokit, log, payload: commandPayload("@queen /vote") });
+
+      expect(octokit.rest.reactions.createForIssueComment).toHaveBeenCalledWith(
+        expect.objectContaining({ content: "eyes" }),
+      );
+    });
+
+    it("should not load the repo config for comments without a mention command", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("issue_comment.created")!;
+      const octokit = createCommandOctokit();
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+      vi.mocked(loadRepositoryConfig).mockClear();
+
+      await handler({ octokit, log, payload: commandPayload("Thanks @queen, looks good") });
+      await handler({ octokit, log, payload: commandPayload("@alice thanks, looks good") });
+
+      expect(loadRepositoryConfig).not.toHaveBeenCalled();
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+    });
+
     it("should skip commands from bot's own comments", async () => {
       const { handlers } = createWebhookHarness();
       const handler = handlers.get("issue_comment.created")!;
@@ -974,6 +1158,167 @@ describe("Queen Bot", () => {
 
       expect(processImplementationIntake).toHaveBeenCalledTimes(1);
     });
+
+    function editedPayload(body: string, from: string) {
+      return { ...commandPayload(body), changes: { body: { from } } };
+    }
+
+    it("should run commands fixed by an edit", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("issue_comment.edited")!;
+      const octokit = createCommandOctokit();
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+      await handler({ octokit, log, payload: editedPayload("@hivemoot /vote", "@hivemoot /vot") });
+
+      expect(octokit.rest.reactions.listForIssueComment).toHaveBeenCalledWith(
+        expect.objectContaining({ comment_id: 200, content: "eyes" }),
+      );
+      expect(octokit.rest.reactions.createForIssueComment).toHaveBeenCalledWith(
+        expect.objectContaining({ comment_id: 200, content: "eyes" }),
+      );
+    });
+
+    it("should run a rejected command once an edit fixes it", async () => {
+      const { handlers } = createWebhookHarness();
+      const octokit = createCommandOctokit();
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+      // Keep the comment's reactions so the edit sees what the first run left behind
+      let reactions: Array<{ id: number; content: string; user: { login: string } }> = [];
+      octokit.rest.reactions.createForIssueComment.mockImplementation(async (params: { content: string }) => {
+        reactions.push({ id: reactions.length + 1, content: params.content, user: { login: "hivemoot[bot]" } });
+        return {};
+      });
+      octokit.rest.reactions.listForIssueComment.mockImplementation(async (params: { content: string }) => ({
+        data: reactions.filter((r) => r.content === params.content),
+      }));
+      octokit.rest.reactions.deleteForIssueComment.mockImplementation(async (params: { reaction_id: number }) => {
+        reactions = reactions.filter((r) => r.id !== params.reaction_id);
+        return {};
+      });
+
+      // /merge only works on pull requests
+      await handlers.get("issue_comment.created")!({ octokit, log, payload: commandPayload("@hivemoot /merge") });
+      expect(reactions.map((r) => r.content)).toEqual(["confused"]);
+
+      await handlers.get("issue_comment.edited")!({
+        octokit,
+        log,
+        payload: editedPayload("@hivemoot /vote", "@hivemoot /merge"),
+      });
+
+      expect(reactions.map((r) => r.content)).toEqual(["confused", "eyes", "+1"]);
+      expect(octokit.rest.issues.addLabels).toHaveBeenCalledWith(
+        expect.objectContaining({ issue_number: 10, labels: [LABELS.VOTING] }),
+      );
+    });
+
+    it("should ignore edits that leave the commands unchanged", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("issue_comment.edited")!;
+      const octokit = createCommandOctokit();
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+      await handler({
+        octokit,
+        log,
+        payload: editedPayload("@hivemoot /vote\n\nReady for a vote.", "@hivemoot /vote\n\nReady for vote."),
+      });
+
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+      expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    it("should not re-run an edited comment whose commands already ran", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("issue_comment.edited")!;
+      const octokit = createCommandOctokit();
+      octokit.rest.reactions.listForIssueComment.mockResolvedValue({
+        data: [{ user: { login: "hivemoot[bot]" } }],
+      });
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+      await handler({ octokit, log, payload: editedPayload("@hivemoot /vote", "@hivemoot /gather") });
+
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+      expect(octokit.rest.issues.addLabels).not.toHaveBeenCalled();
+    });
+
+    it("should ignore edits to the bot's own comments", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("issue_comment.edited")!;
+      const octokit = createCommandOctokit();
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+      const payload = editedPayload("@hivemoot /vote", "");
+      payload.comment.performed_via_github_app = { id: TEST_APP_ID } as any;
+
+      await handler({ octokit, log, payload });
+
+      expect(octokit.rest.reactions.listForIssueComment).not.toHaveBeenCalled();
+    });
+
+    it("should dispatch commands in inline review comments", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("pull_request_review_comment.created")!;
+      const octokit = createCommandOctokit();
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+      await handler({
+        octokit,
+        log,
+        payload: {
+          pull_request: { number: 12, labels: [] },
+          comment: { id: 300, body: "@hivemoot /vote", user: { login: "maintainer" } },
+          repository: {
+            name: "test-repo",
+            full_name: "hivemoot/test-repo",
+            owner: { login: "hivemoot" },
+          },
+        },
+      });
+
+      // /vote is issue-only: rejected on the PR, acknowledged on the review comment
+      expect(octokit.rest.reactions.createForPullRequestReviewComment).toHaveBeenCalledWith(
+        expect.objectContaining({ comment_id: 300, content: "confused" }),
+      );
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledWith(
+        expect.objectContaining({ issue_number: 12 }),
+      );
+    });
+
+    it("should dispatch commands in review bodies after the review bookkeeping", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("pull_request_review.submitted")!;
+      const octokit = createCommandOctokit();
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+      octokit.rest.issues.get.mockResolvedValue({ data: { labels: [{ name: LABELS.MERGE_READY }] } });
+
+      await handler({
+        octokit,
+        log,
+        payload: {
+          review: { id: 400, state: "commented", body: "Looks close.\n@hivemoot /vote", user: { login: "maintainer" } },
+          pull_request: { number: 12, labels: [] },
+          repository: {
+            name: "test-repo",
+            full_name: "hivemoot/test-repo",
+            owner: { login: "hivemoot" },
+          },
+        },
+      });
+
+      expect(evaluateMergeReadiness).toHaveBeenCalled();
+      // Reviews can't carry reactions — a marker comment acknowledges them
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+      expect(octokit.rest.reactions.listForIssueComment).not.toHaveBeenCalled();
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledWith(
+        expect.objectContaining({ issue_number: 12, body: expect.stringContaining("\"reviewId\":400") }),
+      );
+      // The payload predates merge-readiness, so labels are refetched for the commands
+      expect(octokit.rest.issues.get).toHaveBeenCalledWith(expect.objectContaining({ issue_number: 12 }));
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe("issues.opened handler", () => {
@@ -1032,8 +1377,10 @@ describe("Queen Bot", () => {
             extendedVoting: { exits: [{ type: "manual" }], durationMs: 0 },
           },
           pr: { staleDays: 14, maxPRsPerIssue: 3, trustedReviewers: [], intake: [{ method: "update" }], mergeReady: null },
+          profiles: [],
         },
         version: 1,
+        team: { name: "", onboarding: "", roles: {}, members: {} },
         standup: { enabled: false, category: "" },
       });
 
@@ -1071,8 +1418,10 @@ describe("Queen Bot", () => {
             extendedVoting: { exits: [{ type: "manual" }], durationMs: 0 },
           },
           pr: { staleDays: 14, maxPRsPerIssue: 3, trustedReviewers: [], intake: [{ method: "update" }], mergeReady: null },
+          profiles: [],
         },
         version: 1,
+        team: { name: "", onboarding: "", roles: {}, members: {} },
         standup: { enabled: false, category: "" },
       });
 
@@ -1097,67 +1446,190 @@ describe("Queen Bot", () => {
       const commentBody = octokit.rest.issues.createComment.mock.calls[0][0].body;
       expect(commentBody).toContain("Ready to vote?");
     });
-  });
 
-  describe("pull_request_review handlers", () => {
-    const createReviewOctokit = () => ({
-      rest: {
-        pulls: {
-          get: vi.fn().mockResolvedValue({
-            data: {
-              number: 1,
-              state: "open",
-              merged: false,
-              created_at: "2026-01-01T00:00:00Z",
-              updated_at: "2026-01-01T00:00:00Z",
-              user: { login: "author" },
-              head: { sha: "abc123" },
-              mergeable: true,
+    it("should use the welcome and expected roles of the issue's governance profile", async () => {
+      const manual = { exits: [{ type: "manual" as const }], durationMs: 0 };
+      vi.mocked(loadRepositoryConfig).mockResolvedValueOnce({
+        governance: {
+          proposals: { discussion: manual, voting: manual, extendedVoting: manual },
+          pr: { staleDays: 14, maxPRsPerIssue: 3, trustedReviewers: [], intake: [{ method: "update" }], mergeReady: null },
+          profiles: [{
+            name: "fast-track",
+            labels: ["chore"],
+            proposals: {
+              discussion: {
+                exits: [{
+                  type: "auto",
+                  afterMs: 1_800_000,
+                  minReady: 0,
+                  requiredReady: { minCount: 1, users: ["hivemoot-guard"] },
+                }],
+                durationMs: 1_800_000,
+              },
+              voting: manual,
+              extendedVoting: manual,
             },
-          }),
-          update: vi.fn().mockResolvedValue({}),
-          listReviews: vi.fn().mockResolvedValue({ data: [] }),
-          listCommits: vi.fn().mockResolvedValue({ data: [] }),
-          listReviewComments: vi.fn().mockResolvedValue({ data: [] }),
+          }],
         },
-        issues: {
-          get: vi.fn().mockResolvedValue({ data: { reactions: { "+1": 0, "-1": 0, confused: 0 } } }),
-          addLabels: vi.fn().mockResolvedValue({}),
-          removeLabel: vi.fn().mockResolvedValue({}),
-          createComment: vi.fn().mockResolvedValue({}),
-          update: vi.fn().mockResolvedValue({}),
-          listForRepo: vi.fn().mockResolvedValue({ data: [] }),
-          listEventsForTimeline: vi.fn().mockResolvedValue({ data: [] }),
-          listComments: vi.fn().mockResolvedValue({ data: [] }),
-          lock: vi.fn().mockResolvedValue({}),
-          unlock: vi.fn().mockResolvedValue({}),
+        version: 1,
+        team: {
+          name: "colony",
+          onboarding: "",
+          roles: { guard: { description: "Protector", instructions: "" } },
+          members: { "hivemoot-guard": "guard" },
         },
-        checks: {
-          listForRef: vi.fn().mockResolvedValue({ data: { total_count: 0, check_runs: [] } }),
+        standup: { enabled: false, category: "" },
+      });
+
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("issues.opened")!;
+      const octokit = createIssuesOpenedOctokit("manual");
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+      await handler({
+        octokit,
+        log,
+        payload: {
+          issue: { number: 46, labels: [{ name: "Chore" }] },
+          repository: {
+            name: "test-repo",
+            full_name: "hivemoot/test-repo",
+            owner: { login: "hivemoot" },
+          },
         },
-        repos: {
-          getCombinedStatusForRef: vi.fn().mockResolvedValue({
-            data: {
-              state: "success",
-              total_count: 0,
-              statuses: [],
+      });
+
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0][0].body;
+      expect(commentBody).toContain("Ready to vote?");
+      expect(commentBody).toContain("- **guard** — Protector");
+    });
+
+    it("should skip issues opened by the app, such as the Colony Journal", async () => {
+      vi.mocked(loadRepositoryConfig).mockClear();
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("issues.opened")!;
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+      const repository = {
+        name: "test-repo",
+        full_name: "hivemoot/test-repo",
+        owner: { login: "hivemoot" },
+      };
+
+      const octokit = createIssuesOpenedOctokit("manual");
+      await handler({
+        octokit,
+        log,
+        payload: {
+          issue: { number: 44, body: "# Colony Journal", performed_via_github_app: { id: TEST_APP_ID } },
+          repository,
+        },
+      });
+
+      expect(octokit.rest.issues.addLabels).not.toHaveBeenCalled();
+      expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+      expect(loadRepositoryConfig).not.toHaveBeenCalled();
+    });
+
+    it("should govern user issues that carry the journal marker", async () => {
+      vi.mocked(loadRepositoryConfig).mockResolvedValueOnce({
+        governance: {
+          proposals: {
+            discussion: { exits: [{ type: "manual" }], durationMs: 0 },
+            voting: { exits: [{ type: "manual" }], durationMs: 0 },
+            extendedVoting: { exits: [{ type: "manual" }], durationMs: 0 },
+          },
+          pr: { staleDays: 14, maxPRsPerIssue: 3, trustedReviewers: [], intake: [{ method: "update" }], mergeReady: null },
+          profiles: [],
+        },
+        version: 1,
+        team: { name: "", onboarding: "", roles: {}, members: {} },
+        standup: { enabled: false, category: "" },
+      });
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("issues.opened")!;
+      const octokit = createIssuesOpenedOctokit("manual");
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+      await handler({
+        octokit,
+        log,
+        payload: {
+          issue: {
+            number: 45,
+            body: `${generateMetadataTag(createJournalMetadata())}\n# Colony Journal`,
+            performed_via_github_app: null,
+          },
+          repository: {
+            name: "test-repo",
+            full_name: "hivemoot/test-repo",
+            owner: { login: "hivemoot" },
+          },
+        },
+      });
+
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledTimes(1);
+    });
+
+    it("should mention team roles expected to weigh in", async () => {
+      vi.mocked(loadRepositoryConfig).mockResolvedValueOnce({
+        governance: {
+          proposals: {
+            discussion: { exits: [{ type: "manual" }], durationMs: 0 },
+            voting: {
+              exits: [{
+                type: "auto",
+                afterMs: 1_800_000,
+                requires: "majority",
+                minVoters: 0,
+                requiredVoters: { minCount: 1, voters: ["hivemoot-guard"] },
+              }],
+              durationMs: 1_800_000,
+              weights: {},
             },
-          }),
+            extendedVoting: { exits: [{ type: "manual" }], durationMs: 0 },
+          },
+          pr: { staleDays: 14, maxPRsPerIssue: 3, trustedReviewers: [], intake: [{ method: "update" }], mergeReady: null },
+          profiles: [],
         },
-        reactions: {
-          listForIssueComment: vi.fn().mockResolvedValue({ data: [] }),
-          listForIssue: vi.fn().mockResolvedValue({ data: [] }),
+        version: 1,
+        team: {
+          name: "colony",
+          onboarding: "",
+          roles: {
+            guard: { description: "Protector", instructions: "" },
+            scout: { description: "User champion", instructions: "" },
+          },
+          members: { "hivemoot-guard": "guard", "hivemoot-scout": "scout" },
         },
-      },
-      paginate: {
-        iterator: vi.fn().mockImplementation(() => ({
-          async *[Symbol.asyncIterator]() {
-            yield { data: [] };
+        standup: { enabled: false, category: "" },
+      });
+
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("issues.opened")!;
+      const octokit = createIssuesOpenedOctokit("manual");
+      const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn() };
+
+      await handler({
+        octokit,
+        log,
+        payload: {
+          issue: { number: 44 },
+          repository: {
+            name: "test-repo",
+            full_name: "hivemoot/test-repo",
+            owner: { login: "hivemoot" },
           },
-        })),
-      },
+        },
+      });
+
+      const commentBody = octokit.rest.issues.createComment.mock.calls[0][0].body;
+      expect(commentBody).toContain("**Expected to weigh in:**");
+      expect(commentBody).toContain("- **guard** — Protector");
+      expect(commentBody).not.toContain("scout");
     });
+  });
 
+  describe("pull_request_review handlers", () => {
     beforeEach(() => {
       vi.mocked(getLinkedIssues).mockReset();
       vi.mocked(processImplementationIntake).mockReset();
@@ -1327,6 +1799,108 @@ describe("Queen Bot", () => {
     });
   });
 
+  describe("pull_request label handlers", () => {
+    const repository = {
+      name: "test-repo",
+      full_name: "hivemoot/test-repo",
+      owner: { login: "hivemoot" },
+    };
+
+    const labelPayload = (action: "labeled" | "unlabeled", label: string) => ({
+      action,
+      label: { name: label },
+      pull_request: {
+        number: 12,
+        labels: [{ name: LABELS.IMPLEMENTATION }, { name: LABELS.MERGE_READY }],
+      },
+      repository,
+    });
+
+    const autoMergeConfig = {
+      governance: {
+        pr: {
+          trustedReviewers: ["maintainer-a"],
+          mergeReady: { minApprovals: 1, autoMerge: { cooldownMs: 0 } },
+        },
+      },
+    };
+
+    beforeEach(() => {
+      vi.mocked(loadRepositoryConfig).mockReset();
+      vi.mocked(evaluateMergeReadiness).mockReset();
+      vi.mocked(processAutoMerge).mockReset();
+    });
+
+    it("should start auto-merge when merge-ready is added", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("pull_request.labeled");
+      const octokit = createReviewOctokit();
+      const log = { info: vi.fn(), error: vi.fn() };
+      vi.mocked(loadRepositoryConfig).mockResolvedValueOnce(autoMergeConfig as any);
+      vi.mocked(processAutoMerge).mockResolvedValueOnce({ action: "merged" });
+
+      await handler!({ octokit, log, payload: labelPayload("labeled", LABELS.MERGE_READY) });
+
+      expect(processAutoMerge).toHaveBeenCalledWith(
+        expect.objectContaining({
+          client: octokit,
+          ref: { owner: "hivemoot", repo: "test-repo", prNumber: 12 },
+          repoConfig: autoMergeConfig,
+          currentLabels: [LABELS.IMPLEMENTATION, LABELS.MERGE_READY],
+          log,
+        })
+      );
+      expect(evaluateMergeReadiness).not.toHaveBeenCalled();
+    });
+
+    it("should not start auto-merge when the repository has not opted in", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("pull_request.labeled");
+      vi.mocked(loadRepositoryConfig).mockResolvedValueOnce({
+        governance: { pr: { trustedReviewers: ["maintainer-a"], mergeReady: { minApprovals: 1 } } },
+      } as any);
+
+      await handler!({
+        octokit: createReviewOctokit(),
+        log: { info: vi.fn(), error: vi.fn() },
+        payload: labelPayload("labeled", LABELS.MERGE_READY),
+      });
+
+      expect(processAutoMerge).not.toHaveBeenCalled();
+    });
+
+    it("should ignore merge-ready removal", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("pull_request.unlabeled");
+
+      await handler!({
+        octokit: createReviewOctokit(),
+        log: { info: vi.fn(), error: vi.fn() },
+        payload: labelPayload("unlabeled", LABELS.MERGE_READY),
+      });
+
+      expect(loadRepositoryConfig).not.toHaveBeenCalled();
+      expect(processAutoMerge).not.toHaveBeenCalled();
+    });
+
+    it("should re-evaluate merge-readiness when implementation is toggled", async () => {
+      const { handlers } = createWebhookHarness();
+      const handler = handlers.get("pull_request.labeled");
+      vi.mocked(loadRepositoryConfig).mockResolvedValueOnce(autoMergeConfig as any);
+
+      await handler!({
+        octokit: createReviewOctokit(),
+        log: { info: vi.fn(), error: vi.fn() },
+        payload: labelPayload("labeled", LABELS.IMPLEMENTATION),
+      });
+
+      expect(evaluateMergeReadiness).toHaveBeenCalledWith(
+        expect.objectContaining({ ref: { owner: "hivemoot", repo: "test-repo", prNumber: 12 } })
+      );
+      expect(processAutoMerge).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Health Check Endpoint", () => {
     const originalEnv = process.env;
 
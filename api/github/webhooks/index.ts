@@ -2,9 +2,11 @@ import { createNodeMiddleware, createProbot, Probot } from "probot";
 import type { IncomingMessage, ServerResponse } from "http";
 import {
   LABELS,
+  MENTION_NAMES,
   MESSAGES,
   PR_MESSAGES,
   isLabelMatch,
+  normalizeMentionName,
 } from "../../config.js";
 import {
   createIssueOperations,
@@ -12,20 +14,30 @@ import {
   createRepositoryLabelService,
   createGovernanceService,
   loadRepositoryConfig,
+  resolveProposalsConfig,
+  getExpectedRoles,
   getOpenPRsForIssue,
   evaluateMergeReadiness,
+  processAutoMerge,
 } from "../../lib/index.js";
 import {
   getLinkedIssues,
 } from "../../lib/graphql-queries.js";
 import { hasSameRepoClosingKeywordRef } from "../../lib/closing-keywords.js";
+import { isAppOwnedIssue } from "../../lib/bot-comments.js";
 import { filterByLabel } from "../../lib/types.js";
 import { validateEnv, getAppId } from "../../lib/env-validation.js";
 import {
   processImplementationIntake,
   recalculateLeaderboardForPR,
 } from "../../lib/implementation-intake.js";
-import { parseCommand, executeCommand } from "../../lib/commands/index.js";
+import {
+  hasMentionCommand,
+  parseCommands,
+  executeCommands,
+  type CommandBatchContext,
+  type ParsedCommand,
+} from "../../lib/commands/index.js";
 import { getLLMReadiness } from "../../lib/llm/provider.js";
 
 /**
@@ -34,7 +46,8 @@ import { getLLMReadiness } from "../../lib/llm/provider.js";
  * Handles GitHub webhooks for AI agent community governance:
  * - New issues: Add `hivemoot:discussion` label + welcome message
  * - New PRs: Link validation, implementation intake, and leaderboard tracking
- * - Issue/PR comments: @mention + /command dispatch and PR intake updates
+ * - Issue/PR comments: @mention + /command dispatch (new and edited comments,
+ *   PR reviews, inline review comments) and PR intake updates
  * - PR lifecycle: Merge outcomes, competing PR closure, stale management
  * - Reviews & CI: Leaderboard recalculation, merge-readiness evaluation
  * - Installation: Label bootstrapping for new repositories
@@ -235,9 +248,69 @@ async function ensureLabelsForRepositories(
   }
 }
 
+/**
+ * Normalize webhook label payloads (objects or bare names) for command context.
+ */
+function toIssueLabels(
+  labels: ReadonlyArray<string | { name?: string }> | undefined,
+): Array<{ name: string }> {
+  return labels?.map((l) => (typeof l === "string" ? { name: l } : { name: l.name ?? "" })) ?? [];
+}
+
+/**
+ * Whether two parsed command lists are identical (same verbs and arguments, in order).
+ */
+function sameCommands(a: ParsedCommand[], b: ParsedCommand[]): boolean {
+  return a.length === b.length
+    && a.every((cmd, i) => cmd.verb === b[i].verb && cmd.freeText === b[i].freeText);
+}
+
+/**
+ * Fetch the GitHub App's slug so commands also answer to `@<slug>`.
+ * Returns null (logged) when the app can't be queried.
+ */
+async function fetchAppSlug(probotApp: Probot): Promise<string | null> {
+  try {
+    const octokit = await probotApp.auth();
+    const { data } = await octokit.rest.apps.getAuthenticated();
+    return data?.slug ? normalizeMentionName(data.slug) : null;
+  } catch (error) {
+    probotApp.log.warn({ err: error }, "Failed to fetch app slug — answering to configured mention names only");
+    return null;
+  }
+}
+
 export function app(probotApp: Probot): void {
   probotApp.log.info("Queen bot initialized");
 
+  // Fetched once at startup: MENTION_NAMES first (shown in replies), then the slug
+  const mentionNames: Promise<string[]> = fetchAppSlug(probotApp).then((slug) =>
+    slug && !MENTION_NAMES.includes(slug) ? [...MENTION_NAMES, slug] : [...MENTION_NAMES],
+  );
+
+  /**
+   * Parse the commands in a comment or review body, returning them with the
+   * mention names they were matched against.
+   */
+  async function findCommands(
+    octokit: Parameters<typeof loadRepositoryConfig>[0],
+    owner: string,
+    repo: string,
+    body: string,
+  ): Promise<{ commands: ParsedCommand[]; names: string[] }> {
+    const names = await mentionNames;
+    const commands = parseCommands(body, names);
+    if (commands.length > 0 || !hasMentionCommand(body)) {
+      return { commands, names };
+    }
+
+    // Per-repo aliases live in the repo config — only load it when a line
+    // holds a command for a mention the installation-wide names didn't match
+    const { mentions } = await loadRepositoryConfig(octokit, owner, repo);
+    const withAliases = [...names, ...mentions.aliases];
+    return { commands: parseCommands(body, withAliases), names: withAliases };
+  }
+
   /**
    * Bootstrap required labels when the app is first installed.
    */
@@ -261,22 +334,33 @@ export function app(probotApp: Probot): void {
   });
 
   probotApp.on("issues.opened", async (context) => {
-    const { number } = context.payload.issue;
+    const { number, labels, performed_via_github_app } = context.payload.issue;
     const { owner, repo, fullName } = getRepoContext(context.payload.repository);
+    const appId = getAppId();
+
+    // The bot's own issues (e.g. the Colony Journal) are not proposals
+    if (isAppOwnedIssue(appId, performed_via_github_app?.id)) {
+      context.log.info(`Skipping issue #${number} in ${fullName} — opened by the app`);
+      return;
+    }
+
     context.log.info(`Processing issue #${number} in ${fullName}`);
 
     try {
-      const appId = getAppId();
       const issues = createIssueOperations(context.octokit, { appId });
       const governance = createGovernanceService(issues);
       const repoConfig = await loadRepositoryConfig(context.octokit, owner, repo);
-      const hasAutomaticDiscussion = repoConfig.governance.proposals.discussion.exits.some(
-        (exit) => exit.type === "auto"
-      );
+      // A governance profile selected by the issue's labels brings its own exits
+      const proposals = resolveProposalsConfig(repoConfig, labels ?? []);
+      const hasAutomaticDiscussion = proposals.discussion.exits.some((exit) => exit.type === "auto");
       const issueWelcomeMessage =
         hasAutomaticDiscussion ? MESSAGES.ISSUE_WELCOME_VOTING : MESSAGES.ISSUE_WELCOME_MANUAL;
 
-      await governance.startDiscussion({ owner, repo, issueNumber: number }, issueWelcomeMessage);
+      await governance.startDiscussion(
+        { owner, repo, issueNumber: number },
+        issueWelcomeMessage,
+        getExpectedRoles(repoConfig, proposals),
+      );
     } catch (error) {
       context.log.error({ err: error, issue: number, repo: fullName }, "Failed to process issue");
       throw error;
@@ -486,24 +570,21 @@ export function app(probotApp: Probot): void {
 
       // Parse for @mention + /command before the PR-only filter,
       // so commands work on both issues and PRs
-      const parsed = parseCommand(comment.body ?? "");
-      if (parsed) {
-        await executeCommand({
-          octokit: context.octokit as Parameters<typeof executeCommand>[0]["octokit"],
+      const { commands, names } = await findCommands(context.octokit, owner, repo, comment.body ?? "");
+      if (commands.length > 0) {
+        await executeCommands({
+          octokit: context.octokit as CommandBatchContext["octokit"],
           owner,
           repo,
           issueNumber: issue.number,
           commentId: comment.id,
           senderLogin: comment.user.login,
-          verb: parsed.verb,
-          freeText: parsed.freeText,
-          issueLabels: issue.labels?.map((l) =>
-            typeof l === "string" ? { name: l } : { name: l.name ?? "" },
-          ) ?? [],
+          issueLabels: toIssueLabels(issue.labels),
           isPullRequest: !!issue.pull_request,
           appId,
+          mentionName: names[0],
           log: context.log,
-        });
+        }, commands);
         return;
       }
 
@@ -540,6 +621,85 @@ export function app(probotApp: Probot): void {
     }
   });
 
+  /**
+   * Handle edited comments — run commands only when the edit changed them
+   * (e.g. a typo fix). Comments whose commands already ran are skipped by
+   * the 👀 reaction check in executeCommands; a rejection removes the 👀.
+   */
+  probotApp.on("issue_comment.edited", async (context) => {
+    const { issue, comment, changes } = context.payload;
+    const { owner, repo, fullName } = getRepoContext(context.payload.repository);
+
+    try {
+      const appId = getAppId();
+
+      // Skip bot's own comments (leaderboards, status updates, etc.)
+      if (comment.performed_via_github_app?.id === appId) {
+        return;
+      }
+
+      const { commands, names } = await findCommands(context.octokit, owner, repo, comment.body ?? "");
+      if (commands.length === 0) {
+        return;
+      }
+
+      const previous = changes.body ? parseCommands(changes.body.from, names) : [];
+      if (sameCommands(previous, commands)) {
+        return;
+      }
+
+      await executeCommands({
+        octokit: context.octokit as CommandBatchContext["octokit"],
+        owner,
+        repo,
+        issueNumber: issue.number,
+        commentId: comment.id,
+        senderLogin: comment.user.login,
+        issueLabels: toIssueLabels(issue.labels),
+        isPullRequest: !!issue.pull_request,
+        appId,
+        mentionName: names[0],
+        log: context.log,
+      }, commands);
+    } catch (error) {
+      context.log.error({ err: error, issue: issue.number, repo: fullName }, "Failed to process edited comment");
+      throw error;
+    }
+  });
+
+  /**
+   * Handle inline PR review comments — commands only.
+   */
+  probotApp.on("pull_request_review_comment.created", async (context) => {
+    const { pull_request, comment } = context.payload;
+    const { owner, repo, fullName } = getRepoContext(context.payload.repository);
+
+    try {
+      const { commands, names } = await findCommands(context.octokit, owner, repo, comment.body);
+      if (commands.length === 0) {
+        return;
+      }
+
+      await executeCommands({
+        octokit: context.octokit as CommandBatchContext["octokit"],
+        owner,
+        repo,
+        issueNumber: pull_request.number,
+        commentId: comment.id,
+        source: "review_comment",
+        senderLogin: comment.user.login,
+        issueLabels: toIssueLabels(pull_request.labels),
+        isPullRequest: true,
+        appId: getAppId(),
+        mentionName: names[0],
+        log: context.log,
+      }, commands);
+    } catch (error) {
+      context.log.error({ err: error, pr: pull_request.number, repo: fullName }, "Failed to process review comment");
+      throw error;
+    }
+  });
+
   /**
    * Handle PR closed - if merged, close competing PRs and mark issue as implemented.
    * If closed without merge, recalculate leaderboard to remove the closed PR.
@@ -605,9 +765,13 @@ export function app(probotApp: Probot): void {
     }
   });
 
-  /** Handle PR review submitted - update leaderboard, run intake on approvals, evaluate merge-readiness */
+  /**
+   * Handle PR review submitted - update leaderboard, run intake on approvals, evaluate merge-readiness,
+   * then run any commands in the review body.
+   */
   probotApp.on("pull_request_review.submitted", async (context) => {
     const { number } = context.payload.pull_request;
+    const { review } = context.payload;
     const { owner, repo, fullName } = getRepoContext(context.payload.repository);
     const isApproval = context.payload.review.state === REVIEW_STATE.APPROVED;
 
@@ -654,6 +818,26 @@ export function app(probotApp: Probot): void {
         trustedReviewers: repoConfig.governance.pr.trustedReviewers,
         log: context.log,
       });
+
+      const { commands, names } = await findCommands(context.octokit, owner, repo, review.body ?? "");
+      if (commands.length > 0) {
+        // Merge-readiness may have just changed the labels in the payload
+        const labels = await prs.getLabels({ owner, repo, prNumber: number });
+        await executeCommands({
+          octokit: context.octokit as CommandBatchContext["octokit"],
+          owner,
+          repo,
+          issueNumber: number,
+          commentId: review.id,
+          source: "review",
+          senderLogin: review.user.login,
+          issueLabels: labels.map((name) => ({ name })),
+          isPullRequest: true,
+          appId,
+          mentionName: names[0],
+          log: context.log,
+        }, commands);
+      }
     } catch (error) {
       context.log.error({ err: error, pr: number, repo: fullName }, "Failed to process PR review");
       throw error;
@@ -693,9 +877,12 @@ export function app(probotApp: Probot): void {
   /**
    * Handle label changes — re-evaluate merge-readiness when implementation label is toggled.
    * Adding `implementation` may qualify the PR; removing it should strip `merge-ready`.
+   * Adding `merge-ready` starts auto-merge when the repository opts in.
    */
   probotApp.on(["pull_request.labeled", "pull_request.unlabeled"], async (context) => {
-    if (!isLabelMatch(context.payload.label?.name, LABELS.IMPLEMENTATION)) return;
+    const labelName = context.payload.label?.name;
+    const startsAutoMerge = context.payload.action === "labeled" && isLabelMatch(labelName, LABELS.MERGE_READY);
+    if (!isLabelMatch(labelName, LABELS.IMPLEMENTATION) && !startsAutoMerge) return;
 
     const { number } = context.payload.pull_request;
     const { owner, repo, fullName } = getRepoContext(context.payload.repository);
@@ -709,6 +896,20 @@ export function app(probotApp: Probot): void {
         (l: { name: string }) => l.name
       );
 
+      if (startsAutoMerge) {
+        if (!repoConfig.governance.pr.mergeReady?.autoMerge) return;
+        const result = await processAutoMerge({
+          client: context.octokit,
+          prs,
+          ref: { owner, repo, prNumber: number },
+          repoConfig,
+          currentLabels: currentLabels ?? [],
+          log: context.log,
+        });
+        context.log.info(`Auto-merge for PR #${number} in ${fullName}: ${result.action}`);
+        return;
+      }
+
       await evaluateMergeReadiness({
         prs,
         ref: { owner, repo, prNumber: number },
@@ -749,6 +950,7 @@ export function app(probotApp: Probot): void {
             config: repoConfig.governance.pr.mergeReady,
             trustedReviewers: repoConfig.governance.pr.trustedReviewers,
             headSha,
+            baseRef: pr.base.ref,
             log: context.log,
           });
         } catch (error) {
@@ -794,6 +996,7 @@ export function app(probotApp: Probot): void {
             config: repoConfig.governance.pr.mergeReady,
             trustedReviewers: repoConfig.governance.pr.trustedReviewers,
             headSha,
+            baseRef: pr.base.ref,
             log: context.log,
           });
         } catch (error) {
@@ -851,6 +1054,7 @@ export function app(probotApp: Probot): void {
             config: repoConfig.governance.pr.mergeReady,
             trustedReviewers: repoConfig.governance.pr.trustedReviewers,
             headSha: sha,
+            baseRef: pr.base.ref,
             log: context.log,
           });
         } catch (error) {
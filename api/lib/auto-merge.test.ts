@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { cancelAutoMerge, processAutoMerge } from "./auto-merge.js";
+import { mergePullRequest } from "./pr-merge.js";
+import { parseMetadata } from "./bot-comments.js";
+import type { AutoMergeMetadata } from "./bot-comments.js";
+import type { PROperations } from "./pr-operations.js";
+import type { EffectiveConfig } from "./repo-config.js";
+
+vi.mock("./pr-merge.js", () => ({
+  mergePullRequest: vi.fn(),
+}));
+
+/**
+ * Tests for auto-merge
+ *
+ * Verifies the comment-driven state machine: announce → wait for the
+ * cool-down → merge, plus cancellation and failure handling.
+ */
+
+const ref = { owner: "org", repo: "repo", prNumber: 7 };
+const NOW = new Date("2026-03-01T12:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+function createPRs(overrides: { headSha?: string; state?: AutoMergeMetadata | null; open?: boolean } = {}) {
+  return {
+    get: vi.fn().mockResolvedValue({
+      number: 7,
+      state: overrides.open === false ? "closed" : "open",
+      merged: false,
+      headSha: overrides.headSha ?? "sha-1",
+    }),
+    getAutoMergeState: vi.fn().mockResolvedValue(overrides.state ?? null),
+    comment: vi.fn().mockResolvedValue(undefined),
+  } as unknown as PROperations & {
+    comment: ReturnType<typeof vi.fn>;
+  };
+}
+
+function createConfig(cooldownMs: number | null): EffectiveConfig {
+  return {
+    governance: {
+      pr: {
+        mergeReady: cooldownMs === null ? { minApprovals: 1 } : { minApprovals: 1, autoMerge: { cooldownMs } },
+      },
+    },
+  } as unknown as EffectiveConfig;
+}
+
+function pending(headSha: string, mergeAt: Date): AutoMergeMetadata {
+  return {
+    version: 1,
+    type: "auto-merge",
+    issueNumber: 7,
+    createdAt: NOW.toISOString(),
+    state: "pending",
+    headSha,
+    mergeAt: mergeAt.toISOString(),
+  };
+}
+
+const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+const client = {} as never;
+const MERGE_READY_LABELS = ["hivemoot:candidate", "hivemoot:merge-ready"];
+
+function run(prs: PROperations, repoConfig: EffectiveConfig, labels = MERGE_READY_LABELS) {
+  return processAutoMerge({ client, prs, ref, repoConfig, currentLabels: labels, log, now: NOW });
+}
+
+function postedMetadata(prs: { comment: ReturnType<typeof vi.fn> }, call = 0) {
+  return parseMetadata(prs.comment.mock.calls[call][1]) as AutoMergeMetadata;
+}
+
+describe("processAutoMerge", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mergePullRequest).mockResolvedValue({
+      status: "merged",
+      message: "Merged.",
+      report: "## 🐝 Auto-merge Preflight for #7",
+    });
+  });
+
+  it("should skip when auto-merge is not enabled", async () => {
+    const prs = createPRs();
+    const result = await run(prs, createConfig(null));
+
+    expect(result).toEqual({ action: "skipped", reason: "auto-merge disabled" });
+    expect(prs.get).not.toHaveBeenCalled();
+  });
+
+  it("should skip PRs without the merge-ready label", async () => {
+    const prs = createPRs();
+    const result = await run(prs, createConfig(HOUR), ["hivemoot:candidate"]);
+
+    expect(result).toEqual({ action: "skipped", reason: "not merge-ready" });
+  });
+
+  it("should skip closed PRs", async () => {
+    const prs = createPRs({ open: false });
+    const result = await run(prs, createConfig(HOUR));
+
+    expect(result).toEqual({ action: "skipped", reason: "PR closed" });
+    expect(prs.comment).not.toHaveBeenCalled();
+  });
+
+  it("should announce the pending merge and wait out the cool-down", async () => {
+    const prs = createPRs();
+    const result = await run(prs, createConfig(HOUR));
+
+    expect(result).toEqual({ action: "announced", mergeAt: new Date(NOW.getTime() + HOUR) });
+    expect(prs.comment.mock.calls[0][1]).toContain("Auto-merge Pending");
+    expect(prs.comment.mock.calls[0][1]).toContain("/cancel");
+    expect(postedMetadata(prs)).toMatchObject({
+      type: "auto-merge",
+      state: "pending",
+      headSha: "sha-1",
+      mergeAt: "2026-03-01T13:00:00.000Z",
+    });
+    expect(mergePullRequest).not.toHaveBeenCalled();
+  });
+
+  it("should keep waiting while the cool-down has not elapsed", async () => {
+    const mergeAt = new Date(NOW.getTime() + 10 * 60 * 1000);
+    const prs = createPRs({ state: pending("sha-1", mergeAt) });
+    const result = await run(prs, createConfig(HOUR));
+
+    expect(result).toEqual({ action: "waiting", mergeAt });
+    expect(prs.comment).not.toHaveBeenCalled();
+  });
+
+  it("should merge once the cool-down has elapsed", async () => {
+    const prs = createPRs({ state: pending("sha-1", new Date(NOW.getTime() - 1)) });
+    const result = await run(prs, createConfig(HOUR));
+
+    expect(result).toEqual({ action: "merged" });
+    expect(mergePullRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ref,
+        trigger: "auto-merge",
+        title: "Auto-merge Preflight",
+        currentLabels: MERGE_READY_LABELS,
+      })
+    );
+    expect(vi.mocked(mergePullRequest).mock.calls[0][0].method).toBeUndefined();
+    expect(prs.comment.mock.calls[0][1]).toContain("Auto-merge Preflight for #7");
+  });
+
+  it("should merge right after announcing when there is no cool-down", async () => {
+    const prs = createPRs();
+    const result = await run(prs, createConfig(0));
+
+    expect(result).toEqual({ action: "merged" });
+    expect(prs.comment).toHaveBeenCalledTimes(2);
+    expect(prs.comment.mock.calls[0][1]).toContain("Merging now");
+  });
+
+  it("should report merge queue entries as queued", async () => {
+    vi.mocked(mergePullRequest).mockResolvedValue({
+      status: "queued",
+      message: "Added to the merge queue.",
+      report: "queued",
+    });
+    const prs = createPRs({ state: pending("sha-1", NOW) });
+
+    expect(await run(prs, createConfig(HOUR))).toEqual({ action: "queued" });
+  });
+
+  it("should re-announce and restart the cool-down after a new push", async () => {
+    const prs = createPRs({ headSha: "sha-2", state: pending("sha-1", new Date(NOW.getTime() - HOUR)) });
+    const result = await run(prs, createConfig(HOUR));
+
+    expect(result).toEqual({ action: "announced", mergeAt: new Date(NOW.getTime() + HOUR) });
+    expect(postedMetadata(prs)).toMatchObject({ state: "pending", headSha: "sha-2" });
+    expect(mergePullRequest).not.toHaveBeenCalled();
+  });
+
+  it("should record a failure when the final preflight blocks the merge", async () => {
+    vi.mocked(mergePullRequest).mockResolvedValue({ status: "blocked", report: "Checks failing" });
+    const prs = createPRs({ state: pending("sha-1", NOW) });
+    const result = await run(prs, createConfig(HOUR));
+
+    expect(result).toEqual({ action: "failed" });
+    expect(prs.comment.mock.calls[0][1]).toContain("Auto-merge Blocked");
+    expect(prs.comment.mock.calls[0][1]).toContain("Checks failing");
+    expect(postedMetadata(prs)).toMatchObject({ state: "failed", headSha: "sha-1" });
+  });
+
+  it("should retry a transient failure instead of recording it", async () => {
+    vi.mocked(mergePullRequest).mockResolvedValue({ status: "blocked", report: "Generator down", transient: true });
+    const prs = createPRs({ state: pending("sha-1", NOW) });
+    const result = await run(prs, createConfig(0));
+
+    const retryAt = new Date(NOW.getTime() + 30 * 60 * 1000);
+    expect(result).toEqual({ action: "retrying", mergeAt: retryAt });
+    expect(prs.comment.mock.calls[0][1]).toContain("Auto-merge Retrying");
+    expect(prs.comment.mock.calls[0][1]).toContain("Generator down");
+    expect(postedMetadata(prs)).toMatchObject({
+      state: "pending",
+      headSha: "sha-1",
+      mergeAt: retryAt.toISOString(),
+    });
+  });
+
+  it("should wait at least the cool-down before retrying", async () => {
+    vi.mocked(mergePullRequest).mockResolvedValue({ status: "blocked", report: "API error", transient: true });
+    const prs = createPRs({ state: pending("sha-1", NOW) });
+    const result = await run(prs, createConfig(2 * HOUR));
+
+    expect(result).toEqual({ action: "retrying", mergeAt: new Date(NOW.getTime() + 2 * HOUR) });
+  });
+
+  it("should not retry a failed merge at the same head", async () => {
+    const prs = createPRs({ state: { ...pending("sha-1", NOW), state: "failed" } });
+    const result = await run(prs, createConfig(HOUR));
+
+    expect(result).toEqual({ action: "skipped", reason: "blocked at this head" });
+    expect(prs.comment).not.toHaveBeenCalled();
+  });
+
+  it("should re-arm a failed merge after a new push", async () => {
+    const prs = createPRs({ headSha: "sha-2", state: { ...pending("sha-1", NOW), state: "failed" } });
+    const result = await run(prs, createConfig(HOUR));
+
+    expect(result.action).toBe("announced");
+  });
+
+  it("should stay cancelled across pushes", async () => {
+    const prs = createPRs({
+      headSha: "sha-2",
+      state: { ...pending("sha-1", NOW), state: "cancelled", cancelledBy: "alice" },
+    });
+    const result = await run(prs, createConfig(HOUR));
+
+    expect(result).toEqual({ action: "skipped", reason: "cancelled" });
+    expect(prs.comment).not.toHaveBeenCalled();
+  });
+});
+
+describe("cancelAutoMerge", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should post a cancelled-state comment", async () => {
+    const prs = createPRs({ state: pending("sha-1", NOW) });
+    const result = await cancelAutoMerge(prs, ref, "alice");
+
+    expect(result).toEqual({ cancelled: true });
+    expect(prs.comment.mock.calls[0][1]).toContain("@alice cancelled auto-merge");
+    expect(postedMetadata(prs)).toMatchObject({ state: "cancelled", headSha: "sha-1", cancelledBy: "alice" });
+  });
+
+  it("should allow cancelling before the merge is announced", async () => {
+    const prs = createPRs();
+
+    expect(await cancelAutoMerge(prs, ref, "alice")).toEqual({ cancelled: true });
+  });
+
+  it("should reject when already cancelled", async () => {
+    const prs = createPRs({ state: { ...pending("sha-1", NOW), state: "cancelled" } });
+    const result = await cancelAutoMerge(prs, ref, "alice");
+
+    expect(result).toEqual({ cancelled: false, reason: "Auto-merge is already cancelled for this pull request." });
+    expect(prs.comment).not.toHaveBeenCalled();
+  });
+
+  it("should reject on closed PRs", async () => {
+    const prs = createPRs({ open: false });
+
+    expect((await cancelAutoMerge(prs, ref, "alice")).cancelled).toBe(false);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Auto-Merge
+ *
+ * Opt-in (`governance.pr.mergeReady.autoMerge`): once a PR carries the
+ * `merge-ready` label, the bot announces a pending merge, waits out the
+ * configured cool-down, and then runs the same merge flow as `/merge`
+ * (preflight double-check, LLM commit message, merge or merge queue).
+ *
+ * Driven by:
+ * - The `pull_request.labeled` webhook when `merge-ready` is added
+ * - The scheduled merge-ready reconciliation, which runs due merges after
+ *   the cool-down and catches missed webhooks
+ *
+ * State lives in auto-merge metadata comments on the PR (latest wins):
+ * - pending: announced for a head SHA; a new push re-announces and restarts the cool-down
+ * - cancelled: `/cancel` ran — the PR is left for a manual `/merge`
+ * - failed: preflight blocked the merge at this head SHA; a new push re-arms
+ *
+ * Transient failures (commit message generation, GitHub API errors, checks
+ * changing mid-merge) don't record `failed`: the bot re-announces a pending
+ * merge and retries after the cool-down, at least RETRY_DELAY_MS later.
+ */
+
+import { LABELS, MENTION_NAMES, SIGNATURE, isLabelMatch } from "../config.js";
+import { buildAutoMergeComment } from "./bot-comments.js";
+import { mergePullRequest } from "./pr-merge.js";
+import type { MergeClient, MergeFlowLogger } from "./pr-merge.js";
+import type { PROperations } from "./pr-operations.js";
+import type { EffectiveConfig } from "./repo-config.js";
+import type { PRRef } from "./types.js";
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────────────────────
+
+export interface AutoMergeParams {
+  client: MergeClient;
+  prs: PROperations;
+  ref: PRRef;
+  repoConfig: EffectiveConfig;
+  /** Current PR labels (pre-fetched from the webhook payload or PR search). */
+  currentLabels: string[];
+  log: MergeFlowLogger;
+  /** Override for tests. */
+  now?: Date;
+}
+
+export type AutoMergeResult =
+  | { action: "skipped"; reason: string }
+  | { action: "announced"; mergeAt: Date }
+  | { action: "waiting"; mergeAt: Date }
+  | { action: "retrying"; mergeAt: Date }
+  | { action: "merged" }
+  | { action: "queued" }
+  | { action: "failed" };
+
+export type CancelAutoMergeResult =
+  | { cancelled: true }
+  | { cancelled: false; reason: string };
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Constants
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Minimum wait before retrying after a transient failure. Matches the
+ * merge-ready reconciliation schedule, so check webhooks can't turn an
+ * outage into a retry (and a comment) per event.
+ */
+const RETRY_DELAY_MS = 30 * 60 * 1000;
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Auto-Merge
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Advance a PR's auto-merge: announce it, wait for the cool-down, or merge.
+ *
+ * Idempotent: safe to call on every merge-readiness evaluation. With no
+ * cool-down the merge runs right after the announcement.
+ */
+export async function processAutoMerge(params: AutoMergeParams): Promise<AutoMergeResult> {
+  const { prs, ref, repoConfig, currentLabels, log } = params;
+  const autoMerge = repoConfig.governance.pr.mergeReady?.autoMerge;
+  const now = params.now ?? new Date();
+
+  if (!autoMerge) {
+    return { action: "skipped", reason: "auto-merge disabled" };
+  }
+  if (!currentLabels.some((l) => isLabelMatch(l, LABELS.MERGE_READY))) {
+    return { action: "skipped", reason: "not merge-ready" };
+  }
+
+  const [pr, state] = await Promise.all([prs.get(ref), prs.getAutoMergeState(ref)]);
+  if (pr.merged || pr.state !== "open") {
+    return { action: "skipped", reason: "PR closed" };
+  }
+  if (state?.state === "cancelled") {
+    return { action: "skipped", reason: "cancelled" };
+  }
+  if (state?.state === "failed" && state.headSha === pr.headSha) {
+    return { action: "skipped", reason: "blocked at this head" };
+  }
+
+  let mergeAt: Date;
+  if (state?.state === "pending" && state.headSha === pr.headSha && state.mergeAt) {
+    mergeAt = new Date(state.mergeAt);
+  } else {
+    mergeAt = new Date(now.getTime() + autoMerge.cooldownMs);
+    await prs.comment(
+      ref,
+      buildAutoMergeComment(pendingMessage(mergeAt, autoMerge.cooldownMs), ref.prNumber, {
+        state: "pending",
+        headSha: pr.headSha,
+        mergeAt: mergeAt.toISOString(),
+      })
+    );
+    log.info(`[PR #${ref.prNumber}] Auto-merge announced for ${mergeAt.toISOString()}`);
+    if (autoMerge.cooldownMs > 0) {
+      return { action: "announced", mergeAt };
+    }
+  }
+
+  if (now.getTime() < mergeAt.getTime()) {
+    return { action: "waiting", mergeAt };
+  }
+
+  const result = await mergePullRequest({
+    client: params.client,
+    prs,
+    ref,
+    repoConfig,
+    currentLabels,
+    trigger: "auto-merge",
+    title: "Auto-merge Preflight",
+    log,
+  });
+
+  if (result.status === "blocked" && result.transient) {
+    const retryAt = new Date(now.getTime() + Math.max(autoMerge.cooldownMs, RETRY_DELAY_MS));
+    await prs.comment(
+      ref,
+      buildAutoMergeComment(retryMessage(result.report, retryAt), ref.prNumber, {
+        state: "pending",
+        headSha: pr.headSha,
+        mergeAt: retryAt.toISOString(),
+      })
+    );
+    log.info(`[PR #${ref.prNumber}] Auto-merge failed transiently; retrying at ${retryAt.toISOString()}`);
+    return { action: "retrying", mergeAt: retryAt };
+  }
+
+  if (result.status === "blocked") {
+    await prs.comment(
+      ref,
+      buildAutoMergeComment(failedMessage(result.report), ref.prNumber, {
+        state: "failed",
+        headSha: pr.headSha,
+      })
+    );
+    log.info(`[PR #${ref.prNumber}] Auto-merge blocked`);
+    return { action: "failed" };
+  }
+
+  await prs.comment(ref, `${result.report}${SIGNATURE}`);
+  log.info(`[PR #${ref.prNumber}] Auto-merge: ${result.message}`);
+  return { action: result.status };
+}
+
+/**
+ * Cancel auto-merge for a PR (the /cancel command). Also works before the
+ * merge is announced, so a PR can be opted out ahead of time.
+ */
+export async function cancelAutoMerge(
+  prs: PROperations,
+  ref: PRRef,
+  cancelledBy: string
+): Promise<CancelAutoMergeResult> {
+  const [pr, state] = await Promise.all([prs.get(ref), prs.getAutoMergeState(ref)]);
+  if (pr.merged || pr.state !== "open") {
+    return { cancelled: false, reason: "This pull request is already closed or merged." };
+  }
+  if (state?.state === "cancelled") {
+    return { cancelled: false, reason: "Auto-merge is already cancelled for this pull request." };
+  }
+
+  await prs.comment(
+    ref,
+    buildAutoMergeComment(
+      `# 🐝 Auto-merge Cancelled 🛑\n\n@${cancelledBy} cancelled auto-merge. Merge manually with \`/merge\` when ready.${SIGNATURE}`,
+      ref.prNumber,
+      { state: "cancelled", headSha: pr.headSha, cancelledBy }
+    )
+  );
+  return { cancelled: true };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Messages
+// ───────────────────────────────────────────────────────────────────────────────
+
+function pendingMessage(mergeAt: Date, cooldownMs: number): string {
+  const when = cooldownMs > 0 ? `after **${formatUtc(mergeAt)}**` : "now";
+  return `# 🐝 Auto-merge Pending ⏳
+
+All hard preflight checks pass. Merging ${when}, after one final preflight check.
+
+To stop it, comment \`@${MENTION_NAMES[0]} /cancel\`.${SIGNATURE}`;
+}
+
+function retryMessage(report: string, retryAt: Date): string {
+  return `# 🐝 Auto-merge Retrying 🔁
+
+${report}
+
+This looks temporary. Auto-merge retries after **${formatUtc(retryAt)}** if the PR is still merge-ready.
+
+To stop it, comment \`@${MENTION_NAMES[0]} /cancel\`.${SIGNATURE}`;
+}
+
+function failedMessage(report: string): string {
+  return `# 🐝 Auto-merge Blocked 🚧
+
+${report}
+
+Auto-merge resumes after the next push once the PR is merge-ready again, or merge manually with \`/merge\`.${SIGNATURE}`;
+}
+
+/**
+ * Format a date as e.g. "Feb 16, 2026, 14:26 UTC".
+ */
+function formatUtc(date: Date): string {
+  return date.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+    timeZone: "UTC",
+    timeZoneName: "short",
+  });
+}
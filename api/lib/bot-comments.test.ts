@@ -17,20 +17,27 @@ import {
   buildAlignmentComment,
   buildHumanHelpComment,
   buildNotificationComment,
+  buildStatusComment,
+  buildExtensionComment,
+  buildAutoMergeComment,
   isVotingComment,
   isLeaderboardComment,
   isAlignmentComment,
 
   isHumanHelpComment,
   isNotificationComment,
+  isAppOwnedIssue,
   selectCurrentVotingComment,
+  createJournalMetadata,
   createStandupMetadata,
+  createRetroMetadata,
   generateMetadataTag,
   type CommentMetadata,
   type VotingMetadata,
   type HumanHelpMetadata,
   type NotificationMetadata,
   type StandupMetadata,
+  type RetroMetadata,
   type VotingCommentInfo,
 } from "./bot-comments.js";
 
@@ -300,6 +307,74 @@ describe("buildHumanHelpComment", () => {
   });
 });
 
+describe("buildStatusComment", () => {
+  it("should round-trip the outcome and nested vote audit through parseMetadata", () => {
+    const audit = [
+      { user: "alice", reactions: ["+1" as const], votedAt: "2024-01-20T11:00:00Z", status: "counted" as const },
+      { user: "bob", reactions: ["+1" as const, "-1" as const], status: "discarded" as const },
+      { user: "carol", reactions: [], status: "missing" as const },
+    ];
+    const result = buildStatusComment("Outcome content", 42, { outcome: "rejected", audit });
+
+    expect(result).toMatch(/^<!-- hivemoot-metadata:/);
+    expect(result).toContain("Outcome content");
+    expect(parseMetadata(result)).toMatchObject({ type: "status", issueNumber: 42, outcome: "rejected", audit });
+  });
+
+  it("should reject status metadata whose audit is not an array", () => {
+    const body = `<!-- hivemoot-metadata: {"version":1,"type":"status","audit":{"user":"alice"},"createdAt":"2024-01-15T10:00:00.000Z","issueNumber":42} -->`;
+    expect(parseMetadata(body)).toBeNull();
+  });
+});
+
+describe("buildExtensionComment", () => {
+  it("should round-trip the extension through parseMetadata", () => {
+    const result = buildExtensionComment("Extended", 42, {
+      phase: "hivemoot:voting",
+      extensionMs: 12 * 60 * 60 * 1000,
+      extendedBy: "maintainer",
+    });
+
+    expect(result).toMatch(/^<!-- hivemoot-metadata:/);
+    expect(parseMetadata(result)).toMatchObject({
+      type: "extension",
+      issueNumber: 42,
+      phase: "hivemoot:voting",
+      extensionMs: 12 * 60 * 60 * 1000,
+      extendedBy: "maintainer",
+    });
+  });
+
+  it("should reject extension metadata without a numeric extensionMs", () => {
+    const body = `<!-- hivemoot-metadata: {"version":1,"type":"extension","phase":"hivemoot:voting","extensionMs":"12h","createdAt":"2024-01-15T10:00:00.000Z","issueNumber":42} -->`;
+    expect(parseMetadata(body)).toBeNull();
+  });
+});
+
+describe("buildAutoMergeComment", () => {
+  it("should round-trip the auto-merge state through parseMetadata", () => {
+    const result = buildAutoMergeComment("Pending", 7, {
+      state: "pending",
+      headSha: "abc123",
+      mergeAt: "2024-01-15T11:00:00.000Z",
+    });
+
+    expect(result).toMatch(/^<!-- hivemoot-metadata:/);
+    expect(parseMetadata(result)).toMatchObject({
+      type: "auto-merge",
+      issueNumber: 7,
+      state: "pending",
+      headSha: "abc123",
+      mergeAt: "2024-01-15T11:00:00.000Z",
+    });
+  });
+
+  it("should reject auto-merge metadata with an unknown state", () => {
+    const body = `<!-- hivemoot-metadata: {"version":1,"type":"auto-merge","state":"paused","headSha":"abc123","createdAt":"2024-01-15T10:00:00.000Z","issueNumber":7} -->`;
+    expect(parseMetadata(body)).toBeNull();
+  });
+});
+
 describe("parseMetadata", () => {
   it("should parse valid voting metadata", () => {
     const body = `<!-- hivemoot-metadata: {"version":1,"type":"voting","cycle":2,"createdAt":"2024-01-15T10:00:00.000Z","issueNumber":42} -->
@@ -499,6 +574,18 @@ ${SIGNATURES.ALIGNMENT}`;
   });
 });
 
+describe("isAppOwnedIssue", () => {
+  it("should return true for issues opened by the app", () => {
+    expect(isAppOwnedIssue(TEST_APP_ID, TEST_APP_ID)).toBe(true);
+  });
+
+  it("should return false for other issues", () => {
+    expect(isAppOwnedIssue(TEST_APP_ID, 99999)).toBe(false);
+    expect(isAppOwnedIssue(TEST_APP_ID, null)).toBe(false);
+    expect(isAppOwnedIssue(TEST_APP_ID, undefined)).toBe(false);
+  });
+});
+
 describe("isHumanHelpComment", () => {
   it("should return true for comment with error metadata", () => {
     const body = buildHumanHelpComment(
@@ -945,3 +1032,31 @@ describe("parseMetadata with standup type", () => {
     expect((parsed as StandupMetadata).repo).toBe("hivemoot/colony");
   });
 });
+
+describe("parseMetadata with retro type", () => {
+  it("should round-trip retro metadata through generateMetadataTag", () => {
+    const metadata = createRetroMetadata("weekly", "2026-02-09", "2026-02-15", "hivemoot/colony");
+    const parsed = parseMetadata(generateMetadataTag(metadata));
+
+    expect(parsed?.type).toBe("retro");
+    expect(parsed as RetroMetadata).toMatchObject({
+      period: "weekly",
+      periodStart: "2026-02-09",
+      periodEnd: "2026-02-15",
+      repo: "hivemoot/colony",
+      issueNumber: 0,
+    });
+  });
+
+  it("should reject retro metadata with an unknown period", () => {
+    const body = '<!-- hivemoot-metadata: {"version":1,"type":"retro","period":"daily","periodStart":"2026-02-09","periodEnd":"2026-02-15","repo":"hivemoot/colony","issueNumber":0,"createdAt":"2026-02-16T00:15:00Z"} -->';
+
+    expect(parseMetadata(body)).toBeNull();
+  });
+
+  it("should reject retro metadata missing periodStart", () => {
+    const body = '<!-- hivemoot-metadata: {"version":1,"type":"retro","period":"monthly","periodEnd":"2026-01-31","repo":"hivemoot/colony","issueNumber":0,"createdAt":"2026-02-01T00:15:00Z"} -->';
+
+    expect(parseMetadata(body)).toBeNull();
+  });
+});
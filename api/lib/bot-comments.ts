@@ -8,6 +8,8 @@
  * - Parsers to extract metadata from existing comments
  */
 
+import type { VoteAuditEntry } from "./types.js";
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Comment Type Definitions
 // ─────────────────────────────────────────────────────────────────────────────
@@ -16,7 +18,21 @@
  * All possible bot comment types.
  * Single source of truth: the array drives both runtime validation and the type.
  */
-const COMMENT_TYPES = ["voting", "leaderboard", "welcome", "alignment", "status", "error", "notification", "standup"] as const;
+const COMMENT_TYPES = [
+  "voting",
+  "leaderboard",
+  "welcome",
+  "alignment",
+  "status",
+  "error",
+  "notification",
+  "standup",
+  "retro",
+  "extension",
+  "auto-merge",
+  "journal",
+  "review-commands",
+] as const;
 export type CommentType = (typeof COMMENT_TYPES)[number];
 
 /**
@@ -59,9 +75,12 @@ export interface AlignmentMetadata extends BaseMetadata {
 
 /**
  * Status comment metadata (voting outcomes, etc.).
+ * Voting outcome comments carry the outcome and its per-user audit trail.
  */
 export interface StatusMetadata extends BaseMetadata {
   type: "status";
+  outcome?: string;
+  audit?: VoteAuditEntry[];
 }
 
 /**
@@ -93,6 +112,69 @@ export interface StandupMetadata extends BaseMetadata {
   repo: string;
 }
 
+/**
+ * Retrospective comment metadata - weekly/monthly Colony Journal entries.
+ * The period type plus its start date identify a retro, so reruns can detect
+ * an already-posted report. issueNumber is 0 as for standups.
+ */
+export interface RetroMetadata extends BaseMetadata {
+  type: "retro";
+  period: RetroPeriod;
+  periodStart: string;
+  periodEnd: string;
+  repo: string;
+}
+
+export type RetroPeriod = "weekly" | "monthly";
+
+/**
+ * Phase extension metadata - posted by /extend.
+ * Each extension pushes the phase's exits back by extensionMs; the scheduler
+ * sums extensions posted since the phase label was added.
+ */
+export interface ExtensionMetadata extends BaseMetadata {
+  type: "extension";
+  phase: string;
+  extensionMs: number;
+  extendedBy: string;
+}
+
+/**
+ * Auto-merge state metadata - posted on a PR when auto-merge is announced,
+ * cancelled, or blocked. The latest one is the PR's current state; `headSha`
+ * ties it to the commit it was posted for.
+ */
+export interface AutoMergeMetadata extends BaseMetadata {
+  type: "auto-merge";
+  state: AutoMergeState;
+  headSha: string;
+  /** When the pending merge may run (pending only). */
+  mergeAt?: string;
+  /** Who ran /cancel (cancelled only). */
+  cancelledBy?: string;
+}
+
+export type AutoMergeState = "pending" | "cancelled" | "failed";
+
+/**
+ * Colony Journal tracking issue metadata - embedded in the body of the issue
+ * the bot opens for the `issue` standup target, to keep it out of governance.
+ * issueNumber is 0 because the tag is written before the issue exists.
+ */
+export interface JournalMetadata extends BaseMetadata {
+  type: "journal";
+}
+
+/**
+ * Review commands metadata - posted on a PR before running the commands in a
+ * review body. Reviews can't carry reactions, so this comment stands in for
+ * the 👀 that marks a comment's commands as processed.
+ */
+export interface ReviewCommandsMetadata extends BaseMetadata {
+  type: "review-commands";
+  reviewId: number;
+}
+
 /**
  * Discriminated union of all comment metadata types.
  */
@@ -104,7 +186,12 @@ export type CommentMetadata =
   | StatusMetadata
   | HumanHelpMetadata
   | NotificationMetadata
-  | StandupMetadata;
+  | StandupMetadata
+  | RetroMetadata
+  | ExtensionMetadata
+  | AutoMergeMetadata
+  | JournalMetadata
+  | ReviewCommandsMetadata;
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Signatures for Comment Detection
@@ -208,12 +295,16 @@ export function createAlignmentMetadata(issueNumber: number): AlignmentMetadata
 /**
  * Create status comment metadata.
  */
-export function createStatusMetadata(issueNumber: number): StatusMetadata {
+export function createStatusMetadata(
+  issueNumber: number,
+  details: Pick<StatusMetadata, "outcome" | "audit"> = {}
+): StatusMetadata {
   return {
     version: 1,
     type: "status",
     createdAt: new Date().toISOString(),
     issueNumber,
+    ...details,
   };
 }
 
@@ -261,6 +352,84 @@ export function createStandupMetadata(day: number, date: string, repo: string):
   };
 }
 
+/**
+ * Create metadata for the Colony Journal tracking issue body.
+ */
+export function createJournalMetadata(): JournalMetadata {
+  return {
+    version: 1,
+    type: "journal",
+    createdAt: new Date().toISOString(),
+    issueNumber: 0,
+  };
+}
+
+/**
+ * Create retrospective comment metadata for Colony Journal entries.
+ */
+export function createRetroMetadata(
+  period: RetroPeriod,
+  periodStart: string,
+  periodEnd: string,
+  repo: string
+): RetroMetadata {
+  return {
+    version: 1,
+    type: "retro",
+    period,
+    periodStart,
+    periodEnd,
+    repo,
+    createdAt: new Date().toISOString(),
+    issueNumber: 0,
+  };
+}
+
+/**
+ * Create phase extension metadata.
+ */
+export function createExtensionMetadata(
+  issueNumber: number,
+  details: Pick<ExtensionMetadata, "phase" | "extensionMs" | "extendedBy">
+): ExtensionMetadata {
+  return {
+    version: 1,
+    type: "extension",
+    createdAt: new Date().toISOString(),
+    issueNumber,
+    ...details,
+  };
+}
+
+/**
+ * Create auto-merge state metadata.
+ */
+export function createAutoMergeMetadata(
+  prNumber: number,
+  details: Pick<AutoMergeMetadata, "state" | "headSha" | "mergeAt" | "cancelledBy">
+): AutoMergeMetadata {
+  return {
+    version: 1,
+    type: "auto-merge",
+    createdAt: new Date().toISOString(),
+    issueNumber: prNumber,
+    ...details,
+  };
+}
+
+/**
+ * Create review commands metadata.
+ */
+export function createReviewCommandsMetadata(prNumber: number, reviewId: number): ReviewCommandsMetadata {
+  return {
+    version: 1,
+    type: "review-commands",
+    createdAt: new Date().toISOString(),
+    issueNumber: prNumber,
+    reviewId,
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Comment Builders
 // ─────────────────────────────────────────────────────────────────────────────
@@ -304,6 +473,50 @@ export function buildLeaderboardComment(content: string, issueNumber: number): s
   return `${generateMetadataTag(metadata)}\n${content}`;
 }
 
+/**
+ * Build a complete status comment (e.g., a voting outcome) with embedded metadata.
+ */
+export function buildStatusComment(
+  content: string,
+  issueNumber: number,
+  details?: Pick<StatusMetadata, "outcome" | "audit">
+): string {
+  const metadata = createStatusMetadata(issueNumber, details);
+  return `${generateMetadataTag(metadata)}\n${content}`;
+}
+
+/**
+ * Build a complete phase extension comment with embedded metadata.
+ */
+export function buildExtensionComment(
+  content: string,
+  issueNumber: number,
+  details: Pick<ExtensionMetadata, "phase" | "extensionMs" | "extendedBy">
+): string {
+  const metadata = createExtensionMetadata(issueNumber, details);
+  return `${generateMetadataTag(metadata)}\n${content}`;
+}
+
+/**
+ * Build a complete auto-merge state comment with embedded metadata.
+ */
+export function buildAutoMergeComment(
+  content: string,
+  prNumber: number,
+  details: Pick<AutoMergeMetadata, "state" | "headSha" | "mergeAt" | "cancelledBy">
+): string {
+  const metadata = createAutoMergeMetadata(prNumber, details);
+  return `${generateMetadataTag(metadata)}\n${content}`;
+}
+
+/**
+ * Build a complete review commands comment with embedded metadata.
+ */
+export function buildReviewCommandsComment(content: string, prNumber: number, reviewId: number): string {
+  const metadata = createReviewCommandsMetadata(prNumber, reviewId);
+  return `${generateMetadataTag(metadata)}\n${content}`;
+}
+
 /**
  * Build a complete human help comment with embedded metadata.
  * Used when the Queen needs human intervention for an error condition.
@@ -334,15 +547,16 @@ export function buildNotificationComment(
  * Parse metadata from a comment body.
  * Returns null if no valid metadata found.
  *
- * Uses a non-greedy regex that captures the first `{...}` block.
- * Does not support nested JSON objects in metadata fields — all
- * metadata values must be flat primitives (string, number, boolean).
+ * Uses a non-greedy regex that captures up to the first `}` directly
+ * followed by the closing `-->`, so nested objects and arrays (e.g. a
+ * status comment's vote audit) parse intact. String values must not
+ * contain `-->`, which would end the HTML comment early anyway.
  */
 export function parseMetadata(body: string | undefined | null): CommentMetadata | null {
   if (!body) return null;
 
   // Match HTML comment with our metadata prefix
-  // Uses [\s\S]*? (non-greedy) to capture the first metadata tag; nested JSON objects are not supported.
+  // Uses [\s\S]*? (non-greedy) to capture the first metadata tag; the match ends at the `}` closing the tag.
   const regex = /<!--\s*hivemoot-metadata:\s*(\{[\s\S]*?\})\s*-->/;
   const match = body.match(regex);
 
@@ -374,6 +588,25 @@ export function parseMetadata(body: string | undefined | null): CommentMetadata
       }
     }
 
+    // Validate status-specific fields
+    if (obj.type === "status" && obj.audit !== undefined && !Array.isArray(obj.audit)) {
+      return null;
+    }
+
+    // Validate extension-specific fields
+    if (obj.type === "extension") {
+      if (typeof obj.phase !== "string" || typeof obj.extensionMs !== "number" || !Number.isFinite(obj.extensionMs)) {
+        return null;
+      }
+    }
+
+    // Validate auto-merge-specific fields
+    if (obj.type === "auto-merge") {
+      if (!["pending", "cancelled", "failed"].includes(obj.state as string) || typeof obj.headSha !== "string") {
+        return null;
+      }
+    }
+
     // Validate standup-specific fields
     if (obj.type === "standup") {
       if (typeof obj.day !== "number" || typeof obj.date !== "string" || typeof obj.repo !== "string") {
@@ -381,6 +614,18 @@ export function parseMetadata(body: string | undefined | null): CommentMetadata
       }
     }
 
+    // Validate retro-specific fields
+    if (obj.type === "retro") {
+      if (
+        !["weekly", "monthly"].includes(obj.period as string) ||
+        typeof obj.periodStart !== "string" ||
+        typeof obj.periodEnd !== "string" ||
+        typeof obj.repo !== "string"
+      ) {
+        return null;
+      }
+    }
+
     return parsed as CommentMetadata;
   } catch {
     return null;
@@ -396,6 +641,19 @@ function hasMetadataType(body: string, expectedType: CommentType): boolean {
   return metadata?.type === expectedType;
 }
 
+/**
+ * Check if an issue was opened by our app (e.g. the Colony Journal tracking
+ * issue). Such issues are the bot's own bookkeeping, not proposals, and stay
+ * out of governance. Only app authorship counts: anyone can paste the
+ * journal marker into an issue body.
+ */
+export function isAppOwnedIssue(
+  appId: number,
+  performedViaAppId: number | undefined | null
+): boolean {
+  return performedViaAppId === appId;
+}
+
 /**
  * Check if a comment is a voting comment from our app.
  * Uses metadata type for stable detection - signatures are purely cosmetic.
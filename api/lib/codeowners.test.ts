@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { findCodeOwners, isTeamOwner, parseCodeOwners } from "./codeowners.js";
+
+/**
+ * Tests for CODEOWNERS parsing and owner resolution.
+ *
+ * Verifies:
+ * - Comments, blank lines, and escaped `#` are handled
+ * - Owners are normalized (lowercased, `@` stripped)
+ * - Last matching rule wins; ownerless rules leave paths unowned
+ * - gitignore-style pattern semantics, including GitHub's `dir/*` rule
+ */
+
+function ownersOf(content: string, path: string): string[] {
+  return findCodeOwners(parseCodeOwners(content), path);
+}
+
+describe("parseCodeOwners", () => {
+  it("should skip comments and blank lines", () => {
+    const rules = parseCodeOwners(`
+# Global owners
+*       @Alice   # inline comment
+
+/docs/  @bob docs@example.com
+`);
+
+    expect(rules.map(({ pattern, owners }) => ({ pattern, owners }))).toEqual([
+      { pattern: "*", owners: ["alice"] },
+      { pattern: "/docs/", owners: ["bob", "docs@example.com"] },
+    ]);
+  });
+
+  it("should treat an escaped # as part of the pattern", () => {
+    const rules = parseCodeOwners("\\#notes.md @alice\n");
+
+    expect(rules[0].pattern).toBe("#notes.md");
+    expect(findCodeOwners(rules, "#notes.md")).toEqual(["alice"]);
+  });
+
+  it("should keep team owners in org/team form", () => {
+    const [rule] = parseCodeOwners("*.ts @Hivemoot/Core");
+
+    expect(rule.owners).toEqual(["hivemoot/core"]);
+    expect(isTeamOwner(rule.owners[0])).toBe(true);
+    expect(isTeamOwner("alice")).toBe(false);
+  });
+});
+
+describe("findCodeOwners", () => {
+  it("should let the last matching rule win", () => {
+    const content = "* @alice\n*.js @bob\n";
+
+    expect(ownersOf(content, "src/index.js")).toEqual(["bob"]);
+    expect(ownersOf(content, "README.md")).toEqual(["alice"]);
+  });
+
+  it("should leave paths unowned when the matching rule has no owners", () => {
+    const content = "* @alice\n/vendor/\n";
+
+    expect(ownersOf(content, "vendor/lib.js")).toEqual([]);
+  });
+
+  it("should return no owners when nothing matches", () => {
+    expect(ownersOf("/docs/ @alice\n", "src/index.ts")).toEqual([]);
+  });
+
+  it("should match unanchored patterns at any depth", () => {
+    const content = "*.md @alice\nlogs/ @bob\n";
+
+    expect(ownersOf(content, "docs/guide/intro.md")).toEqual(["alice"]);
+    expect(ownersOf(content, "apps/api/logs/today.txt")).toEqual(["bob"]);
+  });
+
+  it("should anchor patterns that start with or contain a slash", () => {
+    const content = "/build/ @alice\napps/web @bob\n";
+
+    expect(ownersOf(content, "build/out.js")).toEqual(["alice"]);
+    expect(ownersOf(content, "src/build/out.js")).toEqual([]);
+    expect(ownersOf(content, "apps/web/index.ts")).toEqual(["bob"]);
+    expect(ownersOf(content, "packages/apps/web/index.ts")).toEqual([]);
+  });
+
+  it("should match only direct children for dir/*", () => {
+    const content = "docs/* @alice\n";
+
+    expect(ownersOf(content, "docs/intro.md")).toEqual(["alice"]);
+    expect(ownersOf(content, "docs/guides/setup.md")).toEqual([]);
+  });
+
+  it("should support ** across directories", () => {
+    const content = "**/tests/** @alice\napi/**/*.sql @bob\n";
+
+    expect(ownersOf(content, "tests/unit.ts")).toEqual(["alice"]);
+    expect(ownersOf(content, "packages/core/tests/fixtures/a.json")).toEqual(["alice"]);
+    expect(ownersOf(content, "api/schema.sql")).toEqual(["bob"]);
+    expect(ownersOf(content, "api/db/migrations/001.sql")).toEqual(["bob"]);
+  });
+
+  it("should treat regex characters in patterns literally", () => {
+    const content = "file(1).txt @alice\n";
+
+    expect(ownersOf(content, "file(1).txt")).toEqual(["alice"]);
+    expect(ownersOf(content, "file1.txt")).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * CODEOWNERS
+ *
+ * Parses a repository's CODEOWNERS file and resolves the owners of a path,
+ * following GitHub's rules:
+ * - Files are searched in `.github/`, the root, then `docs/`
+ * - The last matching pattern wins; a pattern with no owners leaves the path unowned
+ * - Patterns follow gitignore syntax, except that `dir/*` matches only direct children
+ *
+ * Owners are lowercased without the leading `@`. Team owners keep their
+ * `org/team` form; email owners are kept as written.
+ */
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────────────────────
+
+export interface CodeOwnersRule {
+  pattern: string;
+  owners: string[];
+  /** Compiled from `pattern`. */
+  matcher: RegExp;
+}
+
+/** Locations GitHub reads CODEOWNERS from, in priority order. */
+export const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"] as const;
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse CODEOWNERS content into rules, in file order.
+ * Blank lines and comments are skipped; `\#` is a literal `#`.
+ */
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  const rules: CodeOwnersRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = stripComment(rawLine).trim();
+    if (!line) {
+      continue;
+    }
+
+    const [rawPattern, ...owners] = line.split(/\s+/);
+    const pattern = rawPattern.replace(/\\#/g, "#");
+    rules.push({
+      pattern,
+      owners: owners.map(normalizeOwner),
+      matcher: compilePattern(pattern),
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Find the owners of a path: the owners of the last matching rule.
+ * Returns an empty list when no rule matches or the match has no owners.
+ */
+export function findCodeOwners(rules: CodeOwnersRule[], path: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].matcher.test(path)) {
+      return rules[i].owners;
+    }
+  }
+  return [];
+}
+
+/**
+ * Check whether an owner entry is a team (`org/team`).
+ */
+export function isTeamOwner(owner: string): boolean {
+  return owner.includes("/");
+}
+
+function stripComment(line: string): string {
+  const match = /(^|[^\\])#/.exec(line);
+  return match ? line.slice(0, match.index + match[1].length) : line;
+}
+
+function normalizeOwner(owner: string): string {
+  return owner.startsWith("@") ? owner.slice(1).toLowerCase() : owner.toLowerCase();
+}
+
+/**
+ * Compile a CODEOWNERS pattern to a regular expression over repo-relative paths.
+ */
+function compilePattern(pattern: string): RegExp {
+  let body = pattern;
+  const directoryOnly = body.endsWith("/");
+  if (directoryOnly) {
+    body = body.slice(0, -1);
+  }
+
+  // A slash at the start or in the middle anchors the pattern to the root
+  const anchored = body.includes("/");
+  if (body.startsWith("/")) {
+    body = body.slice(1);
+  }
+
+  let source = "";
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === "*" && body[i + 1] === "*") {
+      if (body[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  const prefix = anchored ? "^" : "^(?:.*/)?";
+  // `dir/*` matches only direct children; anything else also matches
+  // everything under a matching directory
+  const suffix = directoryOnly
+    ? "/.*$"
+    : body.endsWith("/*")
+      ? "$"
+      : "(?:/.*)?$";
+  return new RegExp(prefix + source + suffix);
+}
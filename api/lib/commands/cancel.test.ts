@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { executeCommand, type CommandContext } from "./handlers.js";
+import { cancelAutoMerge } from "../index.js";
+import { LABELS } from "../../config.js";
+
+/**
+ * Tests for the /cancel command handler.
+ *
+ * /cancel stops a PR's pending auto-merge (see auto-merge.test.ts for the
+ * state machine). Verifies:
+ * - PR-only targeting and the auto-merge opt-in
+ * - Delegation to cancelAutoMerge with the sender's login
+ * - Rejections surfaced from cancelAutoMerge
+ */
+
+// All vi.mock() factories are hoisted — values must be inlined, not referenced.
+
+let mockRepoConfig: Record<string, unknown>;
+
+vi.mock("../index.js", () => ({
+  createIssueOperations: vi.fn(() => ({})),
+  createGovernanceService: vi.fn(() => ({})),
+  createPROperations: vi.fn(() => ({})),
+  loadRepositoryConfig: vi.fn(async () => mockRepoConfig),
+  cancelAutoMerge: vi.fn().mockResolvedValue({ cancelled: true }),
+}));
+
+function buildRepoConfig(autoMerge?: { cooldownMs: number }) {
+  return {
+    version: 1,
+    governance: {
+      pr: {
+        mergeReady: autoMerge ? { minApprovals: 1, autoMerge } : { minApprovals: 1 },
+        trustedReviewers: ["alice"],
+        staleDays: 3,
+        maxPRsPerIssue: 3,
+        intake: [],
+      },
+      proposals: {},
+      profiles: [],
+    },
+    standup: { enabled: false },
+    commands: {},
+  };
+}
+
+function createMockOctokit() {
+  return {
+    rest: {
+      repos: {
+        getCollaboratorPermissionLevel: vi.fn().mockResolvedValue({ data: { permission: "admin" } }),
+      },
+      reactions: {
+        createForIssueComment: vi.fn().mockResolvedValue({}),
+        listForIssueComment: vi.fn().mockResolvedValue({ data: [] }),
+      },
+      issues: {
+        createComment: vi.fn().mockResolvedValue({}),
+      },
+    },
+  };
+}
+
+function createPRCtx(overrides: Partial<CommandContext> = {}): CommandContext {
+  return {
+    octokit: createMockOctokit(),
+    owner: "test-org",
+    repo: "test-repo",
+    issueNumber: 42,
+    commentId: 100,
+    senderLogin: "maintainer",
+    verb: "cancel",
+    freeText: undefined,
+    issueLabels: [{ name: LABELS.IMPLEMENTATION }, { name: LABELS.MERGE_READY }],
+    isPullRequest: true,
+    appId: 12345,
+    log: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+    ...overrides,
+  };
+}
+
+describe("/cancel command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRepoConfig = buildRepoConfig({ cooldownMs: 60 * 60 * 1000 });
+  });
+
+  it("cancels the pending auto-merge", async () => {
+    const ctx = createPRCtx();
+
+    const result = await executeCommand(ctx);
+
+    expect(result).toEqual({ status: "executed", message: "Auto-merge cancelled." });
+    expect(cancelAutoMerge).toHaveBeenCalledWith(
+      expect.anything(),
+      { owner: "test-org", repo: "test-repo", prNumber: 42 },
+      "maintainer",
+    );
+  });
+
+  it("surfaces rejections from cancelAutoMerge", async () => {
+    vi.mocked(cancelAutoMerge).mockResolvedValueOnce({
+      cancelled: false,
+      reason: "Auto-merge is already cancelled for this pull request.",
+    });
+    const ctx = createPRCtx();
+
+    const result = await executeCommand(ctx);
+
+    expect(result).toEqual({ status: "rejected", reason: "Auto-merge is already cancelled for this pull request." });
+  });
+
+  it("rejects when auto-merge is not enabled", async () => {
+    mockRepoConfig = buildRepoConfig();
+    const ctx = createPRCtx();
+
+    const result = await executeCommand(ctx);
+
+    expect(result).toEqual({ status: "rejected", reason: "Auto-merge is not enabled for this repository." });
+    expect(cancelAutoMerge).not.toHaveBeenCalled();
+  });
+
+  it("rejects on issues", async () => {
+    const ctx = createPRCtx({ isPullRequest: false, issueLabels: [] });
+
+    const result = await executeCommand(ctx);
+
+    expect(result.status).toBe("rejected");
+    expect(cancelAutoMerge).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { executeCommand, type CommandContext } from "./handlers.js";
+import { LABELS } from "../../config.js";
+import { parseMetadata } from "../bot-comments.js";
+
+/**
+ * Tests for the /extend command handler.
+ *
+ * The /extend command:
+ * - Only works on issues in discussion, voting, or extended voting
+ * - Requires a duration argument (e.g. 12h, 2d, 1d6h), capped per extension
+ * - Rejects phases whose exits are all manual (nothing to extend)
+ * - Posts a comment whose metadata records the extension for the scheduler
+ */
+
+// All vi.mock() factories are hoisted — values must be inlined, not referenced.
+
+const mockIssueOps = {
+  getLabelAddedTime: vi.fn(),
+  getPhaseExtensionMs: vi.fn(),
+  comment: vi.fn(),
+};
+
+let mockRepoConfig: Record<string, unknown>;
+
+vi.mock("../index.js", async () => {
+  const repoConfig = await vi.importActual<typeof import("../repo-config.js")>("../repo-config.js");
+  return {
+    createIssueOperations: vi.fn(() => mockIssueOps),
+    createGovernanceService: vi.fn(() => ({})),
+    createPROperations: vi.fn(() => ({})),
+    loadRepositoryConfig: vi.fn(async () => mockRepoConfig),
+    findGovernanceProfile: repoConfig.findGovernanceProfile,
+  };
+});
+
+const HOUR = 60 * 60 * 1000;
+
+function buildRepoConfig(discussionExits: unknown[] = [{ type: "manual" }]) {
+  const votingExit = {
+    type: "auto",
+    afterMs: 24 * HOUR,
+    requires: "majority",
+    minVoters: 3,
+    requiredVoters: { minCount: 0, voters: [] },
+  };
+  return {
+    version: 1,
+    governance: {
+      proposals: {
+        discussion: { exits: discussionExits, durationMs: 0 },
+        voting: { exits: [votingExit], durationMs: 24 * HOUR, weights: {} },
+        extendedVoting: { exits: [votingExit], durationMs: 24 * HOUR },
+      },
+      profiles: [],
+    },
+    commands: {},
+  };
+}
+
+function createMockOctokit() {
+  return {
+    rest: {
+      repos: {
+        getCollaboratorPermissionLevel: vi.fn().mockResolvedValue({ data: { permission: "admin" } }),
+      },
+      reactions: {
+        createForIssueComment: vi.fn().mockResolvedValue({}),
+      },
+      issues: {
+        createComment: vi.fn().mockResolvedValue({}),
+      },
+    },
+  };
+}
+
+function createCtx(overrides: Partial<CommandContext> = {}): CommandContext {
+  return {
+    octokit: createMockOctokit(),
+    owner: "test-org",
+    repo: "test-repo",
+    issueNumber: 42,
+    commentId: 100,
+    senderLogin: "maintainer",
+    verb: "extend",
+    freeText: "12h",
+    issueLabels: [{ name: LABELS.VOTING }],
+    isPullRequest: false,
+    appId: 12345,
+    log: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+    ...overrides,
+  };
+}
+
+describe("/extend command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-20T12:00:00Z"));
+    mockRepoConfig = buildRepoConfig();
+    mockIssueOps.getLabelAddedTime.mockResolvedValue(new Date("2024-01-20T00:00:00Z"));
+    mockIssueOps.getPhaseExtensionMs.mockResolvedValue(0);
+    mockIssueOps.comment.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should record the extension in the posted comment's metadata", async () => {
+    const ctx = createCtx();
+    const result = await executeCommand(ctx);
+
+    expect(result).toEqual({ status: "executed", message: `Extended ${LABELS.VOTING} by 12h.` });
+    expect(mockIssueOps.comment).toHaveBeenCalledTimes(1);
+    const body = mockIssueOps.comment.mock.calls[0][1] as string;
+    expect(parseMetadata(body)).toMatchObject({
+      type: "extension",
+      issueNumber: 42,
+      phase: LABELS.VOTING,
+      extensionMs: 12 * HOUR,
+      extendedBy: "maintainer",
+    });
+    expect(body).toContain("@maintainer extended");
+    // Started 00:00 + 24h deadline + 12h extension
+    expect(body).toContain("**New deadline:** Jan 21, 2024, 12:00 UTC");
+  });
+
+  it("should stack on earlier extensions when computing the new deadline", async () => {
+    mockIssueOps.getPhaseExtensionMs.mockResolvedValue(6 * HOUR);
+    const ctx = createCtx({ freeText: "1d" });
+    await executeCommand(ctx);
+
+    expect(mockIssueOps.getPhaseExtensionMs).toHaveBeenCalledWith(
+      { owner: "test-org", repo: "test-repo", issueNumber: 42 },
+      LABELS.VOTING,
+      new Date("2024-01-20T00:00:00Z"),
+    );
+    const body = mockIssueOps.comment.mock.calls[0][1] as string;
+    expect(body).toContain("**New deadline:** Jan 22, 2024, 06:00 UTC");
+  });
+
+  it("should reject a missing or malformed duration", async () => {
+    for (const freeText of [undefined, "soon", "12"]) {
+      const result = await executeCommand(createCtx({ freeText }));
+      expect(result.status).toBe("rejected");
+      if (result.status === "rejected") {
+        expect(result.reason).toContain("Usage: `/extend <duration>`");
+      }
+    }
+    expect(mockIssueOps.comment).not.toHaveBeenCalled();
+  });
+
+  it("should reject durations above the per-extension cap", async () => {
+    const result = await executeCommand(createCtx({ freeText: "8d" }));
+
+    expect(result.status).toBe("rejected");
+    expect(mockIssueOps.comment).not.toHaveBeenCalled();
+  });
+
+  it("should reject issues outside discussion and voting", async () => {
+    const result = await executeCommand(createCtx({ issueLabels: [{ name: LABELS.READY_TO_IMPLEMENT }] }));
+
+    expect(result.status).toBe("rejected");
+    if (result.status === "rejected") {
+      expect(result.reason).toContain("discussion, voting, or extended voting");
+    }
+  });
+
+  it("should reject phases whose exits are all manual", async () => {
+    const result = await executeCommand(createCtx({ issueLabels: [{ name: LABELS.DISCUSSION }] }));
+
+    expect(result.status).toBe("rejected");
+    if (result.status === "rejected") {
+      expect(result.reason).toContain("manual");
+    }
+    expect(mockIssueOps.getLabelAddedTime).not.toHaveBeenCalled();
+  });
+
+  it("should extend discussion when it has auto exits", async () => {
+    mockRepoConfig = buildRepoConfig([
+      { type: "auto", afterMs: 48 * HOUR, minReady: 0, requiredReady: { minCount: 0, users: [] } },
+    ]);
+    const ctx = createCtx({ issueLabels: [{ name: LABELS.DISCUSSION }], freeText: "2d" });
+    const result = await executeCommand(ctx);
+
+    expect(result.status).toBe("executed");
+    const body = mockIssueOps.comment.mock.calls[0][1] as string;
+    expect(parseMetadata(body)).toMatchObject({ phase: LABELS.DISCUSSION, extensionMs: 48 * HOUR });
+  });
+
+  it("should reject on pull requests", async () => {
+    const result = await executeCommand(createCtx({ isPullRequest: true }));
+
+    expect(result.status).toBe("rejected");
+  });
+});
@@ -1,12 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { executeCommand, type CommandContext } from "./handlers.js";
+import { executeCommand, executeCommands, type CommandContext } from "./handlers.js";
 import { LABELS } from "../../config.js";
+import { buildReviewCommandsComment, parseMetadata } from "../bot-comments.js";
 
 // Mock the governance/issue operations modules
-vi.mock("../index.js", () => ({
-  createIssueOperations: vi.fn(() => mockIssueOps),
-  createGovernanceService: vi.fn(() => mockGovernance),
-}));
+vi.mock("../index.js", async () => {
+  const { findGovernanceProfile } = await vi.importActual<typeof import("../repo-config.js")>("../repo-config.js");
+  return {
+    createIssueOperations: vi.fn(() => mockIssueOps),
+    createGovernanceService: vi.fn(() => mockGovernance),
+    loadRepositoryConfig: vi.fn(async () => mockRepoConfig),
+    findGovernanceProfile,
+  };
+});
 
 // Mock the blueprint generator to control success/failure paths.
 // vi.hoisted ensures the mock fn is available before vi.mock runs.
@@ -25,22 +31,32 @@ vi.mock("../llm/blueprint.js", async (importOriginal) => {
 
 let mockIssueOps: Record<string, ReturnType<typeof vi.fn>>;
 let mockGovernance: Record<string, ReturnType<typeof vi.fn>>;
+let mockRepoConfig: {
+  governance: { profiles: Array<{ name: string; labels: string[] }> };
+  commands: Record<string, { permissions: string[]; users: string[] }>;
+};
 
-function createMockOctokit(permission = "admin") {
+function createMockOctokit(permission = "admin", roleName?: string) {
   return {
     rest: {
       repos: {
         getCollaboratorPermissionLevel: vi.fn().mockResolvedValue({
-          data: { permission },
+          data: { permission, ...(roleName ? { role_name: roleName } : {}) },
         }),
       },
       reactions: {
         createForIssueComment: vi.fn().mockResolvedValue({}),
         listForIssueComment: vi.fn().mockResolvedValue({ data: [] }),
+        createForPullRequestReviewComment: vi.fn().mockResolvedValue({}),
+        listForPullRequestReviewComment: vi.fn().mockResolvedValue({ data: [] }),
+        deleteForIssueComment: vi.fn().mockResolvedValue({}),
+        deleteForPullRequestComment: vi.fn().mockResolvedValue({}),
       },
       issues: {
         createComment: vi.fn().mockResolvedValue({}),
         updateComment: vi.fn().mockResolvedValue({}),
+        listLabelsOnIssue: vi.fn().mockResolvedValue({ data: [] }),
+        listComments: vi.fn().mockResolvedValue({ data: [] }),
       },
     },
   };
@@ -87,6 +103,7 @@ describe("executeCommand", () => {
     mockGovernance = {
       transitionToVoting: vi.fn().mockResolvedValue(undefined),
     };
+    mockRepoConfig = { governance: { profiles: [] }, commands: {} };
     // Default: LLM not configured → fallback blueprint
     mockBlueprintGenerate.mockResolvedValue({
       success: false,
@@ -95,25 +112,30 @@ describe("executeCommand", () => {
   });
 
   describe("authorization", () => {
-    it("should silently ignore commands from users without write access", async () => {
+    it("should reject commands from users without write access and explain why", async () => {
       const ctx = createCtx({
         octokit: createMockOctokit("read"),
       });
 
       const result = await executeCommand(ctx);
 
-      expect(result).toEqual({ status: "ignored" });
-      // Should not react or reply
-      expect(ctx.octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+      expect(result.status).toBe("rejected");
+      expect(mockGovernance.transitionToVoting).not.toHaveBeenCalled();
+      const reactions = ctx.octokit.rest.reactions.createForIssueComment.mock.calls.map(
+        (call: unknown[]) => (call[0] as { content: string }).content,
+      );
+      expect(reactions).toEqual(["eyes", "confused"]);
+      const body = (ctx.octokit.rest.issues.createComment.mock.calls[0][0] as { body: string }).body;
+      expect(body).toContain("The `/vote` command can only be run by collaborators with `write` or higher permission.");
     });
 
-    it("should silently ignore commands from triage-level users", async () => {
+    it("should reject commands from triage-level users", async () => {
       const ctx = createCtx({
-        octokit: createMockOctokit("triage"),
+        octokit: createMockOctokit("read", "triage"),
       });
 
       const result = await executeCommand(ctx);
-      expect(result).toEqual({ status: "ignored" });
+      expect(result.status).toBe("rejected");
     });
 
     it("should allow admin users", async () => {
@@ -143,14 +165,169 @@ describe("executeCommand", () => {
       expect(result.status).toBe("executed");
     });
 
-    it("should ignore when permission check fails", async () => {
+    it("should reject when permission check fails", async () => {
       const octokit = createMockOctokit();
       octokit.rest.repos.getCollaboratorPermissionLevel.mockRejectedValue(
         new Error("Not found"),
       );
 
       const result = await executeCommand(createCtx({ octokit }));
+      expect(result.status).toBe("rejected");
+    });
+
+    it("should not reply to webhook retries of an unauthorized command", async () => {
+      const octokit = createMockOctokit("read");
+      octokit.rest.reactions.listForIssueComment.mockResolvedValue({
+        data: [{ content: "eyes", user: { login: "hivemoot[bot]" } }],
+      });
+
+      const result = await executeCommand(createCtx({ octokit }));
+
       expect(result).toEqual({ status: "ignored" });
+      expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    it("should remove its eyes reaction from a rejected command so an edit can retry it", async () => {
+      const octokit = createMockOctokit("read");
+      octokit.rest.reactions.listForIssueComment
+        .mockResolvedValueOnce({ data: [] })
+        .mockResolvedValueOnce({ data: [{ id: 7, user: { login: "hivemoot[bot]" } }, { id: 8, user: { login: "someone" } }] });
+
+      const result = await executeCommand(createCtx({ octokit }));
+
+      expect(result.status).toBe("rejected");
+      expect(octokit.rest.reactions.deleteForIssueComment).toHaveBeenCalledTimes(1);
+      expect(octokit.rest.reactions.deleteForIssueComment).toHaveBeenCalledWith({
+        owner: "test-org",
+        repo: "test-repo",
+        comment_id: 100,
+        reaction_id: 7,
+      });
+    });
+
+    it("should keep its eyes reaction on an executed command", async () => {
+      const octokit = createMockOctokit();
+
+      const result = await executeCommand(createCtx({ octokit }));
+
+      expect(result.status).toBe("executed");
+      expect(octokit.rest.reactions.deleteForIssueComment).not.toHaveBeenCalled();
+    });
+
+    describe("per-verb commands config", () => {
+      it("should restrict a verb to the configured permission levels", async () => {
+        mockRepoConfig.commands = { vote: { permissions: ["admin", "maintain"], users: [] } };
+        const ctx = createCtx({ octokit: createMockOctokit("write", "write") });
+
+        const result = await executeCommand(ctx);
+
+        expect(result.status).toBe("rejected");
+        if (result.status === "rejected") {
+          expect(result.reason).toContain("`maintain` or higher");
+        }
+      });
+
+      it("should admit admins under lower-level rules", async () => {
+        for (const level of ["maintain", "write", "triage", "read"] as const) {
+          mockRepoConfig.commands = { vote: { permissions: [level], users: [] } };
+          const ctx = createCtx({ octokit: createMockOctokit("admin", "admin") });
+
+          expect((await executeCommand(ctx)).status).toBe("executed");
+        }
+      });
+
+      it("should admit maintainers under a write rule and reject writers under a maintain rule", async () => {
+        mockRepoConfig.commands = { vote: { permissions: ["write"], users: [] } };
+        expect((await executeCommand(createCtx({ octokit: createMockOctokit("write", "maintain") }))).status)
+          .toBe("executed");
+
+        mockRepoConfig.commands = { vote: { permissions: ["maintain"], users: [] } };
+        expect((await executeCommand(createCtx({ octokit: createMockOctokit("write", "write") }))).status)
+          .toBe("rejected");
+      });
+
+      it("should not admit unknown or missing levels", async () => {
+        mockRepoConfig.commands = { vote: { permissions: ["read"], users: [] } };
+        const ctx = createCtx({ octokit: createMockOctokit("none", "custom-role") });
+
+        expect((await executeCommand(ctx)).status).toBe("rejected");
+      });
+
+      it("should accept maintain via role_name when permission reports write", async () => {
+        mockRepoConfig.commands = { vote: { permissions: ["maintain"], users: [] } };
+        const ctx = createCtx({ octokit: createMockOctokit("write", "maintain") });
+
+        const result = await executeCommand(ctx);
+        expect(result.status).toBe("executed");
+      });
+
+      it("should allow listed users without checking their permission level", async () => {
+        mockRepoConfig.commands = { vote: { permissions: [], users: ["reviewer"] } };
+        const ctx = createCtx({ senderLogin: "Reviewer", octokit: createMockOctokit("read") });
+
+        const result = await executeCommand(ctx);
+
+        expect(result.status).toBe("executed");
+        expect(ctx.octokit.rest.repos.getCollaboratorPermissionLevel).not.toHaveBeenCalled();
+      });
+
+      it("should list allowed users when rejecting", async () => {
+        mockRepoConfig.commands = { vote: { permissions: [], users: ["reviewer"] } };
+        const result = await executeCommand(createCtx());
+
+        expect(result).toEqual({
+          status: "rejected",
+          reason: "The `/vote` command can only be run by @reviewer.",
+        });
+      });
+
+      it("should report a verb that allows nobody as disabled", async () => {
+        mockRepoConfig.commands = { vote: { permissions: [], users: [] } };
+        const result = await executeCommand(createCtx());
+
+        expect(result).toEqual({
+          status: "rejected",
+          reason: "The `/vote` command is disabled in this repository.",
+        });
+      });
+
+      it("should leave other verbs on the default permission", async () => {
+        mockRepoConfig.commands = { squash: { permissions: ["admin"], users: [] } };
+        const result = await executeCommand(createCtx({ octokit: createMockOctokit("write") }));
+
+        expect(result.status).toBe("executed");
+      });
+    });
+  });
+
+  describe("arguments", () => {
+    it("should reject unknown flags before running the handler", async () => {
+      const ctx = createCtx({ verb: "squash", isPullRequest: true, issueLabels: [], freeText: "--force" });
+
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+      const body = (ctx.octokit.rest.issues.createComment.mock.calls[0][0] as { body: string }).body;
+      expect(body).toContain("Invalid arguments for `/squash`: unknown flag `--force`.");
+      expect(body).toContain("Valid flags:");
+    });
+
+    it("should treat flag-like words as text for verbs without flags", async () => {
+      const result = await executeCommand(createCtx({ freeText: "see the --no-verify policy" }));
+
+      expect(result.status).toBe("executed");
+      expect(mockGovernance.transitionToVoting).toHaveBeenCalled();
+    });
+
+    it("should not reveal argument errors to unauthorized senders", async () => {
+      const ctx = createCtx({ octokit: createMockOctokit("read"), freeText: "--force" });
+
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+      if (result.status === "rejected") {
+        expect(result.reason).toContain("can only be run by");
+      }
     });
   });
 
@@ -171,7 +348,29 @@ describe("executeCommand", () => {
         owner: "test-org",
         repo: "test-repo",
         issueNumber: 42,
+      }, undefined);
+    });
+
+    it("should name the governance profile matching the issue labels", async () => {
+      mockRepoConfig = {
+        governance: {
+          profiles: [
+            { name: "docs", labels: ["docs"] },
+            { name: "security", labels: ["security", "breaking-change"] },
+          ],
+        },
+        commands: {},
+      };
+      const ctx = createCtx({
+        issueLabels: [{ name: LABELS.DISCUSSION }, { name: "Breaking-Change" }],
       });
+
+      await executeCommand(ctx);
+
+      expect(mockGovernance.transitionToVoting).toHaveBeenCalledWith(
+        expect.objectContaining({ issueNumber: 42 }),
+        "security",
+      );
     });
 
     it("should add eyes reaction on receipt and thumbs up on success", async () => {
@@ -351,6 +550,120 @@ describe("executeCommand", () => {
     });
   });
 
+  describe("/reject command", () => {
+    it("should reject, close as not planned, and lock from discussion", async () => {
+      const ctx = createCtx({ verb: "reject" });
+      const result = await executeCommand(ctx);
+
+      expect(result).toEqual({ status: "executed", message: "Rejected and closed." });
+      expect(mockIssueOps.transition).toHaveBeenCalledWith(
+        { owner: "test-org", repo: "test-repo", issueNumber: 42 },
+        expect.objectContaining({
+          removeLabel: LABELS.DISCUSSION,
+          addLabel: LABELS.REJECTED,
+          close: true,
+          closeReason: "not_planned",
+          lock: true,
+        }),
+      );
+    });
+
+    it("should remove the current phase label when rejecting from voting", async () => {
+      const ctx = createCtx({ verb: "reject", issueLabels: [{ name: LABELS.VOTING }] });
+      await executeCommand(ctx);
+
+      expect(mockIssueOps.transition).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ removeLabel: LABELS.VOTING, addLabel: LABELS.REJECTED }),
+      );
+    });
+
+    it("should cite the sender and quote the reason in a status comment", async () => {
+      const ctx = createCtx({ verb: "reject", senderLogin: "alice", freeText: "out of scope for this repo" });
+      await executeCommand(ctx);
+
+      const comment = mockIssueOps.transition.mock.calls[0][1].comment as string;
+      expect(comment).toContain('"type":"status"');
+      expect(comment).toContain('"outcome":"rejected"');
+      expect(comment).toContain("Rejected by @alice via `/reject`");
+      expect(comment).toContain("> out of scope for this repo");
+      expect(comment).toContain("Hivemoot Queen");
+    });
+
+    it("should omit the reason section when no reason is given", async () => {
+      const ctx = createCtx({ verb: "reject" });
+      await executeCommand(ctx);
+
+      const comment = mockIssueOps.transition.mock.calls[0][1].comment as string;
+      expect(comment).not.toContain("**Reason:**");
+    });
+
+    it("should reject /reject when already rejected", async () => {
+      const ctx = createCtx({ verb: "reject", issueLabels: [{ name: LABELS.REJECTED }] });
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+      expect(mockIssueOps.transition).not.toHaveBeenCalled();
+    });
+
+    it("should reject /reject outside an open proposal phase", async () => {
+      const ctx = createCtx({ verb: "reject", issueLabels: [{ name: LABELS.READY_TO_IMPLEMENT }] });
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+      expect(mockIssueOps.transition).not.toHaveBeenCalled();
+    });
+
+    it("should reject /reject on a PR", async () => {
+      const ctx = createCtx({ verb: "reject", isPullRequest: true });
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+    });
+  });
+
+  describe("/duplicate command", () => {
+    it("should close as a duplicate of the referenced issue", async () => {
+      const ctx = createCtx({ verb: "duplicate", freeText: "#7 same proposal", senderLogin: "alice" });
+      const result = await executeCommand(ctx);
+
+      expect(result).toEqual({ status: "executed", message: "Closed as a duplicate of #7." });
+      expect(mockIssueOps.transition).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          removeLabel: LABELS.DISCUSSION,
+          addLabel: LABELS.DUPLICATE,
+          close: true,
+          closeReason: "not_planned",
+          lock: true,
+        }),
+      );
+      const comment = mockIssueOps.transition.mock.calls[0][1].comment as string;
+      expect(comment).toContain('"outcome":"duplicate"');
+      expect(comment).toContain("duplicate of #7 by @alice");
+      expect(comment).toContain("> same proposal");
+    });
+
+    it("should reject a missing or self-referencing issue number", async () => {
+      for (const freeText of [undefined, "7", "#abc", "#42"]) {
+        const result = await executeCommand(createCtx({ verb: "duplicate", freeText }));
+        expect(result.status).toBe("rejected");
+      }
+      expect(mockIssueOps.transition).not.toHaveBeenCalled();
+    });
+
+    it("should reject /duplicate when already closed as a duplicate", async () => {
+      const ctx = createCtx({
+        verb: "duplicate",
+        freeText: "#7",
+        issueLabels: [{ name: LABELS.DISCUSSION }, { name: LABELS.DUPLICATE }],
+      });
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+    });
+  });
+
   describe("/gather command", () => {
     it("should create canonical blueprint comment when none exists", async () => {
       mockIssueOps.getIssueContext.mockResolvedValue({
@@ -567,7 +880,7 @@ describe("executeCommand", () => {
       const ctx = createCtx({ octokit });
       const result = await executeCommand(ctx);
 
-      expect(result).toEqual({ status: "ignored" });
+      expect(result.status).toBe("rejected");
       expect(ctx.log.error).toHaveBeenCalledWith(
         expect.objectContaining({ user: "maintainer" }),
         expect.stringContaining("Permission check failed"),
@@ -637,6 +950,67 @@ describe("executeCommand", () => {
     });
   });
 
+  describe("command sources", () => {
+    it("should react and check reactions on review comments", async () => {
+      const octokit = createMockOctokit();
+      const ctx = createCtx({ octokit, source: "review_comment" });
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("executed");
+      expect(octokit.rest.reactions.listForPullRequestReviewComment).toHaveBeenCalledWith(
+        expect.objectContaining({ comment_id: 100, content: "eyes" }),
+      );
+      expect(octokit.rest.reactions.createForPullRequestReviewComment).toHaveBeenCalledWith(
+        expect.objectContaining({ comment_id: 100, content: "+1" }),
+      );
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+    });
+
+    it("should skip already-processed review comments", async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.reactions.listForPullRequestReviewComment.mockResolvedValue({
+        data: [{ user: { login: "hivemoot-bot[bot]" } }],
+      });
+
+      const result = await executeCommand(createCtx({ octokit, source: "review_comment" }));
+
+      expect(result).toEqual({ status: "ignored" });
+      expect(mockGovernance.transitionToVoting).not.toHaveBeenCalled();
+    });
+
+    it("should acknowledge review-body commands with a marker comment instead of reactions", async () => {
+      const octokit = createMockOctokit();
+      const ctx = createCtx({ octokit, source: "review", issueLabels: [{ name: LABELS.VOTING }] });
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+      expect(octokit.rest.reactions.listForIssueComment).not.toHaveBeenCalled();
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+      expect(octokit.rest.reactions.createForPullRequestReviewComment).not.toHaveBeenCalled();
+      expect(octokit.rest.issues.createComment).toHaveBeenCalledTimes(2);
+      const marker = parseMetadata(octokit.rest.issues.createComment.mock.calls[0][0].body);
+      expect(marker).toMatchObject({ type: "review-commands", issueNumber: 42, reviewId: 100 });
+    });
+
+    it("should skip review-body commands whose marker the bot already posted", async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.issues.listComments.mockResolvedValue({
+        data: [
+          // Markers must come from the app itself
+          { body: buildReviewCommandsComment("spoofed", 42, 101), performed_via_github_app: null },
+          { body: buildReviewCommandsComment("other review", 42, 7), performed_via_github_app: { id: 12345 } },
+          { body: buildReviewCommandsComment("👀", 42, 101), performed_via_github_app: { id: 12345 } },
+        ],
+      });
+
+      const result = await executeCommand(createCtx({ octokit, source: "review", commentId: 101 }));
+
+      expect(result).toEqual({ status: "ignored" });
+      expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+      expect(mockGovernance.transitionToVoting).not.toHaveBeenCalled();
+    });
+  });
+
   describe("reply signature", () => {
     it("should append SIGNATURE to rejection replies", async () => {
       const ctx = createCtx({
@@ -648,4 +1022,122 @@ describe("executeCommand", () => {
       expect(replyCall[0].body).toContain("Hivemoot Queen");
     });
   });
+
+  describe("multiple commands per comment", () => {
+    function reactionsOf(ctx: CommandContext): string[] {
+      return ctx.octokit.rest.reactions.createForIssueComment.mock.calls.map(
+        (call: unknown[]) => (call[0] as { content: string }).content,
+      );
+    }
+
+    it("should run commands in order against the refreshed labels", async () => {
+      const ctx = createCtx();
+      ctx.octokit.rest.issues.listLabelsOnIssue.mockResolvedValue({ data: [{ name: LABELS.VOTING }] });
+
+      const results = await executeCommands(ctx, [
+        { verb: "vote", freeText: undefined },
+        { verb: "implement", freeText: undefined },
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(["executed", "executed"]);
+      expect(mockGovernance.transitionToVoting).toHaveBeenCalledTimes(1);
+      expect(mockIssueOps.transition).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ removeLabel: LABELS.VOTING, addLabel: LABELS.READY_TO_IMPLEMENT }),
+      );
+      expect(reactionsOf(ctx)).toEqual(["eyes", "+1"]);
+
+      const calls = ctx.octokit.rest.issues.createComment.mock.calls;
+      expect(calls).toHaveLength(1);
+      const body = (calls[0][0] as { body: string }).body;
+      expect(body).toContain("- ✅ `/vote` — Moved to voting phase.");
+      expect(body).toContain("- ✅ `/implement` — Fast-tracked to ready-to-implement.");
+      expect(body).toContain("Hivemoot Queen");
+    });
+
+    it("should stop at the first rejection and report the skipped commands", async () => {
+      const ctx = createCtx({ issueLabels: [{ name: LABELS.VOTING }] });
+
+      const results = await executeCommands(ctx, [
+        { verb: "vote", freeText: undefined },
+        { verb: "implement", freeText: undefined },
+      ]);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].status).toBe("rejected");
+      expect(mockIssueOps.transition).not.toHaveBeenCalled();
+      expect(reactionsOf(ctx)).toEqual(["eyes", "confused"]);
+
+      const calls = ctx.octokit.rest.issues.createComment.mock.calls;
+      expect(calls).toHaveLength(1);
+      const body = (calls[0][0] as { body: string }).body;
+      expect(body).toContain("- ❌ `/vote` — ");
+      expect(body).toContain("- ⏭️ `/implement` — Skipped after an earlier command was rejected.");
+    });
+
+    it("should check each command's permission with one lookup", async () => {
+      mockRepoConfig = {
+        governance: { profiles: [] },
+        commands: { implement: { permissions: ["admin"], users: [] } },
+      };
+      const ctx = createCtx({ octokit: createMockOctokit("write") });
+      ctx.octokit.rest.issues.listLabelsOnIssue.mockResolvedValue({ data: [{ name: LABELS.VOTING }] });
+
+      const results = await executeCommands(ctx, [
+        { verb: "vote", freeText: undefined },
+        { verb: "implement", freeText: undefined },
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(["executed", "rejected"]);
+      expect(ctx.octokit.rest.repos.getCollaboratorPermissionLevel).toHaveBeenCalledTimes(1);
+      const body = (ctx.octokit.rest.issues.createComment.mock.calls[0][0] as { body: string }).body;
+      expect(body).toContain("The `/implement` command can only be run by collaborators with `admin` permission.");
+    });
+
+    it("should fall back to the webhook labels when refreshing fails", async () => {
+      const ctx = createCtx();
+      ctx.octokit.rest.issues.listLabelsOnIssue.mockRejectedValue(new Error("API error"));
+
+      const results = await executeCommands(ctx, [
+        { verb: "vote", freeText: undefined },
+        { verb: "implement", freeText: undefined },
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(["executed", "executed"]);
+      expect(ctx.log.warn).toHaveBeenCalled();
+      expect(mockIssueOps.transition).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ removeLabel: LABELS.DISCUSSION }),
+      );
+    });
+
+    it("should run a lone known command without a combined reply", async () => {
+      const ctx = createCtx();
+
+      const results = await executeCommands(ctx, [
+        { verb: "unknowncmd", freeText: undefined },
+        { verb: "vote", freeText: undefined },
+      ]);
+
+      expect(results).toEqual([{ status: "executed", message: "Moved to voting phase." }]);
+      expect(ctx.octokit.rest.issues.createComment).not.toHaveBeenCalled();
+    });
+
+    it("should skip webhook retries", async () => {
+      const octokit = createMockOctokit();
+      octokit.rest.reactions.listForIssueComment.mockResolvedValue({
+        data: [{ user: { login: "hivemoot-bot[bot]" } }],
+      });
+      const ctx = createCtx({ octokit });
+
+      const results = await executeCommands(ctx, [
+        { verb: "vote", freeText: undefined },
+        { verb: "implement", freeText: undefined },
+      ]);
+
+      expect(results).toEqual([]);
+      expect(mockGovernance.transitionToVoting).not.toHaveBeenCalled();
+      expect(octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalled();
+    });
+  });
 });
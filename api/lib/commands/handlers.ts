@@ -6,16 +6,53 @@
  * and performs the corresponding governance action.
  */
 
-import { LABELS, SIGNATURE, isLabelMatch } from "../../config.js";
-import { SIGNATURES, buildAlignmentComment } from "../bot-comments.js";
-import { createIssueOperations, createGovernanceService, createPROperations, loadRepositoryConfig } from "../index.js";
+import { CONFIG_BOUNDS, LABELS, MENTION_NAMES, MESSAGES, SIGNATURE, formatDuration, formatVotes, isLabelMatch } from "../../config.js";
+import {
+  SIGNATURES,
+  buildAlignmentComment,
+  buildExtensionComment,
+  buildReviewCommandsComment,
+  buildStatusComment,
+  parseMetadata,
+} from "../bot-comments.js";
+import {
+  cancelAutoMerge,
+  createIssueOperations,
+  createGovernanceService,
+  createPROperations,
+  findGovernanceProfile,
+  loadRepositoryConfig,
+} from "../index.js";
 import { BlueprintGenerator, createMinimalPlan } from "../llm/blueprint.js";
+import { CYCLE_TIME_PHASES, computeIssueCycleTime } from "../cycle-time.js";
 import type { ImplementationPlan, IssueContext } from "../llm/types.js";
 import { evaluatePreflightChecks } from "../merge-readiness.js";
-import type { PreflightCheckItem } from "../merge-readiness.js";
+import { formatCheckItem, gatherPRContext, mergePullRequest } from "../pr-merge.js";
+import { getLinkedIssues } from "../graphql-queries.js";
+import { getLeaderboardScores } from "../implementation-intake.js";
+import { rankLeaderboard } from "../leaderboard.js";
+import {
+  COMMAND_PERMISSION_LEVELS,
+  describeExitRequires,
+  getCommandPermission,
+  isAutoDiscussionExit,
+  isAutoVotingExit,
+} from "../repo-config.js";
+import type {
+  CommandPermission,
+  CommandPermissionLevel,
+  DiscussionAutoExit,
+  EffectiveConfig,
+  ProposalsConfig,
+  VotingAutoExit,
+} from "../repo-config.js";
 import { CommitMessageGenerator, formatCommitMessage } from "../llm/commit-message.js";
-import type { PRContext } from "../llm/types.js";
+import { parseCommandArgs, parseDuration } from "./parser.js";
+import type { ParsedCommand } from "./parser.js";
+import { COMMANDS, COMMAND_VERBS, isCommandVerb } from "./registry.js";
+import type { CommandArgs, CommandDefinition, CommandVerb } from "./registry.js";
 import type { IssueRef, PRRef } from "../types.js";
+import { findLabelAddedTime, hasLabel as linkedIssueHasLabel } from "../types.js";
 
 /**
  * Minimal interface for the octokit client needed by command handlers.
@@ -28,7 +65,7 @@ export interface CommandOctokit {
         owner: string;
         repo: string;
         username: string;
-      }) => Promise<{ data: { permission: string } }>;
+      }) => Promise<{ data: { permission: string; role_name?: string } }>;
     };
     reactions: {
       createForIssueComment: (params: {
@@ -43,7 +80,32 @@ export interface CommandOctokit {
         comment_id: number;
         content: "+1" | "-1" | "laugh" | "confused" | "heart" | "hooray" | "rocket" | "eyes";
         per_page?: number;
-      }) => Promise<{ data: Array<{ user: { login: string } | null }> }>;
+      }) => Promise<{ data: Array<{ id: number; user: { login: string } | null }> }>;
+      deleteForIssueComment: (params: {
+        owner: string;
+        repo: string;
+        comment_id: number;
+        reaction_id: number;
+      }) => Promise<unknown>;
+      createForPullRequestReviewComment: (params: {
+        owner: string;
+        repo: string;
+        comment_id: number;
+        content: "+1" | "-1" | "laugh" | "confused" | "heart" | "hooray" | "rocket" | "eyes";
+      }) => Promise<unknown>;
+      listForPullRequestReviewComment: (params: {
+        owner: string;
+        repo: string;
+        comment_id: number;
+        content: "+1" | "-1" | "laugh" | "confused" | "heart" | "hooray" | "rocket" | "eyes";
+        per_page?: number;
+      }) => Promise<{ data: Array<{ id: number; user: { login: string } | null }> }>;
+      deleteForPullRequestComment: (params: {
+        owner: string;
+        repo: string;
+        comment_id: number;
+        reaction_id: number;
+      }) => Promise<unknown>;
     };
     issues: {
       createComment: (params: {
@@ -58,10 +120,37 @@ export interface CommandOctokit {
         comment_id: number;
         body: string;
       }) => Promise<unknown>;
+      listLabelsOnIssue: (params: {
+        owner: string;
+        repo: string;
+        issue_number: number;
+        per_page?: number;
+      }) => Promise<{ data: Array<{ name: string }> }>;
+      listComments: (params: {
+        owner: string;
+        repo: string;
+        issue_number: number;
+        per_page?: number;
+        page?: number;
+      }) => Promise<{
+        data: Array<{ body?: string; performed_via_github_app?: { id: number } | null }>;
+      }>;
     };
   };
 }
 
+/**
+ * Where a command was posted. Decides which reactions API acknowledges it;
+ * replies always go to the issue or PR conversation.
+ * - `issue_comment`: a comment on an issue or PR conversation
+ * - `review_comment`: an inline PR review comment
+ * - `review`: a PR review body — GitHub has no reactions on reviews, so these
+ *   get no 👀/👍; a `review-commands` comment keyed on the review ID marks
+ *   them as processed instead. Reviews are read once, when submitted, so a
+ *   rejected command is retried with a new comment, not by editing the review
+ */
+export type CommandSource = "issue_comment" | "review_comment" | "review";
+
 /**
  * Context passed to command execution.
  */
@@ -70,7 +159,10 @@ export interface CommandContext {
   owner: string;
   repo: string;
   issueNumber: number;
+  /** ID of the comment (or review, for `review` sources) holding the command */
   commentId: number;
+  /** Where the command was posted (default: `issue_comment`) */
+  source?: CommandSource;
   senderLogin: string;
   verb: string;
   freeText: string | undefined;
@@ -80,6 +172,8 @@ export interface CommandContext {
   isPullRequest: boolean;
   /** App ID for filtering bot comments */
   appId: number;
+  /** Name shown in replies that suggest commands (default: the first MENTION_NAMES entry) */
+  mentionName?: string;
   log: {
     info: (...args: unknown[]) => void;
     warn: (...args: unknown[]) => void;
@@ -88,31 +182,31 @@ export interface CommandContext {
 }
 
 /**
- * Result of a command execution attempt.
+ * Context for executing every command in one comment.
  */
-export type CommandResult =
-  | { status: "executed"; message: string }
-  | { status: "ignored" }      // unauthorized or unrecognized
-  | { status: "rejected"; reason: string };  // valid command but invalid state
+export type CommandBatchContext = Omit<CommandContext, "verb" | "freeText">;
 
 /**
- * Permission levels that are allowed to execute commands.
- * Per issue #81: "only repo maintainers should use these commands"
+ * Result of a command execution attempt.
  */
-const AUTHORIZED_PERMISSIONS = new Set(["admin", "maintain", "write"]);
+export type CommandResult =
+  | { status: "executed"; message: string }
+  | { status: "ignored" }      // unrecognized or retried
+  | { status: "rejected"; reason: string };  // unauthorized, or valid command but invalid state
 
 /**
- * Check if the sender has sufficient repo permissions to run commands.
- * Returns true if authorized, false otherwise.
+ * Fetch the sender's repo permission levels. Returns [] (deny) when the
+ * check fails.
  */
-async function isAuthorized(ctx: CommandContext): Promise<boolean> {
+async function getSenderPermissionLevels(ctx: CommandBatchContext): Promise<string[]> {
   try {
     const { data } = await ctx.octokit.rest.repos.getCollaboratorPermissionLevel({
       owner: ctx.owner,
       repo: ctx.repo,
       username: ctx.senderLogin,
     });
-    return AUTHORIZED_PERMISSIONS.has(data.permission);
+    // `permission` is the legacy level (admin/write/read); `role_name` also reports maintain/triage
+    return data.role_name ? [data.permission, data.role_name] : [data.permission];
   } catch (error) {
     // If we can't check permissions (e.g., user is not a collaborator), deny.
     // Log so persistent failures (expired token, rate limit) are visible.
@@ -120,24 +214,91 @@ async function isAuthorized(ctx: CommandContext): Promise<boolean> {
       { err: error, user: ctx.senderLogin, issue: ctx.issueNumber },
       `Permission check failed for ${ctx.senderLogin} — denying command`,
     );
+    return [];
+  }
+}
+
+/**
+ * Rank of a permission level, 0 for admin; -1 for levels outside the
+ * hierarchy (e.g. "none" or a custom role name).
+ */
+function permissionRank(level: string): number {
+  return COMMAND_PERMISSION_LEVELS.indexOf(level as CommandPermissionLevel);
+}
+
+/**
+ * The lowest of the allowed levels. Levels are hierarchical, so it alone
+ * decides who is admitted.
+ */
+function lowestPermissionLevel(permissions: CommandPermissionLevel[]): CommandPermissionLevel {
+  return permissions.reduce((lowest, level) => permissionRank(level) > permissionRank(lowest) ? level : lowest);
+}
+
+/**
+ * Check if the sender may run a command under its configured permission:
+ * a listed user, or a collaborator holding one of the allowed levels or a
+ * higher one (an admin passes a `write` rule).
+ *
+ * `getLevels` is only called when the user list doesn't decide, so callers
+ * checking several verbs can share one permission lookup.
+ */
+async function isAuthorized(
+  ctx: CommandContext,
+  permission: CommandPermission,
+  getLevels: () => Promise<string[]> = () => getSenderPermissionLevels(ctx),
+): Promise<boolean> {
+  if (permission.users.includes(ctx.senderLogin.toLowerCase())) {
+    return true;
+  }
+  if (permission.permissions.length === 0) {
     return false;
   }
+
+  const required = permissionRank(lowestPermissionLevel(permission.permissions));
+  const levels = await getLevels();
+  return levels.some((level) => {
+    const rank = permissionRank(level);
+    return rank !== -1 && rank <= required;
+  });
+}
+
+/**
+ * Explain who may run a command, for replies to unauthorized senders.
+ */
+function describeCommandPermission(verb: string, permission: CommandPermission): string {
+  const allowed: string[] = [];
+  if (permission.permissions.length > 0) {
+    const lowest = lowestPermissionLevel(permission.permissions);
+    allowed.push(`collaborators with \`${lowest}\`${lowest === "admin" ? "" : " or higher"} permission`);
+  }
+  if (permission.users.length > 0) {
+    allowed.push(permission.users.map((user) => `@${user}`).join(", "));
+  }
+  return allowed.length > 0
+    ? `The \`/${verb}\` command can only be run by ${allowed.join(" or ")}.`
+    : `The \`/${verb}\` command is disabled in this repository.`;
 }
 
 /**
  * Add a reaction to the command comment for acknowledgment.
  */
 async function react(
-  ctx: CommandContext,
+  ctx: CommandBatchContext,
   content: "+1" | "-1" | "laugh" | "confused" | "heart" | "hooray" | "rocket" | "eyes",
 ): Promise<void> {
+  const params = { owner: ctx.owner, repo: ctx.repo, comment_id: ctx.commentId, content };
   try {
-    await ctx.octokit.rest.reactions.createForIssueComment({
-      owner: ctx.owner,
-      repo: ctx.repo,
-      comment_id: ctx.commentId,
-      content,
-    });
+    switch (ctx.source ?? "issue_comment") {
+      case "issue_comment":
+        await ctx.octokit.rest.reactions.createForIssueComment(params);
+        break;
+      case "review_comment":
+        await ctx.octokit.rest.reactions.createForPullRequestReviewComment(params);
+        break;
+      case "review":
+        // Reviews don't support reactions — replies are the only feedback
+        break;
+    }
   } catch (error) {
     // Reaction failure is non-critical — don't block command execution
     ctx.log.error(
@@ -147,13 +308,73 @@ async function react(
   }
 }
 
+/**
+ * Acknowledge receipt and mark the comment's commands as processed: a 👀
+ * reaction, or for review bodies a marker comment naming the review.
+ */
+async function acknowledge(ctx: CommandBatchContext): Promise<void> {
+  if ((ctx.source ?? "issue_comment") !== "review") {
+    await react(ctx, "eyes");
+    return;
+  }
+
+  try {
+    await ctx.octokit.rest.issues.createComment({
+      owner: ctx.owner,
+      repo: ctx.repo,
+      issue_number: ctx.issueNumber,
+      body: buildReviewCommandsComment(
+        `👀 Running the commands in ${ctx.senderLogin}'s review.${SIGNATURE}`,
+        ctx.issueNumber,
+        ctx.commentId,
+      ),
+    });
+  } catch (error) {
+    ctx.log.error(
+      { err: error, issue: ctx.issueNumber, reviewId: ctx.commentId },
+      `Failed to acknowledge review ${ctx.commentId} — continuing`,
+    );
+  }
+}
+
+/**
+ * Remove the bot's 👀 from a comment whose commands were rejected, so that
+ * editing the comment to fix them runs them again. Review bodies can't be
+ * edited into a retry, so their marker comment stays.
+ */
+async function withdrawAcknowledgment(ctx: CommandBatchContext): Promise<void> {
+  const source = ctx.source ?? "issue_comment";
+  if (source === "review") {
+    return;
+  }
+
+  try {
+    const params = { owner: ctx.owner, repo: ctx.repo, comment_id: ctx.commentId };
+    const { data: reactions } = source === "review_comment"
+      ? await ctx.octokit.rest.reactions.listForPullRequestReviewComment({ ...params, content: "eyes", per_page: 100 })
+      : await ctx.octokit.rest.reactions.listForIssueComment({ ...params, content: "eyes", per_page: 100 });
+    for (const reaction of reactions.filter((r) => r.user?.login.endsWith("[bot]"))) {
+      if (source === "review_comment") {
+        await ctx.octokit.rest.reactions.deleteForPullRequestComment({ ...params, reaction_id: reaction.id });
+      } else {
+        await ctx.octokit.rest.reactions.deleteForIssueComment({ ...params, reaction_id: reaction.id });
+      }
+    }
+  } catch (error) {
+    ctx.log.error(
+      { err: error, commentId: ctx.commentId },
+      `Failed to remove eyes reaction — an edit won't re-run comment ${ctx.commentId}`,
+    );
+  }
+}
+
 /**
  * Post a reply comment on the issue. SIGNATURE is always appended —
  * callers should not include it in the body.
  * Failures are logged but do not propagate — the governance action may
  * have already completed, so crashing the handler is worse than a missing comment.
  */
-async function reply(ctx: CommandContext, body: string): Promise<void> {
+async function reply(ctx: CommandBatchContext, body: string): Promise<void> {
   try {
     await ctx.octokit.rest.issues.createComment({
       owner: ctx.owner,
@@ -174,15 +395,17 @@ async function reply(ctx: CommandContext, body: string): Promise<void> {
  * Used as an idempotency guard against webhook retries — if we already
  * processed a command (indicated by our eyes reaction), skip re-execution.
  */
-async function alreadyProcessed(ctx: CommandContext): Promise<boolean> {
+async function alreadyProcessed(ctx: CommandBatchContext): Promise<boolean> {
+  const source = ctx.source ?? "issue_comment";
+  if (source === "review") {
+    return hasReviewCommandsComment(ctx);
+  }
+
   try {
-    const { data: reactions } = await ctx.octokit.rest.reactions.listForIssueComment({
-      owner: ctx.owner,
-      repo: ctx.repo,
-      comment_id: ctx.commentId,
-      content: "eyes",
-      per_page: 100,
-    });
+    const params = { owner: ctx.owner, repo: ctx.repo, comment_id: ctx.commentId, content: "eyes" as const, per_page: 100 };
+    const { data: reactions } = source === "review_comment"
+      ? await ctx.octokit.rest.reactions.listForPullRequestReviewComment(params)
+      : await ctx.octokit.rest.reactions.listForIssueComment(params);
     // Check if any eyes reaction was created by our app's bot account.
     // GitHub App bot usernames follow the pattern "<app-slug>[bot]".
     return reactions.some((r) => r.user?.login.endsWith("[bot]"));
@@ -193,6 +416,45 @@ async function alreadyProcessed(ctx: CommandContext): Promise<boolean> {
   }
 }
 
+/**
+ * Check if the bot has already posted the `review-commands` marker for this
+ * review (ctx.commentId holds the review ID). Same fail-open policy as the
+ * reaction check.
+ */
+async function hasReviewCommandsComment(ctx: CommandBatchContext): Promise<boolean> {
+  try {
+    let page = 1;
+    const perPage = 100;
+    while (true) {
+      const { data: comments } = await ctx.octokit.rest.issues.listComments({
+        owner: ctx.owner,
+        repo: ctx.repo,
+        issue_number: ctx.issueNumber,
+        per_page: perPage,
+        page,
+      });
+
+      const found = comments.some((comment) => {
+        if (comment.performed_via_github_app?.id !== ctx.appId) {
+          return false;
+        }
+        const metadata = parseMetadata(comment.body);
+        return metadata?.type === "review-commands" && metadata.reviewId === ctx.commentId;
+      });
+      if (found) {
+        return true;
+      }
+
+      if (comments.length < perPage) {
+        return false;
+      }
+      page++;
+    }
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Check if the issue currently has a specific label.
  */
@@ -206,8 +468,9 @@ function hasLabel(ctx: CommandContext, label: string): boolean {
 
 /**
  * Handle /vote command: transition issue from discussion → voting.
+ * The voting comment names the governance profile matching the issue's labels, if any.
  */
-async function handleVote(ctx: CommandContext): Promise<CommandResult> {
+async function handleVote(ctx: CommandContext, repoConfig: EffectiveConfig): Promise<CommandResult> {
   if (ctx.isPullRequest) {
     return { status: "rejected", reason: "The `/vote` command can only be used on issues, not pull requests." };
   }
@@ -234,8 +497,9 @@ async function handleVote(ctx: CommandContext): Promise<CommandResult> {
   const ref: IssueRef = { owner: ctx.owner, repo: ctx.repo, issueNumber: ctx.issueNumber };
   const issues = createIssueOperations(ctx.octokit, { appId: ctx.appId });
   const governance = createGovernanceService(issues);
+  const profile = findGovernanceProfile(repoConfig, ctx.issueLabels);
 
-  await governance.transitionToVoting(ref);
+  await governance.transitionToVoting(ref, profile?.name);
 
   return { status: "executed", message: "Moved to voting phase." };
 }
@@ -291,11 +555,95 @@ async function handleImplement(ctx: CommandContext): Promise<CommandResult> {
 }
 
 /**
- * Format a human-readable timestamp for blueprint footers.
+ * Close an open proposal: swap its phase label for `addLabel`, post the
+ * status comment, close as not planned, and lock.
+ */
+async function closeProposal(
+  ctx: CommandContext,
+  options: { verb: "reject" | "duplicate"; addLabel: string; outcome: string; comment: string; executedMessage: string },
+): Promise<CommandResult> {
+  const { verb, addLabel, outcome, comment, executedMessage } = options;
+  const removeLabel = COMMANDS[verb].phases.find((label) => hasLabel(ctx, label));
+  if (!removeLabel) {
+    return { status: "rejected", reason: `This issue is not in an open proposal phase. The \`/${verb}\` command requires discussion, voting, extended voting, or needs-human.` };
+  }
+
+  const ref: IssueRef = { owner: ctx.owner, repo: ctx.repo, issueNumber: ctx.issueNumber };
+  const issues = createIssueOperations(ctx.octokit, { appId: ctx.appId });
+
+  await issues.transition(ref, {
+    removeLabel,
+    addLabel,
+    comment: buildStatusComment(comment, ctx.issueNumber, { outcome }),
+    close: true,
+    closeReason: "not_planned",
+    lock: true,
+    lockReason: "resolved",
+  });
+
+  return { status: "executed", message: executedMessage };
+}
+
+/**
+ * Handle /reject command: close a proposal as rejected without a vote.
+ *
+ * The counterpart to /implement. Any text after the verb is quoted as the reason.
+ */
+async function handleReject(ctx: CommandContext, _repoConfig: EffectiveConfig, args: CommandArgs<"reject">): Promise<CommandResult> {
+  if (ctx.isPullRequest) {
+    return { status: "rejected", reason: "The `/reject` command can only be used on issues, not pull requests." };
+  }
+  if (hasLabel(ctx, LABELS.REJECTED)) {
+    return { status: "rejected", reason: "This issue has already been rejected." };
+  }
+
+  return closeProposal(ctx, {
+    verb: "reject",
+    addLabel: LABELS.REJECTED,
+    outcome: "rejected",
+    comment: MESSAGES.commandRejected(ctx.senderLogin, args.text),
+    executedMessage: "Rejected and closed.",
+  });
+}
+
+/**
+ * Handle /duplicate command: close a proposal as a duplicate of another issue.
+ *
+ * Expects `#N` (the issue to keep) followed by an optional reason.
+ */
+async function handleDuplicate(
+  ctx: CommandContext,
+  _repoConfig: EffectiveConfig,
+  args: CommandArgs<"duplicate">,
+): Promise<CommandResult> {
+  if (ctx.isPullRequest) {
+    return { status: "rejected", reason: "The `/duplicate` command can only be used on issues, not pull requests." };
+  }
+
+  const match = args.text?.match(/^#(\d+)\b\s*(.*)$/s);
+  const duplicateOf = match ? parseInt(match[1], 10) : NaN;
+  if (!match || duplicateOf <= 0 || duplicateOf === ctx.issueNumber) {
+    return { status: "rejected", reason: "Usage: `/duplicate #<issue-number> [reason]`, naming a different issue." };
+  }
+  if (hasLabel(ctx, LABELS.DUPLICATE)) {
+    return { status: "rejected", reason: "This issue has already been closed as a duplicate." };
+  }
+
+  return closeProposal(ctx, {
+    verb: "duplicate",
+    addLabel: LABELS.DUPLICATE,
+    outcome: "duplicate",
+    comment: MESSAGES.commandDuplicate(ctx.senderLogin, duplicateOf, match[2].trim() || undefined),
+    executedMessage: `Closed as a duplicate of #${duplicateOf}.`,
+  });
+}
+
+/**
+ * Format a human-readable UTC timestamp (defaults to now).
  * e.g., "Feb 16, 2026, 14:26 UTC"
  */
-function formatBlueprintTimestamp(): string {
-  return new Date().toLocaleString("en-US", {
+function formatTimestamp(date: Date = new Date()): string {
+  return date.toLocaleString("en-US", {
     month: "short",
     day: "numeric",
     year: "numeric",
@@ -353,7 +701,7 @@ function buildBlueprintContent(
   if (plan.metadata.participantCount > 0) {
     metaParts.push(`${plan.metadata.participantCount} participants`);
   }
-  metaParts.push(formatBlueprintTimestamp());
+  metaParts.push(formatTimestamp());
   metaParts.push(`@${senderLogin} via \`/gather\``);
   lines.push(metaParts.join(" · "));
 
@@ -430,21 +778,25 @@ async function handleGather(ctx: CommandContext): Promise<CommandResult> {
  * Handle /preflight command: generate a merge readiness report for a PR.
  *
  * Runs the same hard checks used by the merge-ready label automation,
- * plus advisory checks, and optionally generates an LLM commit message.
+ * plus advisory checks, and optionally generates an LLM commit message
+ * (skipped with `--no-llm`).
  * Posts the full report as a PR comment.
  */
-async function handlePreflight(ctx: CommandContext): Promise<CommandResult> {
+async function handlePreflight(
+  ctx: CommandContext,
+  repoConfig: EffectiveConfig,
+  args: CommandArgs<"preflight">,
+): Promise<CommandResult> {
   if (!ctx.isPullRequest) {
     return { status: "rejected", reason: "The `/preflight` command can only be used on pull requests, not issues." };
   }
 
   // The octokit passed to commands is the full Probot octokit (cast to the
-  // minimal CommandOctokit interface). createPROperations and loadRepositoryConfig
-  // validate the shape at runtime. These casts are safe because the actual
-  // Probot client has all required methods — only the declared type is narrow.
+  // minimal CommandOctokit interface). createPROperations validates the shape
+  // at runtime. This cast is safe because the actual Probot client has all
+  // required methods — only the declared type is narrow.
   const octokit = ctx.octokit as any; // Full Probot client at runtime
   const prs = createPROperations(octokit, { appId: ctx.appId });
-  const repoConfig = await loadRepositoryConfig(octokit, ctx.owner, ctx.repo);
 
   const ref: PRRef = { owner: ctx.owner, repo: ctx.repo, prNumber: ctx.issueNumber };
   const currentLabels = ctx.issueLabels.map(l => l.name);
@@ -469,12 +821,14 @@ async function handlePreflight(ctx: CommandContext): Promise<CommandResult> {
   body += checklistLines.join("\n") + "\n\n";
 
   // Generate commit message if all hard checks pass and LLM is configured
-  if (preflight.allHardChecksPassed) {
+  if (preflight.allHardChecksPassed && !args.flags.llm) {
+    ctx.log.info("Commit message generation skipped: --no-llm");
+  } else if (preflight.allHardChecksPassed) {
     const commitMessageWarning =
       "[warning] I couldn't generate a recommended commit message this time.";
 
     try {
-      const prContext = await gatherPRContext(ctx, ref);
+      const prContext = await gatherPRContext(octokit, ref, ctx.log);
       const noop = () => {};
       const generator = new CommitMessageGenerator({
         logger: {
@@ -535,260 +889,560 @@ async function handlePreflight(ctx: CommandContext): Promise<CommandResult> {
 }
 
 /**
- * Handle /squash command: run preflight and squash-merge when all hard checks pass.
+ * Handle /merge and /squash: run preflight, then merge the PR or add it to
+ * the merge queue when all hard checks pass (see mergePullRequest).
  *
- * Behavior:
- * - PR-only command
- * - Fail-closed: blocks merge when checks fail or commit message generation fails
- * - Requires repository squash-merge capability to be enabled
- * - Re-runs preflight immediately before merge to reduce stale CI race windows
+ * `/merge` uses `--method`, else `governance.pr.mergeMethod`, else the first
+ * method the repository allows; `/squash` defaults to squash. Merge queues
+ * pick their own method.
  */
-async function handleSquash(ctx: CommandContext): Promise<CommandResult> {
+async function handleMerge(
+  ctx: CommandContext,
+  repoConfig: EffectiveConfig,
+  args: CommandArgs<"merge" | "squash">,
+): Promise<CommandResult> {
   if (!ctx.isPullRequest) {
-    return { status: "rejected", reason: "The `/squash` command can only be used on pull requests, not issues." };
+    return { status: "rejected", reason: `The \`/${ctx.verb}\` command can only be used on pull requests, not issues.` };
   }
 
   const octokit = ctx.octokit as any; // Full Probot client at runtime
-  const prs = createPROperations(octokit, { appId: ctx.appId });
-  const repoConfig = await loadRepositoryConfig(octokit, ctx.owner, ctx.repo);
-  const ref: PRRef = { owner: ctx.owner, repo: ctx.repo, prNumber: ctx.issueNumber };
-  const currentLabels = ctx.issueLabels.map((l) => l.name);
+  const result = await mergePullRequest({
+    client: octokit,
+    prs: createPROperations(octokit, { appId: ctx.appId }),
+    ref: { owner: ctx.owner, repo: ctx.repo, prNumber: ctx.issueNumber },
+    repoConfig,
+    currentLabels: ctx.issueLabels.map((l) => l.name),
+    method: args.flags.method,
+    trigger: `\`/${ctx.verb}\``,
+    title: ctx.verb === "squash" ? "Squash Preflight" : "Merge Preflight",
+    log: ctx.log,
+  });
 
-  const pr = await prs.get(ref);
-  if (pr.merged || pr.state !== "open") {
-    return { status: "rejected", reason: "This pull request is already closed or merged." };
+  if (result.status === "blocked") {
+    return { status: "rejected", reason: result.report };
   }
-  const expectedHeadSha = pr.headSha;
+  await reply(ctx, result.report);
+  return { status: "executed", message: result.message };
+}
 
-  const repoInfo = await octokit.rest.repos.get({ owner: ctx.owner, repo: ctx.repo });
-  if (!repoInfo?.data?.allow_squash_merge) {
-    return { status: "rejected", reason: "Squash merge is disabled for this repository. Enable it in repository settings before using `/squash`." };
+/**
+ * Handle /cancel command: stop this PR's pending auto-merge.
+ *
+ * Cancellation is sticky — the PR is left for a manual `/merge` even after
+ * new pushes.
+ */
+async function handleCancel(ctx: CommandContext, repoConfig: EffectiveConfig): Promise<CommandResult> {
+  if (!ctx.isPullRequest) {
+    return { status: "rejected", reason: "The `/cancel` command can only be used on pull requests, not issues." };
+  }
+  if (!repoConfig.governance.pr.mergeReady?.autoMerge) {
+    return { status: "rejected", reason: "Auto-merge is not enabled for this repository." };
   }
 
-  const preflight = await evaluatePreflightChecks({
+  const octokit = ctx.octokit as any; // Full Probot client at runtime
+  const prs = createPROperations(octokit, { appId: ctx.appId });
+  const result = await cancelAutoMerge(
     prs,
-    ref,
-    config: repoConfig.governance.pr.mergeReady,
-    trustedReviewers: repoConfig.governance.pr.trustedReviewers,
-    currentLabels,
-  });
+    { owner: ctx.owner, repo: ctx.repo, prNumber: ctx.issueNumber },
+    ctx.senderLogin
+  );
+  if (!result.cancelled) {
+    return { status: "rejected", reason: result.reason };
+  }
+  return { status: "executed", message: "Auto-merge cancelled." };
+}
 
-  const checklistLines = preflight.checks.map(formatCheckItem);
-  const hardCount = preflight.checks.filter((c) => c.severity === "hard").length;
-  const hardPassed = preflight.checks.filter((c) => c.severity === "hard" && c.passed).length;
+/**
+ * Issue phase labels, in lifecycle order. /status reports the first present.
+ */
+const ISSUE_PHASE_LABELS = [
+  LABELS.DISCUSSION,
+  LABELS.VOTING,
+  LABELS.EXTENDED_VOTING,
+  LABELS.NEEDS_HUMAN,
+  LABELS.READY_TO_IMPLEMENT,
+  LABELS.IMPLEMENTED,
+  LABELS.REJECTED,
+  LABELS.DUPLICATE,
+  LABELS.INCONCLUSIVE,
+] as const;
 
-  let body = `## 🐝 Squash Preflight for #${ctx.issueNumber}\n\n`;
-  body += `### Checklist\n\n`;
-  body += checklistLines.join("\n") + "\n\n";
+/**
+ * PR governance labels reported by /status.
+ */
+const PR_STATUS_LABELS = [LABELS.IMPLEMENTATION, LABELS.MERGE_READY, LABELS.STALE, LABELS.IMPLEMENTED] as const;
 
-  if (!preflight.allHardChecksPassed) {
-    body += `**${hardPassed}/${hardCount} hard checks passed.** Squash merge was blocked.`;
-    return { status: "rejected", reason: body };
+/**
+ * Auto exits for a timed phase label, or undefined for labels the scheduler
+ * never moves on (ready-to-implement, rejected, ...).
+ */
+function getPhaseAutoExits(
+  proposals: ProposalsConfig,
+  phaseLabel: string,
+): Array<DiscussionAutoExit | VotingAutoExit> | undefined {
+  switch (phaseLabel) {
+    case LABELS.DISCUSSION:
+      return proposals.discussion.exits.filter(isAutoDiscussionExit);
+    case LABELS.VOTING:
+      return proposals.voting.exits.filter(isAutoVotingExit);
+    case LABELS.EXTENDED_VOTING:
+      return proposals.extendedVoting.exits.filter(isAutoVotingExit);
+    default:
+      return undefined;
   }
+}
 
-  let commitTitle = "";
-  let commitBody = "";
-  try {
-    const prContext = await gatherPRContext(ctx, ref);
-    const noop = () => {};
-    const generator = new CommitMessageGenerator({
-      logger: {
-        info: (...a: unknown[]) => ctx.log.info(...a),
-        error: (...a: unknown[]) => ctx.log.error(...a),
-        warn: noop,
-        debug: noop,
-        group: noop,
-        groupEnd: noop,
-      },
-    });
-    const result = await generator.generate(prContext);
+/**
+ * Describe the conditions of an auto exit in one short phrase.
+ */
+function describeExitConditions(exit: DiscussionAutoExit | VotingAutoExit): string {
+  if ("requires" in exit) {
+    const { minCount, voters } = exit.requiredVoters;
+    const required = voters.length > 0 && minCount > 0 ? `, ${minCount} of ${voters.length} required voters` : "";
+    return `${describeExitRequires(exit.requires)}, quorum ${exit.minVoters}${required}`;
+  }
+  const { minCount, users } = exit.requiredReady;
+  const required = users.length > 0 && minCount > 0 ? `, ${minCount} of ${users.length} required` : "";
+  return `${exit.minReady} ready${required}`;
+}
+
+/**
+ * Render the configured auto exits for the current phase, marking which
+ * time gates have passed and when the next one fires.
+ */
+function formatExitSchedule(
+  exits: Array<DiscussionAutoExit | VotingAutoExit>,
+  phaseStartedAt: Date | null,
+  now: number,
+): string[] {
+  if (exits.length === 0) {
+    return ["All exits for this phase are manual — a maintainer command moves it on."];
+  }
 
-    if (!result.success) {
-      body += "### Commit Message\n\n";
-      body += "Commit message generation failed. Squash merge was blocked.\n\n";
-      body += `**${hardPassed}/${hardCount} hard checks passed.** Retry \`/squash\` after the generator is healthy.`;
-      return { status: "rejected", reason: body };
+  const lines = exits.map((exit, index) => {
+    const kind = index === exits.length - 1 ? "Deadline" : "Early exit";
+    const gate = `${kind} after ${formatDuration(exit.afterMs)} (${describeExitConditions(exit)})`;
+    if (!phaseStartedAt) {
+      return `- ${gate}`;
     }
+    const firesAt = phaseStartedAt.getTime() + exit.afterMs;
+    return firesAt <= now
+      ? `- ${gate} — time gate passed`
+      : `- ${gate} — ${formatTimestamp(new Date(firesAt))} (in ${formatDuration(firesAt - now)})`;
+  });
 
-    commitTitle = result.message.subject.trim();
-    const generatedBody = result.message.body.trim();
-    commitBody = generatedBody
-      ? `${generatedBody}\n\nPR: #${ctx.issueNumber}`
-      : `PR: #${ctx.issueNumber}`;
-    body += "### Proposed Commit Message\n\n";
-    body += "```\n" + formatCommitMessage(result.message, ctx.issueNumber) + "\n```\n\n";
-  } catch (error) {
-    const reason = error instanceof Error ? error.message : String(error);
-    ctx.log.error({ err: error }, `Commit message generation failed during /squash: ${reason}`);
-    body += "### Commit Message\n\n";
-    body += "Commit message generation failed. Squash merge was blocked.\n\n";
-    body += `**${hardPassed}/${hardCount} hard checks passed.** Retry \`/squash\` after the generator is healthy.`;
-    return { status: "rejected", reason: body };
+  return ["**Auto exits:**", ...lines];
+}
+
+/**
+ * Build the /status report for an issue: phase, phase start, auto exit
+ * schedule, and (in voting phases) the live tally and missing required voters.
+ */
+async function buildIssueStatus(ctx: CommandContext, repoConfig: EffectiveConfig): Promise<string> {
+  const lines = [`## 🐝 Status for #${ctx.issueNumber}`, ""];
+
+  const phaseLabel = ISSUE_PHASE_LABELS.find((label) => hasLabel(ctx, label));
+  if (!phaseLabel) {
+    lines.push("This issue has no governance phase label.");
+    return lines.join("\n");
   }
 
-  const freshPreflight = await evaluatePreflightChecks({
-    prs,
-    ref,
-    config: repoConfig.governance.pr.mergeReady,
-    trustedReviewers: repoConfig.governance.pr.trustedReviewers,
-    currentLabels,
+  const ref: IssueRef = { owner: ctx.owner, repo: ctx.repo, issueNumber: ctx.issueNumber };
+  const issues = createIssueOperations(ctx.octokit, { appId: ctx.appId });
+  const now = Date.now();
+  const labelEvents = await issues.getLabelEvents(ref);
+  const phaseStartedAt = findLabelAddedTime(labelEvents, phaseLabel);
+
+  lines.push(
+    `**Phase:** \`${phaseLabel}\`` +
+      (phaseStartedAt ? ` since ${formatTimestamp(phaseStartedAt)} (${formatDuration(now - phaseStartedAt.getTime())} ago)` : ""),
+  );
+
+  const cycleTime = computeIssueCycleTime(ctx.issueNumber, labelEvents, new Date(now));
+  const phaseTotals = CYCLE_TIME_PHASES.flatMap((phase) => {
+    const total = cycleTime.totals[phase];
+    return total === undefined ? [] : [`\`${phase}\` ${formatDuration(total)}`];
   });
-  if (!freshPreflight.allHardChecksPassed) {
-    const freshHardCount = freshPreflight.checks.filter((c) => c.severity === "hard").length;
-    const freshHardPassed = freshPreflight.checks.filter((c) => c.severity === "hard" && c.passed).length;
-    body += `**${freshHardPassed}/${freshHardCount} hard checks passed on final verification.** Checks changed while processing; squash merge was blocked.`;
-    return { status: "rejected", reason: body };
+  if (phaseTotals.length > 1) {
+    lines.push(`**Time in phases:** ${phaseTotals.join(" · ")}`);
   }
 
-  try {
-    await octokit.rest.pulls.merge({
-      owner: ctx.owner,
-      repo: ctx.repo,
-      pull_number: ctx.issueNumber,
-      sha: expectedHeadSha,
-      merge_method: "squash",
-      commit_title: commitTitle,
-      commit_message: commitBody,
-    });
-  } catch (error) {
-    const reason = error instanceof Error ? error.message : String(error);
-    ctx.log.error({ err: error }, `Squash merge failed for #${ctx.issueNumber}: ${reason}`);
-    body += "### Merge\n\n";
-    body += "Squash merge failed due to a GitHub merge API error. Resolve merge blockers and retry.\n\n";
-    return { status: "rejected", reason: body };
+  const profile = findGovernanceProfile(repoConfig, ctx.issueLabels);
+  if (profile) {
+    lines.push(`**Governance profile:** \`${profile.name}\``);
   }
+  const proposals = profile?.proposals ?? repoConfig.governance.proposals;
 
-  body += `**${hardPassed}/${hardCount} hard checks passed.** Squash merge completed successfully.`;
-  await reply(ctx, body);
-  return { status: "executed", message: "Squash merge completed." };
+  const autoExits = getPhaseAutoExits(proposals, phaseLabel);
+  if (!autoExits) {
+    return lines.join("\n");
+  }
+
+  // /extend pushes every exit back, so the schedule runs from the extended start
+  const extensionMs = phaseStartedAt ? await issues.getPhaseExtensionMs(ref, phaseLabel, phaseStartedAt) : 0;
+  if (extensionMs > 0) {
+    lines.push(`**Extended by:** ${formatDuration(extensionMs)}`);
+  }
+  const scheduleStart = phaseStartedAt ? new Date(phaseStartedAt.getTime() + extensionMs) : null;
+  lines.push("", ...formatExitSchedule(autoExits, scheduleStart, now));
+
+  if (phaseLabel === LABELS.DISCUSSION) {
+    return lines.join("\n");
+  }
+  lines.push("");
+
+  const commentId = await issues.findVotingCommentId(ref);
+  if (!commentId) {
+    lines.push("No voting comment found yet.");
+    return lines.join("\n");
+  }
+
+  const validated = await issues.getValidatedVoteCounts(ref, commentId, proposals.voting.weights);
+  lines.push("**Live tally:**", formatVotes(validated.votes), `Valid voters: ${validated.voters.length}`);
+
+  // Required voters are judged against the deadline exit — the one that always applies
+  const deadlineExit = autoExits[autoExits.length - 1];
+  const requiredVoters = deadlineExit && "requiredVoters" in deadlineExit ? deadlineExit.requiredVoters.voters : [];
+  if (requiredVoters.length > 0) {
+    const participants = new Set(validated.participants);
+    const missing = requiredVoters.filter((voter) => !participants.has(voter));
+    lines.push(
+      missing.length > 0
+        ? `**Required voters missing:** ${missing.map((voter) => `@${voter}`).join(", ")}`
+        : "All required voters have voted.",
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Build the /status report for a PR: governance labels, linked issues with
+ * their phase and this PR's leaderboard position, and a preflight summary.
+ */
+async function buildPRStatus(ctx: CommandContext, repoConfig: EffectiveConfig): Promise<string> {
+  const lines = [`## 🐝 Status for PR #${ctx.issueNumber}`, ""];
+  const octokit = ctx.octokit as any; // Full Probot client at runtime
+
+  const labels = PR_STATUS_LABELS.filter((label) => hasLabel(ctx, label));
+  lines.push(`**Labels:** ${labels.length > 0 ? labels.map((label) => `\`${label}\``).join(", ") : "none"}`, "");
+
+  const linkedIssues = await getLinkedIssues(octokit, ctx.owner, ctx.repo, ctx.issueNumber);
+  if (linkedIssues.length === 0) {
+    lines.push("**Linked issues:** none — link one with `Fixes #<issue-number>`.");
+  } else {
+    lines.push("**Linked issues:**");
+    for (const issue of linkedIssues) {
+      const phase = ISSUE_PHASE_LABELS.find((label) => linkedIssueHasLabel(issue, label));
+      let line = `- #${issue.number} ${issue.title}${phase ? ` — \`${phase}\`` : ""}`;
+      if (phase === LABELS.READY_TO_IMPLEMENT) {
+        const ranked = rankLeaderboard(
+          await getLeaderboardScores(octokit, ctx.appId, ctx.owner, ctx.repo, issue.number),
+        );
+        const position = ranked.findIndex((entry) => entry.number === ctx.issueNumber);
+        line += position >= 0
+          ? ` — leaderboard #${position + 1} of ${ranked.length} (${ranked[position].approvals} approval${ranked[position].approvals === 1 ? "" : "s"})`
+          : " — not on the leaderboard";
+      }
+      lines.push(line);
+    }
+  }
+
+  const preflight = await evaluatePreflightChecks({
+    prs: createPROperations(octokit, { appId: ctx.appId }),
+    ref: { owner: ctx.owner, repo: ctx.repo, prNumber: ctx.issueNumber },
+    config: repoConfig.governance.pr.mergeReady,
+    trustedReviewers: repoConfig.governance.pr.trustedReviewers,
+    currentLabels: ctx.issueLabels.map((l) => l.name),
+  });
+  const hardChecks = preflight.checks.filter((c) => c.severity === "hard");
+  const failing = hardChecks.filter((c) => !c.passed).map((c) => c.name);
+  lines.push(
+    "",
+    `**Preflight:** ${hardChecks.length - failing.length}/${hardChecks.length} hard checks passed` +
+      (failing.length > 0 ? ` — failing: ${failing.join(", ")}` : ""),
+  );
+
+  return lines.join("\n");
 }
 
 /**
- * Format a single preflight check item as a markdown line.
+ * Handle /status command: reply with a summary of the issue's or PR's
+ * governance state. Read-only.
  */
-function formatCheckItem(check: PreflightCheckItem): string {
-  const icon = check.passed ? "[x]" : (check.severity === "advisory" ? "[!]" : "[ ]");
-  const severityTag = check.severity === "advisory" ? " *(advisory)*" : "";
-  return `- ${icon} **${check.name}**: ${check.detail}${severityTag}`;
+async function handleStatus(ctx: CommandContext, repoConfig: EffectiveConfig): Promise<CommandResult> {
+  const body = ctx.isPullRequest
+    ? await buildPRStatus(ctx, repoConfig)
+    : await buildIssueStatus(ctx, repoConfig);
+
+  await reply(ctx, body);
+
+  return { status: "executed", message: "Status report posted." };
 }
 
 /**
- * Gather PR context for commit message generation.
- * Collects title, body, and commit messages via the full Probot octokit.
+ * Handle /extend command: push back the current phase's exits.
+ *
+ * The extension is recorded in a bot comment's metadata rather than in
+ * config, so the scheduled script picks it up on its next run and it
+ * expires naturally when the phase label changes.
  */
-async function gatherPRContext(
+async function handleExtend(
   ctx: CommandContext,
-  ref: PRRef,
-): Promise<PRContext> {
-  const prContext: PRContext = {
-    prNumber: ref.prNumber,
-    title: "",
-    body: "",
-    diffStat: "",
-    commitMessages: [],
-  };
+  repoConfig: EffectiveConfig,
+  args: CommandArgs<"extend">,
+): Promise<CommandResult> {
+  if (ctx.isPullRequest) {
+    return { status: "rejected", reason: "The `/extend` command can only be used on issues, not pull requests." };
+  }
 
-  try {
-    // The command context receives the full Probot octokit cast to CommandOctokit.
-    // For PR context gathering we need pulls.get and pulls.listCommits which are
-    // available on the underlying client. This cast is safe — read-only operations.
-    const fullOctokit = ctx.octokit as unknown as {
-      rest: {
-        pulls: {
-          get: (p: { owner: string; repo: string; pull_number: number }) =>
-            Promise<{ data: { title: string; body: string | null } }>;
-          listCommits: (p: { owner: string; repo: string; pull_number: number; per_page?: number }) =>
-            Promise<{ data: Array<{ commit: { message: string } }> }>;
-        };
-      };
+  const phaseLabel = COMMANDS.extend.phases.find((label) => hasLabel(ctx, label));
+  if (!phaseLabel) {
+    return {
+      status: "rejected",
+      reason: "The `/extend` command requires an issue in discussion, voting, or extended voting.",
     };
+  }
 
-    const pullData = await fullOctokit.rest.pulls.get({
-      owner: ref.owner,
-      repo: ref.repo,
-      pull_number: ref.prNumber,
-    });
-    prContext.title = pullData.data.title;
-    prContext.body = pullData.data.body ?? "";
-
-    // Get commit messages
-    const commits = await fullOctokit.rest.pulls.listCommits({
-      owner: ref.owner,
-      repo: ref.repo,
-      pull_number: ref.prNumber,
-      per_page: 100,
-    });
-    prContext.commitMessages = commits.data.map(c => c.commit.message.split("\n")[0]);
-  } catch (error) {
-    // Non-fatal — we still have the checklist
-    ctx.log.error({ err: error }, "Failed to gather full PR context for commit message");
+  const maxMs = CONFIG_BOUNDS.extension.maxMinutes * 60 * 1000;
+  const extensionMs = parseDuration(args.text);
+  if (extensionMs === null || extensionMs > maxMs) {
+    return {
+      status: "rejected",
+      reason: `Usage: \`/extend <duration>\` with a duration up to ${formatDuration(maxMs)}, e.g. \`/extend 12h\`, \`/extend 2d\`, or \`/extend 1d6h\`.`,
+    };
   }
 
-  return prContext;
+  const profile = findGovernanceProfile(repoConfig, ctx.issueLabels);
+  const autoExits = getPhaseAutoExits(profile?.proposals ?? repoConfig.governance.proposals, phaseLabel) ?? [];
+  if (autoExits.length === 0) {
+    return {
+      status: "rejected",
+      reason: `All exits for \`${phaseLabel}\` are manual — there is no deadline to extend.`,
+    };
+  }
+
+  const ref: IssueRef = { owner: ctx.owner, repo: ctx.repo, issueNumber: ctx.issueNumber };
+  const issues = createIssueOperations(ctx.octokit, { appId: ctx.appId });
+  const phaseStartedAt = await issues.getLabelAddedTime(ref, phaseLabel);
+  if (!phaseStartedAt) {
+    return { status: "rejected", reason: `Could not determine when \`${phaseLabel}\` started, so it cannot be extended.` };
+  }
+
+  const priorMs = await issues.getPhaseExtensionMs(ref, phaseLabel, phaseStartedAt);
+  const deadline = new Date(phaseStartedAt.getTime() + autoExits[autoExits.length - 1].afterMs + priorMs + extensionMs);
+
+  await issues.comment(
+    ref,
+    buildExtensionComment(
+      MESSAGES.phaseExtended({
+        phase: phaseLabel,
+        extension: formatDuration(extensionMs),
+        extendedBy: ctx.senderLogin,
+        deadline: formatTimestamp(deadline),
+      }),
+      ctx.issueNumber,
+      { phase: phaseLabel, extensionMs, extendedBy: ctx.senderLogin },
+    ),
+  );
+
+  return { status: "executed", message: `Extended ${phaseLabel} by ${formatDuration(extensionMs)}.` };
+}
+
+/**
+ * Check whether a command applies here: issue vs PR, and the issue's phase.
+ */
+function isAvailableHere(ctx: CommandContext, command: CommandDefinition): boolean {
+  if (command.target === "issue" && ctx.isPullRequest) {
+    return false;
+  }
+  if (command.target === "pr" && !ctx.isPullRequest) {
+    return false;
+  }
+  return !command.phases || command.phases.some((label) => hasLabel(ctx, label));
+}
+
+/**
+ * Handle /help command: list the commands the sender can run on this issue
+ * or PR right now, generated from the command registry.
+ */
+async function handleHelp(ctx: CommandContext, repoConfig: EffectiveConfig): Promise<CommandResult> {
+  // One permission lookup shared across every verb
+  let levels: Promise<string[]> | undefined;
+  const getLevels = () => (levels ??= getSenderPermissionLevels(ctx));
+
+  const mention = ctx.mentionName ?? MENTION_NAMES[0];
+  const rows: string[] = [];
+  for (const verb of COMMAND_VERBS) {
+    const command = COMMANDS[verb];
+    if (!isAvailableHere(ctx, command)) {
+      continue;
+    }
+    if (!(await isAuthorized(ctx, getCommandPermission(repoConfig, verb), getLevels))) {
+      continue;
+    }
+    const syntax = command.usage ? `/${verb} ${command.usage}` : `/${verb}`;
+    rows.push(`| \`@${mention} ${syntax}\` | ${command.description} |`);
+  }
+
+  const target = ctx.isPullRequest ? "pull request" : "issue";
+  const phase = ISSUE_PHASE_LABELS.find((label) => hasLabel(ctx, label));
+  const lines = [
+    "## 🐝 Commands",
+    "",
+    `Commands you can run on this ${target}${!ctx.isPullRequest && phase ? ` (\`${phase}\`)` : ""}:`,
+    "",
+    "| Command | Description |",
+    "|---|---|",
+    ...rows,
+  ];
+
+  await reply(ctx, lines.join("\n"));
+
+  return { status: "executed", message: "Help posted." };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Command Router
 // ─────────────────────────────────────────────────────────────────────────────
 
-/** Registry mapping command verbs to their handlers */
-const COMMAND_HANDLERS: Record<string, (ctx: CommandContext) => Promise<CommandResult>> = {
+/**
+ * Command handler. Receives the repo config loaded once by executeCommand
+ * and the verb's validated arguments.
+ */
+type CommandHandler<V extends CommandVerb> = (
+  ctx: CommandContext,
+  repoConfig: EffectiveConfig,
+  args: CommandArgs<V>,
+) => Promise<CommandResult>;
+
+/** Dispatch table: one handler per registered verb (see registry.ts) */
+const COMMAND_HANDLERS: { [V in CommandVerb]: CommandHandler<V> } = {
   vote: handleVote,
   implement: handleImplement,
   gather: handleGather,
   preflight: handlePreflight,
-  squash: handleSquash,
+  merge: handleMerge,
+  squash: handleMerge,
+  cancel: handleCancel,
+  status: handleStatus,
+  extend: handleExtend,
+  reject: handleReject,
+  duplicate: handleDuplicate,
+  help: handleHelp,
 };
 
+/**
+ * Explain invalid arguments, listing the verb's valid flags. Only verbs with
+ * flags can fail argument parsing.
+ */
+function describeArgsError(verb: CommandVerb, error: string): string {
+  const command: CommandDefinition = COMMANDS[verb];
+  const flags = Object.entries(command.flags ?? {});
+  return [
+    `Invalid arguments for \`/${verb}\`: ${error}.`,
+    "",
+    "Valid flags:",
+    ...flags.map(([flag, description]) => `- \`${flag}\` — ${description}`),
+  ].join("\n");
+}
+
+/**
+ * Check the sender against the verb's `commands` permission, validate its
+ * arguments, then run its handler. Reactions and replies are left to the caller.
+ */
+async function runCommand<V extends CommandVerb>(
+  ctx: CommandContext,
+  verb: V,
+  repoConfig: EffectiveConfig,
+  getLevels?: () => Promise<string[]>,
+): Promise<CommandResult> {
+  const permission = getCommandPermission(repoConfig, verb);
+  if (!(await isAuthorized(ctx, permission, getLevels))) {
+    ctx.log.info(
+      `Command /${verb} from unauthorized user ${ctx.senderLogin} on #${ctx.issueNumber} — rejecting`,
+    );
+    return { status: "rejected", reason: describeCommandPermission(verb, permission) };
+  }
+
+  const parsed = parseCommandArgs(verb, ctx.freeText);
+  if (!parsed.success) {
+    return { status: "rejected", reason: describeArgsError(verb, parsed.error) };
+  }
+
+  ctx.log.info(
+    `Executing command /${verb} from ${ctx.senderLogin} on #${ctx.issueNumber}`,
+  );
+
+  const handler: CommandHandler<V> = COMMAND_HANDLERS[verb];
+  return handler(ctx, repoConfig, parsed.args);
+}
+
+/**
+ * Re-read the issue's labels so a later command in the same comment sees
+ * the phase an earlier one moved it to. Falls back to the previous labels.
+ */
+async function fetchIssueLabels(
+  ctx: CommandBatchContext,
+  fallback: Array<{ name: string }>,
+): Promise<Array<{ name: string }>> {
+  try {
+    const { data } = await ctx.octokit.rest.issues.listLabelsOnIssue({
+      owner: ctx.owner,
+      repo: ctx.repo,
+      issue_number: ctx.issueNumber,
+      per_page: 100,
+    });
+    return data.map((label) => ({ name: label.name }));
+  } catch (error) {
+    ctx.log.warn(
+      { err: error, issue: ctx.issueNumber },
+      `Failed to refresh labels on #${ctx.issueNumber} — using labels from the webhook`,
+    );
+    return fallback;
+  }
+}
+
 /**
  * Execute a parsed command.
  *
  * Authorization flow:
  * 1. Check if the verb is recognized → ignore if not
- * 2. Check sender permissions → silent ignore if not authorized
- * 3. React with 👀 to acknowledge receipt
- * 4. Execute the handler
- * 5. React with ✅ on success, post error comment on rejection
+ * 2. Skip webhook retries (👀 or the review marker already present)
+ * 3. React with 👀 (or post the review marker) to acknowledge receipt
+ * 4. Check sender against the verb's `commands` permission → explain and reject if not authorized
+ * 5. Execute the handler
+ * 6. React with ✅ on success, post error comment on rejection (dropping
+ *    the 👀 so an edit that fixes the command runs it)
  */
 export async function executeCommand(ctx: CommandContext): Promise<CommandResult> {
-  const handler = COMMAND_HANDLERS[ctx.verb];
-  if (!handler) {
+  if (!isCommandVerb(ctx.verb)) {
     // Unknown command — silent ignore (not a command we handle)
     return { status: "ignored" };
   }
-
-  // Authorization: only maintainers can use commands
-  const authorized = await isAuthorized(ctx);
-  if (!authorized) {
-    // Per issue #81: "for everyone else this should be ignored"
-    ctx.log.info(
-      `Command /${ctx.verb} from unauthorized user ${ctx.senderLogin} on #${ctx.issueNumber} — ignoring`,
-    );
-    return { status: "ignored" };
-  }
+  const verb = ctx.verb;
 
   // Idempotency guard: if we already reacted with 👀, this is a webhook
   // retry and the command was already executed. Skip to prevent duplicates.
   if (await alreadyProcessed(ctx)) {
     ctx.log.info(
-      `Command /${ctx.verb} on comment ${ctx.commentId} already processed (eyes reaction found) — skipping retry`,
+      `Command /${ctx.verb} on comment ${ctx.commentId} already processed — skipping retry`,
     );
     return { status: "ignored" };
   }
 
   // Acknowledge receipt
-  await react(ctx, "eyes");
+  await acknowledge(ctx);
 
-  ctx.log.info(
-    `Executing command /${ctx.verb} from ${ctx.senderLogin} on #${ctx.issueNumber}`,
-  );
+  const repoConfig = await loadRepositoryConfig(ctx.octokit as any, ctx.owner, ctx.repo); // Full Probot client at runtime
 
   try {
-    const result = await handler(ctx);
+    const result = await runCommand(ctx, verb, repoConfig);
 
     if (result.status === "executed") {
       await react(ctx, "+1");
     } else if (result.status === "rejected") {
+      await withdrawAcknowledgment(ctx);
       await react(ctx, "confused");
       await reply(ctx, result.reason);
     }
@@ -803,3 +1457,86 @@ export async function executeCommand(ctx: CommandContext): Promise<CommandResult
     throw error;
   }
 }
+
+/**
+ * Execute every command from one comment, in order.
+ *
+ * A single command runs through executeCommand unchanged. With several, the
+ * comment gets one 👀 and one combined reply summarizing each result; the
+ * first rejection stops the rest and drops the 👀, so an edit re-runs the
+ * whole list. Unknown verbs are dropped up front.
+ *
+ * Returns the result of each command that ran.
+ */
+export async function executeCommands(
+  ctx: CommandBatchContext,
+  commands: ParsedCommand[],
+): Promise<CommandResult[]> {
+  const known = commands.filter((command): command is ParsedCommand & { verb: CommandVerb } =>
+    isCommandVerb(command.verb),
+  );
+  if (known.length === 0) {
+    return [];
+  }
+  if (known.length === 1) {
+    return [await executeCommand({ ...ctx, ...known[0] })];
+  }
+
+  const verbs = known.map((command) => `/${command.verb}`).join(", ");
+  if (await alreadyProcessed(ctx)) {
+    ctx.log.info(
+      `Commands ${verbs} on comment ${ctx.commentId} already processed — skipping retry`,
+    );
+    return [];
+  }
+
+  await acknowledge(ctx);
+
+  const repoConfig = await loadRepositoryConfig(ctx.octokit as any, ctx.owner, ctx.repo); // Full Probot client at runtime
+
+  // One permission lookup shared across every command
+  let levels: Promise<string[]> | undefined;
+  const getLevels = () => (levels ??= getSenderPermissionLevels(ctx));
+
+  const results: CommandResult[] = [];
+  let issueLabels = ctx.issueLabels;
+  try {
+    for (const command of known) {
+      if (results.length > 0) {
+        issueLabels = await fetchIssueLabels(ctx, issueLabels);
+      }
+      const result = await runCommand({ ...ctx, ...command, issueLabels }, command.verb, repoConfig, getLevels);
+      results.push(result);
+      if (result.status === "rejected") {
+        break;
+      }
+    }
+  } catch (error) {
+    await react(ctx, "confused");
+    ctx.log.error(
+      { err: error, verbs, issue: ctx.issueNumber },
+      `Command /${known[results.length].verb} failed`,
+    );
+    throw error;
+  }
+
+  const summary = known.map((command, index) => {
+    const result = results[index];
+    if (!result) {
+      return `- ⏭️ \`/${command.verb}\` — Skipped after an earlier command was rejected.`;
+    }
+    if (result.status === "rejected") {
+      return `- ❌ \`/${command.verb}\` — ${result.reason}`;
+    }
+    return `- ✅ \`/${command.verb}\`${result.status === "executed" ? ` — ${result.message}` : ""}`;
+  });
+
+  const rejected = results.some((result) => result.status === "rejected");
+  if (rejected) {
+    await withdrawAcknowledgment(ctx);
+  }
+  await react(ctx, rejected ? "confused" : "+1");
+  await reply(ctx, ["## 🐝 Command Results", "", ...summary].join("\n"));
+
+  return results;
+}
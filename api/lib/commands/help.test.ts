@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { executeCommand, type CommandContext } from "./handlers.js";
+import { LABELS } from "../../config.js";
+
+/**
+ * Tests for the /help command handler.
+ *
+ * The /help command:
+ * - Works on both issues and PRs (read-only)
+ * - Lists only commands valid for the target (issue vs PR) and the issue's phase
+ * - Hides commands the sender is not permitted to run
+ * - Looks up the sender's permission level at most once
+ */
+
+// All vi.mock() factories are hoisted — values must be inlined, not referenced.
+
+let mockRepoConfig: Record<string, unknown>;
+
+vi.mock("../index.js", async () => {
+  const repoConfig = await vi.importActual<typeof import("../repo-config.js")>("../repo-config.js");
+  return {
+    createIssueOperations: vi.fn(() => ({})),
+    createGovernanceService: vi.fn(() => ({})),
+    createPROperations: vi.fn(() => ({})),
+    loadRepositoryConfig: vi.fn(async () => mockRepoConfig),
+    findGovernanceProfile: repoConfig.findGovernanceProfile,
+  };
+});
+
+function createMockOctokit(permission = "admin") {
+  return {
+    rest: {
+      repos: {
+        getCollaboratorPermissionLevel: vi.fn().mockResolvedValue({ data: { permission } }),
+      },
+      reactions: {
+        createForIssueComment: vi.fn().mockResolvedValue({}),
+      },
+      issues: {
+        createComment: vi.fn().mockResolvedValue({}),
+      },
+    },
+  };
+}
+
+function createCtx(overrides: Partial<CommandContext> = {}): CommandContext {
+  return {
+    octokit: createMockOctokit(),
+    owner: "test-org",
+    repo: "test-repo",
+    issueNumber: 42,
+    commentId: 100,
+    senderLogin: "maintainer",
+    verb: "help",
+    freeText: undefined,
+    issueLabels: [{ name: LABELS.DISCUSSION }],
+    isPullRequest: false,
+    appId: 12345,
+    log: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+    ...overrides,
+  };
+}
+
+function postedBody(ctx: CommandContext): string {
+  const calls = (ctx.octokit.rest.issues.createComment as ReturnType<typeof vi.fn>).mock.calls;
+  expect(calls).toHaveLength(1);
+  return (calls[0][0] as { body: string }).body;
+}
+
+describe("/help command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRepoConfig = { version: 1, commands: {} };
+  });
+
+  it("should list issue commands valid for the current phase", async () => {
+    const ctx = createCtx();
+    const result = await executeCommand(ctx);
+
+    expect(result).toEqual({ status: "executed", message: "Help posted." });
+    const body = postedBody(ctx);
+    expect(body).toContain(`on this issue (\`${LABELS.DISCUSSION}\`)`);
+    expect(body).toContain("`@hivemoot /vote` | Move the issue from discussion to voting.");
+    expect(body).toContain("`@hivemoot /extend <duration>`");
+    expect(body).toContain("`@hivemoot /duplicate #<issue> [reason]`");
+    expect(body).toContain("`@hivemoot /status`");
+    expect(body).toContain("`@hivemoot /help`");
+    expect(body).not.toContain("/preflight");
+    expect(body).not.toContain("/squash");
+  });
+
+  it("should drop commands that do not apply to the phase", async () => {
+    const ctx = createCtx({ issueLabels: [{ name: LABELS.READY_TO_IMPLEMENT }] });
+    await executeCommand(ctx);
+
+    const body = postedBody(ctx);
+    expect(body).not.toContain("/vote");
+    expect(body).not.toContain("/extend");
+    expect(body).not.toContain("/reject");
+    expect(body).toContain("/status");
+  });
+
+  it("should list PR commands on pull requests", async () => {
+    const ctx = createCtx({ isPullRequest: true, issueLabels: [] });
+    await executeCommand(ctx);
+
+    const body = postedBody(ctx);
+    expect(body).toContain("on this pull request:");
+    expect(body).toContain("`@hivemoot /preflight [--no-llm]`");
+    expect(body).toContain("`@hivemoot /squash [--method=<squash|rebase|merge>]`");
+    expect(body).not.toContain("/vote");
+    expect(body).not.toContain("/implement");
+  });
+
+  it("should show the mention name the installation answers to", async () => {
+    const ctx = createCtx({ mentionName: "colony-queen" });
+    await executeCommand(ctx);
+
+    const body = postedBody(ctx);
+    expect(body).toContain("`@colony-queen /vote`");
+    expect(body).not.toContain("@hivemoot");
+  });
+
+  it("should hide commands the sender cannot run", async () => {
+    mockRepoConfig = {
+      version: 1,
+      commands: {
+        help: { permissions: ["read"], users: [] },
+        status: { permissions: ["read"], users: [] },
+        reject: { permissions: [], users: ["reader"] },
+      },
+    };
+    const ctx = createCtx({ octokit: createMockOctokit("read"), senderLogin: "reader" });
+    const result = await executeCommand(ctx);
+
+    expect(result.status).toBe("executed");
+    const body = postedBody(ctx);
+    expect(body).toContain("/status");
+    expect(body).toContain("/reject");
+    expect(body).not.toContain("/vote");
+    expect(body).not.toContain("/extend");
+    // One lookup for the router's auth check, one shared by every listed verb
+    expect(ctx.octokit.rest.repos.getCollaboratorPermissionLevel).toHaveBeenCalledTimes(2);
+  });
+});
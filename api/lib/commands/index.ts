@@ -5,7 +5,9 @@
  * Re-exports the parser and handler for use in webhook handlers.
  */
 
-export { parseCommand } from "./parser.js";
-export type { ParsedCommand } from "./parser.js";
-export { executeCommand } from "./handlers.js";
-export type { CommandContext, CommandOctokit, CommandResult } from "./handlers.js";
+export { hasMentionCommand, parseArgs, parseCommand, parseCommandArgs, parseCommands, parseDuration } from "./parser.js";
+export type { CommandArgsResult, ParsedCommand, RawCommandArgs } from "./parser.js";
+export { COMMANDS, COMMAND_VERBS, MERGE_METHODS, isCommandVerb } from "./registry.js";
+export type { CommandArgs, CommandDefinition, CommandVerb, MergeMethod } from "./registry.js";
+export { executeCommand, executeCommands } from "./handlers.js";
+export type { CommandBatchContext, CommandContext, CommandOctokit, CommandResult, CommandSource } from "./handlers.js";
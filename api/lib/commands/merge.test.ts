@@ -0,0 +1,264 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { executeCommand, type CommandContext } from "./handlers.js";
+import { LABELS } from "../../config.js";
+
+/**
+ * Tests for the /merge command handler.
+ *
+ * The /merge command shares /squash's preflight flow (see squash.test.ts) and adds:
+ * - Merge method resolution: --method, then governance.pr.mergeMethod, then the
+ *   first method the repository allows
+ * - Merge queue support: enqueues via GraphQL when the base branch requires it
+ */
+
+// All vi.mock() factories are hoisted — values must be inlined, not referenced.
+
+let mockRepoConfig: Record<string, unknown>;
+
+vi.mock("../index.js", () => ({
+  createIssueOperations: vi.fn(() => ({})),
+  createGovernanceService: vi.fn(() => ({})),
+  createPROperations: vi.fn(() => ({
+    get: vi.fn().mockResolvedValue({ number: 42, state: "open", merged: false, headSha: "abc123", mergeable: true }),
+  })),
+  loadRepositoryConfig: vi.fn(async () => mockRepoConfig),
+}));
+
+vi.mock("../merge-readiness.js", () => ({
+  evaluatePreflightChecks: vi.fn().mockResolvedValue({
+    checks: [
+      { name: "Approved by trusted reviewers", passed: true, severity: "hard", detail: "1/1 trusted approvals (alice)" },
+      { name: "CI checks passing", passed: true, severity: "hard", detail: "All 3 check(s) passed" },
+    ],
+    allHardChecksPassed: true,
+  }),
+}));
+
+vi.mock("../llm/commit-message.js", () => ({
+  CommitMessageGenerator: vi.fn().mockImplementation(function () {
+    return {
+      generate: vi.fn().mockResolvedValue({
+        success: true,
+        message: { subject: "Add merge helper", body: "Adds the merge helper." },
+      }),
+    };
+  }),
+  formatCommitMessage: vi.fn().mockReturnValue("Add merge helper\n\nAdds the merge helper.\n\nPR: #42"),
+}));
+
+function buildRepoConfig(mergeMethod = "squash") {
+  return {
+    version: 1,
+    governance: {
+      pr: {
+        mergeReady: { minApprovals: 1 },
+        trustedReviewers: ["alice"],
+        staleDays: 3,
+        maxPRsPerIssue: 3,
+        intake: [],
+        mergeMethod,
+      },
+      proposals: {},
+      profiles: [],
+    },
+    standup: { enabled: false },
+    commands: {},
+  };
+}
+
+function queueState(enabled: boolean, queued = false) {
+  return { repository: { pullRequest: { id: "PR_42", isMergeQueueEnabled: enabled, isInMergeQueue: queued } } };
+}
+
+function createMockOctokit(repoSettings: Record<string, boolean> = { allow_squash_merge: true }) {
+  return {
+    rest: {
+      repos: {
+        getCollaboratorPermissionLevel: vi.fn().mockResolvedValue({ data: { permission: "admin" } }),
+        get: vi.fn().mockResolvedValue({ data: repoSettings }),
+      },
+      reactions: {
+        createForIssueComment: vi.fn().mockResolvedValue({}),
+        listForIssueComment: vi.fn().mockResolvedValue({ data: [] }),
+      },
+      issues: {
+        createComment: vi.fn().mockResolvedValue({}),
+      },
+      pulls: {
+        get: vi.fn().mockResolvedValue({ data: { title: "Add merge helper", body: "PR description" } }),
+        listCommits: vi.fn().mockResolvedValue({ data: [{ commit: { message: "initial commit" } }] }),
+        merge: vi.fn().mockResolvedValue({}),
+      },
+    },
+    graphql: vi.fn().mockResolvedValue(queueState(false)),
+  };
+}
+
+function createPRCtx(overrides: Partial<CommandContext> = {}): CommandContext {
+  return {
+    octokit: createMockOctokit(),
+    owner: "test-org",
+    repo: "test-repo",
+    issueNumber: 42,
+    commentId: 100,
+    senderLogin: "maintainer",
+    verb: "merge",
+    freeText: undefined,
+    issueLabels: [{ name: LABELS.IMPLEMENTATION }],
+    isPullRequest: true,
+    appId: 12345,
+    log: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+    ...overrides,
+  };
+}
+
+function postedBody(ctx: CommandContext): string {
+  const calls = (ctx.octokit.rest.issues.createComment as ReturnType<typeof vi.fn>).mock.calls;
+  expect(calls).toHaveLength(1);
+  return (calls[0][0] as { body: string }).body;
+}
+
+describe("/merge command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRepoConfig = buildRepoConfig();
+  });
+
+  describe("merge method", () => {
+    it("uses the configured merge method", async () => {
+      mockRepoConfig = buildRepoConfig("merge");
+      const octokit = createMockOctokit({ allow_squash_merge: true, allow_merge_commit: true });
+      const ctx = createPRCtx({ octokit });
+
+      const result = await executeCommand(ctx);
+
+      expect(result).toEqual({ status: "executed", message: "Merge commit completed." });
+      expect(octokit.rest.pulls.merge).toHaveBeenCalledWith(
+        expect.objectContaining({ sha: "abc123", merge_method: "merge", commit_title: "Add merge helper" }),
+      );
+      expect(postedBody(ctx)).toContain("Merge Preflight for #42");
+    });
+
+    it("falls back to the first allowed method when the configured one is disabled", async () => {
+      const { CommitMessageGenerator } = await import("../llm/commit-message.js");
+      const octokit = createMockOctokit({ allow_squash_merge: false, allow_rebase_merge: true });
+      const ctx = createPRCtx({ octokit });
+
+      const result = await executeCommand(ctx);
+
+      expect(result).toEqual({ status: "executed", message: "Rebase merge completed." });
+      expect(CommitMessageGenerator).not.toHaveBeenCalled();
+      expect(octokit.rest.pulls.merge).toHaveBeenCalledWith(expect.objectContaining({ merge_method: "rebase" }));
+    });
+
+    it("prefers --method over the configured method", async () => {
+      const octokit = createMockOctokit({ allow_squash_merge: true, allow_merge_commit: true });
+      const ctx = createPRCtx({ octokit, freeText: "--method=merge" });
+
+      await executeCommand(ctx);
+
+      expect(octokit.rest.pulls.merge).toHaveBeenCalledWith(expect.objectContaining({ merge_method: "merge" }));
+    });
+
+    it("rejects a requested method the repository does not allow", async () => {
+      const ctx = createPRCtx({ freeText: "--method=rebase" });
+
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+      expect(ctx.octokit.rest.pulls.merge).not.toHaveBeenCalled();
+      expect(postedBody(ctx)).toContain("Rebase merge is disabled for this repository. Enable it in repository settings before using `/merge`.");
+    });
+
+    it("rejects when the repository allows no merge method", async () => {
+      const octokit = createMockOctokit({});
+      const ctx = createPRCtx({ octokit });
+
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+      expect(postedBody(ctx)).toContain("No merge method is enabled");
+    });
+  });
+
+  describe("merge queue", () => {
+    it("enqueues instead of merging when the base branch uses a merge queue", async () => {
+      const { CommitMessageGenerator } = await import("../llm/commit-message.js");
+      const octokit = createMockOctokit();
+      octokit.graphql
+        .mockResolvedValueOnce(queueState(true))
+        .mockResolvedValueOnce({ enqueuePullRequest: { mergeQueueEntry: { position: 2 } } });
+      const ctx = createPRCtx({ octokit, freeText: "--method=rebase" });
+
+      const result = await executeCommand(ctx);
+
+      expect(result).toEqual({ status: "executed", message: "Added to the merge queue." });
+      expect(octokit.graphql).toHaveBeenLastCalledWith(
+        expect.stringContaining("enqueuePullRequest"),
+        { pullRequestId: "PR_42", expectedHeadOid: "abc123" },
+      );
+      expect(octokit.rest.pulls.merge).not.toHaveBeenCalled();
+      expect(octokit.rest.repos.get).not.toHaveBeenCalled();
+      expect(CommitMessageGenerator).not.toHaveBeenCalled();
+      expect(postedBody(ctx)).toContain("Added to the merge queue at position 2");
+    });
+
+    it("re-runs preflight before enqueueing", async () => {
+      const { evaluatePreflightChecks } = await import("../merge-readiness.js");
+      vi.mocked(evaluatePreflightChecks)
+        .mockResolvedValueOnce({ checks: [], allHardChecksPassed: true } as any)
+        .mockResolvedValueOnce({
+          checks: [{ name: "CI checks passing", passed: false, severity: "hard", detail: "1 check run(s) failed" }],
+          allHardChecksPassed: false,
+        } as any);
+      const octokit = createMockOctokit();
+      octokit.graphql.mockResolvedValueOnce(queueState(true));
+      const ctx = createPRCtx({ octokit });
+
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+      expect(octokit.graphql).toHaveBeenCalledTimes(1);
+      expect(postedBody(ctx)).toContain("merge queue entry was blocked");
+    });
+
+    it("rejects PRs already in the merge queue", async () => {
+      const octokit = createMockOctokit();
+      octokit.graphql.mockResolvedValueOnce(queueState(true, true));
+      const ctx = createPRCtx({ octokit });
+
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+      expect(postedBody(ctx)).toContain("already in the merge queue");
+    });
+
+    it("fails closed when the enqueue mutation errors", async () => {
+      const octokit = createMockOctokit();
+      octokit.graphql
+        .mockResolvedValueOnce(queueState(true))
+        .mockRejectedValueOnce(new Error("Pull request is not mergeable"));
+      const ctx = createPRCtx({ octokit });
+
+      const result = await executeCommand(ctx);
+
+      expect(result.status).toBe("rejected");
+      expect(postedBody(ctx)).toContain("Adding the PR to the merge queue failed");
+    });
+
+    it("merges directly when the merge queue lookup fails", async () => {
+      const octokit = createMockOctokit();
+      octokit.graphql.mockRejectedValueOnce(new Error("GraphQL unavailable"));
+      const ctx = createPRCtx({ octokit });
+
+      const result = await executeCommand(ctx);
+
+      expect(result).toEqual({ status: "executed", message: "Squash merge completed." });
+      expect(ctx.log.warn).toHaveBeenCalled();
+    });
+  });
+});
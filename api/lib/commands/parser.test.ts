@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { parseCommand } from "./parser.js";
+import { hasMentionCommand, parseArgs, parseCommand, parseCommandArgs, parseCommands, parseDuration } from "./parser.js";
+import { COMMAND_VERBS } from "./registry.js";
 
 describe("parseCommand", () => {
   describe("recognized mentions", () => {
@@ -40,11 +41,32 @@ describe("parseCommand", () => {
       expect(result).toEqual({ verb: "squash", freeText: undefined });
     });
 
+    it("should parse @hivemoot extend with a duration (no slash)", () => {
+      const result = parseCommand("@hivemoot extend 12h");
+      expect(result).toEqual({ verb: "extend", freeText: "12h" });
+    });
+
+    it("should parse @hivemoot status (no slash)", () => {
+      const result = parseCommand("@hivemoot status");
+      expect(result).toEqual({ verb: "status", freeText: undefined });
+    });
+
     it("should parse @hivemoot gather (no slash)", () => {
       const result = parseCommand("@hivemoot gather");
       expect(result).toEqual({ verb: "gather", freeText: undefined });
     });
 
+    it("should parse @hivemoot help (no slash)", () => {
+      const result = parseCommand("@hivemoot help");
+      expect(result).toEqual({ verb: "help", freeText: undefined });
+    });
+
+    it("should accept every registered verb without a slash", () => {
+      for (const verb of COMMAND_VERBS) {
+        expect(parseCommand(`@hivemoot ${verb}`)).toEqual({ verb, freeText: undefined });
+      }
+    });
+
     it("should capture free text with slashless command", () => {
       const result = parseCommand("@hivemoot implement security fix needs fast-track");
       expect(result).toEqual({ verb: "implement", freeText: "security fix needs fast-track" });
@@ -233,8 +255,7 @@ describe("parseCommand", () => {
     it("should match first command when multiple appear on separate lines", () => {
       const body = "@hivemoot /vote\n@hivemoot /implement";
       const result = parseCommand(body);
-      expect(result).not.toBeNull();
-      expect(result!.verb).toBe("vote");
+      expect(result).toEqual({ verb: "vote", freeText: undefined });
     });
   });
 
@@ -263,3 +284,175 @@ describe("parseCommand", () => {
     });
   });
 });
+
+describe("parseCommands", () => {
+  it("should return every line-start command in order", () => {
+    const body = "@hivemoot /gather\nLooks settled.\n@hivemoot vote\n  @hivemoot /extend 12h";
+    expect(parseCommands(body)).toEqual([
+      { verb: "gather", freeText: undefined },
+      { verb: "vote", freeText: undefined },
+      { verb: "extend", freeText: "12h" },
+    ]);
+  });
+
+  it("should keep each command's free text on its own line", () => {
+    const body = "@hivemoot /reject out of scope\r\n@hivemoot /status";
+    expect(parseCommands(body)).toEqual([
+      { verb: "reject", freeText: "out of scope" },
+      { verb: "status", freeText: undefined },
+    ]);
+  });
+
+  it("should skip unknown slashless verbs but keep later commands", () => {
+    const body = "@hivemoot great work\n@hivemoot /vote";
+    expect(parseCommands(body)).toEqual([{ verb: "vote", freeText: undefined }]);
+  });
+
+  it("should skip quoted and fenced commands", () => {
+    const body = "> @hivemoot /vote\n```\n@hivemoot /implement\n```\n@hivemoot /status";
+    expect(parseCommands(body)).toEqual([{ verb: "status", freeText: undefined }]);
+  });
+
+  it("should return an empty array when there are no commands", () => {
+    expect(parseCommands("Just a regular comment")).toEqual([]);
+  });
+});
+
+describe("custom mention names", () => {
+  it("should match any of the given names", () => {
+    const names = ["colony-queen", "queen"];
+    expect(parseCommands("@colony-queen /vote\n@Queen status", names)).toEqual([
+      { verb: "vote", freeText: undefined },
+      { verb: "status", freeText: undefined },
+    ]);
+  });
+
+  it("should stop matching the default name when it is not listed", () => {
+    expect(parseCommand("@hivemoot /vote", ["queen"])).toBeNull();
+  });
+
+  it("should not match a name that only prefixes a longer handle", () => {
+    expect(parseCommand("@queen-fan /vote", ["queen"])).toBeNull();
+  });
+
+  it("should still strip inline code and quotes for custom names", () => {
+    expect(parseCommand("Try `@queen /vote`\n> @queen /vote", ["queen"])).toBeNull();
+  });
+
+  it("should match nothing for an empty name list", () => {
+    expect(parseCommands("@hivemoot /vote", [])).toEqual([]);
+  });
+});
+
+describe("hasMentionCommand", () => {
+  it("should detect a command addressed to any mention name", () => {
+    expect(hasMentionCommand("Looks good.\n@queen /vote")).toBe(true);
+    expect(hasMentionCommand("@queen vote")).toBe(true);
+  });
+
+  it("should ignore replies that open with a mention but hold no command", () => {
+    expect(hasMentionCommand("@alice thanks, looks good")).toBe(false);
+    expect(hasMentionCommand("@queen")).toBe(false);
+  });
+
+  it("should ignore mid-sentence, quoted, and code mentions", () => {
+    expect(hasMentionCommand("Thanks @queen for this")).toBe(false);
+    expect(hasMentionCommand("> @queen /vote")).toBe(false);
+    expect(hasMentionCommand("```\n@queen /vote\n```")).toBe(false);
+    expect(hasMentionCommand("`@queen /vote`")).toBe(false);
+  });
+});
+
+describe("parseArgs", () => {
+  it("should split flags from the remaining text", () => {
+    expect(parseArgs("--method=rebase keep  history --no-llm --Verbose")).toEqual({
+      text: "keep history",
+      flags: { method: "rebase", llm: false, verbose: true },
+    });
+  });
+
+  it("should keep values containing '='", () => {
+    expect(parseArgs("--title=a=b")).toEqual({ text: undefined, flags: { title: "a=b" } });
+  });
+
+  it("should treat lone dashes as text", () => {
+    expect(parseArgs("out of scope -- see #3")).toEqual({ text: "out of scope -- see #3", flags: {} });
+  });
+
+  it("should return empty args for missing text", () => {
+    expect(parseArgs(undefined)).toEqual({ text: undefined, flags: {} });
+  });
+});
+
+describe("parseCommandArgs", () => {
+  it("should apply flag defaults", () => {
+    expect(parseCommandArgs("squash", undefined)).toEqual({
+      success: true,
+      args: { text: undefined, flags: { method: "squash" } },
+    });
+    expect(parseCommandArgs("preflight", "--no-llm")).toEqual({
+      success: true,
+      args: { text: undefined, flags: { llm: false } },
+    });
+  });
+
+  it("should pass free text through for verbs without flags", () => {
+    expect(parseCommandArgs("extend", "1d 6h")).toEqual({
+      success: true,
+      args: { text: "1d 6h", flags: {} },
+    });
+  });
+
+  it("should keep flag-like words as text for verbs without flags", () => {
+    expect(parseCommandArgs("reject", "conflicts with  --no-verify policy")).toEqual({
+      success: true,
+      args: { text: "conflicts with --no-verify policy", flags: {} },
+    });
+    expect(parseCommandArgs("vote", "--force")).toEqual({
+      success: true,
+      args: { text: "--force", flags: {} },
+    });
+  });
+
+  it("should reject unknown flags", () => {
+    expect(parseCommandArgs("merge", "--force")).toEqual({ success: false, error: "unknown flag `--force`" });
+  });
+
+  it("should name the flag with an invalid value", () => {
+    const result = parseCommandArgs("squash", "--method=octopus");
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatch(/^`--method`: /);
+    }
+  });
+
+  it("should reject a value where a boolean flag is expected", () => {
+    expect(parseCommandArgs("preflight", "--llm=off").success).toBe(false);
+  });
+});
+
+describe("parseDuration", () => {
+  const MINUTE = 60 * 1000;
+  const HOUR = 60 * MINUTE;
+
+  it("should parse single-unit durations", () => {
+    expect(parseDuration("12h")).toBe(12 * HOUR);
+    expect(parseDuration("2d")).toBe(48 * HOUR);
+    expect(parseDuration("90m")).toBe(90 * MINUTE);
+  });
+
+  it("should sum combined units, ignoring case and whitespace", () => {
+    expect(parseDuration("1d6h")).toBe(30 * HOUR);
+    expect(parseDuration("1D 30M")).toBe(24 * HOUR + 30 * MINUTE);
+  });
+
+  it("should return null for missing, malformed, or zero durations", () => {
+    expect(parseDuration(undefined)).toBeNull();
+    expect(parseDuration("")).toBeNull();
+    expect(parseDuration("12")).toBeNull();
+    expect(parseDuration("soon")).toBeNull();
+    expect(parseDuration("12h please")).toBeNull();
+    expect(parseDuration("-1h")).toBeNull();
+    expect(parseDuration("0h")).toBeNull();
+  });
+});
@@ -2,8 +2,11 @@
  * Command Parser
  *
  * Parses @mention + command patterns from issue/PR comment bodies.
- * Responds to @hivemoot mentions only. The leading slash is optional
- * for known command verbs.
+ * Responds to the configured mention names (default @hivemoot; see
+ * MENTION_NAMES). The leading slash is optional for known command verbs.
+ * A comment may hold several commands, one per line.
+ * Arguments after the verb may include `--flag`, `--no-flag`, or
+ * `--flag=value` options, validated per verb by parseCommandArgs.
  *
  * Examples:
  *   "@hivemoot /vote"                → { verb: "vote", freeText: undefined }
@@ -11,8 +14,14 @@
  *   "@hivemoot /implement"           → { verb: "implement", freeText: undefined }
  *   "@hivemoot implement"            → { verb: "implement", freeText: undefined }
  *   "@hivemoot /vote good idea"      → { verb: "vote", freeText: "good idea" }
+ *   "@hivemoot status"               → { verb: "status", freeText: undefined }
  */
 
+import { MENTION_NAMES } from "../../config.js";
+import { COMMANDS, COMMAND_VERBS } from "./registry.js";
+import type { CommandArgs, CommandDefinition, CommandVerb } from "./registry.js";
+import type { z } from "zod";
+
 /**
  * Parsed command extracted from a comment body.
  */
@@ -24,21 +33,30 @@ export interface ParsedCommand {
 }
 
 /**
- * Mention name the bot responds to.
- * Limited to @hivemoot to avoid spamming the real @queen GitHub account.
+ * Known command verbs that can be used without a leading slash.
+ * When a slash is present, any verb is accepted (forwarded to the handler
+ * for dispatch). When the slash is absent, only registered verbs are
+ * recognized to avoid false-positive matches on regular @mention prose.
  */
-const MENTION_NAMES = ["hivemoot"] as const;
+const KNOWN_VERBS: ReadonlySet<string> = new Set(COMMAND_VERBS);
 
 /**
- * Known command verbs that can be used without a leading slash.
- * When a slash is present, any verb is accepted (forwarded to the handler
- * for dispatch). When the slash is absent, only these verbs are recognized
- * to avoid false-positive matches on regular @mention prose.
+ * Escape a mention name for use in a RegExp.
  */
-const KNOWN_VERBS = new Set(["vote", "implement", "preflight", "squash", "gather"]);
+function escapeMention(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Regex alternation matching any of the mention names.
+ */
+function mentionAlternation(mentionNames: readonly string[]): string {
+  return mentionNames.map(escapeMention).join("|");
+}
 
 /**
- * Line-anchored regex to match @mention + optional-slash + verb.
+ * Build the line-anchored regex to match @mention + optional-slash + verb.
+ * `mentionSource` is a regex source for the names, e.g. from mentionAlternation.
  *
  * Only matches when the @mention is the first non-whitespace token on a line.
  * This prevents accidental triggers from prose, inline code, or mid-sentence mentions.
@@ -49,25 +67,33 @@ const KNOWN_VERBS = new Set(["vote", "implement", "preflight", "squash", "gather
  *   3 — Optional free-text argument
  *
  * The pattern is case-insensitive and allows whitespace between mention and command.
- * The `m` flag enables `^` to match the start of each line.
+ * The `m` flag enables `^` to match the start of each line; `g` finds every line.
+ * Leading whitespace is limited to spaces and tabs so a match never spans lines.
  */
-const COMMAND_PATTERN = new RegExp(
-  `^\\s*@(?:${MENTION_NAMES.join("|")})\\s+(/)?([a-zA-Z]\\w*)(?:\\s+(.+))?`,
-  "im",
-);
+function buildCommandPattern(mentionSource: string): RegExp {
+  return new RegExp(
+    `^[ \\t]*@(?:${mentionSource})[ \\t]+(/)?([a-zA-Z]\\w*)(?:[ \\t]+(.+))?`,
+    "gim",
+  );
+}
+
+/**
+ * Regex source matching any mention name (GitHub login or app slug).
+ */
+const ANY_MENTION_SOURCE = "[a-z0-9-]+";
 
 /**
  * Strip lines that should not be parsed for commands:
  * - GitHub-style quoted lines (lines starting with >)
  * - Fenced code blocks (``` ... ```)
- * - Inline code containing @mention patterns
+ * - Inline code containing @mention patterns (any @mention when `mentionNames` is empty)
  */
-function stripNonCommandContent(body: string): string {
+function stripNonCommandContent(body: string, mentionNames: readonly string[]): string {
   // Remove fenced code blocks first
   let cleaned = body.replace(/```[\s\S]*?```/g, "");
 
   // Remove inline code spans that contain mention patterns
-  cleaned = cleaned.replace(/`[^`]*@hivemoot[^`]*`/gi, "");
+  cleaned = cleaned.replace(new RegExp(`\`[^\`]*@(?:${mentionAlternation(mentionNames)})[^\`]*\``, "gi"), "");
 
   // Remove quoted lines
   return cleaned
@@ -77,10 +103,42 @@ function stripNonCommandContent(body: string): string {
 }
 
 /**
- * Parse a comment body for a bot command.
+ * Collect the commands matched by a mention pattern in already-stripped text.
+ */
+function matchCommands(unquoted: string, mentionSource: string): ParsedCommand[] {
+  const commands: ParsedCommand[] = [];
+
+  for (const match of unquoted.matchAll(buildCommandPattern(mentionSource))) {
+    const hasSlash = match[1] === "/";
+    const verb = match[2].toLowerCase();
+    const freeText = match[3]?.trim() || undefined;
+
+    // Without the slash, only accept known command verbs
+    if (!hasSlash && !KNOWN_VERBS.has(verb)) {
+      continue;
+    }
+
+    commands.push({ verb, freeText });
+  }
+
+  return commands;
+}
+
+/**
+ * Check whether any line holds a command addressed to some @mention,
+ * whatever the name, outside quotes and code. Used to decide whether a
+ * comment that matched no command is worth re-parsing with per-repo
+ * mention aliases — plain replies like `@alice thanks!` are not.
+ */
+export function hasMentionCommand(body: string): boolean {
+  return matchCommands(stripNonCommandContent(body, []), ANY_MENTION_SOURCE).length > 0;
+}
+
+/**
+ * Parse a comment body for bot commands, in the order they appear.
  *
- * Returns the parsed command if found, or null if the comment
- * does not contain a recognized command pattern.
+ * Returns an empty array if the comment does not contain a recognized
+ * command pattern.
  *
  * When the leading slash is present (`@hivemoot /verb`), any verb is accepted.
  * When the slash is absent (`@hivemoot verb`), only known command verbs are
@@ -89,21 +147,145 @@ function stripNonCommandContent(body: string): string {
  * Quoted lines, fenced code blocks, and inline code are ignored.
  * Commands must start at the beginning of a line (after optional whitespace).
  */
-export function parseCommand(body: string): ParsedCommand | null {
-  const unquoted = stripNonCommandContent(body);
-  const match = unquoted.match(COMMAND_PATTERN);
-  if (!match) {
-    return null;
+export function parseCommands(
+  body: string,
+  mentionNames: readonly string[] = MENTION_NAMES,
+): ParsedCommand[] {
+  if (mentionNames.length === 0) {
+    return [];
+  }
+
+  const unquoted = stripNonCommandContent(body, mentionNames);
+  return matchCommands(unquoted, mentionAlternation(mentionNames));
+}
+
+/**
+ * Parse a comment body for its first bot command.
+ *
+ * Returns null if the comment does not contain a recognized command pattern.
+ * See parseCommands for the matching rules.
+ */
+export function parseCommand(
+  body: string,
+  mentionNames: readonly string[] = MENTION_NAMES,
+): ParsedCommand | null {
+  return parseCommands(body, mentionNames)[0] ?? null;
+}
+
+/**
+ * Command arguments split into free text and flags, before validation.
+ */
+export interface RawCommandArgs {
+  /** Words that are not flags, joined by single spaces */
+  text: string | undefined;
+  /** `--name` → true, `--no-name` → false, `--name=value` → "value" */
+  flags: Record<string, string | boolean>;
+}
+
+/**
+ * Flag token: `--name` or `--name=value`. Names are case-insensitive.
+ */
+const FLAG_PATTERN = /^--([a-z][\w-]*)(?:=(.*))?$/i;
+
+/**
+ * Split a command's free text into flags and the remaining text.
+ */
+export function parseArgs(freeText: string | undefined): RawCommandArgs {
+  const words: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (const token of freeText?.split(/\s+/) ?? []) {
+    const match = token.match(FLAG_PATTERN);
+    if (!match) {
+      if (token) {
+        words.push(token);
+      }
+      continue;
+    }
+
+    const name = match[1].toLowerCase();
+    if (match[2] !== undefined) {
+      flags[name] = match[2];
+    } else if (name.startsWith("no-")) {
+      flags[name.slice(3)] = false;
+    } else {
+      flags[name] = true;
+    }
   }
 
-  const hasSlash = match[1] === "/";
-  const verb = match[2].toLowerCase();
-  const freeText = match[3]?.trim() || undefined;
+  return { text: words.length > 0 ? words.join(" ") : undefined, flags };
+}
+
+/**
+ * Result of validating a verb's arguments.
+ */
+export type CommandArgsResult<V extends CommandVerb> =
+  | { success: true; args: CommandArgs<V> }
+  | { success: false; error: string };
 
-  // Without the slash, only accept known command verbs
-  if (!hasSlash && !KNOWN_VERBS.has(verb)) {
+/**
+ * Describe one validation issue in terms of the command line the user typed.
+ */
+function describeArgsIssue(issue: z.ZodIssue): string {
+  if (issue.code === "unrecognized_keys") {
+    return `unknown flag ${issue.keys.map((key) => `\`--${key}\``).join(", ")}`;
+  }
+  if (issue.path[0] === "flags" && issue.path.length > 1) {
+    return `\`--${issue.path[1]}\`: ${issue.message}`;
+  }
+  return issue.message;
+}
+
+/**
+ * Parse and validate a verb's free text against its registered schema.
+ *
+ * Verbs without flags take their whole argument as text, so a `--word` in
+ * a `/reject` reason is not mistaken for an unknown flag.
+ *
+ * Returns the typed arguments, or a message naming each invalid flag.
+ */
+export function parseCommandArgs<V extends CommandVerb>(
+  verb: V,
+  freeText: string | undefined,
+): CommandArgsResult<V> {
+  const definition: CommandDefinition = COMMANDS[verb];
+  const raw: RawCommandArgs = definition.flags
+    ? parseArgs(freeText)
+    : { text: freeText?.split(/\s+/).filter(Boolean).join(" ") || undefined, flags: {} };
+  const result = definition.args.safeParse(raw);
+  if (!result.success) {
+    return { success: false, error: result.error.issues.map(describeArgsIssue).join("; ") };
+  }
+  return { success: true, args: result.data as CommandArgs<V> };
+}
+
+/**
+ * Duration argument pattern: one or more `<number><unit>` parts, where unit is
+ * d (days), h (hours), or m (minutes). e.g. "12h", "2d", "1d6h", "90m".
+ */
+const DURATION_PATTERN = /^(?:\d+[dhm])+$/i;
+
+const DURATION_UNIT_MS: Record<string, number> = {
+  d: 24 * 60 * 60 * 1000,
+  h: 60 * 60 * 1000,
+  m: 60 * 1000,
+};
+
+/**
+ * Parse a command duration argument (e.g. "12h", "1d6h") into milliseconds.
+ *
+ * Returns null when the text is missing, malformed, or sums to zero.
+ */
+export function parseDuration(text: string | undefined): number | null {
+  const compact = text?.replace(/\s+/g, "").toLowerCase();
+  if (!compact || !DURATION_PATTERN.test(compact)) {
     return null;
   }
 
-  return { verb, freeText };
+  let totalMs = 0;
+  for (const [, amount, unit] of compact.matchAll(/(\d+)([dhm])/g)) {
+    totalMs += parseInt(amount, 10) * DURATION_UNIT_MS[unit];
+  }
+
+  return totalMs > 0 ? totalMs : null;
 }
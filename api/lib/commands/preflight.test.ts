@@ -37,6 +37,7 @@ vi.mock("../index.js", () => ({
     },
     version: 1,
     standup: { enabled: false },
+    commands: {},
   }),
 }));
 
@@ -273,4 +274,28 @@ describe("/preflight command", () => {
     expect(body).toContain("[warning] I couldn't generate a recommended commit message this time.");
     expect(body).not.toContain("provider timeout");
   });
+
+  it("should skip commit message generation with --no-llm", async () => {
+    const { CommitMessageGenerator } = await import("../llm/commit-message.js");
+    const ctx = createPRCtx({ freeText: "--no-llm" });
+    const result = await executeCommand(ctx);
+
+    expect(result.status).toBe("executed");
+    expect(CommitMessageGenerator).not.toHaveBeenCalled();
+    const body = (ctx.octokit.rest.issues.createComment.mock.calls[0][0] as { body: string }).body;
+    expect(body).not.toContain("Commit Message");
+    expect(body).toContain("This PR is ready for merge.");
+  });
+
+  it("should reject unknown flags and list the valid ones", async () => {
+    const { evaluatePreflightChecks } = await import("../merge-readiness.js");
+    const ctx = createPRCtx({ freeText: "--fast" });
+    const result = await executeCommand(ctx);
+
+    expect(result.status).toBe("rejected");
+    expect(evaluatePreflightChecks).not.toHaveBeenCalled();
+    const body = (ctx.octokit.rest.issues.createComment.mock.calls[0][0] as { body: string }).body;
+    expect(body).toContain("Invalid arguments for `/preflight`: unknown flag `--fast`.");
+    expect(body).toContain("- `--no-llm` — Skip the proposed commit message.");
+  });
 });
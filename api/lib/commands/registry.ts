@@ -0,0 +1,174 @@
+/**
+ * Command Registry
+ *
+ * Single source of truth for the bot's command verbs. The parser's
+ * slashless verb list, executeCommand's dispatch table, and /help all
+ * derive from it — adding a verb here without a handler is a type error.
+ */
+
+import { z } from "zod";
+import { LABELS } from "../../config.js";
+import { MERGE_METHODS } from "../repo-config.js";
+
+export { MERGE_METHODS };
+export type { MergeMethod } from "../repo-config.js";
+
+/**
+ * Where a command can be used.
+ */
+export type CommandTarget = "issue" | "pr" | "any";
+
+export interface CommandDefinition {
+  /** Argument syntax shown by /help (empty when the verb takes none). */
+  usage: string;
+  /** One-line description shown by /help. */
+  description: string;
+  target: CommandTarget;
+  /** Issue phase labels the command requires (any one of). Omitted → any phase. */
+  phases?: readonly string[];
+  /**
+   * Flag syntax → description, listed when argument parsing fails. Verbs
+   * without it don't parse flags (see parseCommandArgs).
+   */
+  flags?: Readonly<Record<string, string>>;
+  /** Validates the arguments parsed from the command line (see parseCommandArgs). */
+  args: z.ZodTypeAny;
+}
+
+/**
+ * Build a verb's argument schema: the free text left once flags are removed,
+ * plus the flags themselves. Unknown flags fail validation.
+ */
+function commandArgs<T extends z.ZodRawShape>(flags: T) {
+  return z.object({
+    text: z.string().optional(),
+    flags: z.object(flags).strict(),
+  });
+}
+
+/** Verbs that take no flags; their whole argument, `--words` included, is free text. */
+const NO_FLAGS = commandArgs({});
+
+/**
+ * Open proposal phases a maintainer can close from (/reject, /duplicate).
+ */
+const OPEN_PROPOSAL_PHASES = [LABELS.DISCUSSION, LABELS.VOTING, LABELS.EXTENDED_VOTING, LABELS.NEEDS_HUMAN] as const;
+
+/**
+ * All command verbs, in /help display order.
+ */
+export const COMMANDS = {
+  vote: {
+    usage: "",
+    description: "Move the issue from discussion to voting.",
+    target: "issue",
+    phases: [LABELS.DISCUSSION],
+    args: NO_FLAGS,
+  },
+  implement: {
+    usage: "",
+    description: "Fast-track the issue to ready-to-implement.",
+    target: "issue",
+    phases: OPEN_PROPOSAL_PHASES,
+    args: NO_FLAGS,
+  },
+  gather: {
+    usage: "",
+    description: "Create or refresh the discussion blueprint.",
+    target: "issue",
+    phases: [LABELS.DISCUSSION],
+    args: NO_FLAGS,
+  },
+  extend: {
+    usage: "<duration>",
+    description: "Push back the current phase's exits (e.g. `12h`, `2d`).",
+    target: "issue",
+    phases: [LABELS.DISCUSSION, LABELS.VOTING, LABELS.EXTENDED_VOTING],
+    args: NO_FLAGS,
+  },
+  reject: {
+    usage: "[reason]",
+    description: "Close the proposal as rejected without a vote.",
+    target: "issue",
+    phases: OPEN_PROPOSAL_PHASES,
+    args: NO_FLAGS,
+  },
+  duplicate: {
+    usage: "#<issue> [reason]",
+    description: "Close the proposal as a duplicate of another issue.",
+    target: "issue",
+    phases: OPEN_PROPOSAL_PHASES,
+    args: NO_FLAGS,
+  },
+  preflight: {
+    usage: "[--no-llm]",
+    description: "Run the merge-readiness checklist and propose a commit message.",
+    target: "pr",
+    flags: {
+      "--no-llm": "Skip the proposed commit message.",
+    },
+    args: commandArgs({
+      llm: z.boolean().default(true),
+    }),
+  },
+  merge: {
+    usage: "[--method=<squash|rebase|merge>]",
+    description: "Re-run preflight, then merge the PR or add it to the merge queue.",
+    target: "pr",
+    flags: {
+      "--method=<squash|rebase|merge>":
+        "How to merge the PR (default: `governance.pr.mergeMethod` if the repository allows it). Ignored by merge queues.",
+    },
+    args: commandArgs({
+      method: z.enum(MERGE_METHODS).optional(),
+    }),
+  },
+  squash: {
+    usage: "[--method=<squash|rebase|merge>]",
+    description: "Same as `/merge`, but squash by default.",
+    target: "pr",
+    flags: {
+      "--method=<squash|rebase|merge>": "How to merge the PR (default: `squash`).",
+    },
+    args: commandArgs({
+      method: z.enum(MERGE_METHODS).default("squash"),
+    }),
+  },
+  cancel: {
+    usage: "",
+    description: "Cancel this PR's pending auto-merge.",
+    target: "pr",
+    args: NO_FLAGS,
+  },
+  status: {
+    usage: "",
+    description: "Summarize the current governance state.",
+    target: "any",
+    args: NO_FLAGS,
+  },
+  help: {
+    usage: "",
+    description: "List the commands you can run here.",
+    target: "any",
+    args: NO_FLAGS,
+  },
+} as const satisfies Record<string, CommandDefinition>;
+
+export type CommandVerb = keyof typeof COMMANDS;
+
+/**
+ * Validated arguments for a verb.
+ */
+export type CommandArgs<V extends CommandVerb> = z.infer<(typeof COMMANDS)[V]["args"]>;
+
+/**
+ * Registered verbs, in display order.
+ */
+export const COMMAND_VERBS = Object.keys(COMMANDS) as CommandVerb[];
+
+/**
+ * Check whether a verb is registered.
+ */
+export function isCommandVerb(verb: string): verb is CommandVerb {
+  return Object.hasOwn(COMMANDS, verb);
+}
@@ -37,6 +37,7 @@ vi.mock("../index.js", () => ({
     },
     version: 1,
     standup: { enabled: false },
+    commands: {},
   }),
 }));
 
@@ -94,6 +95,9 @@ function createMockOctokit(permission = "admin") {
         merge: vi.fn().mockResolvedValue({}),
       },
     },
+    graphql: vi.fn().mockResolvedValue({
+      repository: { pullRequest: { id: "PR_42", isMergeQueueEnabled: false, isInMergeQueue: false } },
+    }),
   };
 }
 
@@ -307,4 +311,59 @@ describe("/squash command", () => {
     const body = (octokit.rest.issues.createComment.mock.calls[0][0] as { body: string }).body;
     expect(body).toContain("Squash merge failed due to a GitHub merge API error");
   });
+
+  it("rebase-merges without generating a commit message with --method=rebase", async () => {
+    const { CommitMessageGenerator } = await import("../llm/commit-message.js");
+    const octokit = createMockOctokit();
+    octokit.rest.repos.get.mockResolvedValueOnce({ data: { allow_squash_merge: false, allow_rebase_merge: true } });
+    const ctx = createPRCtx({ octokit, freeText: "--method=rebase" });
+
+    const result = await executeCommand(ctx);
+
+    expect(result).toEqual({ status: "executed", message: "Rebase merge completed." });
+    expect(CommitMessageGenerator).not.toHaveBeenCalled();
+    expect(octokit.rest.pulls.merge).toHaveBeenCalledWith({
+      owner: "test-org",
+      repo: "test-repo",
+      pull_number: 42,
+      sha: "abc123",
+      merge_method: "rebase",
+    });
+  });
+
+  it("creates a merge commit with the generated message with --method=merge", async () => {
+    const octokit = createMockOctokit();
+    octokit.rest.repos.get.mockResolvedValueOnce({ data: { allow_merge_commit: true } });
+    const ctx = createPRCtx({ octokit, freeText: "--method=merge" });
+
+    const result = await executeCommand(ctx);
+
+    expect(result).toEqual({ status: "executed", message: "Merge commit completed." });
+    expect(octokit.rest.pulls.merge).toHaveBeenCalledWith(
+      expect.objectContaining({ merge_method: "merge", commit_title: "Add merge helper" }),
+    );
+  });
+
+  it("rejects a merge method the repository does not allow", async () => {
+    const ctx = createPRCtx({ freeText: "--method=rebase" });
+
+    const result = await executeCommand(ctx);
+
+    expect(result.status).toBe("rejected");
+    expect(ctx.octokit.rest.pulls.merge).not.toHaveBeenCalled();
+    const body = (ctx.octokit.rest.issues.createComment.mock.calls[0][0] as { body: string }).body;
+    expect(body).toContain("Rebase merge is disabled");
+  });
+
+  it("rejects an unknown merge method and lists the valid flags", async () => {
+    const ctx = createPRCtx({ freeText: "--method=octopus" });
+
+    const result = await executeCommand(ctx);
+
+    expect(result.status).toBe("rejected");
+    expect(ctx.octokit.rest.repos.get).not.toHaveBeenCalled();
+    const body = (ctx.octokit.rest.issues.createComment.mock.calls[0][0] as { body: string }).body;
+    expect(body).toContain("Invalid arguments for `/squash`: `--method`:");
+    expect(body).toContain("- `--method=<squash|rebase|merge>` — How to merge the PR (default: `squash`).");
+  });
 });
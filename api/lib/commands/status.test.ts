@@ -0,0 +1,306 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { executeCommand, type CommandContext } from "./handlers.js";
+import { LABELS } from "../../config.js";
+
+/**
+ * Tests for the /status command handler.
+ *
+ * The /status command:
+ * - Works on both issues and PRs (read-only)
+ * - Issues: reports phase, phase start, auto exit schedule, live tally, missing required voters
+ * - PRs: reports governance labels, linked issues with leaderboard position, preflight summary
+ */
+
+// All vi.mock() factories are hoisted — values must be inlined, not referenced.
+
+const mockIssueOps = {
+  getLabelEvents: vi.fn(),
+  getPhaseExtensionMs: vi.fn(),
+  findVotingCommentId: vi.fn(),
+  getValidatedVoteCounts: vi.fn(),
+};
+
+let mockRepoConfig: Record<string, unknown>;
+
+vi.mock("../index.js", async () => {
+  const repoConfig = await vi.importActual<typeof import("../repo-config.js")>("../repo-config.js");
+  return {
+    createIssueOperations: vi.fn(() => mockIssueOps),
+    createGovernanceService: vi.fn(() => ({})),
+    createPROperations: vi.fn(() => ({})),
+    loadRepositoryConfig: vi.fn(async () => mockRepoConfig),
+    findGovernanceProfile: repoConfig.findGovernanceProfile,
+  };
+});
+
+vi.mock("../merge-readiness.js", () => ({
+  evaluatePreflightChecks: vi.fn().mockResolvedValue({
+    checks: [
+      { name: "Approved by trusted reviewers", passed: false, severity: "hard", detail: "0/1 trusted approvals" },
+      { name: "No merge conflicts", passed: true, severity: "hard", detail: "Branch is mergeable" },
+      { name: "CI checks passing", passed: true, severity: "hard", detail: "All 3 check(s) passed" },
+      { name: "Merge-ready label", passed: false, severity: "advisory", detail: "Missing label" },
+    ],
+    allHardChecksPassed: false,
+  }),
+}));
+
+vi.mock("../graphql-queries.js", () => ({
+  getLinkedIssues: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock("../implementation-intake.js", () => ({
+  getLeaderboardScores: vi.fn().mockResolvedValue([]),
+}));
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date("2024-01-20T12:00:00Z");
+
+function autoVotingExit(afterHours: number, overrides: Record<string, unknown> = {}) {
+  return {
+    type: "auto",
+    afterMs: afterHours * HOUR,
+    requires: "majority",
+    minVoters: 3,
+    requiredVoters: { minCount: 0, voters: [] },
+    ...overrides,
+  };
+}
+
+function buildRepoConfig(overrides: { discussionExits?: unknown[]; votingExits?: unknown[] } = {}) {
+  return {
+    version: 1,
+    governance: {
+      proposals: {
+        discussion: { exits: overrides.discussionExits ?? [{ type: "manual" }], durationMs: 0 },
+        voting: { exits: overrides.votingExits ?? [autoVotingExit(24)], durationMs: 24 * HOUR, weights: {} },
+        extendedVoting: { exits: [autoVotingExit(24)], durationMs: 24 * HOUR },
+      },
+      profiles: [],
+      pr: {
+        mergeReady: { minApprovals: 1 },
+        trustedReviewers: ["alice"],
+        staleDays: 3,
+        maxPRsPerIssue: 3,
+        intake: [],
+      },
+    },
+    standup: { enabled: false },
+    commands: {},
+  };
+}
+
+function createMockOctokit() {
+  return {
+    rest: {
+      repos: {
+        getCollaboratorPermissionLevel: vi.fn().mockResolvedValue({ data: { permission: "admin" } }),
+      },
+      reactions: {
+        createForIssueComment: vi.fn().mockResolvedValue({}),
+      },
+      issues: {
+        createComment: vi.fn().mockResolvedValue({}),
+      },
+    },
+  };
+}
+
+function createCtx(overrides: Partial<CommandContext> = {}): CommandContext {
+  return {
+    octokit: createMockOctokit(),
+    owner: "test-org",
+    repo: "test-repo",
+    issueNumber: 42,
+    commentId: 100,
+    senderLogin: "maintainer",
+    verb: "status",
+    freeText: undefined,
+    issueLabels: [{ name: LABELS.VOTING }],
+    isPullRequest: false,
+    appId: 12345,
+    log: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+    ...overrides,
+  };
+}
+
+function postedBody(ctx: CommandContext): string {
+  const calls = (ctx.octokit.rest.issues.createComment as ReturnType<typeof vi.fn>).mock.calls;
+  expect(calls).toHaveLength(1);
+  return (calls[0][0] as { body: string }).body;
+}
+
+describe("/status command", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    mockRepoConfig = buildRepoConfig();
+    mockIssueOps.getLabelEvents.mockResolvedValue([
+      { type: "labeled", label: LABELS.VOTING, time: new Date("2024-01-20T02:00:00Z") },
+    ]);
+    mockIssueOps.getPhaseExtensionMs.mockResolvedValue(0);
+    mockIssueOps.findVotingCommentId.mockResolvedValue(555);
+    mockIssueOps.getValidatedVoteCounts.mockResolvedValue({
+      votes: { thumbsUp: 2, thumbsDown: 1, confused: 0, eyes: 0 },
+      voters: ["alice", "bob", "carol"],
+      participants: ["alice", "bob", "carol"],
+      ballots: [],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("on issues", () => {
+    it("should report the phase, when it started, and the live tally", async () => {
+      const ctx = createCtx();
+      const result = await executeCommand(ctx);
+
+      expect(result).toEqual({ status: "executed", message: "Status report posted." });
+      const body = postedBody(ctx);
+      expect(body).toContain(`**Phase:** \`${LABELS.VOTING}\``);
+      expect(body).toContain("(10h ago)");
+      expect(body).toContain("Deadline after 1d (majority, quorum 3)");
+      expect(body).toContain("in 14h");
+      expect(body).toContain("**Live tally:**");
+      expect(body).toContain("Valid voters: 3");
+      expect(body).toContain("Hivemoot Queen");
+      expect(body).not.toContain("**Time in phases:**");
+      expect(mockIssueOps.getValidatedVoteCounts).toHaveBeenCalledWith(
+        { owner: "test-org", repo: "test-repo", issueNumber: 42 },
+        555,
+        {},
+      );
+    });
+
+    it("should report time spent in each phase so far", async () => {
+      mockIssueOps.getLabelEvents.mockResolvedValue([
+        { type: "labeled", label: LABELS.DISCUSSION, time: new Date("2024-01-18T12:00:00Z") },
+        { type: "unlabeled", label: LABELS.DISCUSSION, time: new Date("2024-01-20T02:00:00Z") },
+        { type: "labeled", label: LABELS.VOTING, time: new Date("2024-01-20T02:00:00Z") },
+      ]);
+      const ctx = createCtx();
+      await executeCommand(ctx);
+
+      expect(postedBody(ctx)).toContain(
+        `**Time in phases:** \`${LABELS.DISCUSSION}\` 1d 14h · \`${LABELS.VOTING}\` 10h`,
+      );
+    });
+
+    it("should mark early exits whose time gate has passed", async () => {
+      mockRepoConfig = buildRepoConfig({
+        votingExits: [autoVotingExit(4, { requires: "unanimous" }), autoVotingExit(24)],
+      });
+      const ctx = createCtx();
+      await executeCommand(ctx);
+
+      const body = postedBody(ctx);
+      expect(body).toContain("Early exit after 4h (unanimous, quorum 3) — time gate passed");
+      expect(body).toContain("Deadline after 1d");
+    });
+
+    it("should shift the exit schedule by recorded extensions", async () => {
+      mockIssueOps.getPhaseExtensionMs.mockResolvedValue(6 * HOUR);
+      const ctx = createCtx();
+      await executeCommand(ctx);
+
+      const body = postedBody(ctx);
+      expect(body).toContain("**Extended by:** 6h");
+      expect(body).toContain("in 20h");
+    });
+
+    it("should list required voters who have not voted", async () => {
+      mockRepoConfig = buildRepoConfig({
+        votingExits: [autoVotingExit(24, { requiredVoters: { minCount: 2, voters: ["alice", "dave", "erin"] } })],
+      });
+      const ctx = createCtx();
+      await executeCommand(ctx);
+
+      const body = postedBody(ctx);
+      expect(body).toContain("2 of 3 required voters");
+      expect(body).toContain("**Required voters missing:** @dave, @erin");
+    });
+
+    it("should note when the voting comment is missing", async () => {
+      mockIssueOps.findVotingCommentId.mockResolvedValue(null);
+      const ctx = createCtx();
+      await executeCommand(ctx);
+
+      expect(postedBody(ctx)).toContain("No voting comment found yet.");
+      expect(mockIssueOps.getValidatedVoteCounts).not.toHaveBeenCalled();
+    });
+
+    it("should report manual discussion exits", async () => {
+      const ctx = createCtx({ issueLabels: [{ name: LABELS.DISCUSSION }] });
+      await executeCommand(ctx);
+
+      const body = postedBody(ctx);
+      expect(body).toContain(`\`${LABELS.DISCUSSION}\``);
+      expect(body).toContain("All exits for this phase are manual");
+      expect(mockIssueOps.findVotingCommentId).not.toHaveBeenCalled();
+    });
+
+    it("should report issues without a governance phase label", async () => {
+      const ctx = createCtx({ issueLabels: [{ name: "bug" }] });
+      await executeCommand(ctx);
+
+      expect(postedBody(ctx)).toContain("no governance phase label");
+      expect(mockIssueOps.getLabelEvents).not.toHaveBeenCalled();
+    });
+
+    it("should name the matching governance profile", async () => {
+      mockRepoConfig = buildRepoConfig();
+      (mockRepoConfig.governance as Record<string, unknown>).profiles = [
+        {
+          name: "security",
+          labels: ["security"],
+          proposals: buildRepoConfig({ votingExits: [autoVotingExit(48)] }).governance.proposals,
+        },
+      ];
+      const ctx = createCtx({ issueLabels: [{ name: LABELS.VOTING }, { name: "security" }] });
+      await executeCommand(ctx);
+
+      const body = postedBody(ctx);
+      expect(body).toContain("**Governance profile:** `security`");
+      expect(body).toContain("Deadline after 2d");
+    });
+  });
+
+  describe("on pull requests", () => {
+    it("should report labels, linked issues, and preflight summary", async () => {
+      const { getLinkedIssues } = await import("../graphql-queries.js");
+      vi.mocked(getLinkedIssues).mockResolvedValueOnce([
+        { number: 7, title: "Add feature", state: "OPEN", labels: { nodes: [{ name: LABELS.READY_TO_IMPLEMENT }] } },
+      ]);
+      const { getLeaderboardScores } = await import("../implementation-intake.js");
+      vi.mocked(getLeaderboardScores).mockResolvedValueOnce([
+        { number: 40, title: "Other", author: "x", approvals: 1 },
+        { number: 42, title: "This", author: "y", approvals: 3 },
+      ]);
+
+      const ctx = createCtx({ isPullRequest: true, issueLabels: [{ name: LABELS.IMPLEMENTATION }] });
+      const result = await executeCommand(ctx);
+
+      expect(result).toEqual({ status: "executed", message: "Status report posted." });
+      const body = postedBody(ctx);
+      expect(body).toContain(`**Labels:** \`${LABELS.IMPLEMENTATION}\``);
+      expect(body).toContain(`#7 Add feature — \`${LABELS.READY_TO_IMPLEMENT}\` — leaderboard #1 of 2 (3 approvals)`);
+      expect(body).toContain("**Preflight:** 2/3 hard checks passed — failing: Approved by trusted reviewers");
+    });
+
+    it("should prompt to link an issue when none are linked", async () => {
+      const ctx = createCtx({ isPullRequest: true, issueLabels: [] });
+      await executeCommand(ctx);
+
+      const body = postedBody(ctx);
+      expect(body).toContain("**Labels:** none");
+      expect(body).toContain("Fixes #<issue-number>");
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  collectCycleTimeMetrics,
+  computeIssueCycleTime,
+  computePhaseSpans,
+  percentile,
+  summarizeDurations,
+  summarizePhaseSpans,
+  type CycleTimeClient,
+} from "./cycle-time.js";
+import { LABELS } from "../config.js";
+import type { LabelEvent } from "./types.js";
+
+/**
+ * Tests for governance cycle-time metrics.
+ *
+ * Verifies:
+ * - Phase span pairing (legacy names, re-labeling, ongoing spans)
+ * - Per-issue totals and current phase
+ * - Percentiles over completed spans
+ * - Repository collection (governance issues only, failures skipped)
+ */
+
+const HOUR = 60 * 60 * 1000;
+const T0 = new Date("2026-02-01T00:00:00Z").getTime();
+
+function at(hours: number): Date {
+  return new Date(T0 + hours * HOUR);
+}
+
+function labeled(label: string, hours: number): LabelEvent {
+  return { type: "labeled", label, time: at(hours) };
+}
+
+function unlabeled(label: string, hours: number): LabelEvent {
+  return { type: "unlabeled", label, time: at(hours) };
+}
+
+describe("computePhaseSpans", () => {
+  it("should pair additions with removals across phases", () => {
+    const spans = computePhaseSpans([
+      labeled(LABELS.DISCUSSION, 0),
+      unlabeled(LABELS.DISCUSSION, 24),
+      labeled(LABELS.VOTING, 24),
+      unlabeled(LABELS.VOTING, 48),
+      labeled(LABELS.READY_TO_IMPLEMENT, 48),
+    ]);
+
+    expect(spans).toEqual([
+      { phase: LABELS.DISCUSSION, start: at(0), end: at(24) },
+      { phase: LABELS.VOTING, start: at(24), end: at(48) },
+      { phase: LABELS.READY_TO_IMPLEMENT, start: at(48), end: null },
+    ]);
+  });
+
+  it("should map legacy labels and ignore unrelated or unmatched events", () => {
+    const spans = computePhaseSpans([
+      unlabeled(LABELS.VOTING, 0),
+      labeled("bug", 1),
+      labeled("phase:discussion", 2),
+      unlabeled("phase:discussion", 6),
+    ]);
+
+    expect(spans).toEqual([{ phase: LABELS.DISCUSSION, start: at(2), end: at(6) }]);
+  });
+
+  it("should count each pass through a phase separately", () => {
+    const spans = computePhaseSpans([
+      labeled(LABELS.VOTING, 0),
+      unlabeled(LABELS.VOTING, 2),
+      labeled(LABELS.VOTING, 10),
+      unlabeled(LABELS.VOTING, 13),
+    ]);
+
+    expect(spans.map((s) => s.end!.getTime() - s.start.getTime())).toEqual([2 * HOUR, 3 * HOUR]);
+  });
+});
+
+describe("computeIssueCycleTime", () => {
+  it("should total phases and count the ongoing span up to now", () => {
+    const result = computeIssueCycleTime(
+      7,
+      [
+        labeled(LABELS.VOTING, 0),
+        unlabeled(LABELS.VOTING, 2),
+        labeled(LABELS.VOTING, 10),
+        unlabeled(LABELS.VOTING, 13),
+        labeled(LABELS.READY_TO_IMPLEMENT, 13),
+      ],
+      at(20)
+    );
+
+    expect(result.issueNumber).toBe(7);
+    expect(result.currentPhase).toBe(LABELS.READY_TO_IMPLEMENT);
+    expect(result.totals).toEqual({
+      [LABELS.VOTING]: 5 * HOUR,
+      [LABELS.READY_TO_IMPLEMENT]: 7 * HOUR,
+    });
+  });
+});
+
+describe("percentiles", () => {
+  it("should interpolate between ranks", () => {
+    expect(percentile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(percentile([10, 20, 30, 40, 50], 0.9)).toBe(46);
+    expect(percentile([5], 0.75)).toBe(5);
+  });
+
+  it("should summarize unsorted durations", () => {
+    expect(summarizeDurations([40, 10, 30, 20, 50])).toEqual({ count: 5, p50: 30, p75: 40, p90: 46, max: 50 });
+    expect(summarizeDurations([])).toBeNull();
+  });
+
+  it("should summarize only completed spans, optionally by end time", () => {
+    const spans = [
+      { phase: LABELS.VOTING, start: at(0), end: at(2) },
+      { phase: LABELS.VOTING, start: at(10), end: at(14) },
+      { phase: LABELS.VOTING, start: at(20), end: null },
+      { phase: LABELS.DISCUSSION, start: at(0), end: at(1) },
+    ] as const;
+
+    expect(summarizePhaseSpans([...spans])).toEqual({
+      [LABELS.DISCUSSION]: { count: 1, p50: HOUR, p75: HOUR, p90: HOUR, max: HOUR },
+      [LABELS.VOTING]: { count: 2, p50: 3 * HOUR, p75: 3.5 * HOUR, p90: 3.8 * HOUR, max: 4 * HOUR },
+    });
+    expect(summarizePhaseSpans([...spans], { from: at(12), to: at(24) })).toEqual({
+      [LABELS.VOTING]: { count: 1, p50: 4 * HOUR, p75: 4 * HOUR, p90: 4 * HOUR, max: 4 * HOUR },
+    });
+  });
+});
+
+describe("collectCycleTimeMetrics", () => {
+  function createClient(issues: unknown[]): CycleTimeClient {
+    return {
+      rest: { issues: { listForRepo: vi.fn() } },
+      paginate: {
+        iterator: <T>() =>
+          (async function* () {
+            yield { data: issues as T[] };
+          })(),
+      },
+    };
+  }
+
+  it("should measure governance issues and skip PRs, other issues, and failures", async () => {
+    const client = createClient([
+      { number: 1, labels: [{ name: LABELS.VOTING }] },
+      { number: 2, labels: [{ name: "bug" }] },
+      { number: 3, labels: [{ name: LABELS.VOTING }], pull_request: {} },
+      { number: 4, labels: ["rejected"] },
+      { number: 5, labels: [{ name: LABELS.IMPLEMENTED }] },
+    ]);
+    const getLabelEvents = vi.fn(async ({ issueNumber }: { issueNumber: number }) => {
+      if (issueNumber === 5) throw new Error("timeline unavailable");
+      return issueNumber === 1
+        ? [labeled(LABELS.DISCUSSION, 0), unlabeled(LABELS.DISCUSSION, 4), labeled(LABELS.VOTING, 4)]
+        : [labeled(LABELS.DISCUSSION, 0), unlabeled(LABELS.DISCUSSION, 8)];
+    });
+
+    const result = await collectCycleTimeMetrics(
+      client, { getLabelEvents }, "hivemoot", "colony", at(-24), at(10)
+    );
+
+    expect(getLabelEvents).toHaveBeenCalledTimes(3);
+    expect(result.repo).toBe("hivemoot/colony");
+    expect(result.since).toBe(at(-24).toISOString());
+    expect(result.issues.map((i) => i.issueNumber)).toEqual([1, 4]);
+    expect(result.issues[0].totals[LABELS.VOTING]).toBe(6 * HOUR);
+    // The ongoing voting span is left out of repository percentiles
+    expect(result.phases).toEqual({
+      [LABELS.DISCUSSION]: { count: 2, p50: 6 * HOUR, p75: 7 * HOUR, p90: 7.6 * HOUR, max: 8 * HOUR },
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Governance Cycle-Time Metrics
+ *
+ * Measures how long issues spend in each governance phase, from the label
+ * events on their timelines:
+ * - Per issue: the spans each phase label was applied, and per-phase totals
+ * - Per repository: percentiles over completed phase spans
+ *
+ * Ongoing spans count toward an issue's totals (up to "now") but not toward
+ * repository percentiles, which would otherwise skew short.
+ *
+ * Used by the daily standup, the retrospectives, /status, and the cycle-time
+ * export script.
+ */
+
+import { LABELS, isLabelMatch } from "../config.js";
+import { logger } from "./logger.js";
+import type { IssueRef, LabelEvent } from "./types.js";
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────────────────────
+
+/** Phase labels that are measured, in pipeline order. */
+export const CYCLE_TIME_PHASES = [
+  LABELS.DISCUSSION,
+  LABELS.VOTING,
+  LABELS.EXTENDED_VOTING,
+  LABELS.READY_TO_IMPLEMENT,
+] as const;
+
+export type CycleTimePhase = (typeof CYCLE_TIME_PHASES)[number];
+
+/**
+ * Labels that mark an issue as having been through governance: the phases
+ * plus the labels an issue ends up with once it leaves them.
+ */
+export const GOVERNANCE_ISSUE_LABELS: readonly string[] = [
+  ...CYCLE_TIME_PHASES,
+  LABELS.REJECTED,
+  LABELS.INCONCLUSIVE,
+  LABELS.IMPLEMENTED,
+];
+
+export interface PhaseSpan {
+  phase: CycleTimePhase;
+  start: Date;
+  /** Null while the label is still applied. */
+  end: Date | null;
+}
+
+export interface IssueCycleTime {
+  issueNumber: number;
+  /** Phase label currently applied, if any. */
+  currentPhase: CycleTimePhase | null;
+  spans: PhaseSpan[];
+  /** Total time per phase in ms, counting ongoing spans up to `now`. */
+  totals: Partial<Record<CycleTimePhase, number>>;
+}
+
+export interface DurationPercentiles {
+  count: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  max: number;
+}
+
+export type PhasePercentiles = Partial<Record<CycleTimePhase, DurationPercentiles>>;
+
+export interface RepoCycleTimeMetrics {
+  repo: string;
+  generatedAt: string;
+  /** Only issues updated at or after this time were measured. */
+  since: string;
+  /** Percentiles of completed spans, in ms. */
+  phases: PhasePercentiles;
+  issues: IssueCycleTime[];
+}
+
+/**
+ * Minimal Octokit interface for listing issues to measure.
+ */
+export interface CycleTimeClient {
+  rest: {
+    issues: {
+      listForRepo: (params: {
+        owner: string;
+        repo: string;
+        state?: "open" | "closed" | "all";
+        since?: string;
+        per_page?: number;
+      }) => Promise<unknown>;
+    };
+  };
+  paginate: {
+    iterator: <T>(
+      method: unknown,
+      params: unknown
+    ) => AsyncIterable<{ data: T[] }>;
+  };
+}
+
+/**
+ * Issue operations needed to read label timelines (see IssueOperations).
+ */
+export interface CycleTimeIssueOperations {
+  getLabelEvents: (ref: IssueRef) => Promise<LabelEvent[]>;
+}
+
+interface CycleTimeIssue {
+  number: number;
+  pull_request?: unknown;
+  labels: Array<string | { name?: string }>;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Per-Issue Metrics
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Pair each phase label's additions with its removals (label events come from
+ * toLabelEvents in types.ts).
+ *
+ * A repeated "labeled" without a removal in between restarts the span, as
+ * in findLabelAddedTime. Removals without a prior addition are ignored.
+ */
+export function computePhaseSpans(events: LabelEvent[]): PhaseSpan[] {
+  const spans: PhaseSpan[] = [];
+  const open = new Map<CycleTimePhase, Date>();
+
+  for (const event of events) {
+    const phase = CYCLE_TIME_PHASES.find((p) => isLabelMatch(event.label, p));
+    if (!phase) continue;
+
+    if (event.type === "labeled") {
+      open.set(phase, event.time);
+    } else {
+      const start = open.get(phase);
+      if (start) {
+        spans.push({ phase, start, end: event.time });
+        open.delete(phase);
+      }
+    }
+  }
+
+  for (const [phase, start] of open) {
+    spans.push({ phase, start, end: null });
+  }
+
+  return spans.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Compute an issue's phase spans and per-phase totals.
+ */
+export function computeIssueCycleTime(
+  issueNumber: number,
+  events: LabelEvent[],
+  now: Date = new Date()
+): IssueCycleTime {
+  const spans = computePhaseSpans(events);
+  const totals: Partial<Record<CycleTimePhase, number>> = {};
+  let currentPhase: CycleTimePhase | null = null;
+
+  for (const span of spans) {
+    const end = span.end ?? now;
+    totals[span.phase] = (totals[span.phase] ?? 0) + Math.max(0, end.getTime() - span.start.getTime());
+    if (!span.end) {
+      currentPhase = span.phase;
+    }
+  }
+
+  return { issueNumber, currentPhase, spans, totals };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Aggregation
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Percentile of ascending-sorted values, interpolating between ranks
+ * (so p50 of an even-sized list is the mean of the middle two).
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Summarize durations as percentiles, or null when there are none.
+ */
+export function summarizeDurations(values: number[]): DurationPercentiles | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Percentiles per phase over completed spans, optionally only those that
+ * ended within [from, to].
+ */
+export function summarizePhaseSpans(
+  spans: PhaseSpan[],
+  endedWithin?: { from: Date; to: Date }
+): PhasePercentiles {
+  const result: PhasePercentiles = {};
+
+  for (const phase of CYCLE_TIME_PHASES) {
+    const durations = spans
+      .filter((span): span is PhaseSpan & { end: Date } => span.phase === phase && span.end !== null)
+      .filter((span) => !endedWithin || (span.end >= endedWithin.from && span.end <= endedWithin.to))
+      .map((span) => span.end.getTime() - span.start.getTime());
+
+    const summary = summarizeDurations(durations);
+    if (summary) {
+      result[phase] = summary;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Measure every governance issue updated since `since`.
+ *
+ * Issues whose timeline can't be fetched are logged and left out.
+ */
+export async function collectCycleTimeMetrics(
+  client: CycleTimeClient,
+  issues: CycleTimeIssueOperations,
+  owner: string,
+  repo: string,
+  since: Date,
+  now: Date = new Date()
+): Promise<RepoCycleTimeMetrics> {
+  const measured: IssueCycleTime[] = [];
+
+  for await (const { data } of client.paginate.iterator<CycleTimeIssue>(
+    client.rest.issues.listForRepo,
+    { owner, repo, state: "all", since: since.toISOString(), per_page: 100 }
+  )) {
+    for (const issue of data) {
+      if (issue.pull_request || !isGovernanceIssue(issue)) continue;
+
+      try {
+        const events = await issues.getLabelEvents({ owner, repo, issueNumber: issue.number });
+        measured.push(computeIssueCycleTime(issue.number, events, now));
+      } catch (error) {
+        logger.debug(`Failed to fetch timeline for #${issue.number}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  return {
+    repo: `${owner}/${repo}`,
+    generatedAt: now.toISOString(),
+    since: since.toISOString(),
+    phases: summarizePhaseSpans(measured.flatMap((issue) => issue.spans)),
+    issues: measured.sort((a, b) => a.issueNumber - b.issueNumber),
+  };
+}
+
+/**
+ * Check whether an issue carries any governance label.
+ */
+export function isGovernanceIssue(issue: { labels: Array<string | { name?: string }> }): boolean {
+  return issue.labels.some((label) => {
+    const name = typeof label === "string" ? label : label.name;
+    return GOVERNANCE_ISSUE_LABELS.some((governanceLabel) => isLabelMatch(name, governanceLabel));
+  });
+}
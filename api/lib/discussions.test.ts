@@ -4,6 +4,8 @@ import {
   findOrCreateColonyJournal,
   addStandupComment,
   getLastStandupDate,
+  addRetroComment,
+  getLastRetroPeriodStart,
   computeDayNumber,
 } from "./discussions.js";
 import type { GraphQLClient } from "./graphql-queries.js";
@@ -16,6 +18,7 @@ import type { GraphQLClient } from "./graphql-queries.js";
  * - Colony Journal find-or-create logic with locking
  * - Standup comment posting with write-then-verify
  * - Idempotency via last standup date parsing
+ * - Retro posting and idempotency via the last retro's period start
  * - Day counter calculation from repo epoch
  */
 
@@ -423,6 +426,77 @@ describe("getLastStandupDate", () => {
   });
 });
 
+const WEEKLY_RETRO_COMMENT = {
+  body: '<!-- hivemoot-metadata: {"version":1,"type":"retro","period":"weekly","periodStart":"2026-02-09","periodEnd":"2026-02-15","repo":"hivemoot/colony","issueNumber":0,"createdAt":"2026-02-16T00:15:00Z"} -->',
+  createdAt: "2026-02-16T00:15:00Z",
+};
+const STANDUP_COMMENT = {
+  body: '<!-- hivemoot-metadata: {"version":1,"type":"standup","day":42,"date":"2026-02-16","repo":"hivemoot/colony","issueNumber":0,"createdAt":"2026-02-17T00:05:00Z"} -->',
+  createdAt: "2026-02-17T00:05:00Z",
+};
+
+describe("getLastRetroPeriodStart", () => {
+  it("should find the latest retro of the period behind newer standups", async () => {
+    const client = createMockClient();
+    client.graphql.mockResolvedValueOnce({
+      repository: {
+        discussion: { comments: { nodes: [WEEKLY_RETRO_COMMENT, STANDUP_COMMENT] } },
+      },
+    });
+
+    const result = await getLastRetroPeriodStart(client, "hivemoot", "colony", 1, "weekly");
+
+    expect(result).toBe("2026-02-09");
+  });
+
+  it("should ignore retros of another period", async () => {
+    const client = createMockClient();
+    client.graphql.mockResolvedValueOnce({
+      repository: {
+        discussion: { comments: { nodes: [WEEKLY_RETRO_COMMENT] } },
+      },
+    });
+
+    const result = await getLastRetroPeriodStart(client, "hivemoot", "colony", 1, "monthly");
+
+    expect(result).toBeNull();
+  });
+});
+
+describe("addRetroComment", () => {
+  it("should verify retro creation on network error", async () => {
+    const client = createMockClient();
+    client.graphql
+      .mockRejectedValueOnce(new Error("Network timeout"))
+      .mockResolvedValueOnce({
+        repository: {
+          discussion: { comments: { nodes: [WEEKLY_RETRO_COMMENT] } },
+        },
+      });
+
+    const result = await addRetroComment(
+      client, "D_1", "body", "hivemoot", "colony", 1, "weekly", "2026-02-09"
+    );
+
+    expect(result.commentId).toBe("verified-after-error");
+  });
+
+  it("should throw when the retro was not created", async () => {
+    const client = createMockClient();
+    client.graphql
+      .mockRejectedValueOnce(new Error("Network timeout"))
+      .mockResolvedValueOnce({
+        repository: {
+          discussion: { comments: { nodes: [STANDUP_COMMENT] } },
+        },
+      });
+
+    await expect(
+      addRetroComment(client, "D_1", "body", "hivemoot", "colony", 1, "weekly", "2026-02-09")
+    ).rejects.toThrow("Network timeout");
+  });
+});
+
 describe("computeDayNumber", () => {
   it("should return 0 for same UTC calendar day as repo creation", () => {
     const result = computeDayNumber(
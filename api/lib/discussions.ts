@@ -2,13 +2,14 @@
  * GitHub Discussions GraphQL Operations
  *
  * Manages the Colony Journal discussion: a single locked discussion
- * where the bot appends daily standup comments as a timeline.
+ * where the bot appends daily standup comments (and weekly/monthly
+ * retrospectives) as a timeline.
  *
  * Uses GitHub's GraphQL API because Discussions have no REST endpoint.
  */
 
 import type { GraphQLClient } from "./graphql-queries.js";
-import { parseMetadata, type StandupMetadata } from "./bot-comments.js";
+import { parseMetadata, type CommentMetadata, type RetroPeriod } from "./bot-comments.js";
 import { logger } from "./logger.js";
 
 // ───────────────────────────────────────────────────────────────────────────────
@@ -291,6 +292,36 @@ export async function addStandupComment(
   repo: string,
   discussionNumber: number,
   reportDate: string
+): Promise<StandupCommentResult> {
+  return addJournalComment(client, discussionId, body, async () =>
+    (await getLastStandupDate(client, owner, repo, discussionNumber)) === reportDate
+  );
+}
+
+/**
+ * Add a retrospective comment to the Colony Journal discussion.
+ * Same write-then-verify behavior as addStandupComment.
+ */
+export async function addRetroComment(
+  client: GraphQLClient,
+  discussionId: string,
+  body: string,
+  owner: string,
+  repo: string,
+  discussionNumber: number,
+  period: RetroPeriod,
+  periodStart: string
+): Promise<StandupCommentResult> {
+  return addJournalComment(client, discussionId, body, async () =>
+    (await getLastRetroPeriodStart(client, owner, repo, discussionNumber, period)) === periodStart
+  );
+}
+
+async function addJournalComment(
+  client: GraphQLClient,
+  discussionId: string,
+  body: string,
+  wasPosted: () => Promise<boolean>
 ): Promise<StandupCommentResult> {
   try {
     const response = await client.graphql<AddDiscussionCommentResponse>(
@@ -309,8 +340,7 @@ export async function addStandupComment(
     );
 
     try {
-      const lastDate = await getLastStandupDate(client, owner, repo, discussionNumber);
-      if (lastDate === reportDate) {
+      if (await wasPosted()) {
         logger.info("Comment was created despite error (write-then-verify succeeded)");
         return { commentId: "verified-after-error", url: "" };
       }
@@ -337,6 +367,45 @@ export async function getLastStandupDate(
   repo: string,
   discussionNumber: number
 ): Promise<string | null> {
+  const metadata = await findLatestJournalMetadata(
+    client, owner, repo, discussionNumber,
+    (m) => m.type === "standup"
+  );
+  return metadata?.type === "standup" ? metadata.date : null;
+}
+
+/**
+ * Get the period start date of the most recent retro of the given period.
+ * Returns null if no such retro is among the latest journal comments.
+ *
+ * Used for idempotency: if it matches the period being reported, skip posting.
+ * A weekly retro is followed by at most seven standups before the next one,
+ * so it stays within the scanned window.
+ */
+export async function getLastRetroPeriodStart(
+  client: GraphQLClient,
+  owner: string,
+  repo: string,
+  discussionNumber: number,
+  period: RetroPeriod
+): Promise<string | null> {
+  const metadata = await findLatestJournalMetadata(
+    client, owner, repo, discussionNumber,
+    (m) => m.type === "retro" && m.period === period
+  );
+  return metadata?.type === "retro" ? metadata.periodStart : null;
+}
+
+/**
+ * Scan the latest journal comments, newest first, for metadata matching a predicate.
+ */
+async function findLatestJournalMetadata(
+  client: GraphQLClient,
+  owner: string,
+  repo: string,
+  discussionNumber: number,
+  predicate: (metadata: CommentMetadata) => boolean
+): Promise<CommentMetadata | null> {
   const response = await client.graphql<LastDiscussionCommentsResponse>(
     GET_LAST_DISCUSSION_COMMENTS_QUERY,
     { owner, repo, number: discussionNumber }
@@ -347,14 +416,13 @@ export async function getLastStandupDate(
     return null;
   }
 
-  // Check comments from newest to oldest for a standup metadata tag
   for (let i = comments.length - 1; i >= 0; i--) {
     const comment = comments[i];
     if (!comment) continue;
 
     const metadata = parseMetadata(comment.body);
-    if (metadata?.type === "standup") {
-      return (metadata as StandupMetadata).date;
+    if (metadata && predicate(metadata)) {
+      return metadata;
     }
   }
 
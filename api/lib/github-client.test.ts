@@ -21,6 +21,7 @@ import {
   buildAlignmentComment,
   buildHumanHelpComment,
   buildNotificationComment,
+  buildExtensionComment,
   NOTIFICATION_TYPES,
 } from "./bot-comments.js";
 
@@ -1036,6 +1037,76 @@ describe("IssueOperations", () => {
       expect(result.participants).toHaveLength(3);
     });
 
+    it("should compute a weighted tally alongside raw counts when weights are provided", async () => {
+      mockClient.paginate.iterator = vi.fn().mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            data: [
+              { content: "+1", user: { login: "Alice" } },
+              { content: "-1", user: { login: "Hivemoot-Guard" } },
+              { content: "-1", user: { login: "Bob" } },
+              { content: "+1", user: { login: "Muted" } },
+              { content: "eyes", user: { login: "Carol" } },
+              { content: "confused", user: { login: "Carol" } }, // multi-reaction — discarded
+            ],
+          };
+        },
+      });
+
+      const result = await issueOps.getValidatedVoteCounts(testRef, 200, {
+        "hivemoot-guard": 3,
+        muted: 0,
+        carol: 5,
+      });
+
+      expect(result.votes).toEqual({
+        thumbsUp: 2,
+        thumbsDown: 2,
+        confused: 0,
+        eyes: 0,
+        weighted: { thumbsUp: 1, thumbsDown: 4, confused: 0, eyes: 0 },
+      });
+      expect(result.voters).toHaveLength(4);
+      expect(result.thumbsDownVoters).toEqual(expect.arrayContaining(["hivemoot-guard", "bob"]));
+      expect(result.thumbsDownVoters).toHaveLength(2);
+    });
+
+    it("should record a ballot per participant with the latest reaction time", async () => {
+      mockClient.paginate.iterator = vi.fn().mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            data: [
+              { content: "+1", user: { login: "Alice" }, created_at: "2024-01-20T10:00:00Z" },
+              { content: "-1", user: { login: "Bob" }, created_at: "2024-01-20T09:00:00Z" },
+              { content: "+1", user: { login: "Bob" }, created_at: "2024-01-20T11:00:00Z" }, // multi-reaction — discarded
+              { content: "heart", user: { login: "Carol" }, created_at: "2024-01-20T12:00:00Z" }, // not a vote
+              { content: "eyes", user: { login: "Dave" } },
+            ],
+          };
+        },
+      });
+
+      const result = await issueOps.getValidatedVoteCounts(testRef, 200);
+
+      expect(result.ballots).toEqual([
+        { user: "alice", reactions: ["+1"], votedAt: "2024-01-20T10:00:00Z" },
+        { user: "bob", reactions: ["-1", "+1"], votedAt: "2024-01-20T11:00:00Z" },
+        { user: "dave", reactions: ["eyes"] },
+      ]);
+    });
+
+    it("should omit the weighted tally when weights are empty", async () => {
+      mockClient.paginate.iterator = vi.fn().mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield { data: [{ content: "+1", user: { login: "Alice" } }] };
+        },
+      });
+
+      const result = await issueOps.getValidatedVoteCounts(testRef, 200, {});
+
+      expect(result.votes).toEqual({ thumbsUp: 1, thumbsDown: 0, confused: 0, eyes: 0 });
+    });
+
     it("should count duplicate identical reactions as a single vote", async () => {
       mockClient.paginate.iterator = vi.fn().mockReturnValue({
         async *[Symbol.asyncIterator]() {
@@ -1209,6 +1280,48 @@ describe("IssueOperations", () => {
     });
   });
 
+  describe("getPhaseExtensionMs", () => {
+    const HOUR = 60 * 60 * 1000;
+    const since = new Date("2024-01-20T00:00:00Z");
+    const extension = (phase: string, extensionMs: number) =>
+      buildExtensionComment("Extended", 42, { phase, extensionMs, extendedBy: "maintainer" });
+
+    it("should sum our app's extensions for the phase posted since the phase started", async () => {
+      mockClient.paginate.iterator = vi.fn().mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            data: [
+              // Earlier pass through voting — ignored
+              { id: 1, body: extension("hivemoot:voting", 48 * HOUR), created_at: "2024-01-19T10:00:00Z", performed_via_github_app: { id: TEST_APP_ID } },
+              { id: 2, body: extension("hivemoot:voting", 12 * HOUR), created_at: "2024-01-20T10:00:00Z", performed_via_github_app: { id: TEST_APP_ID } },
+              { id: 3, body: extension("hivemoot:voting", 6 * HOUR), created_at: "2024-01-20T11:00:00Z", performed_via_github_app: { id: TEST_APP_ID } },
+              // Other phase — ignored
+              { id: 4, body: extension("hivemoot:discussion", 24 * HOUR), created_at: "2024-01-20T11:00:00Z", performed_via_github_app: { id: TEST_APP_ID } },
+              // Spoofed by a user — ignored
+              { id: 5, body: extension("hivemoot:voting", 100 * HOUR), created_at: "2024-01-20T11:00:00Z", performed_via_github_app: null },
+            ],
+          };
+        },
+      });
+
+      const total = await issueOps.getPhaseExtensionMs(testRef, "hivemoot:voting", since);
+
+      expect(total).toBe(18 * HOUR);
+    });
+
+    it("should return 0 when the phase was never extended", async () => {
+      mockClient.paginate.iterator = vi.fn().mockReturnValue({
+        async *[Symbol.asyncIterator]() {
+          yield {
+            data: [{ id: 100, body: "Regular comment", created_at: "2024-01-20T10:00:00Z", performed_via_github_app: null }],
+          };
+        },
+      });
+
+      expect(await issueOps.getPhaseExtensionMs(testRef, "hivemoot:voting", since)).toBe(0);
+    });
+  });
+
   describe("getLabelAddedTime", () => {
     it("should return date when label event found", async () => {
       const labeledDate = "2024-01-15T10:30:00Z";
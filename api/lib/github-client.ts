@@ -18,7 +18,20 @@ import {
   type VotingCommentInfo,
 } from "./bot-comments.js";
 import type { DiscussionComment, IssueContext } from "./llm/types.js";
-import type { IssueRef, VoteCounts, ValidatedVoteResult, TimelineEvent, LockReason, IssueComment } from "./types.js";
+import type {
+  IssueRef,
+  VoteCounts,
+  VoteTally,
+  VoteBallot,
+  VoteReaction,
+  ValidatedVoteResult,
+  TimelineEvent,
+  LabelEvent,
+  LockReason,
+  IssueComment,
+} from "./types.js";
+import { findLabelAddedTime, toLabelEvents } from "./types.js";
+import type { VoteWeights } from "./repo-config.js";
 import {
   validateClient,
   hasPaginateIterator,
@@ -36,6 +49,7 @@ export type { IssueComment } from "./types.js";
 export interface Reaction {
   content: "+1" | "-1" | "laugh" | "confused" | "heart" | "hooray" | "rocket" | "eyes";
   user?: { login: string } | null;
+  created_at?: string;
 }
 
 /**
@@ -546,9 +560,19 @@ export class IssueOperations {
    *
    * Returns a single result containing votes, valid voters, and all participants
    * in one API call.
+   *
+   * When `weights` is non-empty, `votes.weighted` is populated with each valid
+   * vote multiplied by its voter's weight (unlisted voters weigh 1).
+   *
+   * `ballots` records every participant's reactions and latest reaction time,
+   * including discarded ones, for the outcome audit trail.
    */
-  async getValidatedVoteCounts(ref: IssueRef, commentId: number): Promise<ValidatedVoteResult> {
-    const VOTING_REACTIONS = new Set(["+1", "-1", "confused", "eyes"]);
+  async getValidatedVoteCounts(
+    ref: IssueRef,
+    commentId: number,
+    weights?: VoteWeights
+  ): Promise<ValidatedVoteResult> {
+    const VOTING_REACTIONS = new Set<string>(["+1", "-1", "confused", "eyes"] satisfies VoteReaction[]);
 
     const iterator = this.client.paginate.iterator<Reaction>(
       this.client.rest.reactions.listForIssueComment,
@@ -561,7 +585,8 @@ export class IssueOperations {
     );
 
     // Group voting reactions by user
-    const userReactions = new Map<string, Set<string>>();
+    const userReactions = new Map<string, Set<VoteReaction>>();
+    const latestReactionAt = new Map<string, string>();
     let nullUserReactions = 0;
 
     for await (const { data: reactions } of iterator) {
@@ -579,7 +604,13 @@ export class IssueOperations {
         if (!userReactions.has(user)) {
           userReactions.set(user, new Set());
         }
-        userReactions.get(user)!.add(reaction.content);
+        userReactions.get(user)!.add(reaction.content as VoteReaction);
+
+        // ISO 8601 timestamps compare correctly as strings
+        const previous = latestReactionAt.get(user);
+        if (reaction.created_at && (!previous || reaction.created_at > previous)) {
+          latestReactionAt.set(user, reaction.created_at);
+        }
       }
     }
 
@@ -587,19 +618,36 @@ export class IssueOperations {
     let thumbsDown = 0;
     let confused = 0;
     let eyes = 0;
+    const isWeighted = weights !== undefined && Object.keys(weights).length > 0;
+    const weighted: VoteTally = { thumbsUp: 0, thumbsDown: 0, confused: 0, eyes: 0 };
     const voters: string[] = [];
     const participants: string[] = [];
+    const thumbsDownVoters: string[] = [];
+    const ballots: VoteBallot[] = [];
 
     for (const [user, reactions] of userReactions) {
       participants.push(user);
+      const votedAt = latestReactionAt.get(user);
+      ballots.push({ user, reactions: [...reactions], ...(votedAt && { votedAt }) });
 
       // Only count users with exactly one voting reaction type
       if (reactions.size === 1) {
         const reaction = [...reactions][0];
-        if (reaction === "+1") thumbsUp++;
-        else if (reaction === "-1") thumbsDown++;
-        else if (reaction === "confused") confused++;
-        else if (reaction === "eyes") eyes++;
+        const weight = isWeighted && Object.hasOwn(weights, user) ? weights[user] : 1;
+        if (reaction === "+1") {
+          thumbsUp++;
+          weighted.thumbsUp += weight;
+        } else if (reaction === "-1") {
+          thumbsDown++;
+          weighted.thumbsDown += weight;
+          thumbsDownVoters.push(user);
+        } else if (reaction === "confused") {
+          confused++;
+          weighted.confused += weight;
+        } else if (reaction === "eyes") {
+          eyes++;
+          weighted.eyes += weight;
+        }
         voters.push(user);
       }
       // Users with multiple reaction types are discarded from tally and quorum
@@ -612,9 +660,13 @@ export class IssueOperations {
     }
 
     return {
-      votes: { thumbsUp, thumbsDown, confused, eyes },
+      votes: isWeighted
+        ? { thumbsUp, thumbsDown, confused, eyes, weighted }
+        : { thumbsUp, thumbsDown, confused, eyes },
       voters,
       participants,
+      thumbsDownVoters,
+      ballots,
     };
   }
 
@@ -737,7 +789,16 @@ export class IssueOperations {
    * time, or null if the label was removed after being added.
    */
   async getLabelAddedTime(ref: IssueRef, labelName: string): Promise<Date | null> {
-    const iterator = this.client.paginate.iterator(
+    return findLabelAddedTime(await this.getLabelEvents(ref), labelName);
+  }
+
+  /**
+   * Get every label added to or removed from an issue, oldest first.
+   * Sorted explicitly: the API typically returns chronological order, but we
+   * don't rely on that.
+   */
+  async getLabelEvents(ref: IssueRef): Promise<LabelEvent[]> {
+    const iterator = this.client.paginate.iterator<TimelineEvent>(
       this.client.rest.issues.listEventsForTimeline,
       {
         owner: ref.owner,
@@ -747,37 +808,50 @@ export class IssueOperations {
       }
     );
 
-    // Collect all label events first, then sort to ensure chronological order
-    // (GitHub API typically returns chronological, but we don't rely on that)
-    const labelEvents: Array<{ type: "labeled" | "unlabeled"; time: Date }> = [];
-
+    const timeline: TimelineEvent[] = [];
     for await (const { data: events } of iterator) {
-      for (const event of events as TimelineEvent[]) {
-        if (event.label?.name && isLabelMatch(event.label.name, labelName)) {
-          if (event.event === "labeled") {
-            labelEvents.push({ type: "labeled", time: new Date(event.created_at) });
-          } else if (event.event === "unlabeled") {
-            labelEvents.push({ type: "unlabeled", time: new Date(event.created_at) });
-          }
-        }
-      }
+      timeline.push(...events);
     }
+    return toLabelEvents(timeline);
+  }
 
-    // Sort by time ascending (oldest first) to process in chronological order
-    labelEvents.sort((a, b) => a.time.getTime() - b.time.getTime());
-
-    // Process events in guaranteed chronological order
-    let mostRecentLabeledTime: Date | null = null;
-    for (const event of labelEvents) {
-      if (event.type === "labeled") {
-        mostRecentLabeledTime = event.time;
-      } else {
-        // unlabeled - reset the timer
-        mostRecentLabeledTime = null;
+  /**
+   * Sum the /extend extensions recorded for a phase since it started.
+   *
+   * Only extension comments posted by our app (prevents spoofing) at or after
+   * `since` count, so extensions from an earlier pass through the same phase
+   * are ignored. Returns milliseconds (0 when the phase was never extended).
+   */
+  async getPhaseExtensionMs(ref: IssueRef, phaseLabel: string, since: Date): Promise<number> {
+    const iterator = this.client.paginate.iterator<IssueComment>(
+      this.client.rest.issues.listComments,
+      {
+        owner: ref.owner,
+        repo: ref.repo,
+        issue_number: ref.issueNumber,
+        per_page: 100,
+      }
+    );
+
+    let totalMs = 0;
+
+    for await (const { data: comments } of iterator) {
+      for (const comment of comments) {
+        if (comment.performed_via_github_app?.id !== this.appId) {
+          continue;
+        }
+        const metadata = parseMetadata(comment.body);
+        if (metadata?.type !== "extension" || !isLabelMatch(metadata.phase, phaseLabel)) {
+          continue;
+        }
+        const postedAt = new Date(comment.created_at ?? metadata.createdAt);
+        if (postedAt.getTime() >= since.getTime() && metadata.extensionMs > 0) {
+          totalMs += metadata.extensionMs;
+        }
       }
     }
 
-    return mostRecentLabeledTime;
+    return totalMs;
   }
 
   /**
@@ -1,10 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { GovernanceService, createGovernanceService, isUnanimous, isDecisive, isExitEligible, isDiscussionExitEligible, type EndVotingOptions } from "./governance.js";
+import { GovernanceService, createGovernanceService, isUnanimous, isDecisive, isExitEligible, isDiscussionExitEligible, getVetoingVoters, getRatioThreshold, buildVoteAudit, type EndVotingOptions } from "./governance.js";
 import type { DiscussionExit, VotingExit } from "./repo-config.js";
 import type { IssueOperations } from "./github-client.js";
 import type { IssueRef, VoteCounts, ValidatedVoteResult } from "./types.js";
 import { LABELS, MESSAGES, SIGNATURE } from "../config.js";
-import { SIGNATURES, ERROR_CODES } from "./bot-comments.js";
+import { SIGNATURES, ERROR_CODES, parseMetadata } from "./bot-comments.js";
 import { createModelFromEnv } from "./llm/provider.js";
 import { DiscussionSummarizer, formatVotingMessage } from "./llm/summarizer.js";
 
@@ -42,7 +42,7 @@ describe("GovernanceService", () => {
       unlock: vi.fn().mockResolvedValue(undefined),
       getVoteCounts: vi.fn().mockResolvedValue({ thumbsUp: 0, thumbsDown: 0, confused: 0, eyes: 0 }),
       findVotingCommentId: vi.fn().mockResolvedValue(12345),
-      getValidatedVoteCounts: vi.fn().mockResolvedValue({ votes: { thumbsUp: 0, thumbsDown: 0, confused: 0, eyes: 0 }, voters: [], participants: [] }),
+      getValidatedVoteCounts: vi.fn().mockResolvedValue({ votes: { thumbsUp: 0, thumbsDown: 0, confused: 0, eyes: 0 }, voters: [], participants: [], ballots: [] }),
       countVotingComments: vi.fn().mockResolvedValue(0),
       hasHumanHelpComment: vi.fn().mockResolvedValue(false),
       getLabelAddedTime: vi.fn().mockResolvedValue(new Date()),
@@ -77,6 +77,17 @@ describe("GovernanceService", () => {
       expect(commentBody).not.toContain("Ready to vote?");
     });
 
+    it("should list expected roles above the signature", async () => {
+      await governance.startDiscussion(testRef, MESSAGES.ISSUE_WELCOME_MANUAL, [
+        { name: "guard", description: "Protector" },
+        { name: "scout", description: "" },
+      ]);
+
+      const commentBody = vi.mocked(mockIssues.comment).mock.calls[0][1];
+      expect(commentBody).toContain("**Expected to weigh in:**\n- **guard** — Protector\n- **scout**");
+      expect(commentBody.indexOf("Expected to weigh in")).toBeLessThan(commentBody.indexOf(SIGNATURE));
+    });
+
     it("should run label and comment in parallel", async () => {
       const delayMs = 50;
       const addLabelsPromise = new Promise((resolve) => setTimeout(resolve, delayMs));
@@ -112,6 +123,15 @@ describe("GovernanceService", () => {
       expect(callArgs.comment).toContain('"cycle":1');
     });
 
+    it("should name the governance profile above the signature when given", async () => {
+      await governance.transitionToVoting(testRef, "security");
+
+      const callArgs = vi.mocked(mockIssues.transition).mock.calls[0][1];
+      expect(callArgs.comment).toContain(MESSAGES.votingProfile("security"));
+      expect(callArgs.comment.indexOf(MESSAGES.votingProfile("security")))
+        .toBeLessThan(callArgs.comment.indexOf(SIGNATURE));
+    });
+
     it("should skip GitHub API call when API key is missing (createModelFromEnv throws)", async () => {
       // Simulate API key missing - createModelFromEnv throws instead of returning null
       vi.mocked(createModelFromEnv).mockImplementation(() => {
@@ -393,7 +413,7 @@ describe("GovernanceService", () => {
     function validatedFrom(votes: VoteCounts): ValidatedVoteResult {
       const total = votes.thumbsUp + votes.thumbsDown + votes.confused + votes.eyes;
       const names = Array.from({ length: total }, (_, i) => `voter-${i}`);
-      return { votes, voters: names, participants: names };
+      return { votes, voters: names, participants: names, ballots: [] };
     }
 
     it("should mark ready-to-implement when thumbsUp > thumbsDown", async () => {
@@ -404,11 +424,11 @@ describe("GovernanceService", () => {
 
       expect(outcome).toBe("ready-to-implement");
       expect(mockIssues.findVotingCommentId).toHaveBeenCalledWith(testRef);
-      expect(mockIssues.getValidatedVoteCounts).toHaveBeenCalledWith(testRef, 12345);
+      expect(mockIssues.getValidatedVoteCounts).toHaveBeenCalledWith(testRef, 12345, undefined);
       expect(mockIssues.transition).toHaveBeenCalledWith(testRef, {
         removeLabel: LABELS.VOTING,
         addLabel: LABELS.READY_TO_IMPLEMENT,
-        comment: MESSAGES.votingEndReadyToImplement(votes),
+        comment: expect.stringContaining(MESSAGES.votingEndReadyToImplement(votes)),
         close: false,
         lock: false,
       });
@@ -424,7 +444,7 @@ describe("GovernanceService", () => {
       expect(mockIssues.transition).toHaveBeenCalledWith(testRef, {
         removeLabel: LABELS.VOTING,
         addLabel: LABELS.REJECTED,
-        comment: MESSAGES.votingEndRejected(votes),
+        comment: expect.stringContaining(MESSAGES.votingEndRejected(votes)),
         close: true,
         closeReason: "not_planned",
         lock: true,
@@ -442,7 +462,7 @@ describe("GovernanceService", () => {
       expect(mockIssues.transition).toHaveBeenCalledWith(testRef, {
         removeLabel: LABELS.VOTING,
         addLabel: LABELS.EXTENDED_VOTING,
-        comment: MESSAGES.votingEndInconclusive(votes),
+        comment: expect.stringContaining(MESSAGES.votingEndInconclusive(votes)),
         close: false,
         lock: false,
       });
@@ -467,7 +487,7 @@ describe("GovernanceService", () => {
       expect(mockIssues.transition).toHaveBeenCalledWith(testRef, {
         removeLabel: LABELS.VOTING,
         addLabel: LABELS.DISCUSSION,
-        comment: MESSAGES.votingEndNeedsMoreDiscussion(votes),
+        comment: expect.stringContaining(MESSAGES.votingEndNeedsMoreDiscussion(votes)),
         close: false,
         lock: false,
         unlock: true,
@@ -484,7 +504,7 @@ describe("GovernanceService", () => {
       expect(mockIssues.transition).toHaveBeenCalledWith(testRef, {
         removeLabel: LABELS.VOTING,
         addLabel: LABELS.NEEDS_HUMAN,
-        comment: MESSAGES.votingEndNeedsHumanInput(votes),
+        comment: expect.stringContaining(MESSAGES.votingEndNeedsHumanInput(votes)),
         close: false,
         lock: false,
       });
@@ -536,10 +556,200 @@ describe("GovernanceService", () => {
   });
 
   describe("endVoting with options", () => {
+    it("should force the veto outcome and name the veto when a veto voter casts 👎", async () => {
+      const votes: VoteCounts = { thumbsUp: 4, thumbsDown: 1, confused: 0, eyes: 0 };
+      const outcome = await governance.endVoting(testRef, {
+        earlyDecision: true,
+        votingConfig: {
+          minVoters: 10,
+          requiredVoters: { minCount: 0, voters: [] },
+          veto: { voters: ["hivemoot-guard"], outcome: "rejected" },
+        },
+        validatedVotes: {
+          votes,
+          voters: ["a", "b", "c", "d", "hivemoot-guard"],
+          participants: ["a", "b", "c", "d", "hivemoot-guard"], ballots: [],
+          thumbsDownVoters: ["hivemoot-guard"],
+        },
+      });
+
+      expect(outcome).toBe("rejected");
+      const callArgs = vi.mocked(mockIssues.transition).mock.calls[0][1];
+      expect(callArgs.addLabel).toBe(LABELS.REJECTED);
+      expect(callArgs.comment).toContain(
+        MESSAGES.votingVetoed(["hivemoot-guard"]) + MESSAGES.votingEndRejected(votes),
+      );
+      expect(callArgs.comment).toContain("@hivemoot-guard (veto)");
+      expect(callArgs.comment).not.toContain("Early decision");
+    });
+
+    it("should support needs-human-input as the veto outcome", async () => {
+      const outcome = await governance.endVoting(testRef, {
+        votingConfig: {
+          minVoters: 0,
+          requiredVoters: { minCount: 0, voters: [] },
+          veto: { voters: ["guard"], outcome: "needs-human-input" },
+        },
+        validatedVotes: {
+          votes: { thumbsUp: 3, thumbsDown: 1, confused: 0, eyes: 0 },
+          voters: ["a", "b", "c", "guard"],
+          participants: ["a", "b", "c", "guard"], ballots: [],
+          thumbsDownVoters: ["guard"],
+        },
+      });
+
+      expect(outcome).toBe("needs-human-input");
+      expect(vi.mocked(mockIssues.transition).mock.calls[0][1].addLabel).toBe(LABELS.NEEDS_HUMAN);
+    });
+
+    it("should ignore 👎 from voters without veto power", async () => {
+      const outcome = await governance.endVoting(testRef, {
+        votingConfig: {
+          minVoters: 0,
+          requiredVoters: { minCount: 0, voters: [] },
+          veto: { voters: ["guard"], outcome: "rejected" },
+        },
+        validatedVotes: {
+          votes: { thumbsUp: 3, thumbsDown: 1, confused: 0, eyes: 0 },
+          voters: ["a", "b", "c", "d"],
+          participants: ["a", "b", "c", "d"], ballots: [],
+          thumbsDownVoters: ["d"],
+        },
+      });
+
+      expect(outcome).toBe("ready-to-implement");
+    });
+
+    it("should go to extended voting and explain the shortfall when the ratio is missed", async () => {
+      const votes: VoteCounts = { thumbsUp: 4, thumbsDown: 3, confused: 0, eyes: 0 };
+      const outcome = await governance.endVoting(testRef, {
+        votingConfig: { minVoters: 0, requiredVoters: { minCount: 0, voters: [] }, requires: { ratio: 0.66 } },
+        validatedVotes: {
+          votes,
+          voters: ["a", "b", "c", "d", "e", "f", "g"],
+          participants: ["a", "b", "c", "d", "e", "f", "g"], ballots: [],
+          thumbsDownVoters: ["e", "f", "g"],
+        },
+      });
+
+      expect(outcome).toBe("inconclusive");
+      const callArgs = vi.mocked(mockIssues.transition).mock.calls[0][1];
+      expect(callArgs.addLabel).toBe(LABELS.EXTENDED_VOTING);
+      expect(callArgs.comment).toContain(
+        "The 66% approval threshold was missed (👍 4 of 7, needed 5); 2 more 👍 votes would meet it.",
+      );
+    });
+
+    it("should approve when the ratio is met", async () => {
+      const outcome = await governance.endVoting(testRef, {
+        votingConfig: { minVoters: 0, requiredVoters: { minCount: 0, voters: [] }, requires: { ratio: 0.66 } },
+        validatedVotes: {
+          votes: { thumbsUp: 5, thumbsDown: 2, confused: 0, eyes: 0 },
+          voters: ["a", "b", "c", "d", "e", "f", "g"],
+          participants: ["a", "b", "c", "d", "e", "f", "g"], ballots: [],
+          thumbsDownVoters: ["f", "g"],
+        },
+      });
+
+      expect(outcome).toBe("ready-to-implement");
+    });
+
+    it("should close as final inconclusive with the shortfall after extended voting", async () => {
+      const outcome = await governance.resolveInconclusive(testRef, {
+        votingConfig: { minVoters: 0, requiredVoters: { minCount: 0, voters: [] }, requires: { ratio: 0.75 } },
+        validatedVotes: {
+          votes: { thumbsUp: 2, thumbsDown: 2, confused: 0, eyes: 0 },
+          voters: ["a", "b", "c", "d"],
+          participants: ["a", "b", "c", "d"], ballots: [],
+          thumbsDownVoters: ["c", "d"],
+        },
+      });
+
+      expect(outcome).toBe("inconclusive");
+      const callArgs = vi.mocked(mockIssues.transition).mock.calls[0][1];
+      expect(callArgs.addLabel).toBe(LABELS.INCONCLUSIVE);
+      expect(callArgs.comment).toContain(
+        "The 75% approval threshold was missed (👍 2 of 4, needed 3); 4 more 👍 votes would meet it.",
+      );
+    });
+
+    it("should attach the vote audit table and status metadata to the outcome comment", async () => {
+      const votes: VoteCounts = { thumbsUp: 1, thumbsDown: 0, confused: 0, eyes: 0 };
+      await governance.endVoting(testRef, {
+        votingConfig: { minVoters: 0, requiredVoters: { minCount: 0, voters: ["carol"] } },
+        validatedVotes: {
+          votes,
+          voters: ["alice"],
+          participants: ["alice", "bob"],
+          thumbsDownVoters: [],
+          ballots: [
+            { user: "alice", reactions: ["+1"], votedAt: "2024-01-20T10:00:00Z" },
+            { user: "bob", reactions: ["+1", "-1"], votedAt: "2024-01-20T11:00:00Z" },
+          ],
+        },
+      });
+
+      const callArgs = vi.mocked(mockIssues.transition).mock.calls[0][1];
+      expect(callArgs.comment).toContain("<summary>Vote audit (3 entries)</summary>");
+      expect(callArgs.comment).toContain("| @alice | 👍 | counted | 2024-01-20 10:00:00 UTC |");
+      expect(callArgs.comment).toContain("| @bob | 👍 👎 | discarded (multiple reactions) | 2024-01-20 11:00:00 UTC |");
+      expect(callArgs.comment).toContain("| @carol | — | missing (required voter) | — |");
+      expect(callArgs.comment.indexOf("</details>")).toBeLessThan(callArgs.comment.indexOf(SIGNATURE));
+      expect(parseMetadata(callArgs.comment)).toMatchObject({
+        type: "status",
+        issueNumber: testRef.issueNumber,
+        outcome: "ready-to-implement",
+        audit: [
+          { user: "alice", reactions: ["+1"], votedAt: "2024-01-20T10:00:00Z", status: "counted" },
+          { user: "bob", reactions: ["+1", "-1"], votedAt: "2024-01-20T11:00:00Z", status: "discarded" },
+          { user: "carol", reactions: [], status: "missing" },
+        ],
+      });
+    });
+
+    it("should omit the audit table when nobody voted", async () => {
+      await governance.endVoting(testRef);
+
+      const callArgs = vi.mocked(mockIssues.transition).mock.calls[0][1];
+      expect(callArgs.comment).not.toContain("Vote audit");
+      expect(parseMetadata(callArgs.comment)).toMatchObject({ type: "status", outcome: "inconclusive", audit: [] });
+    });
+
+    it("should pass configured weights when fetching votes", async () => {
+      vi.mocked(mockIssues.getValidatedVoteCounts).mockResolvedValue({
+        votes: { thumbsUp: 1, thumbsDown: 0, confused: 0, eyes: 0 },
+        voters: ["a"], participants: ["a"], ballots: [],
+      });
+
+      await governance.endVoting(testRef, { weights: { "hivemoot-guard": 2 } });
+
+      expect(mockIssues.getValidatedVoteCounts).toHaveBeenCalledWith(
+        testRef, 12345, { "hivemoot-guard": 2 },
+      );
+    });
+
+    it("should decide the outcome from the weighted tally and display it", async () => {
+      // Raw head count favours 👍, but the weighted 👎 wins
+      const votes: VoteCounts = {
+        thumbsUp: 2, thumbsDown: 1, confused: 0, eyes: 0,
+        weighted: { thumbsUp: 2, thumbsDown: 3, confused: 0, eyes: 0 },
+      };
+      vi.mocked(mockIssues.getValidatedVoteCounts).mockResolvedValue({
+        votes, voters: ["a", "b", "guard"], participants: ["a", "b", "guard"], ballots: [],
+      });
+
+      const outcome = await governance.endVoting(testRef, { weights: { guard: 3 } });
+
+      expect(outcome).toBe("rejected");
+      const callArgs = vi.mocked(mockIssues.transition).mock.calls[0][1];
+      expect(callArgs.comment).toContain("**Results:** 👍 2 | 👎 1 | 😕 0 | 👀 0");
+      expect(callArgs.comment).toContain("**Weighted:** 👍 2 | 👎 3 | 😕 0 | 👀 0");
+    });
+
     it("should prepend early decision note with 'quorum reached' when no required voters", async () => {
       const votes: VoteCounts = { thumbsUp: 3, thumbsDown: 1, confused: 0, eyes: 0 };
       vi.mocked(mockIssues.getValidatedVoteCounts).mockResolvedValue({
-        votes, voters: ["a", "b", "c", "d"], participants: ["a", "b", "c", "d"],
+        votes, voters: ["a", "b", "c", "d"], participants: ["a", "b", "c", "d"], ballots: [],
       });
 
       await governance.endVoting(testRef, { earlyDecision: true });
@@ -552,7 +762,7 @@ describe("GovernanceService", () => {
     it("should prepend early decision with 'all required voters' for minCount = voters.length", async () => {
       const votes: VoteCounts = { thumbsUp: 3, thumbsDown: 1, confused: 0, eyes: 0 };
       vi.mocked(mockIssues.getValidatedVoteCounts).mockResolvedValue({
-        votes, voters: ["a", "b", "c", "d"], participants: ["a", "b", "c", "d"],
+        votes, voters: ["a", "b", "c", "d"], participants: ["a", "b", "c", "d"], ballots: [],
       });
 
       await governance.endVoting(testRef, {
@@ -567,7 +777,7 @@ describe("GovernanceService", () => {
     it("should prepend early decision with 'a required voter' for minCount: 1", async () => {
       const votes: VoteCounts = { thumbsUp: 3, thumbsDown: 1, confused: 0, eyes: 0 };
       vi.mocked(mockIssues.getValidatedVoteCounts).mockResolvedValue({
-        votes, voters: ["a", "b", "c", "d"], participants: ["a", "b", "c", "d"],
+        votes, voters: ["a", "b", "c", "d"], participants: ["a", "b", "c", "d"], ballots: [],
       });
 
       await governance.endVoting(testRef, {
@@ -582,7 +792,7 @@ describe("GovernanceService", () => {
     it("should NOT prepend early decision note when earlyDecision is false", async () => {
       const votes: VoteCounts = { thumbsUp: 3, thumbsDown: 1, confused: 0, eyes: 0 };
       vi.mocked(mockIssues.getValidatedVoteCounts).mockResolvedValue({
-        votes, voters: ["a", "b", "c", "d"], participants: ["a", "b", "c", "d"],
+        votes, voters: ["a", "b", "c", "d"], participants: ["a", "b", "c", "d"], ballots: [],
       });
 
       await governance.endVoting(testRef);
@@ -594,7 +804,7 @@ describe("GovernanceService", () => {
     it("should NOT prepend early decision note when outcome is inconclusive (tied vote)", async () => {
       const votes: VoteCounts = { thumbsUp: 3, thumbsDown: 3, confused: 0, eyes: 0 };
       vi.mocked(mockIssues.getValidatedVoteCounts).mockResolvedValue({
-        votes, voters: ["a", "b", "c", "d", "e", "f"], participants: ["a", "b", "c", "d", "e", "f"],
+        votes, voters: ["a", "b", "c", "d", "e", "f"], participants: ["a", "b", "c", "d", "e", "f"], ballots: [],
       });
 
       const outcome = await governance.endVoting(testRef, { earlyDecision: true });
@@ -610,7 +820,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 1, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["alice"],
-          participants: ["alice"],
+          participants: ["alice"], ballots: [],
         },
       });
 
@@ -627,7 +837,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 0, thumbsDown: 0, confused: 0, eyes: 0 }, // discarded from tally
           voters: [],                                           // discarded from quorum
-          participants: ["alice"],                               // still a participant
+          participants: ["alice"], ballots: [],                               // still a participant
         },
       });
 
@@ -640,7 +850,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 3, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["agent-a", "agent-c", "agent-d"],
-          participants: ["agent-a", "agent-c", "agent-d"], // agent-b missing
+          participants: ["agent-a", "agent-c", "agent-d"], ballots: [], // agent-b missing
         },
       });
 
@@ -657,7 +867,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 3, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["agent-a", "agent-b", "agent-c"],
-          participants: ["agent-a", "agent-b", "agent-c"],
+          participants: ["agent-a", "agent-b", "agent-c"], ballots: [],
         },
       });
 
@@ -671,7 +881,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 1, thumbsDown: 2, confused: 0, eyes: 0 },
           voters: ["agent-a", "agent-b", "agent-c"],
-          participants: ["agent-a", "agent-b", "agent-c"],
+          participants: ["agent-a", "agent-b", "agent-c"], ballots: [],
         },
       });
 
@@ -686,7 +896,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 1, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["agent-b"],      // agent-a excluded from voters (multi-reaction)
-          participants: ["agent-a", "agent-b"], // agent-a still a participant
+          participants: ["agent-a", "agent-b"], ballots: [], // agent-a still a participant
         },
       });
 
@@ -699,7 +909,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 1, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["alice"],
-          participants: ["alice"],
+          participants: ["alice"], ballots: [],
         },
       });
 
@@ -712,7 +922,7 @@ describe("GovernanceService", () => {
     function resolveValidated(votes: VoteCounts): ValidatedVoteResult {
       const total = votes.thumbsUp + votes.thumbsDown + votes.confused + votes.eyes;
       const names = Array.from({ length: total }, (_, i) => `voter-${i}`);
-      return { votes, voters: names, participants: names };
+      return { votes, voters: names, participants: names, ballots: [] };
     }
 
     it("should transition to ready-to-implement when thumbsUp > thumbsDown after extended voting", async () => {
@@ -723,16 +933,53 @@ describe("GovernanceService", () => {
 
       expect(outcome).toBe("ready-to-implement");
       expect(mockIssues.findVotingCommentId).toHaveBeenCalledWith(testRef);
-      expect(mockIssues.getValidatedVoteCounts).toHaveBeenCalledWith(testRef, 12345);
+      expect(mockIssues.getValidatedVoteCounts).toHaveBeenCalledWith(testRef, 12345, undefined);
       expect(mockIssues.transition).toHaveBeenCalledWith(testRef, {
         removeLabel: LABELS.EXTENDED_VOTING,
         addLabel: LABELS.READY_TO_IMPLEMENT,
-        comment: MESSAGES.votingEndInconclusiveResolved(votes, "ready-to-implement"),
+        comment: expect.stringContaining(MESSAGES.votingEndInconclusiveResolved(votes, "ready-to-implement")),
         close: false,
         lock: false,
       });
     });
 
+    it("should reject on veto during extended voting and name the veto", async () => {
+      const votes: VoteCounts = { thumbsUp: 2, thumbsDown: 2, confused: 0, eyes: 0 };
+      const outcome = await governance.resolveInconclusive(testRef, {
+        votingConfig: {
+          minVoters: 0,
+          requiredVoters: { minCount: 0, voters: [] },
+          veto: { voters: ["guard"], outcome: "rejected" },
+        },
+        validatedVotes: {
+          votes,
+          voters: ["a", "b", "c", "guard"],
+          participants: ["a", "b", "c", "guard"], ballots: [],
+          thumbsDownVoters: ["c", "guard"],
+        },
+      });
+
+      expect(outcome).toBe("rejected");
+      const callArgs = vi.mocked(mockIssues.transition).mock.calls[0][1];
+      expect(callArgs.comment).toContain(
+        MESSAGES.votingVetoed(["guard"]) + MESSAGES.votingEndInconclusiveResolved(votes, "rejected"),
+      );
+    });
+
+    it("should resolve a raw tie using the weighted tally", async () => {
+      const votes: VoteCounts = {
+        thumbsUp: 2, thumbsDown: 2, confused: 0, eyes: 0,
+        weighted: { thumbsUp: 4, thumbsDown: 2, confused: 0, eyes: 0 },
+      };
+      vi.mocked(mockIssues.getValidatedVoteCounts).mockResolvedValue(resolveValidated(votes));
+
+      const outcome = await governance.resolveInconclusive(testRef, { weights: { "voter-0": 3 } });
+
+      expect(outcome).toBe("ready-to-implement");
+      const callArgs = vi.mocked(mockIssues.transition).mock.calls[0][1];
+      expect(callArgs.comment).toContain("**Weighted:** 👍 4 | 👎 2 | 😕 0 | 👀 0");
+    });
+
     it("should transition to rejected when thumbsDown > thumbsUp after extended voting", async () => {
       const votes: VoteCounts = { thumbsUp: 1, thumbsDown: 5, confused: 0, eyes: 0 };
       vi.mocked(mockIssues.getValidatedVoteCounts).mockResolvedValue(resolveValidated(votes));
@@ -743,7 +990,7 @@ describe("GovernanceService", () => {
       expect(mockIssues.transition).toHaveBeenCalledWith(testRef, {
         removeLabel: LABELS.EXTENDED_VOTING,
         addLabel: LABELS.REJECTED,
-        comment: MESSAGES.votingEndInconclusiveResolved(votes, "rejected"),
+        comment: expect.stringContaining(MESSAGES.votingEndInconclusiveResolved(votes, "rejected")),
         close: true,
         closeReason: "not_planned",
         lock: true,
@@ -761,7 +1008,7 @@ describe("GovernanceService", () => {
       expect(mockIssues.transition).toHaveBeenCalledWith(testRef, {
         removeLabel: LABELS.EXTENDED_VOTING,
         addLabel: LABELS.INCONCLUSIVE,
-        comment: MESSAGES.votingEndInconclusiveFinal(votes),
+        comment: expect.stringContaining(MESSAGES.votingEndInconclusiveFinal(votes)),
         close: true,
         closeReason: "not_planned",
         lock: true,
@@ -779,7 +1026,7 @@ describe("GovernanceService", () => {
       expect(mockIssues.transition).toHaveBeenCalledWith(testRef, {
         removeLabel: LABELS.EXTENDED_VOTING,
         addLabel: LABELS.INCONCLUSIVE,
-        comment: MESSAGES.votingEndInconclusiveFinal(votes),
+        comment: expect.stringContaining(MESSAGES.votingEndInconclusiveFinal(votes)),
         close: true,
         closeReason: "not_planned",
         lock: true,
@@ -825,7 +1072,7 @@ describe("GovernanceService", () => {
       expect(mockIssues.transition).toHaveBeenCalledWith(testRef, {
         removeLabel: LABELS.EXTENDED_VOTING,
         addLabel: LABELS.NEEDS_HUMAN,
-        comment: MESSAGES.votingEndInconclusiveResolved(votes, "needs-human-input"),
+        comment: expect.stringContaining(MESSAGES.votingEndInconclusiveResolved(votes, "needs-human-input")),
         close: false,
         lock: false,
       });
@@ -841,7 +1088,7 @@ describe("GovernanceService", () => {
       expect(mockIssues.transition).toHaveBeenCalledWith(testRef, {
         removeLabel: LABELS.EXTENDED_VOTING,
         addLabel: LABELS.DISCUSSION,
-        comment: MESSAGES.votingEndNeedsMoreDiscussion(votes),
+        comment: expect.stringContaining(MESSAGES.votingEndNeedsMoreDiscussion(votes)),
         close: false,
         lock: false,
         unlock: true,
@@ -854,7 +1101,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 1, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["alice"],
-          participants: ["alice"],
+          participants: ["alice"], ballots: [],
         },
       });
 
@@ -871,7 +1118,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 3, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["agent-a", "agent-c", "agent-d"],
-          participants: ["agent-a", "agent-c", "agent-d"],
+          participants: ["agent-a", "agent-c", "agent-d"], ballots: [],
         },
       });
 
@@ -889,7 +1136,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 3, thumbsDown: 1, confused: 0, eyes: 0 },
           voters: ["agent-a", "agent-b", "agent-c", "agent-d"],
-          participants: ["agent-a", "agent-b", "agent-c", "agent-d"],
+          participants: ["agent-a", "agent-b", "agent-c", "agent-d"], ballots: [],
         },
       });
 
@@ -901,7 +1148,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 1, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["alice"],
-          participants: ["alice"],
+          participants: ["alice"], ballots: [],
         },
       });
 
@@ -916,7 +1163,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 3, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["agent-a", "agent-c", "agent-d"],
-          participants: ["agent-a", "agent-c", "agent-d"],
+          participants: ["agent-a", "agent-c", "agent-d"], ballots: [],
         },
       });
 
@@ -929,7 +1176,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 3, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["agent-c", "agent-d", "agent-e"],
-          participants: ["agent-c", "agent-d", "agent-e"],
+          participants: ["agent-c", "agent-d", "agent-e"], ballots: [],
         },
       });
 
@@ -947,7 +1194,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 1, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["alice"],
-          participants: ["alice"],
+          participants: ["alice"], ballots: [],
         },
       });
 
@@ -962,7 +1209,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 3, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["agent-a", "x", "y"],
-          participants: ["agent-a", "x", "y"],
+          participants: ["agent-a", "x", "y"], ballots: [],
         },
       });
 
@@ -979,7 +1226,7 @@ describe("GovernanceService", () => {
         validatedVotes: {
           votes: { thumbsUp: 3, thumbsDown: 0, confused: 0, eyes: 0 },
           voters: ["x", "y", "z"],
-          participants: ["x", "y", "z"],
+          participants: ["x", "y", "z"], ballots: [],
         },
       });
 
@@ -994,7 +1241,7 @@ describe("GovernanceService", () => {
     it("should say 'quorum reached' when minCount is 0 even with voters listed", async () => {
       const votes: VoteCounts = { thumbsUp: 3, thumbsDown: 0, confused: 0, eyes: 0 };
       vi.mocked(mockIssues.getValidatedVoteCounts).mockResolvedValue({
-        votes, voters: ["a", "b", "c"], participants: ["a", "b", "c"],
+        votes, voters: ["a", "b", "c"], participants: ["a", "b", "c"], ballots: [],
       });
 
       await governance.endVoting(testRef, {
@@ -1033,6 +1280,13 @@ describe("isUnanimous", () => {
   it("should return false when no votes", () => {
     expect(isUnanimous({ thumbsUp: 0, thumbsDown: 0, confused: 0, eyes: 0 })).toBe(false);
   });
+
+  it("should ignore zero-weight dissent when weighted tally is present", () => {
+    expect(isUnanimous({
+      thumbsUp: 3, thumbsDown: 1, confused: 0, eyes: 0,
+      weighted: { thumbsUp: 3, thumbsDown: 0, confused: 0, eyes: 0 },
+    })).toBe(true);
+  });
 });
 
 describe("isDecisive", () => {
@@ -1063,6 +1317,25 @@ describe("isDecisive", () => {
   it("should return false when tied with non-majority confused", () => {
     expect(isDecisive({ thumbsUp: 3, thumbsDown: 3, confused: 2, eyes: 0 })).toBe(false);
   });
+
+  it("should require the approval ratio when given", () => {
+    // 3/5 = 60% < 66%: a 👍 lead below the threshold is not decisive
+    expect(isDecisive({ thumbsUp: 3, thumbsDown: 2, confused: 0, eyes: 0 }, 0.66)).toBe(false);
+    expect(isDecisive({ thumbsUp: 4, thumbsDown: 2, confused: 0, eyes: 0 }, 0.66)).toBe(true);
+    // 👎 majority stays decisive (rejection)
+    expect(isDecisive({ thumbsUp: 1, thumbsDown: 2, confused: 0, eyes: 0 }, 0.66)).toBe(true);
+  });
+
+  it("should use the weighted tally when present", () => {
+    expect(isDecisive({
+      thumbsUp: 2, thumbsDown: 2, confused: 0, eyes: 0,
+      weighted: { thumbsUp: 4, thumbsDown: 2, confused: 0, eyes: 0 },
+    })).toBe(true);
+    expect(isDecisive({
+      thumbsUp: 3, thumbsDown: 1, confused: 0, eyes: 0,
+      weighted: { thumbsUp: 3, thumbsDown: 3, confused: 0, eyes: 0 },
+    })).toBe(false);
+  });
 });
 
 describe("GovernanceService voting cycle tracking", () => {
@@ -1080,7 +1353,7 @@ describe("GovernanceService voting cycle tracking", () => {
       unlock: vi.fn().mockResolvedValue(undefined),
       getVoteCounts: vi.fn().mockResolvedValue({ thumbsUp: 0, thumbsDown: 0, confused: 0, eyes: 0 }),
       findVotingCommentId: vi.fn().mockResolvedValue(12345),
-      getValidatedVoteCounts: vi.fn().mockResolvedValue({ votes: { thumbsUp: 0, thumbsDown: 0, confused: 0, eyes: 0 }, voters: [], participants: [] }),
+      getValidatedVoteCounts: vi.fn().mockResolvedValue({ votes: { thumbsUp: 0, thumbsDown: 0, confused: 0, eyes: 0 }, voters: [], participants: [], ballots: [] }),
       countVotingComments: vi.fn().mockResolvedValue(0),
       hasHumanHelpComment: vi.fn().mockResolvedValue(false),
       getLabelAddedTime: vi.fn().mockResolvedValue(new Date()),
@@ -1290,13 +1563,127 @@ describe("isExitEligible", () => {
     expect(isExitEligible(exit, {
       votes: { thumbsUp: 3, thumbsDown: 0, confused: 0, eyes: 0 },
       voters: ["agent-a", "x", "y"],
-      participants: ["agent-a", "x", "y"],
+      participants: ["agent-a", "x", "y"], ballots: [],
     })).toBe(false);
     // 2 of 3 participated → passes
     expect(isExitEligible(exit, {
       votes: { thumbsUp: 3, thumbsDown: 0, confused: 0, eyes: 0 },
       voters: ["agent-a", "agent-b", "x"],
-      participants: ["agent-a", "agent-b", "x"],
+      participants: ["agent-a", "agent-b", "x"], ballots: [],
+    })).toBe(true);
+  });
+
+  it("should be eligible immediately when a veto voter casts 👎", () => {
+    const exit: VotingExit = {
+      ...baseExit,
+      minVoters: 5,
+      veto: { voters: ["guard"], outcome: "rejected" },
+    };
+    expect(isExitEligible(exit, {
+      votes: { thumbsUp: 1, thumbsDown: 1, confused: 0, eyes: 0 },
+      voters: ["alice", "guard"],
+      participants: ["alice", "guard"], ballots: [],
+      thumbsDownVoters: ["guard"],
     })).toBe(true);
+    // Non-veto 👎 does not bypass quorum
+    expect(isExitEligible(exit, {
+      votes: { thumbsUp: 1, thumbsDown: 1, confused: 0, eyes: 0 },
+      voters: ["alice", "bob"],
+      participants: ["alice", "bob"], ballots: [],
+      thumbsDownVoters: ["bob"],
+    })).toBe(false);
+  });
+
+  it("should honour a ratio requirement", () => {
+    const exit: VotingExit = { ...baseExit, requires: { ratio: 0.75 } };
+    const validated = (thumbsUp: number, thumbsDown: number) => ({
+      votes: { thumbsUp, thumbsDown, confused: 0, eyes: 0 },
+      voters: [],
+      participants: [], ballots: [],
+      thumbsDownVoters: [],
+    });
+    expect(isExitEligible(exit, validated(2, 1))).toBe(false);
+    expect(isExitEligible(exit, validated(3, 1))).toBe(true);
+  });
+});
+
+describe("getRatioThreshold", () => {
+  it("should compute needed approvals and shortfall", () => {
+    expect(getRatioThreshold({ thumbsUp: 4, thumbsDown: 3, confused: 1, eyes: 0 }, 0.66)).toEqual({
+      ratio: 0.66, approvals: 4, decisive: 7, needed: 5, missedBy: 2,
+    });
+  });
+
+  it("should count the decisive votes each extra approval adds", () => {
+    // 9 of 12 reaches 75%; 8 of 11 does not
+    expect(getRatioThreshold({ thumbsUp: 1, thumbsDown: 3, confused: 0, eyes: 0 }, 0.75)).toMatchObject({
+      needed: 3, missedBy: 8,
+    });
+  });
+
+  it("should not let a tie meet a 0.5 ratio", () => {
+    expect(getRatioThreshold({ thumbsUp: 2, thumbsDown: 2, confused: 0, eyes: 0 }, 0.5)).toMatchObject({
+      needed: 3, missedBy: 1,
+    });
+  });
+
+  it("should report a unanimous ratio as unreachable while any 👎 remain", () => {
+    expect(getRatioThreshold({ thumbsUp: 5, thumbsDown: 1, confused: 0, eyes: 0 }, 1).missedBy).toBeNull();
+    expect(getRatioThreshold({ thumbsUp: 5, thumbsDown: 0, confused: 0, eyes: 0 }, 1).missedBy).toBe(0);
+  });
+
+  it("should treat an exact two-thirds share as meeting 2/3", () => {
+    expect(getRatioThreshold({ thumbsUp: 2, thumbsDown: 1, confused: 0, eyes: 0 }, 2 / 3).missedBy).toBe(0);
+  });
+
+  it("should need at least one approval when there are no votes", () => {
+    expect(getRatioThreshold({ thumbsUp: 0, thumbsDown: 0, confused: 0, eyes: 0 }, 0.66)).toMatchObject({
+      needed: 1, missedBy: 1,
+    });
+  });
+
+  it("should use the weighted tally when present", () => {
+    expect(getRatioThreshold({
+      thumbsUp: 1, thumbsDown: 1, confused: 0, eyes: 0,
+      weighted: { thumbsUp: 3, thumbsDown: 1, confused: 0, eyes: 0 },
+    }, 0.75).missedBy).toBe(0);
+  });
+});
+
+describe("buildVoteAudit", () => {
+  it("should list ballots in order, then required voters who did not react", () => {
+    const validated: ValidatedVoteResult = {
+      votes: { thumbsUp: 1, thumbsDown: 0, confused: 0, eyes: 0 },
+      voters: ["alice"],
+      participants: ["alice", "bob"],
+      thumbsDownVoters: [],
+      ballots: [
+        { user: "alice", reactions: ["+1"] },
+        { user: "bob", reactions: ["confused", "eyes"] },
+      ],
+    };
+
+    expect(buildVoteAudit(validated, {
+      votingConfig: { minVoters: 0, requiredVoters: { minCount: 1, voters: ["bob", "carol"] } },
+    })).toEqual([
+      { user: "alice", reactions: ["+1"], status: "counted" },
+      { user: "bob", reactions: ["confused", "eyes"], status: "discarded" },
+      { user: "carol", reactions: [], status: "missing" },
+    ]);
+    expect(buildVoteAudit(validated)).toHaveLength(2);
+  });
+});
+
+describe("getVetoingVoters", () => {
+  it("should return veto voters with a valid 👎 in configured order", () => {
+    expect(getVetoingVoters(
+      { voters: ["guard", "nurse", "scout"], outcome: "rejected" },
+      {
+        votes: { thumbsUp: 1, thumbsDown: 2, confused: 0, eyes: 0 },
+        voters: ["scout", "alice", "guard"],
+        participants: ["scout", "alice", "guard"], ballots: [],
+        thumbsDownVoters: ["scout", "guard"],
+      },
+    )).toEqual(["guard", "scout"]);
   });
 });
@@ -14,6 +14,7 @@ import {
   buildVotingComment,
   buildDiscussionComment,
   buildHumanHelpComment,
+  buildStatusComment,
   SIGNATURES,
   ERROR_CODES,
 } from "./bot-comments.js";
@@ -26,11 +27,17 @@ import type {
   VotingAutoExit,
   ExitRequires,
   DiscussionAutoExit,
+  VetoConfig,
+  VoteWeights,
 } from "./repo-config.js";
+import { isRatioRequirement } from "./repo-config.js";
 import type {
   IssueRef,
   VoteCounts,
+  VoteTally,
+  RatioThreshold,
   ValidatedVoteResult,
+  VoteAuditEntry,
   VotingOutcome,
   LockReason,
 } from "./types.js";
@@ -50,17 +57,20 @@ export interface GovernanceServiceConfig {
 export interface EndVotingOptions {
   /** When true, prepend early decision messaging to the outcome comment */
   earlyDecision?: boolean;
-  /** Voting config for requiredVoters/minVoters/requires enforcement */
+  /** Voting config for requiredVoters/minVoters/requires/veto enforcement */
   votingConfig?: {
     minVoters: number;
     requiredVoters: RequiredVotersConfig;
     requires?: ExitRequires;
+    veto?: VetoConfig;
   };
   /**
    * Pre-fetched validated vote data (avoids redundant API call when caller already has it).
    * Treated as the snapshot for this evaluation and may be slightly stale if reactions change.
    */
   validatedVotes?: ValidatedVoteResult;
+  /** Per-voter weights applied when fetching votes (ignored when validatedVotes is provided) */
+  weights?: VoteWeights;
 }
 
 type VotingRequirementsEnforcement =
@@ -136,9 +146,18 @@ export class GovernanceService {
    *
    * Wraps the welcome message with metadata to enable future comment discovery.
    * Defaults to the voting-mode welcome text unless a caller provides an override.
+   * When `expectedRoles` is non-empty, the welcome lists the team roles
+   * expected to weigh in (inserted above the signature).
    */
-  async startDiscussion(ref: IssueRef, welcomeMessage = MESSAGES.ISSUE_WELCOME_VOTING): Promise<void> {
-    const commentBody = buildDiscussionComment(welcomeMessage, ref.issueNumber);
+  async startDiscussion(
+    ref: IssueRef,
+    welcomeMessage = MESSAGES.ISSUE_WELCOME_VOTING,
+    expectedRoles: Array<{ name: string; description: string }> = [],
+  ): Promise<void> {
+    const message = expectedRoles.length > 0
+      ? insertBeforeSignature(welcomeMessage, MESSAGES.welcomeExpectedRoles(expectedRoles))
+      : welcomeMessage;
+    const commentBody = buildDiscussionComment(message, ref.issueNumber);
     await Promise.all([
       this.issues.addLabels(ref, [LABELS.DISCUSSION]),
       this.issues.comment(ref, commentBody),
@@ -156,9 +175,11 @@ export class GovernanceService {
    *
    * Appends hidden metadata to track the voting cycle number, enabling
    * correct vote counting when issues return from needs-more-discussion.
+   * When `profileName` is given, the comment names the governance profile
+   * that applies to the issue.
    */
-  async transitionToVoting(ref: IssueRef): Promise<void> {
-    const commentBody = await this.buildVotingCommentBody(ref);
+  async transitionToVoting(ref: IssueRef, profileName?: string): Promise<void> {
+    const commentBody = await this.buildVotingCommentBody(ref, profileName);
 
     await this.issues.transition(ref, {
       removeLabel: LABELS.DISCUSSION,
@@ -191,10 +212,13 @@ export class GovernanceService {
    * Build the complete voting comment body with metadata.
    * Includes an LLM-generated discussion summary when available.
    */
-  private async buildVotingCommentBody(ref: IssueRef): Promise<string> {
+  private async buildVotingCommentBody(ref: IssueRef, profileName?: string): Promise<string> {
     const cycle = await this.calculateVotingCycle(ref);
     const votingMessage = await this.generateVotingMessage(ref);
-    return buildVotingComment(votingMessage, ref.issueNumber, cycle);
+    const message = profileName
+      ? insertBeforeSignature(votingMessage, MESSAGES.votingProfile(profileName))
+      : votingMessage;
+    return buildVotingComment(message, ref.issueNumber, cycle);
   }
 
   /**
@@ -287,7 +311,9 @@ export class GovernanceService {
    *
    * @param options.earlyDecision - When true, prepend early decision note to outcome message
    * @param options.votingConfig - When provided, enforce requiredVoters/minVoters (missing → inconclusive)
+   *   and veto (a veto voter's 👎 forces the configured veto outcome)
    * @param options.validatedVotes - Pre-fetched validated votes (avoids redundant API call)
+   * @param options.weights - Per-voter weights; the weighted tally decides the outcome
    */
   async endVoting(ref: IssueRef, options?: EndVotingOptions): Promise<VotingOutcome> {
     const commentId = await this.issues.findVotingCommentId(ref);
@@ -299,24 +325,35 @@ export class GovernanceService {
 
     // Use pre-fetched data or fetch with multi-reaction discard
     const validated = options?.validatedVotes
-      ?? await this.issues.getValidatedVoteCounts(ref, commentId);
+      ?? await this.issues.getValidatedVoteCounts(ref, commentId, options?.weights);
+
+    // A veto 👎 overrides requirements and the tally
+    const veto = options?.votingConfig?.veto;
+    const vetoedBy = veto ? getVetoingVoters(veto, validated) : [];
 
     // Enforce requiredVoters/minVoters if config provided
-    const enforcement = this.enforceVotingRequirements(ref, validated, options);
+    const enforcement = vetoedBy.length > 0
+      ? null
+      : this.enforceVotingRequirements(ref, validated, options);
     let outcome: Exclude<VotingOutcome, "skipped">;
 
-    if (enforcement) {
+    if (veto && vetoedBy.length > 0) {
+      outcome = veto.outcome;
+    } else if (enforcement) {
       outcome = "inconclusive";
     } else if (options?.votingConfig?.requires === "unanimous" && !isUnanimous(validated.votes)) {
       // Unanimous required but votes are not unanimous → inconclusive
       outcome = "inconclusive";
     } else {
-      outcome = this.determineOutcome(validated.votes);
+      outcome = this.determineOutcome(validated.votes, options?.votingConfig?.requires);
     }
 
-    const earlyPrefix = options?.earlyDecision && !enforcement && outcome !== "inconclusive"
-      ? `**Early decision** — ${earlyDecisionReason(options.votingConfig)}.\n\n`
-      : "";
+    let outcomePrefix = "";
+    if (vetoedBy.length > 0) {
+      outcomePrefix = MESSAGES.votingVetoed(vetoedBy);
+    } else if (options?.earlyDecision && !enforcement && outcome !== "inconclusive") {
+      outcomePrefix = `**Early decision** — ${earlyDecisionReason(options.votingConfig)}.\n\n`;
+    }
 
     const inconclusiveMessage = enforcement
       ? MESSAGES.votingEndRequirementsNotMet({
@@ -328,7 +365,7 @@ export class GovernanceService {
           requiredVotersParticipated: enforcement.requiredVotersParticipated,
           final: false,
         })
-      : MESSAGES.votingEndInconclusive(validated.votes);
+      : MESSAGES.votingEndInconclusive(validated.votes, this.ratioShortfall(validated.votes, options));
 
     // Type excludes "skipped" since determineOutcome() never returns it
     const outcomeConfig: Record<
@@ -337,39 +374,39 @@ export class GovernanceService {
     > = {
       "ready-to-implement": {
         label: LABELS.READY_TO_IMPLEMENT,
-        message: earlyPrefix + MESSAGES.votingEndReadyToImplement(validated.votes),
+        message: outcomePrefix + MESSAGES.votingEndReadyToImplement(validated.votes),
         close: false,
         // Keep unlocked so the bot can post/update additional (such as leaderboard) comments on the issue.
         lock: false,
       },
       rejected: {
         label: LABELS.REJECTED,
-        message: earlyPrefix + MESSAGES.votingEndRejected(validated.votes),
+        message: outcomePrefix + MESSAGES.votingEndRejected(validated.votes),
         close: true,
         lock: true,
       },
       inconclusive: {
         label: LABELS.EXTENDED_VOTING,
-        message: earlyPrefix + inconclusiveMessage,
+        message: outcomePrefix + inconclusiveMessage,
         close: false,
         lock: false,
       },
       "needs-more-discussion": {
         label: LABELS.DISCUSSION,
-        message: earlyPrefix + MESSAGES.votingEndNeedsMoreDiscussion(validated.votes),
+        message: outcomePrefix + MESSAGES.votingEndNeedsMoreDiscussion(validated.votes),
         close: false,
         lock: false,
         unlock: true,
       },
       "needs-human-input": {
         label: LABELS.NEEDS_HUMAN,
-        message: earlyPrefix + MESSAGES.votingEndNeedsHumanInput(validated.votes),
+        message: outcomePrefix + MESSAGES.votingEndNeedsHumanInput(validated.votes),
         close: false,
         lock: false,
       },
     };
 
-    const config = outcomeConfig[outcome];
+    const config = this.withVoteAudit(ref, outcomeConfig[outcome], outcome, buildVoteAudit(validated, options));
 
     await this.applyTransition(ref, LABELS.VOTING, config);
 
@@ -390,7 +427,9 @@ export class GovernanceService {
    * fails. Returns "skipped" in either case.
    *
    * @param options.votingConfig - When provided, enforce requiredVoters/minVoters (missing → inconclusive)
+   *   and veto (a veto voter's 👎 forces the configured veto outcome)
    * @param options.validatedVotes - Pre-fetched validated votes (avoids redundant API call)
+   * @param options.weights - Per-voter weights; the weighted tally decides the outcome
    */
   async resolveInconclusive(ref: IssueRef, options?: EndVotingOptions): Promise<VotingOutcome> {
     const commentId = await this.issues.findVotingCommentId(ref);
@@ -401,19 +440,25 @@ export class GovernanceService {
     }
 
     const validated = options?.validatedVotes
-      ?? await this.issues.getValidatedVoteCounts(ref, commentId);
-
-    // Enforce requiredVoters/minVoters/requires — same rules as endVoting
-    const enforcement = this.enforceVotingRequirements(ref, validated, options);
+      ?? await this.issues.getValidatedVoteCounts(ref, commentId, options?.weights);
+
+    // Veto and requiredVoters/minVoters/requires — same rules as endVoting
+    const veto = options?.votingConfig?.veto;
+    const vetoedBy = veto ? getVetoingVoters(veto, validated) : [];
+    const enforcement = vetoedBy.length > 0
+      ? null
+      : this.enforceVotingRequirements(ref, validated, options);
     let outcome: Exclude<VotingOutcome, "skipped">;
 
-    if (enforcement) {
+    if (veto && vetoedBy.length > 0) {
+      outcome = veto.outcome;
+    } else if (enforcement) {
       outcome = "inconclusive";
     } else if (options?.votingConfig?.requires === "unanimous" && !isUnanimous(validated.votes)) {
       // Unanimous required but votes are not unanimous → inconclusive
       outcome = "inconclusive";
     } else {
-      outcome = this.determineOutcome(validated.votes);
+      outcome = this.determineOutcome(validated.votes, options?.votingConfig?.requires);
     }
 
     const inconclusiveMessage = enforcement
@@ -426,7 +471,8 @@ export class GovernanceService {
           requiredVotersParticipated: enforcement.requiredVotersParticipated,
           final: true,
         })
-      : MESSAGES.votingEndInconclusiveFinal(validated.votes);
+      : MESSAGES.votingEndInconclusiveFinal(validated.votes, this.ratioShortfall(validated.votes, options));
+    const vetoPrefix = vetoedBy.length > 0 ? MESSAGES.votingVetoed(vetoedBy) : "";
 
     // Configuration for each possible outcome after extended voting
     // Type excludes "skipped" since determineOutcome() never returns it
@@ -446,7 +492,7 @@ export class GovernanceService {
       },
       rejected: {
         label: LABELS.REJECTED,
-        message: MESSAGES.votingEndInconclusiveResolved(validated.votes, "rejected"),
+        message: vetoPrefix + MESSAGES.votingEndInconclusiveResolved(validated.votes, "rejected"),
         close: true,
         lock: true,
       },
@@ -465,19 +511,35 @@ export class GovernanceService {
       },
       "needs-human-input": {
         label: LABELS.NEEDS_HUMAN,
-        message: MESSAGES.votingEndInconclusiveResolved(validated.votes, "needs-human-input"),
+        message: vetoPrefix + MESSAGES.votingEndInconclusiveResolved(validated.votes, "needs-human-input"),
         close: false,
         lock: false,
       },
     };
 
-    const config = outcomeConfig[outcome];
+    const config = this.withVoteAudit(ref, outcomeConfig[outcome], outcome, buildVoteAudit(validated, options));
 
     await this.applyTransition(ref, LABELS.EXTENDED_VOTING, config);
 
     return outcome;
   }
 
+  /**
+   * Attach the vote audit trail to an outcome comment: a collapsible table
+   * above the signature, and the same entries in the status metadata tag.
+   */
+  private withVoteAudit(
+    ref: IssueRef,
+    config: OutcomeTransitionConfig,
+    outcome: Exclude<VotingOutcome, "skipped">,
+    audit: VoteAuditEntry[],
+  ): OutcomeTransitionConfig {
+    const message = audit.length > 0
+      ? insertBeforeSignature(config.message, MESSAGES.voteAuditTable(audit))
+      : config.message;
+    return { ...config, message: buildStatusComment(message, ref.issueNumber, { outcome, audit }) };
+  }
+
   /**
    * Apply a transition with the given configuration.
    * Centralizes the transition options construction to reduce duplication.
@@ -630,6 +692,15 @@ export class GovernanceService {
     return null;
   }
 
+  /**
+   * Ratio threshold details for the inconclusive message, when the voting
+   * config uses a ratio requirement.
+   */
+  private ratioShortfall(votes: VoteCounts, options?: EndVotingOptions): RatioThreshold | undefined {
+    const requires = options?.votingConfig?.requires;
+    return isRatioRequirement(requires) ? getRatioThreshold(votes, requires.ratio) : undefined;
+  }
+
   /**
    * Determine voting outcome based on reaction counts.
    *
@@ -640,12 +711,19 @@ export class GovernanceService {
    * 4. rejected: 👎 > 👍
    * 5. inconclusive: 👍 = 👎 (triggers extended voting)
    *
+   * With a ratio requirement, steps 3–5 become: ready when 👍 / (👍 + 👎)
+   * reaches the ratio, rejected when 👎 > 👍, otherwise inconclusive.
+   *
+   * Comparisons use the weighted tally when per-voter weights are configured.
+   *
    * Note: "skipped" is never returned here - it's only used when the voting
    * comment is missing (handled before this method is called).
    */
   private determineOutcome(
-    votes: VoteCounts,
+    counts: VoteCounts,
+    requires?: ExitRequires,
   ): Exclude<VotingOutcome, "skipped"> {
+    const votes = decidingTally(counts);
     // Check for eyes majority first - hive wants human input
     if (votes.eyes > votes.thumbsUp + votes.thumbsDown + votes.confused) {
       return "needs-human-input";
@@ -654,6 +732,13 @@ export class GovernanceService {
     if (votes.confused > votes.thumbsUp + votes.thumbsDown) {
       return "needs-more-discussion";
     }
+    if (isRatioRequirement(requires)) {
+      if (getRatioThreshold(counts, requires.ratio).missedBy === 0) {
+        return "ready-to-implement";
+      }
+      // Below the threshold: rejected only when 👎 outnumber 👍
+      return votes.thumbsDown > votes.thumbsUp ? "rejected" : "inconclusive";
+    }
     if (votes.thumbsUp > votes.thumbsDown) {
       return "ready-to-implement";
     }
@@ -668,6 +753,50 @@ export class GovernanceService {
 // Helpers
 // ───────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Build the audit trail for a voting outcome: one entry per participant
+ * (counted, or discarded for multiple reaction types), followed by configured
+ * required voters who did not react.
+ */
+export function buildVoteAudit(
+  validated: ValidatedVoteResult,
+  options?: Pick<EndVotingOptions, "votingConfig">,
+): VoteAuditEntry[] {
+  const entries: VoteAuditEntry[] = validated.ballots.map((ballot) => ({
+    ...ballot,
+    status: ballot.reactions.length === 1 ? "counted" : "discarded",
+  }));
+
+  const participants = new Set(validated.participants);
+  for (const user of options?.votingConfig?.requiredVoters.voters ?? []) {
+    if (!participants.has(user)) {
+      entries.push({ user, reactions: [], status: "missing" });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Insert a section above the trailing signature of a message.
+ * Appends to the end when the message has no signature.
+ */
+function insertBeforeSignature(message: string, section: string): string {
+  if (message.endsWith(SIGNATURE)) {
+    return `${message.slice(0, -SIGNATURE.length)}\n\n${section}${SIGNATURE}`;
+  }
+  return `${message}\n\n${section}`;
+}
+
+/**
+ * Select the tally that decides outcomes: the weighted tally when weights are
+ * configured, otherwise the raw head count. Quorum and required-voter checks
+ * always use head counts.
+ */
+function decidingTally(votes: VoteCounts): VoteTally {
+  return votes.weighted ?? votes;
+}
+
 /**
  * Generate the early decision reason text based on the voting config.
  */
@@ -690,10 +819,40 @@ function earlyDecisionReason(config?: EndVotingOptions["votingConfig"]): string
 
 /**
  * Check if votes are unanimous — exactly one reaction type has votes.
+ * Uses the weighted tally when present, so zero-weight votes never break unanimity.
+ */
+export function isUnanimous(counts: VoteCounts): boolean {
+  const votes = decidingTally(counts);
+  const tallies = [votes.thumbsUp, votes.thumbsDown, votes.confused, votes.eyes];
+  return tallies.filter(c => c > 0).length === 1;
+}
+
+/**
+ * Evaluate an approval ratio threshold: how many 👍 are needed among
+ * decisive (👍 + 👎) votes, and how many more 👍 would meet it.
+ *
+ * 👍 must also outnumber 👎, as under a plain majority: a tie never meets a
+ * ratio (so `ratio: 0.5` behaves like "majority"), and an empty tally needs
+ * at least one 👍.
  */
-export function isUnanimous(votes: VoteCounts): boolean {
-  const counts = [votes.thumbsUp, votes.thumbsDown, votes.confused, votes.eyes];
-  return counts.filter(c => c > 0).length === 1;
+export function getRatioThreshold(counts: VoteCounts, ratio: number): RatioThreshold {
+  const votes = decidingTally(counts);
+  const decisive = votes.thumbsUp + votes.thumbsDown;
+  // Tolerance guards against float error (e.g. 2/3 * 3 = 2.0000000000000004)
+  const needed = Math.max(Math.ceil(ratio * decisive - 1e-9), Math.floor(decisive / 2) + 1);
+
+  // Each extra 👍 also grows the decisive count: the smallest k with
+  // (👍 + k) / (decisive + k) >= ratio and 👍 + k > 👎
+  const forMajority = votes.thumbsUp > votes.thumbsDown ? 0 : Math.floor(votes.thumbsDown - votes.thumbsUp) + 1;
+  let missedBy: number | null;
+  if (ratio >= 1) {
+    missedBy = votes.thumbsDown > 0 ? null : forMajority;
+  } else {
+    const forRatio = Math.max(0, Math.ceil((ratio * decisive - votes.thumbsUp) / (1 - ratio) - 1e-9));
+    missedBy = Math.max(forRatio, forMajority);
+  }
+
+  return { ratio, approvals: votes.thumbsUp, decisive, needed, missedBy };
 }
 
 /**
@@ -703,23 +862,46 @@ export function isUnanimous(votes: VoteCounts): boolean {
  * other than "inconclusive" — i.e., eyes majority, confused majority,
  * thumbsUp wins, or thumbsDown wins. Returns false only for a
  * thumbsUp/thumbsDown tie.
+ *
+ * When `ratio` is given, thumbsUp only wins once the approval ratio is met,
+ * so a 👍 lead below the threshold is not decisive.
  */
-export function isDecisive(votes: VoteCounts): boolean {
+export function isDecisive(counts: VoteCounts, ratio?: number): boolean {
+  const votes = decidingTally(counts);
   if (votes.eyes > votes.thumbsUp + votes.thumbsDown + votes.confused) return true;
   if (votes.confused > votes.thumbsUp + votes.thumbsDown) return true;
+  if (ratio !== undefined) {
+    return getRatioThreshold(counts, ratio).missedBy === 0 || votes.thumbsDown > votes.thumbsUp;
+  }
   return votes.thumbsUp !== votes.thumbsDown;
 }
 
+/**
+ * Get the veto voters who cast a valid 👎, in configured order.
+ */
+export function getVetoingVoters(
+  veto: VetoConfig,
+  validated: ValidatedVoteResult,
+): string[] {
+  const thumbsDown = new Set(validated.thumbsDownVoters);
+  return veto.voters.filter((voter) => thumbsDown.has(voter));
+}
+
 /**
  * Check whether a voting exit is eligible based on validated votes.
  *
- * Applies quorum (minVoters), required voters participation, and
- * requires condition (majority/unanimous).
+ * A veto 👎 makes the exit eligible immediately. Otherwise applies quorum
+ * (minVoters), required voters participation, and requires condition
+ * (majority/unanimous/ratio).
  */
 export function isExitEligible(
   exit: VotingAutoExit,
   validated: ValidatedVoteResult,
 ): boolean {
+  if (exit.veto && getVetoingVoters(exit.veto, validated).length > 0) {
+    return true;
+  }
+
   if (validated.voters.length < exit.minVoters) {
     return false;
   }
@@ -736,7 +918,10 @@ export function isExitEligible(
   if (exit.requires === "unanimous") {
     return isUnanimous(validated.votes);
   }
-  return isDecisive(validated.votes);
+  return isDecisive(
+    validated.votes,
+    isRatioRequirement(exit.requires) ? exit.requires.ratio : undefined,
+  );
 }
 
 /**
@@ -3,6 +3,8 @@ import {
   getLinkedIssues,
   getPRBodyLastEditedAt,
   getOpenPRsForIssue,
+  getPRMergeQueueState,
+  enqueuePullRequest,
   type GraphQLClient,
 } from "./graphql-queries.js";
 import { logger } from "./logger.js";
@@ -13,6 +15,7 @@ import { logger } from "./logger.js";
  * These tests verify the PR-issue linking queries:
  * - getLinkedIssues: Issues that will be closed when a PR merges
  * - getOpenPRsForIssue: Open PRs referencing an issue (reverse lookup)
+ * - getPRMergeQueueState / enqueuePullRequest: merge queue support for /merge
  */
 
 describe("getLinkedIssues", () => {
@@ -1510,3 +1513,55 @@ describe("getOpenPRsForIssue", () => {
     expect(linkedIssuesCalls).toHaveLength(2);
   });
 });
+
+describe("merge queue", () => {
+  let mockClient: GraphQLClient;
+
+  beforeEach(() => {
+    mockClient = {
+      graphql: vi.fn(),
+    };
+  });
+
+  it("should map the PR's merge queue state", async () => {
+    vi.mocked(mockClient.graphql).mockResolvedValue({
+      repository: {
+        pullRequest: { id: "PR_node", isMergeQueueEnabled: true, isInMergeQueue: false },
+      },
+    });
+
+    const result = await getPRMergeQueueState(mockClient, "owner", "repo", 42);
+
+    expect(result).toEqual({ pullRequestId: "PR_node", enabled: true, queued: false });
+    expect(mockClient.graphql).toHaveBeenCalledWith(
+      expect.stringContaining("isMergeQueueEnabled"),
+      { owner: "owner", repo: "repo", pr: 42 },
+    );
+  });
+
+  it("should return null when the PR is not found", async () => {
+    vi.mocked(mockClient.graphql).mockResolvedValue({ repository: { pullRequest: null } });
+
+    expect(await getPRMergeQueueState(mockClient, "owner", "repo", 9999)).toBeNull();
+  });
+
+  it("should enqueue with the expected head and return the position", async () => {
+    vi.mocked(mockClient.graphql).mockResolvedValue({
+      enqueuePullRequest: { mergeQueueEntry: { position: 3 } },
+    });
+
+    const position = await enqueuePullRequest(mockClient, "PR_node", "abc123");
+
+    expect(position).toBe(3);
+    expect(mockClient.graphql).toHaveBeenCalledWith(
+      expect.stringContaining("enqueuePullRequest"),
+      { pullRequestId: "PR_node", expectedHeadOid: "abc123" },
+    );
+  });
+
+  it("should return null when GitHub reports no queue entry", async () => {
+    vi.mocked(mockClient.graphql).mockResolvedValue({ enqueuePullRequest: { mergeQueueEntry: null } });
+
+    expect(await enqueuePullRequest(mockClient, "PR_node", "abc123")).toBeNull();
+  });
+});
@@ -403,3 +403,104 @@ async function getCrossReferencedOpenPRs(
 
   return Array.from(prMap.values());
 }
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Merge queue: state lookup and enqueue mutation
+// ───────────────────────────────────────────────────────────────────────────────
+
+const GET_PR_MERGE_QUEUE_STATE_QUERY = `
+  query getPRMergeQueueState($owner: String!, $repo: String!, $pr: Int!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $pr) {
+        id
+        isMergeQueueEnabled
+        isInMergeQueue
+      }
+    }
+  }
+`;
+
+interface PRMergeQueueStateResponse {
+  repository: {
+    pullRequest: {
+      id: string;
+      isMergeQueueEnabled: boolean;
+      isInMergeQueue: boolean;
+    } | null;
+  };
+}
+
+/**
+ * Merge queue state of a PR's base branch.
+ */
+export interface PRMergeQueueState {
+  /** GraphQL node ID, needed by enqueuePullRequest */
+  pullRequestId: string;
+  /** Whether the base branch requires merging through a merge queue */
+  enabled: boolean;
+  /** Whether the PR is already queued */
+  queued: boolean;
+}
+
+/**
+ * Get whether a PR's base branch uses a merge queue, and whether the PR is in it.
+ * Returns null when the PR can't be resolved.
+ */
+export async function getPRMergeQueueState(
+  client: GraphQLClient,
+  owner: string,
+  repo: string,
+  prNumber: number
+): Promise<PRMergeQueueState | null> {
+  const response = await client.graphql<PRMergeQueueStateResponse>(
+    GET_PR_MERGE_QUEUE_STATE_QUERY,
+    { owner, repo, pr: prNumber }
+  );
+
+  const pr = response.repository.pullRequest;
+  if (!pr) return null;
+
+  return {
+    pullRequestId: pr.id,
+    enabled: pr.isMergeQueueEnabled,
+    queued: pr.isInMergeQueue,
+  };
+}
+
+const ENQUEUE_PULL_REQUEST_MUTATION = `
+  mutation enqueuePullRequest($pullRequestId: ID!, $expectedHeadOid: GitObjectID) {
+    enqueuePullRequest(input: { pullRequestId: $pullRequestId, expectedHeadOid: $expectedHeadOid }) {
+      mergeQueueEntry {
+        position
+      }
+    }
+  }
+`;
+
+interface EnqueuePullRequestResponse {
+  enqueuePullRequest: {
+    mergeQueueEntry: {
+      position: number;
+    } | null;
+  } | null;
+}
+
+/**
+ * Add a PR to its base branch's merge queue.
+ *
+ * `expectedHeadOid` makes GitHub refuse the entry if the head moved since
+ * the caller's checks ran. Returns the queue position, or null if GitHub
+ * didn't report one.
+ */
+export async function enqueuePullRequest(
+  client: GraphQLClient,
+  pullRequestId: string,
+  expectedHeadOid: string
+): Promise<number | null> {
+  const response = await client.graphql<EnqueuePullRequestResponse>(
+    ENQUEUE_PULL_REQUEST_MUTATION,
+    { pullRequestId, expectedHeadOid }
+  );
+
+  return response.enqueuePullRequest?.mergeQueueEntry?.position ?? null;
+}
@@ -41,6 +41,7 @@ describe("Implementation Intake", () => {
             updated_at: "2026-02-02T00:00:00Z",
             user: { login: "agent" },
             head: { sha: "abc123" },
+            base: { ref: "main" },
           },
         }),
         update: vi.fn().mockResolvedValue({}),
@@ -621,6 +622,7 @@ describe("Intake Methods", () => {
             updated_at: "2026-02-02T00:00:00Z",
             user: { login: "agent" },
             head: { sha: "abc123" },
+            base: { ref: "main" },
           },
         }),
         update: vi.fn().mockResolvedValue({}),
@@ -1046,6 +1048,7 @@ describe("Leaderboard race condition fix", () => {
             updated_at: "2026-02-02T00:00:00Z",
             user: { login: "agent" },
             head: { sha: "abc123" },
+            base: { ref: "main" },
           },
         }),
         update: vi.fn().mockResolvedValue({}),
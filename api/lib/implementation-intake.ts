@@ -414,6 +414,28 @@ export async function processImplementationIntake(params: {
   }
 }
 
+/**
+ * Compute current leaderboard scores for a ready issue: the approval count
+ * of each active implementation PR linked to it (unranked).
+ */
+export async function getLeaderboardScores(
+  octokit: LeaderboardRecalcClient,
+  appId: number,
+  owner: string,
+  repo: string,
+  issueNumber: number
+): Promise<PRWithApprovals[]> {
+  const prs = createPROperations(octokit, { appId });
+  const prsByIssue = await getImplementationPRsByIssue({
+    octokit,
+    prs,
+    owner,
+    repo,
+    issueNumbers: [issueNumber],
+  });
+  return fetchApprovalScores(prs, prsByIssue.get(issueNumber) ?? [], owner, repo);
+}
+
 /**
  * Recalculate leaderboard for all linked issues of a PR.
  * Called when approval counts change (new approval, dismissal) or PR is closed.
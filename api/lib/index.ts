@@ -10,7 +10,12 @@ export type {
   Repository,
   IssueRef,
   VoteCounts,
+  VoteTally,
+  RatioThreshold,
   ValidatedVoteResult,
+  VoteReaction,
+  VoteBallot,
+  VoteAuditEntry,
   VotingOutcome,
   TimelineEvent,
   LockReason,
@@ -49,6 +54,9 @@ export {
   isExitEligible,
   isDiscussionExitEligible,
   isUnanimous,
+  getVetoingVoters,
+  getRatioThreshold,
+  buildVoteAudit,
 } from "./governance.js";
 export type { GovernanceServiceConfig, EndVotingOptions } from "./governance.js";
 
@@ -71,12 +79,30 @@ export type {
   PreflightSeverity,
 } from "./merge-readiness.js";
 
+// Merge flow & auto-merge
+export { mergePullRequest } from "./pr-merge.js";
+export type { MergeClient, MergeFlowLogger, MergePullRequestParams, MergePullRequestResult } from "./pr-merge.js";
+export { processAutoMerge, cancelAutoMerge } from "./auto-merge.js";
+export type { AutoMergeParams, AutoMergeResult, CancelAutoMergeResult } from "./auto-merge.js";
+
 // Repository label bootstrap
 export { RepositoryLabelService, createRepositoryLabelService } from "./repository-labels.js";
 export type { RepositoryLabelClient, EnsureLabelsResult } from "./repository-labels.js";
 
 // Repository configuration
-export { loadRepositoryConfig, getDefaultConfig } from "./repo-config.js";
+export {
+  loadRepositoryConfig,
+  getDefaultConfig,
+  getExpectedRoles,
+  getRoleMembers,
+  findGovernanceProfile,
+  resolveProposalsConfig,
+  getCommandPermission,
+  DEFAULT_COMMAND_PERMISSION,
+  MERGE_METHODS,
+  DEFAULT_HEALTH_RULES,
+  STANDUP_TARGET_TYPES,
+} from "./repo-config.js";
 export type {
   EffectiveConfig,
   RepoConfigFile,
@@ -89,10 +115,30 @@ export type {
   DiscussionExit,
   DiscussionAutoExit,
   DiscussionManualExit,
+  ProposalsConfig,
+  GovernanceProfile,
   ExitRequires,
+  RatioRequirement,
   ExitType,
   IntakeMethod,
   MergeReadyConfig,
+  RequiredReviewRule,
+  AutoMergeConfig,
+  MergeMethod,
   StandupConfig,
+  StandupHealthRules,
+  HealthRule,
+  HealthRuleName,
+  HealthSeverity,
+  StandupTarget,
+  StandupTargetType,
+  CommandPermission,
+  CommandPermissionLevel,
+  MentionsConfig,
+  TeamConfig,
+  TeamRole,
+  VoteWeights,
+  VetoConfig,
+  VetoOutcome,
 } from "./repo-config.js";
-export { isAutoVotingExit, isAutoDiscussionExit } from "./repo-config.js";
+export { isAutoVotingExit, isAutoDiscussionExit, isRatioRequirement, describeExitRequires } from "./repo-config.js";
@@ -56,17 +56,24 @@ export interface LeaderboardClient {
 }
 
 /**
- * Format the leaderboard body for display.
- * Exported for testing.
+ * Rank leaderboard entries: approvals descending, then PR number ascending
+ * (older first as tiebreaker).
  */
-export function formatLeaderboard(scores: PRWithApprovals[]): string {
-  // Sort by approvals descending, then by PR number ascending (older first as tiebreaker)
-  const sorted = [...scores].sort((a, b) => {
+export function rankLeaderboard(scores: PRWithApprovals[]): PRWithApprovals[] {
+  return [...scores].sort((a, b) => {
     if (b.approvals !== a.approvals) {
       return b.approvals - a.approvals;
     }
     return a.number - b.number;
   });
+}
+
+/**
+ * Format the leaderboard body for display.
+ * Exported for testing.
+ */
+export function formatLeaderboard(scores: PRWithApprovals[]): string {
+  const sorted = rankLeaderboard(scores);
 
   const rows = sorted.map(
     (s) => `| #${s.number} | @${s.author} | ${s.approvals} |`
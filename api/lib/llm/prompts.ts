@@ -8,6 +8,7 @@
 import type { IssueContext } from "./types.js";
 import { countUniqueParticipants } from "./types.js";
 import type { StandupData } from "../standup.js";
+import type { HealthSeverity } from "../repo-config.js";
 
 // ───────────────────────────────────────────────────────────────────────────────
 // System Prompt
@@ -147,13 +148,22 @@ VOICE:
 CRITICAL RULES:
 - ONLY reference issue/PR numbers that appear in the provided data
 - Do NOT invent or guess issue/PR numbers
+- Health signals marked as "CRITICAL" MUST be addressed in needsAttention
 - Health signals marked as "REQUIRES ATTENTION IN REPORT" MUST be addressed in focusAreas or needsAttention
+- Health signals marked as "FYI" may be mentioned if relevant
 - If nothing needs attention, needsAttention can be empty
 - Keep observations concise and actionable
 
 EXAMPLE (for voice calibration):
 "Three proposals moved to voting today — I posted ballots on #12, #15, and #18. PR #23 merged cleanly for #12, bringing the ready-to-implement backlog down to 4. Two PRs (#25, #27) are competing on #15; reviewers should weigh in before the stale clock starts ticking."`;
 
+/** How each health signal severity is flagged to the LLM (see STANDUP_SYSTEM_PROMPT). */
+const HEALTH_SIGNAL_MARKERS: Record<HealthSeverity, string> = {
+  critical: "CRITICAL",
+  warning: "REQUIRES ATTENTION IN REPORT",
+  info: "FYI",
+};
+
 /**
  * Build the standup user prompt from collected data.
  * Structures data for the LLM with health signals marked for attention.
@@ -226,11 +236,11 @@ export function buildStandupUserPrompt(data: StandupData): string {
     lines.push("");
   }
 
-  // Health signals — LLM must address these
+  // Health signals — severity decides how the LLM must address them
   if (data.healthSignals && data.healthSignals.length > 0) {
     lines.push("## Health Signals");
     for (const signal of data.healthSignals) {
-      lines.push(`- REQUIRES ATTENTION IN REPORT: ${signal}`);
+      lines.push(`- ${HEALTH_SIGNAL_MARKERS[signal.severity]}: ${signal.message}`);
     }
     lines.push("");
   }
@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from "vitest";
 import { evaluatePreflightChecks } from "./merge-readiness.js";
 import type { PreflightParams, PreflightResult } from "./merge-readiness.js";
 import type { PROperations } from "./pr-operations.js";
+import { parseCodeOwners } from "./codeowners.js";
 
 /**
  * Tests for evaluatePreflightChecks — the shared checklist evaluation
@@ -18,11 +19,14 @@ function createMockPrs(overrides: Partial<Record<keyof PROperations, unknown>> =
   return {
     getLabels: vi.fn().mockResolvedValue(["hivemoot:candidate", "hivemoot:merge-ready"]),
     getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice"])),
-    get: vi.fn().mockResolvedValue({ headSha: "abc123", mergeable: true, state: "open", merged: false }),
+    get: vi.fn().mockResolvedValue({ headSha: "abc123", baseRef: "main", mergeable: true, state: "open", merged: false }),
     getCheckRunsForRef: vi.fn().mockResolvedValue({ totalCount: 0, checkRuns: [] }),
     getCombinedStatus: vi.fn().mockResolvedValue({ state: "pending", totalCount: 0 }),
     addLabels: vi.fn().mockResolvedValue(undefined),
     removeLabel: vi.fn().mockResolvedValue(undefined),
+    getCodeOwners: vi.fn().mockResolvedValue(null),
+    listChangedFiles: vi.fn().mockResolvedValue([]),
+    getTeamMembers: vi.fn().mockResolvedValue([]),
     ...overrides,
   } as unknown as PROperations;
 }
@@ -165,6 +169,201 @@ describe("evaluatePreflightChecks", () => {
     });
   });
 
+  describe("required reviews", () => {
+    const guardRule = { from: ["role:guard"], reviewers: ["carol", "dave"], minApprovals: 1 };
+
+    it("should add a hard check per rule", async () => {
+      const prs = createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice", "dave"])),
+      });
+      const result = await evaluatePreflightChecks(
+        buildParams({ prs, config: { minApprovals: 1, requiredReviews: [guardRule] } })
+      );
+
+      const check = findCheck(result, "Approved by role:guard");
+      expect(check).toEqual({
+        name: "Approved by role:guard",
+        passed: true,
+        severity: "hard",
+        detail: "1/1 required approvals (dave)",
+      });
+      expect(result.allHardChecksPassed).toBe(true);
+    });
+
+    it("should fail the rule when its reviewers have not approved", async () => {
+      const result = await evaluatePreflightChecks(
+        buildParams({ config: { minApprovals: 1, requiredReviews: [guardRule] } })
+      );
+
+      const check = findCheck(result, "Approved by role:guard");
+      expect(check?.passed).toBe(false);
+      expect(check?.detail).toBe("0/1 required approvals");
+      expect(findCheck(result, "Approved by trusted reviewers")?.passed).toBe(true);
+      expect(result.allHardChecksPassed).toBe(false);
+    });
+
+    it("should fail a rule that matches no reviewers", async () => {
+      const rule = { from: ["role:security"], reviewers: [], minApprovals: 1 };
+      const result = await evaluatePreflightChecks(
+        buildParams({ config: { minApprovals: 1, requiredReviews: [rule] } })
+      );
+
+      expect(findCheck(result, "Approved by role:security")).toMatchObject({
+        passed: false,
+        detail: "No reviewers match this rule — check the team config",
+      });
+      expect(result.allHardChecksPassed).toBe(false);
+    });
+  });
+
+  describe("code owners check", () => {
+    const config = { minApprovals: 1, requireCodeOwners: true };
+    const codeOwners = parseCodeOwners("* @alice\n/docs/ @carol @org/docs\n/vendor/\n");
+
+    it("should report coverage as advisory unless requireCodeOwners is set", async () => {
+      const prs = createMockPrs({
+        getCodeOwners: vi.fn().mockResolvedValue(codeOwners),
+        listChangedFiles: vi.fn().mockResolvedValue(["src/a.ts", "docs/guide.md"]),
+      });
+      const result = await evaluatePreflightChecks(buildParams({ prs }));
+
+      expect(findCheck(result, "Approved by code owners")).toEqual({
+        name: "Approved by code owners",
+        passed: false,
+        severity: "advisory",
+        detail: "Missing code owner approval: `docs/guide.md` (`@carol`, `@org/docs`)",
+      });
+      expect(result.allHardChecksPassed).toBe(true);
+    });
+
+    it("should report the advisory check as unavailable when CODEOWNERS can't be read", async () => {
+      const prs = createMockPrs({
+        getCodeOwners: vi.fn().mockRejectedValue(new Error("API rate limit exceeded")),
+      });
+      const result = await evaluatePreflightChecks(buildParams({ prs }));
+
+      expect(findCheck(result, "Approved by code owners")).toEqual({
+        name: "Approved by code owners",
+        passed: false,
+        severity: "advisory",
+        detail: "Code owner coverage unavailable: API rate limit exceeded",
+      });
+      expect(result.allHardChecksPassed).toBe(true);
+    });
+
+    it("should read CODEOWNERS from the PR's base branch", async () => {
+      const prs = createMockPrs({
+        get: vi.fn().mockResolvedValue({ headSha: "abc123", baseRef: "release", mergeable: true, state: "open", merged: false }),
+      });
+      await evaluatePreflightChecks(buildParams({ prs }));
+
+      expect(prs.getCodeOwners).toHaveBeenCalledWith("test-org", "test-repo", "release");
+    });
+
+    it("should omit the advisory check when there is no CODEOWNERS file", async () => {
+      const result = await evaluatePreflightChecks(buildParams());
+
+      expect(findCheck(result, "Approved by code owners")).toBeUndefined();
+    });
+
+    it("should count an approval from a member of an owning team", async () => {
+      const prs = createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice", "dana"])),
+        getCodeOwners: vi.fn().mockResolvedValue(codeOwners),
+        listChangedFiles: vi.fn().mockResolvedValue(["docs/guide.md", "docs/faq.md"]),
+        getTeamMembers: vi.fn().mockResolvedValue(["dana", "erin"]),
+      });
+      const result = await evaluatePreflightChecks(buildParams({ prs, config }));
+
+      expect(findCheck(result, "Approved by code owners")?.passed).toBe(true);
+      expect(prs.getTeamMembers).toHaveBeenCalledTimes(1);
+      expect(prs.getTeamMembers).toHaveBeenCalledWith("org", "docs");
+    });
+
+    it("should skip the team lookup when an individual owner approved", async () => {
+      const prs = createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["carol"])),
+        getCodeOwners: vi.fn().mockResolvedValue(codeOwners),
+        listChangedFiles: vi.fn().mockResolvedValue(["docs/guide.md"]),
+      });
+      const result = await evaluatePreflightChecks(buildParams({ prs, config }));
+
+      expect(findCheck(result, "Approved by code owners")?.passed).toBe(true);
+      expect(prs.getTeamMembers).not.toHaveBeenCalled();
+    });
+
+    it("should explain when a team's members can't be listed", async () => {
+      const prs = createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["dana"])),
+        getCodeOwners: vi.fn().mockResolvedValue(codeOwners),
+        listChangedFiles: vi.fn().mockResolvedValue(["docs/guide.md"]),
+        getTeamMembers: vi.fn().mockResolvedValue(null),
+      });
+      const result = await evaluatePreflightChecks(buildParams({ prs, config }));
+
+      const check = findCheck(result, "Approved by code owners");
+      expect(check?.passed).toBe(false);
+      expect(check?.detail).toContain("Could not list members of `@org/docs`");
+      expect(check?.detail).toContain("Members: Read");
+    });
+
+    it("should pass when every owned file has an owner's approval", async () => {
+      const prs = createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice", "carol"])),
+        getCodeOwners: vi.fn().mockResolvedValue(codeOwners),
+        listChangedFiles: vi.fn().mockResolvedValue(["src/a.ts", "docs/guide.md", "vendor/lib.js"]),
+      });
+      const result = await evaluatePreflightChecks(buildParams({ prs, config }));
+
+      expect(findCheck(result, "Approved by code owners")).toEqual({
+        name: "Approved by code owners",
+        passed: true,
+        severity: "hard",
+        detail: "All 2 owned file(s) approved by a code owner",
+      });
+    });
+
+    it("should list uncovered paths with their owners", async () => {
+      const prs = createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice"])),
+        getCodeOwners: vi.fn().mockResolvedValue(codeOwners),
+        listChangedFiles: vi.fn().mockResolvedValue(["src/a.ts", "docs/guide.md"]),
+      });
+      const result = await evaluatePreflightChecks(buildParams({ prs, config }));
+
+      const check = findCheck(result, "Approved by code owners");
+      expect(check?.passed).toBe(false);
+      expect(check?.detail).toBe("Missing code owner approval: `docs/guide.md` (`@carol`, `@org/docs`)");
+      expect(result.allHardChecksPassed).toBe(false);
+    });
+
+    it("should truncate long lists of uncovered paths", async () => {
+      const files = Array.from({ length: 12 }, (_, i) => `docs/page-${i}.md`);
+      const prs = createMockPrs({
+        getCodeOwners: vi.fn().mockResolvedValue(codeOwners),
+        listChangedFiles: vi.fn().mockResolvedValue(files),
+      });
+      const result = await evaluatePreflightChecks(buildParams({ prs, config }));
+
+      const detail = findCheck(result, "Approved by code owners")?.detail;
+      expect(detail).toContain("`docs/page-9.md`");
+      expect(detail).not.toContain("`docs/page-10.md`");
+      expect(detail).toMatch(/, and 2 more$/);
+    });
+
+    it("should pass when the repository has no CODEOWNERS file", async () => {
+      const prs = createMockPrs({
+        getCodeOwners: vi.fn().mockResolvedValue(null),
+        listChangedFiles: vi.fn().mockResolvedValue(["src/a.ts"]),
+      });
+      const result = await evaluatePreflightChecks(buildParams({ prs, config }));
+
+      const check = findCheck(result, "Approved by code owners");
+      expect(check?.passed).toBe(true);
+      expect(check?.detail).toBe("No CODEOWNERS file");
+    });
+  });
+
   describe("mergeable check", () => {
     it("should pass when mergeable is true", async () => {
       const result = await evaluatePreflightChecks(buildParams());
@@ -198,7 +397,7 @@ describe("evaluatePreflightChecks", () => {
 
     it("should use pre-fetched headSha and skip prs.get()", async () => {
       const prs = createMockPrs();
-      const result = await evaluatePreflightChecks(buildParams({ prs, headSha: "pre-sha" }));
+      const result = await evaluatePreflightChecks(buildParams({ prs, headSha: "pre-sha", baseRef: "main" }));
 
       expect(prs.get).not.toHaveBeenCalled();
       expect(prs.getCheckRunsForRef).toHaveBeenCalledWith("test-org", "test-repo", "pre-sha");
@@ -286,6 +485,119 @@ describe("evaluatePreflightChecks", () => {
     });
   });
 
+  describe("required and ignored checks", () => {
+    function createCIPrs(
+      checkRuns: Array<{ id: number; name: string; status: string; conclusion: string | null }>,
+      statuses: Array<{ context: string; state: string }> = []
+    ) {
+      return createMockPrs({
+        getCheckRunsForRef: vi.fn().mockResolvedValue({ totalCount: checkRuns.length, checkRuns }),
+        getCombinedStatus: vi.fn().mockResolvedValue({
+          state: statuses.every((s) => s.state === "success") ? "success" : "failure",
+          totalCount: statuses.length,
+          statuses,
+        }),
+      });
+    }
+
+    it("should report each required check individually", async () => {
+      const prs = createCIPrs(
+        [
+          { id: 1, name: "build (ubuntu)", status: "completed", conclusion: "success" },
+          { id: 2, name: "build (windows)", status: "in_progress", conclusion: null },
+          { id: 3, name: "lint", status: "completed", conclusion: "success" },
+        ],
+        [{ context: "ci/jenkins", state: "failure" }]
+      );
+      const result = await evaluatePreflightChecks(
+        buildParams({ prs, config: { minApprovals: 1, requiredChecks: ["build*", "ci/jenkins"] } })
+      );
+
+      expect(findCheck(result, "CI: build (ubuntu)")).toMatchObject({ passed: true, severity: "hard", detail: "Passed" });
+      expect(findCheck(result, "CI: build (windows)")).toMatchObject({ passed: false, detail: "Still in progress" });
+      expect(findCheck(result, "CI: ci/jenkins")).toMatchObject({ passed: false, detail: "Failed (failure)" });
+      expect(findCheck(result, "CI checks passing")).toMatchObject({ passed: true, detail: "All 1 check(s) passed" });
+      expect(result.allHardChecksPassed).toBe(false);
+    });
+
+    it("should fail-closed when commit statuses are truncated", async () => {
+      const prs = createMockPrs({
+        getCombinedStatus: vi.fn().mockResolvedValue({
+          state: "success",
+          totalCount: 150,
+          statuses: [{ context: "ci/jenkins", state: "success" }],
+        }),
+      });
+      const result = await evaluatePreflightChecks(
+        buildParams({ prs, config: { minApprovals: 1, requiredChecks: ["ci/jenkins"] } })
+      );
+
+      expect(findCheck(result, "CI checks passing")).toMatchObject({
+        passed: false,
+        detail: "Too many commit statuses (150) to verify — fail-closed",
+      });
+      expect(result.allHardChecksPassed).toBe(false);
+    });
+
+    it("should treat a required check that has not reported as pending", async () => {
+      const prs = createCIPrs([]);
+      const result = await evaluatePreflightChecks(
+        buildParams({ prs, config: { minApprovals: 1, requiredChecks: ["e2e"] } })
+      );
+
+      expect(findCheck(result, "CI: e2e")).toEqual({
+        name: "CI: e2e",
+        passed: false,
+        severity: "hard",
+        detail: "Required check has not reported yet",
+      });
+      expect(findCheck(result, "CI checks passing")?.detail).toBe("No other CI checks");
+      expect(result.allHardChecksPassed).toBe(false);
+    });
+
+    it("should not let ignored checks block", async () => {
+      const prs = createCIPrs(
+        [
+          { id: 1, name: "build", status: "completed", conclusion: "success" },
+          { id: 2, name: "CodeQL", status: "completed", conclusion: "failure" },
+        ],
+        [{ context: "codecov/patch", state: "pending" }]
+      );
+      const result = await evaluatePreflightChecks(
+        buildParams({ prs, config: { minApprovals: 1, ignoredChecks: ["codeql", "codecov/*"] } })
+      );
+
+      expect(findCheck(result, "CI checks passing")).toMatchObject({
+        passed: true,
+        detail: "All 1 check(s) passed (2 ignored)",
+      });
+    });
+
+    it("should still require a check that is both required and ignored", async () => {
+      const prs = createCIPrs([{ id: 1, name: "build", status: "completed", conclusion: "failure" }]);
+      const result = await evaluatePreflightChecks(
+        buildParams({ prs, config: { minApprovals: 1, requiredChecks: ["build"], ignoredChecks: ["*"] } })
+      );
+
+      expect(findCheck(result, "CI: build")?.passed).toBe(false);
+    });
+
+    it("should name failing non-required checks", async () => {
+      const prs = createCIPrs([
+        { id: 1, name: "test", status: "completed", conclusion: "failure" },
+        { id: 2, name: "CodeQL", status: "completed", conclusion: "failure" },
+      ]);
+      const result = await evaluatePreflightChecks(
+        buildParams({ prs, config: { minApprovals: 1, ignoredChecks: ["CodeQL"] } })
+      );
+
+      expect(findCheck(result, "CI checks passing")).toMatchObject({
+        passed: false,
+        detail: "Failing: test: failure (1 ignored)",
+      });
+    });
+  });
+
   describe("advisory checks", () => {
     it("should report implementation label as advisory", async () => {
       const result = await evaluatePreflightChecks(buildParams());
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { evaluateMergeReadiness } from "./merge-readiness.js";
 import type { MergeReadinessParams, MergeReadinessResult } from "./merge-readiness.js";
 import type { PROperations } from "./pr-operations.js";
+import { parseCodeOwners } from "./codeowners.js";
 
 /**
  * Tests for merge-readiness evaluation.
@@ -10,6 +11,8 @@ import type { PROperations } from "./pr-operations.js";
  * - Feature disabled → skipped
  * - Missing implementation label → skipped / removed
  * - Insufficient trusted approvals → skipped / removed
+ * - Missing required reviews (mergeReady.requiredReviews) → skipped / removed
+ * - Missing code owner approval (mergeReady.requireCodeOwners) → skipped / removed
  * - Pending/failed CI → skipped / removed
  * - All conditions met → label added
  * - Already labeled + conditions met → noop
@@ -138,6 +141,95 @@ describe("evaluateMergeReadiness", () => {
     });
   });
 
+  describe("required reviews check", () => {
+    const config = { minApprovals: 1, requiredReviews: [{ from: ["role:guard"], reviewers: ["carol", "dave"], minApprovals: 1 }] };
+
+    it("should skip when a required review is missing", async () => {
+      const prs = createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice"])),
+      });
+      const result = await evaluateMergeReadiness(buildParams({ prs, config }));
+
+      expect(result).toEqual({
+        action: "skipped",
+        reason: "missing required approval from role:guard",
+      });
+      expect(prs.get).not.toHaveBeenCalled();
+    });
+
+    it("should remove merge-ready when a required review is missing", async () => {
+      const prs = createMockPrs({
+        getLabels: vi.fn().mockResolvedValue(["hivemoot:candidate", "hivemoot:merge-ready"]),
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice"])),
+      });
+      const result = await evaluateMergeReadiness(buildParams({ prs, config }));
+
+      expect(result).toEqual({ action: "removed" });
+      expect(prs.removeLabel).toHaveBeenCalledWith(defaultRef, "hivemoot:merge-ready");
+    });
+
+    it("should add merge-ready once every rule is satisfied", async () => {
+      const prs = createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice", "carol"])),
+      });
+      const result = await evaluateMergeReadiness(buildParams({ prs, config }));
+
+      expect(result).toEqual({ action: "added" });
+    });
+  });
+
+  describe("code owners check", () => {
+    const config = { minApprovals: 1, requireCodeOwners: true };
+    const codeOwners = parseCodeOwners("/api/ @carol\n");
+
+    it("should skip when an owned file lacks a code owner's approval", async () => {
+      const prs = createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice"])),
+        getCodeOwners: vi.fn().mockResolvedValue(codeOwners),
+        listChangedFiles: vi.fn().mockResolvedValue(["api/index.ts"]),
+      });
+      const result = await evaluateMergeReadiness(buildParams({ prs, config }));
+
+      expect(result).toEqual({ action: "skipped", reason: "missing code owner approval" });
+      expect(prs.getCheckRunsForRef).not.toHaveBeenCalled();
+    });
+
+    it("should remove merge-ready when a code owner approval is missing", async () => {
+      const prs = createMockPrs({
+        getLabels: vi.fn().mockResolvedValue(["hivemoot:candidate", "hivemoot:merge-ready"]),
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice"])),
+        getCodeOwners: vi.fn().mockResolvedValue(codeOwners),
+        listChangedFiles: vi.fn().mockResolvedValue(["api/index.ts"]),
+      });
+      const result = await evaluateMergeReadiness(buildParams({ prs, config }));
+
+      expect(result).toEqual({ action: "removed" });
+    });
+
+    it("should add merge-ready once code owners approve", async () => {
+      const prs = createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice", "carol"])),
+        getCodeOwners: vi.fn().mockResolvedValue(codeOwners),
+        listChangedFiles: vi.fn().mockResolvedValue(["api/index.ts", "README.md"]),
+      });
+      const result = await evaluateMergeReadiness(buildParams({ prs, config }));
+
+      expect(result).toEqual({ action: "added" });
+    });
+
+    it("should read CODEOWNERS from the base branch given by the webhook", async () => {
+      const prs = createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice", "carol"])),
+        getCodeOwners: vi.fn().mockResolvedValue(codeOwners),
+        listChangedFiles: vi.fn().mockResolvedValue(["api/index.ts"]),
+      });
+      await evaluateMergeReadiness(buildParams({ prs, config, headSha: "abc123", baseRef: "release" }));
+
+      expect(prs.get).not.toHaveBeenCalled();
+      expect(prs.getCodeOwners).toHaveBeenCalledWith("test-org", "test-repo", "release");
+    });
+  });
+
   describe("mergeable check", () => {
     it("should skip when PR has merge conflicts (mergeable: false)", async () => {
       const prs = createMockPrs({
@@ -405,6 +497,37 @@ describe("evaluateMergeReadiness", () => {
     });
   });
 
+  describe("required and ignored checks", () => {
+    function createCIPrs(checkRuns: Array<{ id: number; name: string; status: string; conclusion: string | null }>) {
+      return createMockPrs({
+        getApproverLogins: vi.fn().mockResolvedValue(new Set(["alice"])),
+        getCheckRunsForRef: vi.fn().mockResolvedValue({ totalCount: checkRuns.length, checkRuns }),
+        getCombinedStatus: vi.fn().mockResolvedValue({ state: "pending", totalCount: 0, statuses: [] }),
+      });
+    }
+
+    it("should skip while a required check has not reported", async () => {
+      const prs = createCIPrs([{ id: 1, name: "lint", status: "completed", conclusion: "success" }]);
+      const result = await evaluateMergeReadiness(
+        buildParams({ prs, config: { minApprovals: 1, requiredChecks: ["build"] } })
+      );
+
+      expect(result).toEqual({ action: "skipped", reason: "CI not passing" });
+    });
+
+    it("should add merge-ready when only ignored checks fail", async () => {
+      const prs = createCIPrs([
+        { id: 1, name: "build", status: "completed", conclusion: "success" },
+        { id: 2, name: "coverage upload", status: "completed", conclusion: "failure" },
+      ]);
+      const result = await evaluateMergeReadiness(
+        buildParams({ prs, config: { minApprovals: 1, requiredChecks: ["build"], ignoredChecks: ["coverage*"] } })
+      );
+
+      expect(result).toEqual({ action: "added" });
+    });
+  });
+
   describe("label management", () => {
     function buildAllPassingParams(
       labelOverrides: string[] = ["hivemoot:candidate"]
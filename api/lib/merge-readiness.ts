@@ -8,22 +8,29 @@
  * Conditions (hard gates — block merge-ready label):
  * 1. PR is open and not merged
  * 2. At least minApprovals approvals from trustedReviewers
+ *    (plus one check per mergeReady.requiredReviews rule, e.g. "one approval from role:guard")
+ *    (plus, with mergeReady.requireCodeOwners, a CODEOWNERS owner's approval for every changed file)
  * 3. PR is not conflicting (`mergeable !== false`; `null` = not yet computed, allowed)
  * 4. All check runs on HEAD are completed with success/neutral/skipped
  * 5. All commit statuses on HEAD are success (legacy Status API)
+ *    (mergeReady.ignoredChecks skips matching checks; mergeReady.requiredChecks
+ *    must report and pass, and each gets its own checklist item)
  *
  * Advisory checks (informational — do not block):
  * - PR has `implementation` label
  * - PR has `merge-ready` label
+ * - CODEOWNERS coverage, when mergeReady.requireCodeOwners is unset
  *
  * Short-circuit order in evaluateMergeReadiness optimized by API cost:
- * config → labels → approvals (1 call) → PR fetch (headSha + mergeable) → mergeable → CI (2 calls)
+ * config → labels → approvals + required reviews (1 call) → PR fetch (headSha + mergeable) → mergeable
+ * → code owners (2+ calls, when required) → CI (2 calls)
  */
 
 import { LABELS, isLabelMatch } from "../config.js";
+import { findCodeOwners, isTeamOwner } from "./codeowners.js";
 import type { PRRef } from "./types.js";
 import type { PROperations } from "./pr-operations.js";
-import type { MergeReadyConfig } from "./repo-config.js";
+import type { MergeReadyConfig, RequiredReviewRule } from "./repo-config.js";
 
 // ───────────────────────────────────────────────────────────────────────────────
 // Types
@@ -38,6 +45,8 @@ export interface MergeReadinessParams {
   currentLabels?: string[];
   /** HEAD SHA to check CI against. Fetched from PR if not provided. */
   headSha?: string;
+  /** Base branch to read CODEOWNERS from. Fetched from PR if not provided. */
+  baseRef?: string;
   log?: { info: (msg: string) => void; debug?: (msg: string) => void };
 }
 
@@ -75,6 +84,8 @@ export interface PreflightParams {
   currentLabels?: string[];
   /** HEAD SHA to check CI against. Fetched from PR if not provided. */
   headSha?: string;
+  /** Base branch to read CODEOWNERS from. Fetched from PR if not provided. */
+  baseRef?: string;
 }
 
 // ───────────────────────────────────────────────────────────────────────────────
@@ -104,6 +115,7 @@ export async function evaluatePreflightChecks(
   let mergeable: boolean | null;
   let prState: string | null = null;
   let prMerged: boolean | null = null;
+  let baseRef = params.baseRef;
   if (params.headSha) {
     // Webhook path: headSha pre-fetched, PR is guaranteed open by webhook context
     headSha = params.headSha;
@@ -114,6 +126,7 @@ export async function evaluatePreflightChecks(
     mergeable = pr.mergeable;
     prState = pr.state;
     prMerged = pr.merged;
+    baseRef = pr.baseRef;
   }
 
   // 1. PR is open (hard gate)
@@ -148,6 +161,27 @@ export async function evaluatePreflightChecks(
       : `${trustedApprovers.length}/${minApprovals} trusted approvals`,
   });
 
+  // 2b. Required reviews (hard gates, no extra API calls)
+  for (const rule of config?.requiredReviews ?? []) {
+    checks.push(evaluateRequiredReview(rule, approvers));
+  }
+
+  // 2c. Code owners (hard gate when required; otherwise advisory, and a
+  // failed lookup is reported rather than thrown; 2+ API calls)
+  const codeOwners = config?.requireCodeOwners
+    ? await evaluateCodeOwners(prs, ref, baseRef, approvers, "hard")
+    : await evaluateCodeOwners(prs, ref, baseRef, approvers, "advisory").catch(
+      (error): PreflightCheckItem => ({
+        name: "Approved by code owners",
+        passed: false,
+        severity: "advisory",
+        detail: `Code owner coverage unavailable: ${(error as Error).message}`,
+      })
+    );
+  if (codeOwners) {
+    checks.push(codeOwners);
+  }
+
   // 3. Mergeable state (hard gate)
   // mergeable === null means GitHub hasn't computed yet — treat as passing
   checks.push({
@@ -162,8 +196,7 @@ export async function evaluatePreflightChecks(
   });
 
   // 4. CI status (hard gate, 2 API calls in parallel)
-  const ciResult = await evaluateCI(prs, ref, headSha);
-  checks.push(ciResult);
+  checks.push(...await evaluateCI(prs, ref, headSha, config));
 
   // 5. Implementation label (advisory)
   const labels = params.currentLabels ?? await prs.getLabels(ref);
@@ -196,13 +229,157 @@ export async function evaluatePreflightChecks(
 }
 
 /**
- * Evaluate CI status and return a PreflightCheckItem.
+ * Evaluate one mergeReady.requiredReviews rule against the PR's approvers.
+ */
+function evaluateRequiredReview(
+  rule: RequiredReviewRule,
+  approvers: Set<string>
+): PreflightCheckItem {
+  const matching = rule.reviewers.filter((r) => approvers.has(r));
+  const passed = matching.length >= rule.minApprovals;
+  return {
+    name: `Approved by ${rule.from.join(", ")}`,
+    passed,
+    severity: "hard",
+    detail: passed
+      ? `${matching.length}/${rule.minApprovals} required approvals (${matching.join(", ")})`
+      : rule.reviewers.length === 0
+        ? "No reviewers match this rule — check the team config"
+        : `${matching.length}/${rule.minApprovals} required approvals`,
+  };
+}
+
+/** Uncovered paths listed in the code owners check detail before truncating. */
+const MAX_LISTED_UNCOVERED_PATHS = 10;
+
+/**
+ * Check that every changed file with CODEOWNERS owners has an approval
+ * from one of them.
+ *
+ * Team owners (`@org/team`) are expanded to their members, so an approval
+ * from any member covers the team's files. Files without owners need none.
+ *
+ * CODEOWNERS is read from the PR's base branch, the file GitHub enforces;
+ * `baseRef` is fetched from the PR when the caller doesn't have it.
+ *
+ * As an advisory check it reports coverage only for repositories that have
+ * a CODEOWNERS file, and returns null otherwise.
+ */
+async function evaluateCodeOwners(
+  prs: PROperations,
+  ref: PRRef,
+  baseRef: string | undefined,
+  approvers: Set<string>,
+  severity: PreflightSeverity
+): Promise<PreflightCheckItem | null> {
+  const base = baseRef ?? (await prs.get(ref)).baseRef;
+  const [rules, files] = await Promise.all([
+    prs.getCodeOwners(ref.owner, ref.repo, base),
+    prs.listChangedFiles(ref),
+  ]);
+
+  if (!rules) {
+    return severity === "hard"
+      ? { name: "Approved by code owners", passed: true, severity, detail: "No CODEOWNERS file" }
+      : null;
+  }
+
+  // Team membership is fetched once per team; null marks a team the app can't list
+  const teamMembers = new Map<string, Set<string> | null>();
+  const hasApproval = async (owner: string): Promise<boolean> => {
+    if (!isTeamOwner(owner)) {
+      return approvers.has(owner);
+    }
+    if (!teamMembers.has(owner)) {
+      const [org, teamSlug] = owner.split("/");
+      const members = await prs.getTeamMembers(org, teamSlug);
+      teamMembers.set(owner, members ? new Set(members) : null);
+    }
+    const members = teamMembers.get(owner);
+    return !!members && [...approvers].some((login) => members.has(login));
+  };
+
+  let ownedCount = 0;
+  const uncovered: string[] = [];
+  for (const file of files) {
+    const owners = findCodeOwners(rules, file);
+    if (owners.length === 0) {
+      continue;
+    }
+    ownedCount++;
+    // Individual owners first: team lookups cost an API call each
+    const ordered = [...owners].sort((a, b) => Number(isTeamOwner(a)) - Number(isTeamOwner(b)));
+    let covered = false;
+    for (const owner of ordered) {
+      if (await hasApproval(owner)) {
+        covered = true;
+        break;
+      }
+    }
+    if (!covered) {
+      uncovered.push(`\`${file}\` (${owners.map(formatOwner).join(", ")})`);
+    }
+  }
+
+  if (uncovered.length > 0) {
+    const listed = uncovered.slice(0, MAX_LISTED_UNCOVERED_PATHS).join(", ");
+    const more = uncovered.length - MAX_LISTED_UNCOVERED_PATHS;
+    const unlisted = [...teamMembers].filter(([, members]) => members === null).map(([team]) => team);
+    const teamNote = unlisted.length > 0
+      ? `. Could not list members of ${unlisted.map(formatOwner).join(", ")}; the app needs the organization Members: Read permission`
+      : "";
+    return {
+      name: "Approved by code owners",
+      passed: false,
+      severity,
+      detail: `Missing code owner approval: ${listed}${more > 0 ? `, and ${more} more` : ""}${teamNote}`,
+    };
+  }
+
+  return {
+    name: "Approved by code owners",
+    passed: true,
+    severity,
+    detail: ownedCount > 0
+      ? `All ${ownedCount} owned file(s) approved by a code owner`
+      : "No changed files have code owners",
+  };
+}
+
+/**
+ * Format a CODEOWNERS owner for reports: `@login`, `@org/team`, or the email
+ * as written. Code-formatted so the report doesn't notify owners.
+ */
+function formatOwner(owner: string): string {
+  return owner.includes("@") ? `\`${owner}\`` : `\`@${owner}\``;
+}
+
+/** Result of one check run or commit status on HEAD. */
+interface CISignal {
+  name: string;
+  state: "passed" | "pending" | "failed";
+  /** Conclusion or status state, e.g. "failure". */
+  outcome: string;
+}
+
+type CheckRuns = Awaited<ReturnType<PROperations["getCheckRunsForRef"]>>["checkRuns"];
+type CombinedStatus = Awaited<ReturnType<PROperations["getCombinedStatus"]>>;
+
+/**
+ * Evaluate CI status on HEAD.
+ *
+ * Without mergeReady.requiredChecks / ignoredChecks, a single
+ * "CI checks passing" item covers every check run and commit status. With
+ * them, each check matching requiredChecks gets its own item (a required
+ * pattern nothing has reported for counts as pending), checks matching only
+ * ignoredChecks are dropped, and the rest share the "CI checks passing" item.
  */
 async function evaluateCI(
   prs: PROperations,
   ref: PRRef,
-  sha: string
-): Promise<PreflightCheckItem> {
+  sha: string,
+  config: MergeReadyConfig | null
+): Promise<PreflightCheckItem[]> {
   const [checksResult, statusResult] = await Promise.all([
     prs.getCheckRunsForRef(ref.owner, ref.repo, sha),
     prs.getCombinedStatus(ref.owner, ref.repo, sha),
@@ -210,18 +387,71 @@ async function evaluateCI(
 
   // Fail-closed if check runs were truncated (>100)
   if (checksResult.totalCount > checksResult.checkRuns.length) {
-    return {
+    return [{
       name: "CI checks passing",
       passed: false,
       severity: "hard",
       detail: `Too many check runs (${checksResult.totalCount}) to verify — fail-closed`,
-    };
+    }];
+  }
+
+  const requiredPatterns = config?.requiredChecks ?? [];
+  const ignoredPatterns = config?.ignoredChecks ?? [];
+  if (requiredPatterns.length === 0 && ignoredPatterns.length === 0) {
+    return [summarizeAllChecks(checksResult.checkRuns, statusResult)];
   }
 
+  // Fail-closed if commit statuses were truncated (>100): per-check rules
+  // need every status, not just the combined state
+  if (statusResult.totalCount > statusResult.statuses.length) {
+    return [{
+      name: "CI checks passing",
+      passed: false,
+      severity: "hard",
+      detail: `Too many commit statuses (${statusResult.totalCount}) to verify — fail-closed`,
+    }];
+  }
+
+  const signals = toCISignals(checksResult.checkRuns, statusResult.statuses);
+  const items: PreflightCheckItem[] = [];
+  const required = new Set<CISignal>();
+
+  for (const pattern of requiredPatterns) {
+    const matched = signals.filter((s) => matchesCheckPattern(s.name, pattern));
+    if (matched.length === 0) {
+      items.push({
+        name: `CI: ${pattern}`,
+        passed: false,
+        severity: "hard",
+        detail: "Required check has not reported yet",
+      });
+    }
+    for (const signal of matched) {
+      if (!required.has(signal)) {
+        required.add(signal);
+        items.push(requiredCheckItem(signal));
+      }
+    }
+  }
+
+  const ignored = signals.filter(
+    (s) => !required.has(s) && ignoredPatterns.some((p) => matchesCheckPattern(s.name, p))
+  );
+  const others = signals.filter((s) => !required.has(s) && !ignored.includes(s));
+  items.push(summarizeOtherChecks(others, ignored.length, requiredPatterns.length > 0));
+
+  return items;
+}
+
+/**
+ * Summarize every check run and commit status as one item
+ * (no requiredChecks / ignoredChecks configured).
+ */
+function summarizeAllChecks(checkRuns: CheckRuns, statusResult: CombinedStatus): PreflightCheckItem {
   // Check Runs: all must be completed with a passing conclusion
   const failingChecks: string[] = [];
   let pendingCount = 0;
-  for (const checkRun of checksResult.checkRuns) {
+  for (const checkRun of checkRuns) {
     if (checkRun.status !== "completed") {
       pendingCount++;
     } else if (!checkRun.conclusion || !PASSING_CHECK_CONCLUSIONS.has(checkRun.conclusion)) {
@@ -257,7 +487,7 @@ async function evaluateCI(
     };
   }
 
-  const totalChecks = checksResult.checkRuns.length + statusResult.totalCount;
+  const totalChecks = checkRuns.length + statusResult.totalCount;
   return {
     name: "CI checks passing",
     passed: true,
@@ -268,6 +498,91 @@ async function evaluateCI(
   };
 }
 
+/**
+ * Flatten check runs and commit statuses into named pass/pending/fail signals.
+ */
+function toCISignals(checkRuns: CheckRuns, statuses: CombinedStatus["statuses"]): CISignal[] {
+  const signals: CISignal[] = checkRuns.map((run) => {
+    if (run.status !== "completed") {
+      return { name: run.name, state: "pending", outcome: run.status };
+    }
+    const outcome = run.conclusion ?? "no conclusion";
+    return {
+      name: run.name,
+      state: run.conclusion && PASSING_CHECK_CONCLUSIONS.has(run.conclusion) ? "passed" : "failed",
+      outcome,
+    };
+  });
+
+  for (const status of statuses) {
+    signals.push({
+      name: status.context,
+      state: status.state === "success" ? "passed" : status.state === "pending" ? "pending" : "failed",
+      outcome: status.state,
+    });
+  }
+
+  return signals;
+}
+
+function requiredCheckItem(signal: CISignal): PreflightCheckItem {
+  return {
+    name: `CI: ${signal.name}`,
+    passed: signal.state === "passed",
+    severity: "hard",
+    detail: signal.state === "passed"
+      ? "Passed"
+      : signal.state === "pending"
+        ? "Still in progress"
+        : `Failed (${signal.outcome})`,
+  };
+}
+
+/**
+ * Summarize the checks not covered by requiredChecks, minus ignored ones.
+ */
+function summarizeOtherChecks(
+  signals: CISignal[],
+  ignoredCount: number,
+  hasRequired: boolean
+): PreflightCheckItem {
+  const ignoredNote = ignoredCount > 0 ? ` (${ignoredCount} ignored)` : "";
+  const pendingCount = signals.filter((s) => s.state === "pending").length;
+  const failing = signals.filter((s) => s.state === "failed").map((s) => `${s.name}: ${s.outcome}`);
+
+  let passed = false;
+  let detail: string;
+  if (pendingCount > 0) {
+    detail = `${pendingCount} check(s) still in progress`;
+  } else if (failing.length > 0) {
+    detail = `Failing: ${failing.join(", ")}`;
+  } else {
+    passed = true;
+    detail = signals.length > 0
+      ? `All ${signals.length} check(s) passed`
+      : hasRequired ? "No other CI checks" : "No CI configured";
+  }
+
+  return {
+    name: "CI checks passing",
+    passed,
+    severity: "hard",
+    detail: detail + ignoredNote,
+  };
+}
+
+/**
+ * Match a check or status name against a glob (`*` = any run of characters,
+ * `?` = one character). Case-insensitive.
+ */
+function matchesCheckPattern(name: string, pattern: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.split("?").map((text) => text.replace(/[.+^${}()|[\]\\]/g, "\\$&")).join("."))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i").test(name);
+}
+
 // ───────────────────────────────────────────────────────────────────────────────
 // Merge-Readiness Label Management (consumes preflight checks)
 // ───────────────────────────────────────────────────────────────────────────────
@@ -325,9 +640,25 @@ export async function evaluateMergeReadiness(
     };
   }
 
+  // 3b. Check required reviews (no extra API calls)
+  const unmetRule = config.requiredReviews?.find(
+    (rule) => !evaluateRequiredReview(rule, approvers).passed
+  );
+
+  if (unmetRule) {
+    const reason = `missing required approval from ${unmetRule.from.join(", ")}`;
+    if (hasMergeReady) {
+      await prs.removeLabel(ref, LABELS.MERGE_READY);
+      log?.info(`[PR #${ref.prNumber}] Removed merge-ready: ${reason}`);
+      return { action: "removed" };
+    }
+    return { action: "skipped", reason };
+  }
+
   // 4. Get HEAD SHA + mergeable state (use pre-fetched or fetch from PR)
   let headSha: string;
   let mergeable: boolean | null;
+  let baseRef = params.baseRef;
   if (params.headSha) {
     headSha = params.headSha;
     // When headSha is pre-fetched (webhook payload), we don't have mergeable — treat as unknown
@@ -336,6 +667,7 @@ export async function evaluateMergeReadiness(
     const pr = await prs.get(ref);
     headSha = pr.headSha;
     mergeable = pr.mergeable;
+    baseRef = pr.baseRef;
   }
 
   // 5. Check mergeable state (null = not yet computed by GitHub, allow through)
@@ -348,8 +680,22 @@ export async function evaluateMergeReadiness(
     return { action: "skipped", reason: "has merge conflicts" };
   }
 
+  // 5b. Check code owner approvals (2+ API calls, only when required)
+  if (config.requireCodeOwners) {
+    const codeOwners = await evaluateCodeOwners(prs, ref, baseRef, approvers, "hard");
+    if (!codeOwners?.passed) {
+      if (hasMergeReady) {
+        await prs.removeLabel(ref, LABELS.MERGE_READY);
+        log?.info(`[PR #${ref.prNumber}] Removed merge-ready: missing code owner approval`);
+        return { action: "removed" };
+      }
+      return { action: "skipped", reason: "missing code owner approval" };
+    }
+  }
+
   // 6. Check CI status (2 API calls in parallel)
-  const ciPassing = await isCIPassing(prs, ref, headSha);
+  const ciChecks = await evaluateCI(prs, ref, headSha, config);
+  const ciPassing = ciChecks.every((c) => c.passed);
 
   if (!ciPassing) {
     if (hasMergeReady) {
@@ -369,44 +715,3 @@ export async function evaluateMergeReadiness(
 
   return { action: "noop", labeled: true };
 }
-
-/**
- * Check that all CI signals are passing for the given SHA.
- *
- * Queries both the Checks API (GitHub Actions) and the legacy Status API
- * (external CI like Jenkins) in parallel. Both must pass.
- *
- * Zero checks/statuses = treated as passing (repo has no CI configured).
- */
-async function isCIPassing(
-  prs: PROperations,
-  ref: PRRef,
-  sha: string
-): Promise<boolean> {
-  const [checksResult, statusResult] = await Promise.all([
-    prs.getCheckRunsForRef(ref.owner, ref.repo, sha),
-    prs.getCombinedStatus(ref.owner, ref.repo, sha),
-  ]);
-
-  // Fail-closed if check runs were truncated (>100) — we can't verify unseen checks
-  if (checksResult.totalCount > checksResult.checkRuns.length) {
-    return false;
-  }
-
-  // Check Runs: all must be completed with a passing conclusion
-  for (const checkRun of checksResult.checkRuns) {
-    if (checkRun.status !== "completed") {
-      return false;
-    }
-    if (!checkRun.conclusion || !PASSING_CHECK_CONCLUSIONS.has(checkRun.conclusion)) {
-      return false;
-    }
-  }
-
-  // Legacy Status API: combined state must be "success" or no statuses at all
-  if (statusResult.totalCount > 0 && statusResult.state !== "success") {
-    return false;
-  }
-
-  return true;
-}
@@ -0,0 +1,364 @@
+/**
+ * PR Merge Flow
+ *
+ * Shared preflight-then-merge flow used by both:
+ * - The /merge and /squash commands (on-demand)
+ * - Auto-merge once a PR is merge-ready (see auto-merge.ts)
+ *
+ * Steps:
+ * 1. PR must be open and not already in the merge queue
+ * 2. Pick the merge method, or the merge queue when the base branch uses one
+ * 3. Run preflight — all hard checks must pass
+ * 4. Generate the commit message (squash and merge commits only)
+ * 5. Re-run preflight immediately before merging to narrow stale CI races
+ * 6. Merge pinned to the checked head SHA, or enqueue with it
+ *
+ * Fail-closed: any failed step blocks the merge and returns the report so far.
+ */
+
+import { CommitMessageGenerator, formatCommitMessage } from "./llm/commit-message.js";
+import type { PRContext } from "./llm/types.js";
+import { evaluatePreflightChecks } from "./merge-readiness.js";
+import type { PreflightCheckItem, PreflightResult } from "./merge-readiness.js";
+import { enqueuePullRequest, getPRMergeQueueState } from "./graphql-queries.js";
+import type { GraphQLClient, PRMergeQueueState } from "./graphql-queries.js";
+import { MERGE_METHODS } from "./repo-config.js";
+import type { EffectiveConfig, MergeMethod } from "./repo-config.js";
+import type { PROperations } from "./pr-operations.js";
+import type { PRRef } from "./types.js";
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────────────────────
+
+type MergeSetting = "allow_squash_merge" | "allow_rebase_merge" | "allow_merge_commit";
+
+/**
+ * Minimal client surface for the merge flow.
+ * Both Probot's octokit and the `octokit` package satisfy this.
+ */
+export interface MergeClient extends GraphQLClient {
+  rest: {
+    repos: {
+      get: (params: { owner: string; repo: string }) =>
+        Promise<{ data: Partial<Record<MergeSetting, boolean>> }>;
+    };
+    pulls: {
+      get: (params: { owner: string; repo: string; pull_number: number }) =>
+        Promise<{ data: { title: string; body: string | null } }>;
+      listCommits: (params: { owner: string; repo: string; pull_number: number; per_page?: number }) =>
+        Promise<{ data: Array<{ commit: { message: string } }> }>;
+      merge: (params: {
+        owner: string;
+        repo: string;
+        pull_number: number;
+        sha: string;
+        merge_method: MergeMethod;
+        commit_title?: string;
+        commit_message?: string;
+      }) => Promise<unknown>;
+    };
+  };
+}
+
+export interface MergeFlowLogger {
+  info: (message: string) => void;
+  warn: (message: string) => void;
+  error: (message: string) => void;
+}
+
+export interface MergePullRequestParams {
+  client: MergeClient;
+  prs: PROperations;
+  ref: PRRef;
+  repoConfig: EffectiveConfig;
+  /** Current PR labels (from the webhook payload or command context). */
+  currentLabels: string[];
+  /** Requested merge method. Omitted → `governance.pr.mergeMethod`, else the first allowed. */
+  method?: MergeMethod;
+  /** What started the merge, for report text (e.g. "`/merge`", "auto-merge"). */
+  trigger: string;
+  /** Report heading, e.g. "Squash Preflight". */
+  title: string;
+  log: MergeFlowLogger;
+}
+
+export type MergePullRequestResult =
+  | { status: "merged" | "queued"; message: string; report: string }
+  | {
+    status: "blocked";
+    report: string;
+    /** The failure may clear on its own (generator, API, or checks changing mid-merge) — worth a retry. */
+    transient?: boolean;
+  };
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Constants
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Display name and repository setting for each merge method.
+ */
+const MERGE_METHOD_DETAILS: Record<MergeMethod, { label: string; setting: MergeSetting }> = {
+  squash: { label: "Squash merge", setting: "allow_squash_merge" },
+  rebase: { label: "Rebase merge", setting: "allow_rebase_merge" },
+  merge: { label: "Merge commit", setting: "allow_merge_commit" },
+};
+
+const MERGE_QUEUE_LABEL = "Merge queue entry";
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Merge Flow
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Run preflight and, when every hard check passes, merge the PR or add it
+ * to the merge queue. Never throws for merge blockers — they come back as
+ * `blocked` with the report explaining why.
+ */
+export async function mergePullRequest(
+  params: MergePullRequestParams
+): Promise<MergePullRequestResult> {
+  const { client, prs, ref, repoConfig, currentLabels, trigger, log } = params;
+
+  const pr = await prs.get(ref);
+  if (pr.merged || pr.state !== "open") {
+    return { status: "blocked", report: "This pull request is already closed or merged." };
+  }
+  const expectedHeadSha = pr.headSha;
+
+  const queue = await findMergeQueueState(client, ref, log);
+  if (queue?.queued) {
+    return { status: "blocked", report: "This pull request is already in the merge queue." };
+  }
+
+  // null when merging through the queue, which applies its own method
+  let method: MergeMethod | null = null;
+  if (!queue?.enabled) {
+    const repoInfo = await client.rest.repos.get({ owner: ref.owner, repo: ref.repo });
+    const resolved = resolveMergeMethod(trigger, params.method, repoConfig.governance.pr.mergeMethod, repoInfo?.data);
+    if (!resolved.success) {
+      return { status: "blocked", report: resolved.error };
+    }
+    method = resolved.method;
+  }
+  const label = method ? MERGE_METHOD_DETAILS[method].label : MERGE_QUEUE_LABEL;
+
+  const runPreflight = (): Promise<PreflightResult> => evaluatePreflightChecks({
+    prs,
+    ref,
+    config: repoConfig.governance.pr.mergeReady,
+    trustedReviewers: repoConfig.governance.pr.trustedReviewers,
+    currentLabels,
+  });
+
+  const preflight = await runPreflight();
+  const { passed: hardPassed, total: hardCount } = countHardChecks(preflight);
+
+  let body = `## 🐝 ${params.title} for #${ref.prNumber}\n\n`;
+  body += `### Checklist\n\n`;
+  body += preflight.checks.map(formatCheckItem).join("\n") + "\n\n";
+
+  if (!preflight.allHardChecksPassed) {
+    body += `**${hardPassed}/${hardCount} hard checks passed.** ${label} was blocked.`;
+    return { status: "blocked", report: body };
+  }
+
+  let commitTitle = "";
+  let commitBody = "";
+  // Rebase merges keep the PR's own commits and merge queues build their
+  // own — there is no message to generate
+  if (method === "squash" || method === "merge") {
+    const blocked = () =>
+      body +
+      "### Commit Message\n\n" +
+      `Commit message generation failed. ${label} was blocked.\n\n` +
+      `**${hardPassed}/${hardCount} hard checks passed.** Retry ${trigger} after the generator is healthy.`;
+
+    try {
+      const prContext = await gatherPRContext(client, ref, log);
+      const noop = () => {};
+      const generator = new CommitMessageGenerator({
+        logger: {
+          info: (message: string) => log.info(message),
+          error: (message: string) => log.error(message),
+          warn: noop,
+          debug: noop,
+          group: noop,
+          groupEnd: noop,
+        },
+      });
+      const result = await generator.generate(prContext);
+
+      if (!result.success) {
+        return { status: "blocked", report: blocked(), transient: true };
+      }
+
+      commitTitle = result.message.subject.trim();
+      const generatedBody = result.message.body.trim();
+      commitBody = generatedBody
+        ? `${generatedBody}\n\nPR: #${ref.prNumber}`
+        : `PR: #${ref.prNumber}`;
+      body += "### Proposed Commit Message\n\n";
+      body += "```\n" + formatCommitMessage(result.message, ref.prNumber) + "\n```\n\n";
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      log.error(`Commit message generation failed during ${trigger} for #${ref.prNumber}: ${reason}`);
+      return { status: "blocked", report: blocked(), transient: true };
+    }
+  }
+
+  const freshPreflight = await runPreflight();
+  if (!freshPreflight.allHardChecksPassed) {
+    const fresh = countHardChecks(freshPreflight);
+    body += `**${fresh.passed}/${fresh.total} hard checks passed on final verification.** Checks changed while processing; ${label.toLowerCase()} was blocked.`;
+    return { status: "blocked", report: body, transient: true };
+  }
+
+  if (queue?.enabled) {
+    let position: number | null;
+    try {
+      position = await enqueuePullRequest(client, queue.pullRequestId, expectedHeadSha);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      log.error(`Merge queue entry failed for #${ref.prNumber}: ${reason}`);
+      body += "### Merge Queue\n\n";
+      body += "Adding the PR to the merge queue failed due to a GitHub API error. Resolve merge blockers and retry.\n\n";
+      return { status: "blocked", report: body, transient: true };
+    }
+
+    const where = position === null ? "" : ` at position ${position}`;
+    body += `**${hardPassed}/${hardCount} hard checks passed.** Added to the merge queue${where}; the queue's settings decide the merge method.`;
+    return { status: "queued", message: "Added to the merge queue.", report: body };
+  }
+
+  // method is always set when not queueing
+  const mergeMethod = method as MergeMethod;
+  try {
+    await client.rest.pulls.merge({
+      owner: ref.owner,
+      repo: ref.repo,
+      pull_number: ref.prNumber,
+      sha: expectedHeadSha,
+      merge_method: mergeMethod,
+      ...(mergeMethod === "rebase" ? {} : { commit_title: commitTitle, commit_message: commitBody }),
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    log.error(`${label} failed for #${ref.prNumber}: ${reason}`);
+    body += "### Merge\n\n";
+    body += `${label} failed due to a GitHub merge API error. Resolve merge blockers and retry.\n\n`;
+    return { status: "blocked", report: body, transient: true };
+  }
+
+  body += `**${hardPassed}/${hardCount} hard checks passed.** ${label} completed successfully.`;
+  return { status: "merged", message: `${label} completed.`, report: body };
+}
+
+/**
+ * Pick the merge method: the requested one if the repository allows it,
+ * otherwise the configured default, otherwise the first allowed method.
+ */
+function resolveMergeMethod(
+  trigger: string,
+  requested: MergeMethod | undefined,
+  preferred: MergeMethod,
+  repoSettings: Partial<Record<MergeSetting, boolean>> | undefined,
+): { success: true; method: MergeMethod } | { success: false; error: string } {
+  const isAllowed = (method: MergeMethod) => repoSettings?.[MERGE_METHOD_DETAILS[method].setting] === true;
+
+  if (requested) {
+    return isAllowed(requested)
+      ? { success: true, method: requested }
+      : {
+        success: false,
+        error: `${MERGE_METHOD_DETAILS[requested].label} is disabled for this repository. Enable it in repository settings before using ${trigger}.`,
+      };
+  }
+
+  const method = [preferred, ...MERGE_METHODS].find(isAllowed);
+  return method
+    ? { success: true, method }
+    : { success: false, error: "No merge method is enabled for this repository. Enable one in repository settings." };
+}
+
+/**
+ * Look up the PR's merge queue state. Returns null (logged) when the lookup
+ * fails, so the caller falls back to a direct merge — which GitHub rejects
+ * anyway if the branch does require the queue.
+ */
+async function findMergeQueueState(
+  client: GraphQLClient,
+  ref: PRRef,
+  log: MergeFlowLogger,
+): Promise<PRMergeQueueState | null> {
+  try {
+    return await getPRMergeQueueState(client, ref.owner, ref.repo, ref.prNumber);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    log.warn(`Merge queue lookup failed for #${ref.prNumber}; merging directly: ${reason}`);
+    return null;
+  }
+}
+
+function countHardChecks(preflight: PreflightResult): { passed: number; total: number } {
+  const hard = preflight.checks.filter((c) => c.severity === "hard");
+  return { passed: hard.filter((c) => c.passed).length, total: hard.length };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Report & Commit Message Helpers (shared with /preflight)
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Format a single preflight check item as a markdown line.
+ */
+export function formatCheckItem(check: PreflightCheckItem): string {
+  const icon = check.passed ? "[x]" : (check.severity === "advisory" ? "[!]" : "[ ]");
+  const severityTag = check.severity === "advisory" ? " *(advisory)*" : "";
+  return `- ${icon} **${check.name}**: ${check.detail}${severityTag}`;
+}
+
+/**
+ * Gather PR context for commit message generation.
+ * Collects title, body, and commit messages. Failures are logged and leave
+ * the fields empty — the generator still gets the PR number.
+ */
+export async function gatherPRContext(
+  client: Pick<MergeClient, "rest">,
+  ref: PRRef,
+  log: Pick<MergeFlowLogger, "error">,
+): Promise<PRContext> {
+  const prContext: PRContext = {
+    prNumber: ref.prNumber,
+    title: "",
+    body: "",
+    diffStat: "",
+    commitMessages: [],
+  };
+
+  try {
+    const pullData = await client.rest.pulls.get({
+      owner: ref.owner,
+      repo: ref.repo,
+      pull_number: ref.prNumber,
+    });
+    prContext.title = pullData.data.title;
+    prContext.body = pullData.data.body ?? "";
+
+    // Get commit messages
+    const commits = await client.rest.pulls.listCommits({
+      owner: ref.owner,
+      repo: ref.repo,
+      pull_number: ref.prNumber,
+      per_page: 100,
+    });
+    prContext.commitMessages = commits.data.map(c => c.commit.message.split("\n")[0]);
+  } catch (error) {
+    // Non-fatal — we still have the checklist
+    const reason = error instanceof Error ? error.message : String(error);
+    log.error(`Failed to gather full PR context for commit message: ${reason}`);
+  }
+
+  return prContext;
+}
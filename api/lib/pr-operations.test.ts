@@ -2,7 +2,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { PROperations, createPROperations } from "./pr-operations.js";
 import type { PRClient } from "./pr-operations.js";
 import type { PRRef } from "./types.js";
-import { buildNotificationComment, NOTIFICATION_TYPES } from "./bot-comments.js";
+import { buildAutoMergeComment, buildNotificationComment, NOTIFICATION_TYPES } from "./bot-comments.js";
 import { LABELS } from "../config.js";
 
 /**
@@ -229,12 +229,14 @@ describe("PROperations", () => {
               updated_at: "2024-01-15T10:30:00Z",
               user: { login: "test-author" },
               head: { sha: "abc123def456" },
+              base: { ref: "main" },
             },
           }),
           update: vi.fn().mockResolvedValue({}),
           listReviews: vi.fn().mockResolvedValue({ data: [] }),
           listCommits: vi.fn().mockResolvedValue({ data: [] }),
           listReviewComments: vi.fn().mockResolvedValue({ data: [] }),
+          listFiles: vi.fn().mockResolvedValue({ data: [] }),
         },
         issues: {
           get: vi.fn().mockResolvedValue({ data: { labels: [] } }),
@@ -249,6 +251,10 @@ describe("PROperations", () => {
         },
         repos: {
           getCombinedStatusForRef: vi.fn().mockResolvedValue({ data: { state: "pending", total_count: 0, statuses: [] } }),
+          getContent: vi.fn().mockRejectedValue(Object.assign(new Error("Not Found"), { status: 404 })),
+        },
+        teams: {
+          listMembersInOrg: vi.fn().mockResolvedValue({ data: [] }),
         },
       },
     } as unknown as PRClient;
@@ -268,6 +274,7 @@ describe("PROperations", () => {
         updatedAt: new Date("2024-01-15T10:30:00Z"),
         author: "test-author",
         headSha: "abc123def456",
+        baseRef: "main",
       });
       expect(mockClient.rest.pulls.get).toHaveBeenCalledWith({
         owner: "test-org",
@@ -285,6 +292,7 @@ describe("PROperations", () => {
           created_at: "2024-01-10T08:00:00Z",
           updated_at: "2024-01-15T10:30:00Z",
           user: null,
+          base: { ref: "main" },
           head: { sha: "abc123" },
         },
       });
@@ -303,6 +311,7 @@ describe("PROperations", () => {
           created_at: "2024-01-10T08:00:00Z",
           updated_at: "2024-01-15T10:30:00Z",
           user: { login: "author" },
+          base: { ref: "main" },
           head: { sha: "abc123" },
         },
       });
@@ -1226,4 +1235,127 @@ describe("PROperations", () => {
       expect(result).toBe(false);
     });
   });
+
+  describe("getAutoMergeState", () => {
+    it("should return the latest auto-merge metadata from this app", async () => {
+      vi.mocked(mockClient.rest.issues.listComments).mockResolvedValue({
+        data: [
+          {
+            id: 1,
+            body: buildAutoMergeComment("Pending", 42, { state: "pending", headSha: "sha-1", mergeAt: "2024-01-15T11:00:00Z" }),
+            performed_via_github_app: { id: testAppId },
+          },
+          { id: 2, body: "Looks good", performed_via_github_app: null },
+          {
+            id: 3,
+            body: buildAutoMergeComment("Cancelled", 42, { state: "cancelled", headSha: "sha-1", cancelledBy: "alice" }),
+            performed_via_github_app: { id: testAppId },
+          },
+        ],
+      });
+
+      const result = await prOps.getAutoMergeState(testRef);
+
+      expect(result).toMatchObject({ type: "auto-merge", state: "cancelled", cancelledBy: "alice" });
+    });
+
+    it("should ignore auto-merge comments from other apps", async () => {
+      vi.mocked(mockClient.rest.issues.listComments).mockResolvedValue({
+        data: [
+          {
+            id: 1,
+            body: buildAutoMergeComment("Cancelled", 42, { state: "cancelled", headSha: "sha-1" }),
+            performed_via_github_app: { id: 99999 },
+          },
+        ],
+      });
+
+      expect(await prOps.getAutoMergeState(testRef)).toBeNull();
+    });
+  });
+
+  describe("listChangedFiles", () => {
+    it("should paginate through all changed files", async () => {
+      const firstPage = Array.from({ length: 100 }, (_, i) => ({ filename: `src/file-${i}.ts` }));
+      vi.mocked(mockClient.rest.pulls.listFiles)
+        .mockResolvedValueOnce({ data: firstPage })
+        .mockResolvedValueOnce({ data: [{ filename: "README.md" }] });
+
+      const files = await prOps.listChangedFiles(testRef);
+
+      expect(files).toHaveLength(101);
+      expect(files[100]).toBe("README.md");
+      expect(mockClient.rest.pulls.listFiles).toHaveBeenCalledWith(
+        expect.objectContaining({ pull_number: 42, per_page: 100, page: 2 })
+      );
+    });
+  });
+
+  describe("getCodeOwners", () => {
+    const encode = (content: string) => Buffer.from(content).toString("base64");
+
+    it("should fall back through the CODEOWNERS locations", async () => {
+      vi.mocked(mockClient.rest.repos.getContent)
+        .mockRejectedValueOnce(Object.assign(new Error("Not Found"), { status: 404 }))
+        .mockResolvedValueOnce({ data: { type: "file", content: encode("* @Alice\n") } });
+
+      const rules = await prOps.getCodeOwners("test-org", "test-repo", "release");
+
+      expect(rules?.map(({ pattern, owners }) => ({ pattern, owners }))).toEqual([
+        { pattern: "*", owners: ["alice"] },
+      ]);
+      expect(vi.mocked(mockClient.rest.repos.getContent).mock.calls.map(([params]) => params.path)).toEqual([
+        ".github/CODEOWNERS",
+        "CODEOWNERS",
+      ]);
+      expect(mockClient.rest.repos.getContent).toHaveBeenCalledWith(expect.objectContaining({ ref: "release" }));
+    });
+
+    it("should return null when the repository has no CODEOWNERS file", async () => {
+      expect(await prOps.getCodeOwners("test-org", "test-repo", "release")).toBeNull();
+      expect(mockClient.rest.repos.getContent).toHaveBeenCalledTimes(3);
+    });
+
+    it("should rethrow errors other than not found", async () => {
+      vi.mocked(mockClient.rest.repos.getContent).mockRejectedValueOnce(
+        Object.assign(new Error("Server Error"), { status: 500 })
+      );
+
+      await expect(prOps.getCodeOwners("test-org", "test-repo", "release")).rejects.toThrow("Server Error");
+    });
+  });
+
+  describe("getTeamMembers", () => {
+    it("should paginate and lowercase member logins", async () => {
+      const firstPage = Array.from({ length: 100 }, (_, i) => ({ login: `User-${i}` }));
+      vi.mocked(mockClient.rest.teams.listMembersInOrg)
+        .mockResolvedValueOnce({ data: firstPage })
+        .mockResolvedValueOnce({ data: [{ login: "Carol" }] });
+
+      const members = await prOps.getTeamMembers("test-org", "docs");
+
+      expect(members).toHaveLength(101);
+      expect(members?.[0]).toBe("user-0");
+      expect(members?.[100]).toBe("carol");
+      expect(mockClient.rest.teams.listMembersInOrg).toHaveBeenCalledWith(
+        expect.objectContaining({ org: "test-org", team_slug: "docs", per_page: 100, page: 2 })
+      );
+    });
+
+    it("should return null when the team can't be read", async () => {
+      vi.mocked(mockClient.rest.teams.listMembersInOrg).mockRejectedValueOnce(
+        Object.assign(new Error("Resource not accessible by integration"), { status: 403 })
+      );
+
+      expect(await prOps.getTeamMembers("test-org", "docs")).toBeNull();
+    });
+
+    it("should rethrow other errors", async () => {
+      vi.mocked(mockClient.rest.teams.listMembersInOrg).mockRejectedValueOnce(
+        Object.assign(new Error("Server Error"), { status: 500 })
+      );
+
+      await expect(prOps.getTeamMembers("test-org", "docs")).rejects.toThrow("Server Error");
+    });
+  });
 });
@@ -7,7 +7,10 @@
 
 import type { PRRef } from "./types.js";
 import { validateClient, PR_CLIENT_CHECKS } from "./client-validation.js";
-import { isNotificationComment } from "./bot-comments.js";
+import { isNotificationComment, parseMetadata } from "./bot-comments.js";
+import type { AutoMergeMetadata } from "./bot-comments.js";
+import { CODEOWNERS_PATHS, parseCodeOwners } from "./codeowners.js";
+import type { CodeOwnersRule } from "./codeowners.js";
 import { LABELS, isLabelMatch, getLabelQueryAliases } from "../config.js";
 
 /**
@@ -30,6 +33,7 @@ export interface PRClient {
           updated_at: string;
           user: { login: string } | null;
           head: { sha: string };
+          base: { ref: string };
           mergeable: boolean | null;
         };
       }>;
@@ -80,6 +84,18 @@ export interface PRClient {
           created_at: string;
         }>;
       }>;
+
+      listFiles: (params: {
+        owner: string;
+        repo: string;
+        pull_number: number;
+        per_page?: number;
+        page?: number;
+      }) => Promise<{
+        data: Array<{
+          filename: string;
+        }>;
+      }>;
     };
     issues: {
       get: (params: {
@@ -156,6 +172,7 @@ export interface PRClient {
           total_count: number;
           check_runs: Array<{
             id: number;
+            name: string;
             status: string;
             conclusion: string | null;
           }>;
@@ -167,6 +184,7 @@ export interface PRClient {
         owner: string;
         repo: string;
         ref: string;
+        per_page?: number;
       }) => Promise<{
         data: {
           state: string;
@@ -177,6 +195,27 @@ export interface PRClient {
           }>;
         };
       }>;
+
+      getContent: (params: {
+        owner: string;
+        repo: string;
+        path: string;
+        ref?: string;
+      }) => Promise<{
+        data: unknown;
+      }>;
+    };
+    teams: {
+      listMembersInOrg: (params: {
+        org: string;
+        team_slug: string;
+        per_page?: number;
+        page?: number;
+      }) => Promise<{
+        data: Array<{
+          login: string;
+        }>;
+      }>;
     };
   };
 }
@@ -236,6 +275,7 @@ export class PROperations {
     updatedAt: Date;
     author: string;
     headSha: string;
+    baseRef: string;
     mergeable: boolean | null;
   }> {
     const { data } = await this.client.rest.pulls.get({
@@ -252,6 +292,7 @@ export class PROperations {
       updatedAt: new Date(data.updated_at),
       author: data.user?.login ?? "unknown",
       headSha: data.head.sha,
+      baseRef: data.base.ref,
       mergeable: data.mergeable,
     };
   }
@@ -568,7 +609,7 @@ export class PROperations {
     ref: string
   ): Promise<{
     totalCount: number;
-    checkRuns: Array<{ id: number; status: string; conclusion: string | null }>;
+    checkRuns: Array<{ id: number; name: string; status: string; conclusion: string | null }>;
   }> {
     const { data } = await this.client.rest.checks.listForRef({
       owner,
@@ -582,6 +623,7 @@ export class PROperations {
   /**
    * Get combined commit status for a given ref (SHA, branch, or tag).
    * Uses the legacy Status API for CI tools that don't use Check Runs.
+   * `state` covers every status; `statuses` holds at most the first 100.
    */
   async getCombinedStatus(
     owner: string,
@@ -590,13 +632,108 @@ export class PROperations {
   ): Promise<{
     state: string;
     totalCount: number;
+    statuses: Array<{ context: string; state: string }>;
   }> {
     const { data } = await this.client.rest.repos.getCombinedStatusForRef({
       owner,
       repo,
       ref,
+      per_page: 100,
     });
-    return { state: data.state, totalCount: data.total_count };
+    return {
+      state: data.state,
+      totalCount: data.total_count,
+      statuses: data.statuses.map(({ context, state }) => ({ context, state })),
+    };
+  }
+
+  /**
+   * List the paths of all files changed by a PR.
+   * Uses pagination; GitHub returns at most 3000 files.
+   */
+  async listChangedFiles(ref: PRRef): Promise<string[]> {
+    const files: string[] = [];
+    let page = 1;
+    const perPage = 100;
+
+    while (true) {
+      const { data } = await this.client.rest.pulls.listFiles({
+        owner: ref.owner,
+        repo: ref.repo,
+        pull_number: ref.prNumber,
+        per_page: perPage,
+        page,
+      });
+
+      files.push(...data.map((file) => file.filename));
+
+      if (data.length < perPage) break;
+      page++;
+    }
+
+    return files;
+  }
+
+  /**
+   * Load and parse the repository's CODEOWNERS file as of `ref` (a PR's base
+   * branch, whose file GitHub enforces). Returns null when there is none.
+   */
+  async getCodeOwners(owner: string, repo: string, ref: string): Promise<CodeOwnersRule[] | null> {
+    for (const path of CODEOWNERS_PATHS) {
+      let data: unknown;
+      try {
+        ({ data } = await this.client.rest.repos.getContent({ owner, repo, path, ref }));
+      } catch (error) {
+        if ((error as { status?: number }).status === 404) {
+          continue;
+        }
+        throw error;
+      }
+
+      const file = data as { type?: string; content?: string };
+      if (typeof file !== "object" || file === null || Array.isArray(file) || file.type !== "file") {
+        continue;
+      }
+      return parseCodeOwners(Buffer.from(file.content ?? "", "base64").toString("utf-8"));
+    }
+
+    return null;
+  }
+
+  /**
+   * List the lowercased logins of an organization team's members, including
+   * members of child teams. Returns null when the team can't be read, e.g.
+   * because the app lacks the organization Members: Read permission.
+   */
+  async getTeamMembers(org: string, teamSlug: string): Promise<string[] | null> {
+    const members: string[] = [];
+    let page = 1;
+    const perPage = 100;
+
+    while (true) {
+      let data: Array<{ login: string }>;
+      try {
+        ({ data } = await this.client.rest.teams.listMembersInOrg({
+          org,
+          team_slug: teamSlug,
+          per_page: perPage,
+          page,
+        }));
+      } catch (error) {
+        const status = (error as { status?: number }).status;
+        if (status === 403 || status === 404) {
+          return null;
+        }
+        throw error;
+      }
+
+      members.push(...data.map((member) => member.login.toLowerCase()));
+
+      if (data.length < perPage) break;
+      page++;
+    }
+
+    return members;
   }
 
   /**
@@ -767,4 +904,42 @@ export class PROperations {
 
     return false;
   }
+
+  /**
+   * Get the PR's current auto-merge state: the metadata of the latest
+   * auto-merge comment from this app, or null if there is none.
+   */
+  async getAutoMergeState(ref: PRRef): Promise<AutoMergeMetadata | null> {
+    let latest: AutoMergeMetadata | null = null;
+    let page = 1;
+    const perPage = 100;
+
+    while (true) {
+      const { data: comments } = await this.client.rest.issues.listComments({
+        owner: ref.owner,
+        repo: ref.repo,
+        issue_number: ref.prNumber,
+        per_page: perPage,
+        page,
+      });
+
+      if (comments.length === 0) break;
+
+      // Comments are returned oldest first
+      for (const comment of comments) {
+        if (comment.performed_via_github_app?.id !== this.appId) {
+          continue;
+        }
+        const metadata = parseMetadata(comment.body);
+        if (metadata?.type === "auto-merge") {
+          latest = metadata;
+        }
+      }
+
+      if (comments.length < perPage) break;
+      page++;
+    }
+
+    return latest;
+  }
 }
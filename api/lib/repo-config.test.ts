@@ -1,5 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { loadRepositoryConfig, getDefaultConfig } from "./repo-config.js";
+import {
+  loadRepositoryConfig,
+  getDefaultConfig,
+  getExpectedRoles,
+  getRoleMembers,
+  findGovernanceProfile,
+  resolveProposalsConfig,
+  getCommandPermission,
+  DEFAULT_COMMAND_PERMISSION,
+  DEFAULT_HEALTH_RULES,
+} from "./repo-config.js";
 import {
   CONFIG_BOUNDS,
   MAX_PRS_PER_ISSUE,
@@ -647,6 +657,37 @@ governance:
         expect(getAutoVotingExit(config.governance.proposals.voting.exits[1]).requires).toBe("majority");
       });
 
+      it("should parse requires: { ratio } and clamp to bounds", async () => {
+        const configYaml = `
+governance:
+  proposals:
+    voting:
+      exits:
+        - type: auto
+          afterMinutes: 15
+          requires:
+            ratio: 0.66
+        - type: auto
+          afterMinutes: 30
+          requires:
+            ratio: 0.2
+        - type: auto
+          afterMinutes: 60
+          requires:
+            ratio: high
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        const [first, second, third] = config.governance.proposals.voting.exits.map(getAutoVotingExit);
+
+        expect(first.requires).toEqual({ ratio: 0.66 });
+        expect(second.requires).toEqual({ ratio: CONFIG_BOUNDS.voting.ratio.min });
+        expect(third.requires).toBe("majority");
+      });
+
       it("should default missing requires to majority", async () => {
         const configYaml = `
 governance:
@@ -2052,6 +2093,269 @@ governance:
         expect(config.governance.pr.mergeReady).toBeNull();
       });
 
+      it("should enable autoMerge with no cool-down when set to true", async () => {
+        const configYaml = `
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      autoMerge: true
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady).toEqual({ minApprovals: 1, autoMerge: { cooldownMs: 0 } });
+      });
+
+      it("should parse autoMerge cooldownMinutes", async () => {
+        const configYaml = `
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      autoMerge:
+        cooldownMinutes: 30
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady?.autoMerge).toEqual({ cooldownMs: 30 * 60 * 1000 });
+      });
+
+      it("should clamp autoMerge cooldownMinutes to bounds", async () => {
+        const configYaml = `
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      autoMerge:
+        cooldownMinutes: 999999
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady?.autoMerge).toEqual({ cooldownMs: 7 * 24 * 60 * 60 * 1000 });
+      });
+
+      it("should leave autoMerge off when disabled", async () => {
+        const configYaml = `
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      autoMerge:
+        enabled: false
+        cooldownMinutes: 30
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady).toEqual({ minApprovals: 1 });
+      });
+
+      it("should disable autoMerge when the value is invalid", async () => {
+        const configYaml = `
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      autoMerge: "yes"
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady).toEqual({ minApprovals: 1 });
+      });
+
+      it("should parse requiredReviews rules with role references", async () => {
+        const configYaml = `
+team:
+  roles:
+    guard:
+      description: Protector
+  members:
+    hivemoot-guard: guard
+    Guard-Two: guard
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      requiredReviews:
+        - from: [role:guard]
+        - from: [role:guard, bob]
+          minApprovals: 2
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady?.requiredReviews).toEqual([
+          { from: ["role:guard"], reviewers: ["hivemoot-guard", "guard-two"], minApprovals: 1 },
+          { from: ["role:guard", "bob"], reviewers: ["hivemoot-guard", "guard-two", "bob"], minApprovals: 2 },
+        ]);
+      });
+
+      it("should accept a single from entry and clamp minApprovals to its reviewers", async () => {
+        const configYaml = `
+team:
+  roles:
+    guard:
+      description: Protector
+  members:
+    hivemoot-guard: guard
+    Guard-Two: guard
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      requiredReviews:
+        - from: role:guard
+          minApprovals: 5
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady?.requiredReviews).toEqual([
+          { from: ["role:guard"], reviewers: ["hivemoot-guard", "guard-two"], minApprovals: 2 },
+        ]);
+      });
+
+      it("should keep requiredReviews rules that match no reviewers as unsatisfiable", async () => {
+        const configYaml = `
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      requiredReviews:
+        - from: [role:security]
+          minApprovals: 2
+        - "guard"
+        - from: []
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady?.requiredReviews).toEqual([
+          { from: ["role:security"], reviewers: [], minApprovals: 1 },
+        ]);
+      });
+
+      it("should ignore requiredReviews when it is not an array", async () => {
+        const configYaml = `
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      requiredReviews:
+        from: [bob]
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady).toEqual({ minApprovals: 1 });
+      });
+
+      it("should parse requireCodeOwners", async () => {
+        const configYaml = `
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      requireCodeOwners: true
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady).toEqual({ minApprovals: 1, requireCodeOwners: true });
+      });
+
+      it("should ignore an invalid requireCodeOwners value", async () => {
+        const configYaml = `
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      requireCodeOwners: "yes"
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady).toEqual({ minApprovals: 1 });
+      });
+
+      it("should parse requiredChecks and ignoredChecks", async () => {
+        const configYaml = `
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      requiredChecks: ["build*", " test ", "build*"]
+      ignoredChecks: [CodeQL, "", 42]
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady).toEqual({
+          minApprovals: 1,
+          requiredChecks: ["build*", "test"],
+          ignoredChecks: ["CodeQL"],
+        });
+      });
+
+      it("should ignore check patterns that are not arrays", async () => {
+        const configYaml = `
+governance:
+  pr:
+    trustedReviewers:
+      - alice
+    mergeReady:
+      requiredChecks: build
+      ignoredChecks:
+        codeql: true
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeReady).toEqual({ minApprovals: 1 });
+      });
+
       it("should default minApprovals when value is not a number", async () => {
         const configYaml = `
 governance:
@@ -2074,5 +2378,715 @@ governance:
         expect(defaults.governance.pr.mergeReady).toBeNull();
       });
     });
+
+    describe("mergeMethod parsing", () => {
+      it("should default to squash", async () => {
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64("governance:\n  pr:\n    staleDays: 5\n"), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeMethod).toBe("squash");
+        expect(getDefaultConfig().governance.pr.mergeMethod).toBe("squash");
+      });
+
+      it("should accept a known method case-insensitively", async () => {
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64("governance:\n  pr:\n    mergeMethod: Rebase\n"), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeMethod).toBe("rebase");
+      });
+
+      it("should fall back to squash for unknown methods", async () => {
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64("governance:\n  pr:\n    mergeMethod: octopus\n"), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.mergeMethod).toBe("squash");
+      });
+    });
+
+    describe("voting weights parsing", () => {
+      it("should default to empty weights when not configured", async () => {
+        const configYaml = `
+governance:
+  proposals:
+    voting:
+      exits:
+        - type: manual
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.proposals.voting.weights).toEqual({});
+        expect(getDefaultConfig().governance.proposals.voting.weights).toEqual({});
+      });
+
+      it("should parse, normalize, and clamp per-voter weights", async () => {
+        const configYaml = `
+governance:
+  proposals:
+    voting:
+      weights:
+        "@Hivemoot-Guard": 2
+        alice: 2.6
+        bob: 0
+        carol: 99
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.proposals.voting.weights).toEqual({
+          "hivemoot-guard": 2,
+          alice: 3,
+          bob: 0,
+          carol: CONFIG_BOUNDS.voting.weight.max,
+        });
+      });
+
+      it("should skip invalid usernames and non-numeric weights", async () => {
+        const configYaml = `
+governance:
+  proposals:
+    voting:
+      weights:
+        "not a user": 2
+        alice: heavy
+        bob: 3
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.proposals.voting.weights).toEqual({ bob: 3 });
+      });
+
+      it("should ignore weights that are not a mapping", async () => {
+        const configYaml = `
+governance:
+  proposals:
+    voting:
+      weights:
+        - alice
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.proposals.voting.weights).toEqual({});
+      });
+    });
+
+    describe("commands parsing", () => {
+      async function loadCommands(configYaml: string) {
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+        return loadRepositoryConfig(octokit, "owner", "repo");
+      }
+
+      it("should default every verb to admin/maintain/write when commands is missing", async () => {
+        const config = await loadCommands("version: 1\n");
+
+        expect(config.commands).toEqual({});
+        expect(getCommandPermission(config, "squash")).toEqual(DEFAULT_COMMAND_PERMISSION);
+      });
+
+      it("should parse per-verb permission levels, users, and role references", async () => {
+        const config = await loadCommands(`
+team:
+  roles:
+    reviewer:
+      description: Reviews PRs
+  members:
+    carol: reviewer
+commands:
+  Preflight:
+    permissions: [admin, maintain, write, triage]
+    users: ["@Alice", "role:reviewer"]
+  squash:
+    permissions: [admin, maintain]
+`);
+
+        expect(getCommandPermission(config, "preflight")).toEqual({
+          permissions: ["admin", "maintain", "write", "triage"],
+          users: ["alice", "carol"],
+        });
+        expect(getCommandPermission(config, "squash")).toEqual({ permissions: ["admin", "maintain"], users: [] });
+        expect(getCommandPermission(config, "vote")).toEqual(DEFAULT_COMMAND_PERMISSION);
+      });
+
+      it("should admit trusted reviewers when trustedReviewers is true", async () => {
+        const config = await loadCommands(`
+governance:
+  pr:
+    trustedReviewers: [alice, bob]
+commands:
+  gather:
+    users: [bob, dave]
+    trustedReviewers: true
+`);
+
+        expect(getCommandPermission(config, "gather")).toEqual({
+          permissions: DEFAULT_COMMAND_PERMISSION.permissions,
+          users: ["bob", "dave", "alice"],
+        });
+      });
+
+      it("should allow an empty permissions list to restrict a verb to listed users", async () => {
+        const config = await loadCommands(`
+commands:
+  squash:
+    permissions: []
+    users: [alice]
+`);
+
+        expect(getCommandPermission(config, "squash")).toEqual({ permissions: [], users: ["alice"] });
+      });
+
+      it("should skip invalid permission levels and fall back on invalid entries", async () => {
+        const config = await loadCommands(`
+commands:
+  vote:
+    permissions: [admin, owner, 3]
+  implement: everyone
+  squash:
+    permissions: admin
+    trustedReviewers: "yes"
+`);
+
+        expect(getCommandPermission(config, "vote")).toEqual({ permissions: ["admin"], users: [] });
+        expect(getCommandPermission(config, "implement")).toEqual(DEFAULT_COMMAND_PERMISSION);
+        expect(getCommandPermission(config, "squash")).toEqual(DEFAULT_COMMAND_PERMISSION);
+      });
+
+      it("should ignore a non-object commands config", async () => {
+        const config = await loadCommands("commands: [vote]\n");
+
+        expect(config.commands).toEqual({});
+      });
+    });
+
+    describe("standup health rules parsing", () => {
+      async function loadHealthRules(rulesYaml: string) {
+        const configYaml = `standup:\n  enabled: true\n  category: Colony Reports\n${rulesYaml}`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+        return (await loadRepositoryConfig(octokit, "owner", "repo")).standup.healthRules;
+      }
+
+      it("should default to the built-in rules", async () => {
+        expect(await loadHealthRules("")).toEqual(DEFAULT_HEALTH_RULES);
+        expect(getDefaultConfig().standup.healthRules).toEqual(DEFAULT_HEALTH_RULES);
+      });
+
+      it("should override thresholds and severities, and disable rules", async () => {
+        const rules = await loadHealthRules(`  healthRules:
+    stuckDiscussion: { threshold: 3, severity: Critical }
+    readyBacklog: false
+    stalePRs: { enabled: false }
+    mergeReadyUnmerged: true
+`);
+
+        expect(rules.stuckDiscussion).toEqual({ enabled: true, threshold: 3, severity: "critical" });
+        expect(rules.readyBacklog.enabled).toBe(false);
+        expect(rules.stalePRs.enabled).toBe(false);
+        expect(rules.mergeReadyUnmerged).toEqual(DEFAULT_HEALTH_RULES.mergeReadyUnmerged);
+        expect(rules.quorumMissed).toEqual(DEFAULT_HEALTH_RULES.quorumMissed);
+      });
+
+      it("should clamp thresholds and ignore invalid entries", async () => {
+        const rules = await loadHealthRules(`  healthRules:
+    stuckNeedsHuman: { threshold: 1000, severity: urgent }
+    quorumMissed: 5
+    noSuchRule: { threshold: 1 }
+`);
+
+        expect(rules.stuckNeedsHuman).toEqual({ enabled: true, threshold: 365, severity: "critical" });
+        expect(rules.quorumMissed).toEqual(DEFAULT_HEALTH_RULES.quorumMissed);
+        expect(rules).not.toHaveProperty("noSuchRule");
+      });
+    });
+
+    describe("standup targets parsing", () => {
+      async function loadStandup(standupYaml: string) {
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(`standup:\n  enabled: true\n${standupYaml}`), encoding: "base64" },
+        });
+        return (await loadRepositoryConfig(octokit, "owner", "repo")).standup;
+      }
+
+      it("should default to the discussion target", async () => {
+        const standup = await loadStandup("  category: Colony Reports\n");
+
+        expect(standup.targets).toEqual([{ type: "discussion" }]);
+        expect(getDefaultConfig().standup.targets).toEqual([]);
+      });
+
+      it("should parse each target type, applying file defaults", async () => {
+        const standup = await loadStandup(`  targets:
+    - issue
+    - type: file
+    - type: file
+      branch: reports
+      path: standups/latest.md
+    - type: webhook
+      url: https://example.com/hooks/standup
+`);
+
+        expect(standup.enabled).toBe(true);
+        expect(standup.category).toBe("");
+        expect(standup.targets).toEqual([
+          { type: "issue" },
+          { type: "file", branch: "colony-journal", path: "colony-journal/{date}.md" },
+          { type: "file", branch: "reports", path: "standups/latest.md" },
+          { type: "webhook", url: "https://example.com/hooks/standup" },
+        ]);
+      });
+
+      it("should skip invalid and duplicate targets", async () => {
+        const standup = await loadStandup(`  targets:
+    - issue
+    - Issue
+    - slack
+    - type: file
+      path: ../outside.md
+    - type: file
+      branch: "bad branch"
+    - type: webhook
+      url: http://example.com/hook
+    - type: webhook
+      url: not a url
+`);
+
+        expect(standup.targets).toEqual([{ type: "issue" }]);
+      });
+
+      it("should cap the number of targets", async () => {
+        const hooks = Array.from({ length: 7 }, (_, i) => `    - { type: webhook, url: "https://example.com/${i}" }`);
+        const standup = await loadStandup(`  targets:\n${hooks.join("\n")}\n`);
+
+        expect(standup.targets).toHaveLength(5);
+      });
+
+      it("should require a category only for the discussion target", async () => {
+        expect((await loadStandup("  targets: [discussion, issue]\n")).enabled).toBe(false);
+        expect((await loadStandup("  targets: [issue]\n")).enabled).toBe(true);
+      });
+
+      it("should disable standup when no target is valid", async () => {
+        const standup = await loadStandup("  category: Colony Reports\n  targets: [slack]\n");
+
+        expect(standup.enabled).toBe(false);
+        expect(standup.targets).toEqual([]);
+      });
+
+      it("should fall back to the discussion target when targets is not a list", async () => {
+        const standup = await loadStandup("  category: Colony Reports\n  targets: issue\n");
+
+        expect(standup.targets).toEqual([{ type: "discussion" }]);
+      });
+    });
+
+    describe("mentions parsing", () => {
+      async function loadMentions(configYaml: string) {
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+        return (await loadRepositoryConfig(octokit, "owner", "repo")).mentions;
+      }
+
+      it("should default to no aliases", async () => {
+        expect(await loadMentions("version: 1\n")).toEqual({ aliases: [] });
+      });
+
+      it("should normalize aliases and skip invalid or duplicate entries", async () => {
+        const mentions = await loadMentions(`
+mentions:
+  aliases: ["@Queen", queen, "not valid", 7, colony-bot]
+`);
+
+        expect(mentions).toEqual({ aliases: ["queen", "colony-bot"] });
+      });
+
+      it("should cap the number of aliases", async () => {
+        const aliases = Array.from({ length: 12 }, (_, i) => `alias-${i}`);
+        const mentions = await loadMentions(`mentions:\n  aliases: [${aliases.join(", ")}]\n`);
+
+        expect(mentions.aliases).toHaveLength(10);
+        expect(mentions.aliases[0]).toBe("alias-0");
+      });
+
+      it("should ignore malformed mentions config", async () => {
+        expect(await loadMentions("mentions: [queen]\n")).toEqual({ aliases: [] });
+        expect(await loadMentions("mentions:\n  aliases: queen\n")).toEqual({ aliases: [] });
+      });
+    });
+
+    describe("team parsing", () => {
+      const teamYaml = `
+team:
+  name: colony
+  onboarding: Read the README.
+  roles:
+    guard:
+      description: "Protector"
+      instructions: |
+        Block unsafe merges.
+    Scout:
+      description: "User champion"
+  members:
+    "@Hivemoot-Guard": guard
+    alice: guard
+    hivemoot-scout: scout
+    bob: wizard
+`;
+
+      it("should default to an empty team", () => {
+        expect(getDefaultConfig().team).toEqual({ name: "", onboarding: "", roles: {}, members: {} });
+      });
+
+      it("should parse name, onboarding, roles, and members", async () => {
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(teamYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.team).toEqual({
+          name: "colony",
+          onboarding: "Read the README.",
+          roles: {
+            guard: { description: "Protector", instructions: "Block unsafe merges." },
+            scout: { description: "User champion", instructions: "" },
+          },
+          // bob references an undeclared role and is skipped
+          members: { "hivemoot-guard": "guard", alice: "guard", "hivemoot-scout": "scout" },
+        });
+        expect(getRoleMembers(config.team, "guard")).toEqual(["hivemoot-guard", "alice"]);
+      });
+
+      it("should ignore a non-object team", async () => {
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64("team: colony\n"), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.team).toEqual(getDefaultConfig().team);
+      });
+
+      it("should expand role references in requiredVoters and trustedReviewers", async () => {
+        const configYaml = `${teamYaml}
+governance:
+  proposals:
+    voting:
+      exits:
+        - type: auto
+          afterMinutes: 60
+          requiredVoters:
+            - role:guard
+            - carol
+  pr:
+    trustedReviewers:
+      - role:scout
+      - role:guard
+      - alice
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        const exit = getAutoVotingExit(config.governance.proposals.voting.exits[0]);
+        expect(exit.requiredVoters).toEqual({
+          minCount: 3,
+          voters: ["hivemoot-guard", "alice", "carol"],
+        });
+        expect(config.governance.pr.trustedReviewers).toEqual(["hivemoot-scout", "hivemoot-guard", "alice"]);
+      });
+
+      it("should skip unknown role references", async () => {
+        const configYaml = `${teamYaml}
+governance:
+  pr:
+    trustedReviewers:
+      - role:wizard
+      - alice
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.pr.trustedReviewers).toEqual(["alice"]);
+      });
+
+      it("should apply role weights with username weights taking precedence", async () => {
+        const configYaml = `${teamYaml}
+governance:
+  proposals:
+    voting:
+      weights:
+        alice: 1
+        role:guard: 3
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(config.governance.proposals.voting.weights).toEqual({ alice: 1, "hivemoot-guard": 3 });
+      });
+
+      it("should report roles of required participants as expected to weigh in", async () => {
+        const configYaml = `${teamYaml}
+governance:
+  proposals:
+    discussion:
+      exits:
+        - type: auto
+          afterMinutes: 60
+          requiredReady:
+            - hivemoot-scout
+    voting:
+      exits:
+        - type: auto
+          afterMinutes: 60
+          requiredVoters:
+            - role:guard
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(getExpectedRoles(config)).toEqual([
+          { name: "guard", description: "Protector" },
+          { name: "scout", description: "User champion" },
+        ]);
+        expect(getExpectedRoles(getDefaultConfig())).toEqual([]);
+      });
+
+      it("should report the roles a governance profile expects", async () => {
+        const configYaml = `${teamYaml}
+governance:
+  profiles:
+    - name: security
+      labels: [security]
+      proposals:
+        voting:
+          exits:
+            - type: auto
+              afterMinutes: 60
+              requiredVoters:
+                - role:guard
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        expect(getExpectedRoles(config)).toEqual([]);
+        expect(getExpectedRoles(config, resolveProposalsConfig(config, ["security"]))).toEqual([
+          { name: "guard", description: "Protector" },
+        ]);
+      });
+    });
+
+    describe("veto parsing", () => {
+      it("should omit veto when not configured", async () => {
+        const configYaml = `
+governance:
+  proposals:
+    voting:
+      exits:
+        - type: auto
+          afterMinutes: 60
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        const exit = getAutoVotingExit(config.governance.proposals.voting.exits[0]);
+        expect(exit.veto).toBeUndefined();
+      });
+
+      it("should parse array shorthand with rejected as the default outcome", async () => {
+        const configYaml = `
+team:
+  roles:
+    guard:
+      description: Protector
+  members:
+    hivemoot-guard: guard
+governance:
+  proposals:
+    voting:
+      exits:
+        - type: auto
+          afterMinutes: 60
+          veto:
+            - role:guard
+            - "@Alice"
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        const exit = getAutoVotingExit(config.governance.proposals.voting.exits[0]);
+        expect(exit.veto).toEqual({ voters: ["hivemoot-guard", "alice"], outcome: "rejected" });
+      });
+
+      it("should parse object format with needs-human-input outcome", async () => {
+        const configYaml = `
+governance:
+  proposals:
+    extendedVoting:
+      exits:
+        - type: auto
+          afterMinutes: 60
+          veto:
+            voters: [alice]
+            outcome: needs-human-input
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        const exit = getAutoVotingExit(config.governance.proposals.extendedVoting.exits[0]);
+        expect(exit.veto).toEqual({ voters: ["alice"], outcome: "needs-human-input" });
+      });
+
+      it("should default invalid outcomes and drop vetoes without voters", async () => {
+        const configYaml = `
+governance:
+  proposals:
+    voting:
+      exits:
+        - type: auto
+          afterMinutes: 30
+          veto:
+            voters: [alice]
+            outcome: ready-to-implement
+        - type: auto
+          afterMinutes: 60
+          veto:
+            voters: []
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        const [first, second] = config.governance.proposals.voting.exits.map(getAutoVotingExit);
+        expect(first.veto).toEqual({ voters: ["alice"], outcome: "rejected" });
+        expect(second.veto).toBeUndefined();
+      });
+    });
+
+    describe("governance profiles", () => {
+      it("should default to no profiles", () => {
+        const config = getDefaultConfig();
+        expect(config.governance.profiles).toEqual([]);
+      });
+
+      it("should parse profiles and inherit omitted phases from top-level proposals", async () => {
+        const configYaml = `
+governance:
+  proposals:
+    discussion:
+      exits:
+        - type: auto
+          afterMinutes: 60
+    voting:
+      exits:
+        - type: auto
+          afterMinutes: 1440
+      weights:
+        alice: 2
+  profiles:
+    - name: security
+      labels: [Security, breaking-change]
+      proposals:
+        voting:
+          exits:
+            - type: auto
+              afterMinutes: 4320
+              requires: unanimous
+    - labels: docs
+      proposals:
+        discussion:
+          exits:
+            - type: auto
+              afterMinutes: 15
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+        const [security, docs] = config.governance.profiles;
+
+        expect(security.name).toBe("security");
+        expect(security.labels).toEqual(["security", "breaking-change"]);
+        expect(security.proposals.voting.durationMs).toBe(4320 * 60 * 1000);
+        expect(getAutoVotingExit(security.proposals.voting.exits[0]).requires).toBe("unanimous");
+        expect(security.proposals.voting.weights).toEqual({ alice: 2 });
+        expect(security.proposals.discussion).toEqual(config.governance.proposals.discussion);
+
+        expect(docs.name).toBe("docs");
+        expect(docs.proposals.discussion.durationMs).toBe(15 * 60 * 1000);
+        expect(docs.proposals.voting).toEqual(config.governance.proposals.voting);
+      });
+
+      it("should skip invalid profiles and ignore a non-array value", async () => {
+        const configYaml = `
+governance:
+  profiles:
+    - name: no-labels
+    - "security"
+    - labels: [docs]
+      proposals: fast
+    - labels: [ok]
+`;
+        const octokit = createMockOctokit({
+          data: { type: "file", content: encodeBase64(configYaml), encoding: "base64" },
+        });
+
+        const config = await loadRepositoryConfig(octokit, "owner", "repo");
+
+        expect(config.governance.profiles.map((profile) => profile.name)).toEqual(["ok"]);
+
+        const invalid = createMockOctokit({
+          data: { type: "file", content: encodeBase64("governance:\n  profiles: security\n"), encoding: "base64" },
+        });
+        expect((await loadRepositoryConfig(invalid, "owner", "repo")).governance.profiles).toEqual([]);
+      });
+
+      it("should resolve the first profile matching an issue's labels", () => {
+        const config = getDefaultConfig();
+        const security = { name: "security", labels: ["security"], proposals: getDefaultConfig().governance.proposals };
+        const docs = { name: "docs", labels: ["docs"], proposals: getDefaultConfig().governance.proposals };
+        config.governance.profiles = [security, docs];
+
+        expect(findGovernanceProfile(config, [{ name: "Docs" }, { name: "security" }])).toBe(security);
+        expect(findGovernanceProfile(config, ["docs"])).toBe(docs);
+        expect(findGovernanceProfile(config, [{ name: "bug" }])).toBeUndefined();
+        expect(resolveProposalsConfig(config, ["docs"])).toBe(docs.proposals);
+        expect(resolveProposalsConfig(config, [])).toBe(config.governance.proposals);
+      });
+    });
   });
 });
@@ -26,7 +26,18 @@ export interface RequiredVotersConfig {
   voters: string[];
 }
 
-export type ExitRequires = "majority" | "unanimous";
+/**
+ * Per-voter vote weights, keyed by lowercased GitHub login.
+ * Voters not listed carry the default weight (1).
+ */
+export type VoteWeights = Record<string, number>;
+
+/** Approval ratio requirement: 👍 / (👍 + 👎) must reach `ratio`. */
+export interface RatioRequirement {
+  ratio: number;
+}
+
+export type ExitRequires = "majority" | "unanimous" | RatioRequirement;
 export type ExitType = "manual" | "auto";
 
 // ── Intake Method Types ─────────────────────────────────────────────────────
@@ -46,13 +57,189 @@ export type IntakeMethod = IntakeMethodUpdate | IntakeMethodApproval;
 
 export interface MergeReadyConfig {
   minApprovals: number;
+  /** Extra approval rules, each a hard preflight check. Omitted → none. */
+  requiredReviews?: RequiredReviewRule[];
+  /** Require a CODEOWNERS owner's approval for every changed file. Omitted → not required. */
+  requireCodeOwners?: boolean;
+  /** Check/status name globs that must report and pass; missing ones count as pending. */
+  requiredChecks?: string[];
+  /** Check/status name globs that never block merge-readiness (unless also required). */
+  ignoredChecks?: string[];
+  /** Merge automatically once merge-ready. Omitted → disabled. */
+  autoMerge?: AutoMergeConfig;
+}
+
+/**
+ * At least `minApprovals` approvals from `reviewers`
+ * (e.g. "one approval from the guard role").
+ */
+export interface RequiredReviewRule {
+  /** The rule's `from` entries as configured (logins and `role:` references), for reports. */
+  from: string[];
+  /**
+   * Lowercased logins (`role:` references already expanded). Empty when
+   * nobody matches, which leaves the rule unsatisfiable rather than dropped.
+   */
+  reviewers: string[];
+  minApprovals: number;
+}
+
+export interface AutoMergeConfig {
+  /** Wait after announcing the pending merge, giving time to `/cancel`. */
+  cooldownMs: number;
+}
+
+// ── Merge Method Config ─────────────────────────────────────────────────
+
+/**
+ * Merge methods the bot can use (GitHub's `merge_method` values).
+ */
+export const MERGE_METHODS = ["squash", "rebase", "merge"] as const;
+
+export type MergeMethod = (typeof MERGE_METHODS)[number];
+
+const DEFAULT_MERGE_METHOD: MergeMethod = "squash";
+
+// ── Team Config ─────────────────────────────────────────────────────────
+
+export interface TeamRole {
+  description: string;
+  instructions: string;
+}
+
+export interface TeamConfig {
+  name: string;
+  onboarding: string;
+  /** Role definitions keyed by lowercased role name, in declaration order. */
+  roles: Record<string, TeamRole>;
+  /** Team members: lowercased GitHub login → role name. */
+  members: Record<string, string>;
+}
+
+/** Prefix for role references in user lists (e.g. `role:guard`). */
+export const ROLE_REFERENCE_PREFIX = "role:";
+
+// ── Command Permissions ─────────────────────────────────────────────────
+
+/**
+ * Repository permission levels, as reported by the collaborator permission API.
+ * Highest first: each level includes the ones after it (admin ⊇ maintain ⊇
+ * write ⊇ triage ⊇ read).
+ */
+export const COMMAND_PERMISSION_LEVELS = ["admin", "maintain", "write", "triage", "read"] as const;
+export type CommandPermissionLevel = (typeof COMMAND_PERMISSION_LEVELS)[number];
+
+/**
+ * Who may run a command: anyone holding one of `permissions` (or a higher
+ * level) on the repo, plus the listed `users` regardless of their permission level.
+ */
+export interface CommandPermission {
+  permissions: CommandPermissionLevel[];
+  /** Lowercased logins (`role:` references and trusted reviewers already expanded). */
+  users: string[];
+}
+
+/** Applies to every verb without a `commands.<verb>` entry. */
+export const DEFAULT_COMMAND_PERMISSION: CommandPermission = {
+  permissions: ["admin", "maintain", "write"],
+  users: [],
+};
+
+// ── Mentions Config ─────────────────────────────────────────────────────
+
+export interface MentionsConfig {
+  /** Extra names (without @) the bot answers to in this repository. */
+  aliases: string[];
 }
 
 // ── Standup Config ──────────────────────────────────────────────────────
 
+export const HEALTH_SEVERITIES = ["info", "warning", "critical"] as const;
+
+export type HealthSeverity = (typeof HEALTH_SEVERITIES)[number];
+
+export const HEALTH_RULE_NAMES = [
+  "mergeReadyUnmerged",
+  "stalePRs",
+  "readyBacklog",
+  "readyWithoutPRs",
+  "stuckDiscussion",
+  "quorumMissed",
+  "stuckNeedsHuman",
+  "unreviewedCompetingPRs",
+] as const;
+
+export type HealthRuleName = (typeof HEALTH_RULE_NAMES)[number];
+
+/**
+ * A standup health rule: the signal is raised once `threshold` is reached.
+ * The threshold is a count or a number of days, depending on the rule.
+ */
+export interface HealthRule {
+  enabled: boolean;
+  threshold: number;
+  severity: HealthSeverity;
+}
+
+export type StandupHealthRules = Record<HealthRuleName, HealthRule>;
+
+/**
+ * Built-in health rules. Thresholds:
+ * - mergeReadyUnmerged, stalePRs: PRs in that state
+ * - readyBacklog: ready-to-implement issues
+ * - readyWithoutPRs: ready-to-implement issues while no implementation PR is open
+ * - stuckDiscussion, stuckNeedsHuman: days an issue has held the label
+ * - quorumMissed: voting rounds that missed quorum or required voters in the last 7 days
+ * - unreviewedCompetingPRs: competing implementation PRs without any review
+ */
+export const DEFAULT_HEALTH_RULES: Readonly<StandupHealthRules> = {
+  mergeReadyUnmerged: { enabled: true, threshold: 1, severity: "warning" },
+  stalePRs: { enabled: true, threshold: 1, severity: "warning" },
+  readyBacklog: { enabled: true, threshold: 6, severity: "info" },
+  readyWithoutPRs: { enabled: true, threshold: 1, severity: "warning" },
+  stuckDiscussion: { enabled: true, threshold: 7, severity: "warning" },
+  quorumMissed: { enabled: true, threshold: 2, severity: "warning" },
+  stuckNeedsHuman: { enabled: true, threshold: 3, severity: "critical" },
+  unreviewedCompetingPRs: { enabled: true, threshold: 1, severity: "warning" },
+};
+
+export const STANDUP_TARGET_TYPES = ["discussion", "issue", "file", "webhook"] as const;
+
+export type StandupTargetType = (typeof STANDUP_TARGET_TYPES)[number];
+
+/**
+ * Where standup reports are delivered:
+ * - discussion: a comment on the locked Colony Journal discussion (needs `category`)
+ * - issue: a comment on a pinned, locked Colony Journal tracking issue
+ * - file: a markdown file committed to `branch`; `{date}` in `path` becomes the report date
+ * - webhook: a JSON POST to an https URL
+ */
+export type StandupTarget =
+  | { type: "discussion" }
+  | { type: "issue" }
+  | { type: "file"; branch: string; path: string }
+  | { type: "webhook"; url: string };
+
+export const DEFAULT_STANDUP_FILE_BRANCH = "colony-journal";
+export const DEFAULT_STANDUP_FILE_PATH = "colony-journal/{date}.md";
+
 export interface StandupConfig {
   enabled: boolean;
+  /** Discussion category for the discussion target; empty when unused. */
   category: string;
+  healthRules: StandupHealthRules;
+  targets: StandupTarget[];
+}
+
+export type VetoOutcome = "rejected" | "needs-human-input";
+
+/**
+ * Veto power on a voting exit: a valid 👎 from any listed voter forces
+ * `outcome` regardless of the tally.
+ */
+export interface VetoConfig {
+  voters: string[];
+  outcome: VetoOutcome;
 }
 
 export interface VotingAutoExit {
@@ -61,6 +248,8 @@ export interface VotingAutoExit {
   requires: ExitRequires;
   minVoters: number;
   requiredVoters: RequiredVotersConfig;
+  /** Present only when the exit configures veto voters. */
+  veto?: VetoConfig;
 }
 
 export interface VotingManualExit {
@@ -95,70 +284,201 @@ export function isAutoDiscussionExit(exit: DiscussionExit): exit is DiscussionAu
   return exit.type === "auto";
 }
 
+export function isRatioRequirement(requires: ExitRequires | undefined): requires is RatioRequirement {
+  return typeof requires === "object" && requires !== null;
+}
+
+/**
+ * Human-readable form of an exit requirement (e.g. "majority", "ratio 0.66").
+ */
+export function describeExitRequires(requires: ExitRequires): string {
+  return isRatioRequirement(requires) ? `ratio ${requires.ratio}` : requires;
+}
+
+/**
+ * Get the logins of all team members holding the given role.
+ */
+export function getRoleMembers(team: TeamConfig, role: string): string[] {
+  const roleName = role.toLowerCase();
+  return Object.entries(team.members)
+    .filter(([, memberRole]) => memberRole === roleName)
+    .map(([login]) => login);
+}
+
+/**
+ * Get who may run a command verb (falls back to DEFAULT_COMMAND_PERMISSION).
+ */
+export function getCommandPermission(config: EffectiveConfig, verb: string): CommandPermission {
+  const verbKey = verb.toLowerCase();
+  return Object.hasOwn(config.commands, verbKey) ? config.commands[verbKey] : DEFAULT_COMMAND_PERMISSION;
+}
+
+/**
+ * Get the team roles expected to weigh in on proposals.
+ *
+ * A role is expected when at least one of its members is listed in
+ * `requiredReady` (discussion) or `requiredVoters` (voting) of an auto exit
+ * in `proposals` — pass an issue's resolved settings (see
+ * resolveProposalsConfig) to honor its governance profile.
+ * Roles are returned in team declaration order.
+ */
+export function getExpectedRoles(
+  config: EffectiveConfig,
+  proposals: ProposalsConfig = config.governance.proposals
+): Array<{ name: string; description: string }> {
+  const { team } = config;
+  const { discussion, voting } = proposals;
+  const requiredLogins = new Set([
+    ...discussion.exits.filter(isAutoDiscussionExit).flatMap((exit) => exit.requiredReady.users),
+    ...voting.exits.filter(isAutoVotingExit).flatMap((exit) => exit.requiredVoters.voters),
+  ]);
+
+  const expected = new Set<string>();
+  for (const login of requiredLogins) {
+    const role = team.members[login];
+    if (role) {
+      expected.add(role);
+    }
+  }
+
+  return Object.entries(team.roles)
+    .filter(([name]) => expected.has(name))
+    .map(([name, role]) => ({ name, description: role.description }));
+}
+
+/**
+ * Find the first governance profile matching any of an issue's labels.
+ * Label comparison is case-insensitive.
+ */
+export function findGovernanceProfile(
+  config: EffectiveConfig,
+  labels: ReadonlyArray<string | { name: string }>
+): GovernanceProfile | undefined {
+  const names = new Set(labels.map((label) => (typeof label === "string" ? label : label.name).toLowerCase()));
+  return config.governance.profiles.find((profile) => profile.labels.some((label) => names.has(label)));
+}
+
+/**
+ * Resolve the proposal settings that govern an issue: its matching
+ * profile's, or the top-level `proposals` when no profile matches.
+ */
+export function resolveProposalsConfig(
+  config: EffectiveConfig,
+  labels: ReadonlyArray<string | { name: string }>
+): ProposalsConfig {
+  return findGovernanceProfile(config, labels)?.proposals ?? config.governance.proposals;
+}
+
+/**
+ * Schema for a `proposals` block (top-level or inside a profile).
+ */
+interface RepoProposalsConfigFile {
+  discussion?: {
+    exits?: unknown[];
+  };
+  voting?: {
+    exits?: unknown[];
+    weights?: unknown;
+  };
+  extendedVoting?: {
+    exits?: unknown[];
+  };
+}
+
 /**
  * Schema for .github/hivemoot.yml config file.
  */
 export interface RepoConfigFile {
   version?: number;
+  team?: {
+    name?: string;
+    onboarding?: string;
+    roles?: unknown;
+    members?: unknown;
+  };
   governance?: {
-    proposals?: {
-      discussion?: {
-        exits?: unknown[];
-      };
-      voting?: {
-        exits?: unknown[];
-      };
-      extendedVoting?: {
-        exits?: unknown[];
-      };
-    };
+    proposals?: RepoProposalsConfigFile;
+    profiles?: unknown;
     pr?: {
       staleDays?: number;
       maxPRsPerIssue?: number;
       trustedReviewers?: unknown;
       intake?: unknown;
       mergeReady?: unknown;
+      mergeMethod?: unknown;
     };
   };
   standup?: {
     enabled?: boolean;
     category?: string;
+    healthRules?: unknown;
+    targets?: unknown;
+  };
+  commands?: unknown;
+  mentions?: {
+    aliases?: unknown;
   };
 }
 
+/**
+ * Proposal phase settings: discussion, voting, and extended voting exits.
+ */
+export interface ProposalsConfig {
+  discussion: {
+    exits: DiscussionExit[];
+    /** Derived from the last auto exit's afterMs (0 when manual-only). */
+    durationMs: number;
+  };
+  voting: {
+    exits: VotingExit[];
+    /** Derived from the last auto exit's afterMs (0 when manual-only). */
+    durationMs: number;
+    /** Per-voter weights applied to both voting and extended voting tallies. */
+    weights: VoteWeights;
+  };
+  extendedVoting: {
+    exits: VotingExit[];
+    /** Derived from the last auto exit's afterMs (0 when manual-only). */
+    durationMs: number;
+  };
+}
+
+/**
+ * Proposal governance applied to issues carrying any of the profile's labels.
+ * Phases the profile omits inherit the top-level `proposals` settings.
+ */
+export interface GovernanceProfile {
+  name: string;
+  /** Lowercased label names; an issue matches when it carries any of them. */
+  labels: string[];
+  proposals: ProposalsConfig;
+}
+
 /**
  * Effective configuration after merging repo config with defaults.
  * All values are guaranteed to be within safe boundaries.
  */
 export interface EffectiveConfig {
   version: number;
+  team: TeamConfig;
   governance: {
-    proposals: {
-      discussion: {
-        exits: DiscussionExit[];
-        /** Derived from the last auto exit's afterMs (0 when manual-only). */
-        durationMs: number;
-      };
-      voting: {
-        exits: VotingExit[];
-        /** Derived from the last auto exit's afterMs (0 when manual-only). */
-        durationMs: number;
-      };
-      extendedVoting: {
-        exits: VotingExit[];
-        /** Derived from the last auto exit's afterMs (0 when manual-only). */
-        durationMs: number;
-      };
-    };
+    proposals: ProposalsConfig;
+    /** Label-scoped overrides of `proposals`, in declaration order (first match wins). */
+    profiles: GovernanceProfile[];
     pr: {
       staleDays: number;
       maxPRsPerIssue: number;
       trustedReviewers: string[];
       intake: IntakeMethod[];
       mergeReady: MergeReadyConfig | null;
+      /** Preferred `/merge` method, used when the repository allows it. */
+      mergeMethod: MergeMethod;
     };
   };
   standup: StandupConfig;
+  /** Per-verb command permissions keyed by lowercased verb. */
+  commands: Record<string, CommandPermission>;
+  mentions: MentionsConfig;
 }
 
 /**
@@ -206,6 +526,10 @@ const MIN_VOTERS_BOUNDS = {
   ...CONFIG_BOUNDS.voting.minVoters,
 };
 
+const VOTE_WEIGHT_BOUNDS = {
+  ...CONFIG_BOUNDS.voting.weight,
+};
+
 // minReady shares the same bounds as minVoters (0..50, default 0)
 const MIN_READY_BOUNDS = {
   ...CONFIG_BOUNDS.voting.minVoters,
@@ -253,14 +577,97 @@ function parseIntValue(
   return clamped;
 }
 
+/**
+ * Validate and normalize a single username entry from config.
+ * Strips whitespace and a leading @, lowercases, and checks GitHub username rules.
+ * Returns null (with a warning) for invalid entries.
+ */
+function normalizeUsername(
+  entry: unknown,
+  repoFullName: string,
+  fieldName: string
+): string | null {
+  const { maxUsernameLength } = CONFIG_BOUNDS.requiredVoters;
+
+  if (typeof entry !== "string" || entry.length === 0) {
+    logger.warn(
+      `[${repoFullName}] Invalid ${fieldName} entry: expected non-empty string, got ${typeof entry}. Skipping.`
+    );
+    return null;
+  }
+
+  // Strip whitespace and optional leading @ (common in GitHub config contexts)
+  const cleaned = entry.trim().replace(/^@/, "");
+  if (cleaned.length === 0) {
+    logger.warn(
+      `[${repoFullName}] Empty ${fieldName} entry after trimming: "${entry}". Skipping.`
+    );
+    return null;
+  }
+
+  if (cleaned.length > maxUsernameLength) {
+    logger.warn(
+      `[${repoFullName}] Invalid ${fieldName} entry '${cleaned}': exceeds max length ${maxUsernameLength}. Skipping.`
+    );
+    return null;
+  }
+
+  const normalized = cleaned.toLowerCase();
+  if (!/^[a-z0-9](?:[a-z0-9]|-(?=[a-z0-9])){0,38}$/.test(normalized)) {
+    logger.warn(
+      `[${repoFullName}] Invalid ${fieldName} entry '${cleaned}': not a valid GitHub username. Skipping.`
+    );
+    return null;
+  }
+
+  return normalized;
+}
+
+/**
+ * Check whether a config list entry is a team role reference (`role:<name>`).
+ */
+function isRoleReference(entry: unknown): entry is string {
+  return typeof entry === "string" && entry.trim().toLowerCase().startsWith(ROLE_REFERENCE_PREFIX);
+}
+
+/**
+ * Expand a `role:<name>` reference to the logins of team members holding that role.
+ * Unknown roles and roles without members resolve to an empty list (with a warning).
+ */
+function resolveRoleReference(
+  entry: string,
+  team: TeamConfig | undefined,
+  repoFullName: string,
+  fieldName: string
+): string[] {
+  const role = entry.trim().slice(ROLE_REFERENCE_PREFIX.length).trim().toLowerCase();
+  if (!team || !Object.hasOwn(team.roles, role)) {
+    logger.warn(
+      `[${repoFullName}] Invalid ${fieldName} entry '${entry}': unknown team role. Skipping.`
+    );
+    return [];
+  }
+
+  const members = getRoleMembers(team, role);
+  if (members.length === 0) {
+    logger.warn(
+      `[${repoFullName}] ${fieldName} entry '${entry}' matches no team members. Skipping.`
+    );
+  }
+  return members;
+}
+
 /**
  * Parse and validate a voters array from config.
  * Returns a deduplicated, lowercased array clamped to maxEntries/maxUsernameLength.
+ *
+ * Entries of the form `role:<name>` expand to every team member with that role.
  */
 function parseVotersList(
   value: unknown,
   repoFullName: string,
-  fieldName: string = "requiredVoters"
+  fieldName: string = "requiredVoters",
+  team?: TeamConfig
 ): string[] {
   if (!Array.isArray(value)) {
     if (value !== undefined && value !== null) {
@@ -271,52 +678,26 @@ function parseVotersList(
     return [];
   }
 
-  const { maxEntries, maxUsernameLength } = CONFIG_BOUNDS.requiredVoters;
+  const { maxEntries } = CONFIG_BOUNDS.requiredVoters;
 
   const result: string[] = [];
   const seen = new Set<string>();
-  const isValidGitHubUsername = (name: string): boolean =>
-    /^[a-z0-9](?:[a-z0-9]|-(?=[a-z0-9])){0,38}$/.test(name);
 
   for (const entry of value) {
-    if (result.length >= maxEntries) {
-      logger.info(
-        `[${repoFullName}] ${fieldName} truncated to ${maxEntries} entries`
-      );
-      break;
-    }
-
-    if (typeof entry !== "string" || entry.length === 0) {
-      logger.warn(
-        `[${repoFullName}] Invalid ${fieldName} entry: expected non-empty string, got ${typeof entry}. Skipping.`
-      );
-      continue;
-    }
-
-    // Strip whitespace and optional leading @ (common in GitHub config contexts)
-    const cleaned = entry.trim().replace(/^@/, "");
-    if (cleaned.length === 0) {
-      logger.warn(
-        `[${repoFullName}] Empty ${fieldName} entry after trimming: "${entry}". Skipping.`
-      );
-      continue;
-    }
-
-    if (cleaned.length > maxUsernameLength) {
-      logger.warn(
-        `[${repoFullName}] Invalid ${fieldName} entry '${cleaned}': exceeds max length ${maxUsernameLength}. Skipping.`
-      );
-      continue;
-    }
+    const candidates = isRoleReference(entry)
+      ? resolveRoleReference(entry, team, repoFullName, fieldName)
+      : [normalizeUsername(entry, repoFullName, fieldName)];
 
-    const normalized = cleaned.toLowerCase();
-    if (!isValidGitHubUsername(normalized)) {
-      logger.warn(
-        `[${repoFullName}] Invalid ${fieldName} entry '${cleaned}': not a valid GitHub username. Skipping.`
-      );
-      continue;
-    }
-    if (!seen.has(normalized)) {
+    for (const normalized of candidates) {
+      if (!normalized || seen.has(normalized)) {
+        continue;
+      }
+      if (result.length >= maxEntries) {
+        logger.info(
+          `[${repoFullName}] ${fieldName} truncated to ${maxEntries} entries`
+        );
+        return result;
+      }
       seen.add(normalized);
       result.push(normalized);
     }
@@ -334,7 +715,8 @@ function parseVotersList(
  */
 function parseRequiredVotersConfig(
   value: unknown,
-  repoFullName: string
+  repoFullName: string,
+  team?: TeamConfig
 ): RequiredVotersConfig {
   if (value === undefined || value === null) {
     return { minCount: 0, voters: [] };
@@ -342,7 +724,7 @@ function parseRequiredVotersConfig(
 
   // Array shorthand → all required (minCount = list length)
   if (Array.isArray(value)) {
-    const voters = parseVotersList(value, repoFullName);
+    const voters = parseVotersList(value, repoFullName, "requiredVoters", team);
     return { minCount: voters.length, voters };
   }
 
@@ -354,7 +736,7 @@ function parseRequiredVotersConfig(
   }
 
   const obj = value as { mode?: unknown; minCount?: unknown; voters?: unknown };
-  const voters = parseVotersList(obj.voters, repoFullName);
+  const voters = parseVotersList(obj.voters, repoFullName, "requiredVoters", team);
 
   // Resolve minCount: prefer explicit minCount, fall back to mode for backward compat
   let minCount: number;
@@ -390,103 +772,264 @@ function parseRequiredVotersConfig(
   return { minCount, voters };
 }
 
-const VALID_REQUIRES: ExitRequires[] = ["majority", "unanimous"];
-const DEFAULT_MANUAL_VOTING_EXIT: VotingManualExit = { type: "manual" };
-const DEFAULT_MANUAL_DISCUSSION_EXIT: DiscussionManualExit = { type: "manual" };
-
-function parseExitType(entry: Record<string, unknown>, fieldPath: string, repoFullName: string): ExitType | null {
-  const type = entry.type;
-  if (type !== "manual" && type !== "auto") {
-    logger.warn(
-      `[${repoFullName}] Invalid ${fieldPath}.type: expected "manual" or "auto". Skipping.`
-    );
-    return null;
-  }
-  return type;
-}
-
 /**
- * Parse and validate voting exits from config.
+ * Parse and validate voting weights from config.
  *
- * Two modes are supported:
- * - manual: no automatic progression for the phase
- * - auto: time-based progression with voting requirements
- *
- * Mixed manual+auto exits are treated as configuration errors and resolve to
- * manual for safety (avoid unexpected automation).
+ * Expects a map of username → integer weight, e.g. `{ hivemoot-guard: 2 }`.
+ * Keys may also be `role:<name>` references, which apply to every member of
+ * that team role; explicit username keys take precedence over role keys.
+ * Weights are clamped to CONFIG_BOUNDS.voting.weight; invalid entries are skipped.
  */
-function parseExits(
+function parseVoteWeights(
   value: unknown,
   repoFullName: string,
-): VotingExit[] {
-  const defaultMinVoters = CONFIG_BOUNDS.voting.minVoters.default;
-  const defaultRequiredVoters: RequiredVotersConfig = { minCount: 0, voters: [] };
-  const manualDefault: VotingExit[] = [DEFAULT_MANUAL_VOTING_EXIT];
-
+  team?: TeamConfig
+): VoteWeights {
   if (value === undefined || value === null) {
-    return manualDefault;
-  }
-
-  if (!Array.isArray(value)) {
-    logger.warn(
-      `[${repoFullName}] Invalid voting exits: expected array. Using manual exit.`
-    );
-    return manualDefault;
+    return {};
   }
 
-  if (value.length === 0) {
+  if (typeof value !== "object" || Array.isArray(value)) {
     logger.warn(
-      `[${repoFullName}] Empty voting exits array. Using manual exit.`
+      `[${repoFullName}] Invalid voting.weights: expected object. Using default (unweighted).`
     );
-    return manualDefault;
+    return {};
   }
 
-  const bounds = CONFIG_BOUNDS.phaseDurationMinutes;
-  const exits: VotingExit[] = [];
-
-  for (const entry of value) {
-    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
-      logger.warn(`[${repoFullName}] Invalid voting exit entry: expected object. Skipping.`);
-      continue;
-    }
+  const { maxEntries } = CONFIG_BOUNDS.requiredVoters;
+  const weights: VoteWeights = {};
+  const roleWeights: Array<{ members: string[]; weight: number }> = [];
+  let count = 0;
 
-    const exitType = parseExitType(entry, "voting exit", repoFullName);
-    if (!exitType) {
-      continue;
+  for (const [key, rawWeight] of Object.entries(value)) {
+    if (count >= maxEntries) {
+      logger.info(
+        `[${repoFullName}] voting.weights truncated to ${maxEntries} entries`
+      );
+      break;
     }
 
-    if (exitType === "manual") {
-      exits.push(DEFAULT_MANUAL_VOTING_EXIT);
+    const isRole = isRoleReference(key);
+    const username = isRole ? null : normalizeUsername(key, repoFullName, "voting.weights");
+    if (!isRole && !username) {
       continue;
     }
 
-    // Parse afterMinutes for auto exits (required)
-    const afterMinutesRaw = entry.afterMinutes;
-    if (typeof afterMinutesRaw !== "number" || !Number.isFinite(afterMinutesRaw)) {
+    if (typeof rawWeight !== "number" || !Number.isFinite(rawWeight)) {
       logger.warn(
-        `[${repoFullName}] Invalid voting exit afterMinutes: expected number for type:auto. Skipping.`
+        `[${repoFullName}] Invalid voting.weights entry '${key}': expected number. Skipping.`
       );
       continue;
     }
-    const clamped = clamp(afterMinutesRaw, bounds.min, bounds.max);
-    if (clamped !== afterMinutesRaw) {
-      logger.info(
-        `[${repoFullName}] voting exit afterMinutes clamped from ${afterMinutesRaw} to ${clamped}`
+
+    const weight = parseIntValue(
+      rawWeight,
+      VOTE_WEIGHT_BOUNDS,
+      `voting.weights.${username ?? key}`,
+      repoFullName
+    );
+
+    if (username) {
+      if (!Object.hasOwn(weights, username)) {
+        count++;
+      }
+      weights[username] = weight;
+    } else {
+      count++;
+      roleWeights.push({
+        members: resolveRoleReference(key, team, repoFullName, "voting.weights"),
+        weight,
+      });
+    }
+  }
+
+  // Role weights fill in for members without an explicit username weight
+  for (const { members, weight } of roleWeights) {
+    for (const member of members) {
+      if (!Object.hasOwn(weights, member)) {
+        weights[member] = weight;
+      }
+    }
+  }
+
+  return weights;
+}
+
+const VALID_VETO_OUTCOMES: VetoOutcome[] = ["rejected", "needs-human-input"];
+
+/**
+ * Parse and validate veto config on a voting exit.
+ *
+ * Accepts either:
+ * - Array shorthand: ["role:guard"] → { voters: [...], outcome: "rejected" }
+ * - Object format: { voters: ["alice"], outcome: "needs-human-input" }
+ *
+ * Returns undefined when no valid veto voters remain.
+ */
+function parseVetoConfig(
+  value: unknown,
+  repoFullName: string,
+  team?: TeamConfig
+): VetoConfig | undefined {
+  if (typeof value !== "object" || value === null) {
+    logger.warn(
+      `[${repoFullName}] Invalid veto: expected object or array. Ignoring veto.`
+    );
+    return undefined;
+  }
+
+  const obj = (Array.isArray(value) ? { voters: value } : value) as { voters?: unknown; outcome?: unknown };
+  const voters = parseVotersList(obj.voters, repoFullName, "veto", team);
+  if (voters.length === 0) {
+    logger.warn(
+      `[${repoFullName}] veto configured without valid voters. Ignoring veto.`
+    );
+    return undefined;
+  }
+
+  let outcome: VetoOutcome = "rejected";
+  if (obj.outcome !== undefined && obj.outcome !== null) {
+    if (VALID_VETO_OUTCOMES.includes(obj.outcome as VetoOutcome)) {
+      outcome = obj.outcome as VetoOutcome;
+    } else {
+      logger.warn(
+        `[${repoFullName}] Invalid veto.outcome: "${String(obj.outcome)}". Using default ("rejected").`
+      );
+    }
+  }
+
+  return { voters, outcome };
+}
+
+const VALID_REQUIRES: ExitRequires[] = ["majority", "unanimous"];
+
+/**
+ * Parse and validate a voting exit `requires` condition.
+ *
+ * Accepts "majority", "unanimous", or `{ ratio: number }`. Ratios are
+ * clamped to CONFIG_BOUNDS.voting.ratio. Invalid values fall back to "majority".
+ */
+function parseExitRequires(value: unknown, repoFullName: string): ExitRequires {
+  if (value === undefined || value === null) {
+    return "majority";
+  }
+
+  if (typeof value === "object" && !Array.isArray(value)) {
+    const ratio = (value as { ratio?: unknown }).ratio;
+    if (typeof ratio !== "number" || !Number.isFinite(ratio)) {
+      logger.warn(
+        `[${repoFullName}] Invalid voting exit requires.ratio: expected number. Using default ("majority").`
+      );
+      return "majority";
+    }
+
+    const bounds = CONFIG_BOUNDS.voting.ratio;
+    const clamped = clamp(ratio, bounds.min, bounds.max);
+    if (clamped !== ratio) {
+      logger.info(
+        `[${repoFullName}] voting exit requires.ratio clamped from ${ratio} to ${clamped} (bounds: ${bounds.min}-${bounds.max})`
+      );
+    }
+    return { ratio: clamped };
+  }
+
+  if (VALID_REQUIRES.includes(value as ExitRequires)) {
+    return value as ExitRequires;
+  }
+
+  logger.warn(
+    `[${repoFullName}] Invalid voting exit requires: "${String(value)}". Using default ("majority").`
+  );
+  return "majority";
+}
+const DEFAULT_MANUAL_VOTING_EXIT: VotingManualExit = { type: "manual" };
+const DEFAULT_MANUAL_DISCUSSION_EXIT: DiscussionManualExit = { type: "manual" };
+
+function parseExitType(entry: Record<string, unknown>, fieldPath: string, repoFullName: string): ExitType | null {
+  const type = entry.type;
+  if (type !== "manual" && type !== "auto") {
+    logger.warn(
+      `[${repoFullName}] Invalid ${fieldPath}.type: expected "manual" or "auto". Skipping.`
+    );
+    return null;
+  }
+  return type;
+}
+
+/**
+ * Parse and validate voting exits from config.
+ *
+ * Two modes are supported:
+ * - manual: no automatic progression for the phase
+ * - auto: time-based progression with voting requirements
+ *
+ * Mixed manual+auto exits are treated as configuration errors and resolve to
+ * manual for safety (avoid unexpected automation).
+ */
+function parseExits(
+  value: unknown,
+  repoFullName: string,
+  team?: TeamConfig,
+): VotingExit[] {
+  const defaultMinVoters = CONFIG_BOUNDS.voting.minVoters.default;
+  const defaultRequiredVoters: RequiredVotersConfig = { minCount: 0, voters: [] };
+  const manualDefault: VotingExit[] = [DEFAULT_MANUAL_VOTING_EXIT];
+
+  if (value === undefined || value === null) {
+    return manualDefault;
+  }
+
+  if (!Array.isArray(value)) {
+    logger.warn(
+      `[${repoFullName}] Invalid voting exits: expected array. Using manual exit.`
+    );
+    return manualDefault;
+  }
+
+  if (value.length === 0) {
+    logger.warn(
+      `[${repoFullName}] Empty voting exits array. Using manual exit.`
+    );
+    return manualDefault;
+  }
+
+  const bounds = CONFIG_BOUNDS.phaseDurationMinutes;
+  const exits: VotingExit[] = [];
+
+  for (const entry of value) {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      logger.warn(`[${repoFullName}] Invalid voting exit entry: expected object. Skipping.`);
+      continue;
+    }
+
+    const exitType = parseExitType(entry, "voting exit", repoFullName);
+    if (!exitType) {
+      continue;
+    }
+
+    if (exitType === "manual") {
+      exits.push(DEFAULT_MANUAL_VOTING_EXIT);
+      continue;
+    }
+
+    // Parse afterMinutes for auto exits (required)
+    const afterMinutesRaw = entry.afterMinutes;
+    if (typeof afterMinutesRaw !== "number" || !Number.isFinite(afterMinutesRaw)) {
+      logger.warn(
+        `[${repoFullName}] Invalid voting exit afterMinutes: expected number for type:auto. Skipping.`
+      );
+      continue;
+    }
+    const clamped = clamp(afterMinutesRaw, bounds.min, bounds.max);
+    if (clamped !== afterMinutesRaw) {
+      logger.info(
+        `[${repoFullName}] voting exit afterMinutes clamped from ${afterMinutesRaw} to ${clamped}`
       );
     }
     const afterMs = clamped * MS_PER_MINUTE;
 
     // Parse requires
-    let requires: ExitRequires = "majority";
-    if (entry.requires !== undefined && entry.requires !== null) {
-      if (VALID_REQUIRES.includes(entry.requires as ExitRequires)) {
-        requires = entry.requires as ExitRequires;
-      } else {
-        logger.warn(
-          `[${repoFullName}] Invalid voting exit requires: "${String(entry.requires)}". Using default ("majority").`
-        );
-      }
-    }
+    const requires = parseExitRequires(entry.requires, repoFullName);
 
     // Parse minVoters (falls back to CONFIG_BOUNDS default)
     const minVoters = (entry.minVoters !== undefined && entry.minVoters !== null)
@@ -495,15 +1038,21 @@ function parseExits(
 
     // Parse requiredVoters (falls back to empty)
     const requiredVoters = (entry.requiredVoters !== undefined && entry.requiredVoters !== null)
-      ? parseRequiredVotersConfig(entry.requiredVoters, repoFullName)
+      ? parseRequiredVotersConfig(entry.requiredVoters, repoFullName, team)
       : defaultRequiredVoters;
 
+    // Parse veto (optional — omitted when absent or invalid)
+    const veto = (entry.veto !== undefined && entry.veto !== null)
+      ? parseVetoConfig(entry.veto, repoFullName, team)
+      : undefined;
+
     exits.push({
       type: "auto",
       afterMs,
       requires,
       minVoters,
       requiredVoters,
+      ...(veto && { veto }),
     });
   }
 
@@ -549,7 +1098,8 @@ function parseExits(
  */
 function parseRequiredReadyConfig(
   value: unknown,
-  repoFullName: string
+  repoFullName: string,
+  team?: TeamConfig
 ): RequiredReadyConfig {
   if (value === undefined || value === null) {
     return { minCount: 0, users: [] };
@@ -557,7 +1107,7 @@ function parseRequiredReadyConfig(
 
   // Array shorthand → all required (minCount = list length)
   if (Array.isArray(value)) {
-    const users = parseVotersList(value, repoFullName, "requiredReady");
+    const users = parseVotersList(value, repoFullName, "requiredReady", team);
     return { minCount: users.length, users };
   }
 
@@ -569,7 +1119,7 @@ function parseRequiredReadyConfig(
   }
 
   const obj = value as { mode?: unknown; minCount?: unknown; users?: unknown };
-  const users = parseVotersList(obj.users, repoFullName, "requiredReady");
+  const users = parseVotersList(obj.users, repoFullName, "requiredReady", team);
 
   // Resolve minCount: prefer explicit minCount, fall back to mode for backward compat
   let minCount: number;
@@ -618,6 +1168,7 @@ function parseRequiredReadyConfig(
 function parseDiscussionExits(
   value: unknown,
   repoFullName: string,
+  team?: TeamConfig,
 ): DiscussionExit[] {
   const defaultRequiredReady: RequiredReadyConfig = { minCount: 0, users: [] };
   const manualDefault: DiscussionExit[] = [DEFAULT_MANUAL_DISCUSSION_EXIT];
@@ -683,7 +1234,7 @@ function parseDiscussionExits(
 
     // Parse requiredReady (default empty)
     const requiredReady = (entry.requiredReady !== undefined && entry.requiredReady !== null)
-      ? parseRequiredReadyConfig(entry.requiredReady, repoFullName)
+      ? parseRequiredReadyConfig(entry.requiredReady, repoFullName, team)
       : defaultRequiredReady;
 
     exits.push({
@@ -730,13 +1281,14 @@ const VALID_INTAKE_METHODS = new Set(["update", "approval"]);
 
 /**
  * Parse and validate trustedReviewers from config.
- * Reuses parseVotersList for username validation.
+ * Reuses parseVotersList for username validation and `role:` expansion.
  */
 function parseTrustedReviewers(
   value: unknown,
-  repoFullName: string
+  repoFullName: string,
+  team?: TeamConfig
 ): string[] {
-  return parseVotersList(value, repoFullName, "trustedReviewers");
+  return parseVotersList(value, repoFullName, "trustedReviewers", team);
 }
 
 /**
@@ -844,7 +1396,8 @@ function parseIntakeMethods(
 function parseMergeReadyConfig(
   value: unknown,
   trustedReviewers: string[],
-  repoFullName: string
+  repoFullName: string,
+  team?: TeamConfig
 ): MergeReadyConfig | null {
   if (value === undefined || value === null) {
     return null;
@@ -865,7 +1418,14 @@ function parseMergeReadyConfig(
     return null;
   }
 
-  const obj = value as { minApprovals?: unknown };
+  const obj = value as {
+    minApprovals?: unknown;
+    requiredReviews?: unknown;
+    requireCodeOwners?: unknown;
+    requiredChecks?: unknown;
+    ignoredChecks?: unknown;
+    autoMerge?: unknown;
+  };
 
   let minApprovals: number;
   if (obj.minApprovals === undefined || obj.minApprovals === null) {
@@ -886,7 +1446,304 @@ function parseMergeReadyConfig(
     Math.min(CONFIG_BOUNDS.mergeReady.minApprovals.max, trustedReviewers.length)
   );
 
-  return { minApprovals };
+  const config: MergeReadyConfig = { minApprovals };
+  const requiredReviews = parseRequiredReviews(obj.requiredReviews, repoFullName, team);
+  if (requiredReviews.length > 0) {
+    config.requiredReviews = requiredReviews;
+  }
+  if (obj.requireCodeOwners === true) {
+    config.requireCodeOwners = true;
+  } else if (obj.requireCodeOwners !== undefined && obj.requireCodeOwners !== null && obj.requireCodeOwners !== false) {
+    logger.warn(
+      `[${repoFullName}] Invalid mergeReady.requireCodeOwners: expected boolean. Not requiring code owners.`
+    );
+  }
+  const requiredChecks = parseCheckPatterns(obj.requiredChecks, "requiredChecks", repoFullName);
+  if (requiredChecks.length > 0) {
+    config.requiredChecks = requiredChecks;
+  }
+  const ignoredChecks = parseCheckPatterns(obj.ignoredChecks, "ignoredChecks", repoFullName);
+  if (ignoredChecks.length > 0) {
+    config.ignoredChecks = ignoredChecks;
+  }
+  const autoMerge = parseAutoMergeConfig(obj.autoMerge, repoFullName);
+  if (autoMerge) {
+    config.autoMerge = autoMerge;
+  }
+  return config;
+}
+
+/**
+ * Parse a list of check name globs (mergeReady.requiredChecks / ignoredChecks).
+ * Non-string and blank entries are skipped; the list is deduplicated and
+ * truncated to CONFIG_BOUNDS.mergeReady.maxCheckPatterns.
+ */
+function parseCheckPatterns(
+  value: unknown,
+  fieldName: "requiredChecks" | "ignoredChecks",
+  repoFullName: string
+): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    logger.warn(
+      `[${repoFullName}] Invalid mergeReady.${fieldName}: expected array of strings. Ignoring.`
+    );
+    return [];
+  }
+
+  const { maxCheckPatterns } = CONFIG_BOUNDS.mergeReady;
+  const patterns: string[] = [];
+
+  for (const entry of value) {
+    if (typeof entry !== "string" || entry.trim().length === 0) {
+      logger.warn(
+        `[${repoFullName}] Invalid mergeReady.${fieldName} entry: expected non-empty string. Skipping.`
+      );
+      continue;
+    }
+    const pattern = entry.trim();
+    if (patterns.includes(pattern)) {
+      continue;
+    }
+    if (patterns.length >= maxCheckPatterns) {
+      logger.info(
+        `[${repoFullName}] mergeReady.${fieldName} truncated to ${maxCheckPatterns} entries`
+      );
+      break;
+    }
+    patterns.push(pattern);
+  }
+
+  return patterns;
+}
+
+/**
+ * Parse mergeReady.requiredReviews: a list of `{ from, minApprovals }` rules.
+ *
+ * `from` lists logins and `role:<name>` references (a single string is
+ * accepted too). minApprovals defaults to 1 and is clamped to
+ * [1, number of reviewers]. Entries without a usable `from` are skipped; a
+ * rule whose references match nobody is kept, with a warning, so it fails
+ * until the team config is fixed.
+ */
+function parseRequiredReviews(
+  value: unknown,
+  repoFullName: string,
+  team?: TeamConfig
+): RequiredReviewRule[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    logger.warn(
+      `[${repoFullName}] Invalid mergeReady.requiredReviews: expected array. Ignoring.`
+    );
+    return [];
+  }
+
+  const { maxRequiredReviews } = CONFIG_BOUNDS.mergeReady;
+  const rules: RequiredReviewRule[] = [];
+
+  for (const entry of value) {
+    if (rules.length >= maxRequiredReviews) {
+      logger.info(
+        `[${repoFullName}] mergeReady.requiredReviews truncated to ${maxRequiredReviews} entries`
+      );
+      break;
+    }
+
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      logger.warn(
+        `[${repoFullName}] Invalid mergeReady.requiredReviews entry: expected object. Skipping.`
+      );
+      continue;
+    }
+
+    const obj = entry as { from?: unknown; minApprovals?: unknown };
+    const fromEntries = typeof obj.from === "string" ? [obj.from] : obj.from;
+    const from = Array.isArray(fromEntries)
+      ? fromEntries
+        .filter((e): e is string => typeof e === "string" && e.trim().length > 0)
+        .map((e) => e.trim())
+      : [];
+    if (from.length === 0) {
+      logger.warn(
+        `[${repoFullName}] Invalid mergeReady.requiredReviews entry: expected from to list logins or roles. Skipping.`
+      );
+      continue;
+    }
+
+    // A rule nobody can satisfy still blocks merges: dropping it would
+    // silently weaken the gate (e.g. a typo'd role or an emptied team)
+    const reviewers = parseVotersList(fromEntries, repoFullName, "mergeReady.requiredReviews.from", team);
+    if (reviewers.length === 0) {
+      logger.warn(
+        `[${repoFullName}] mergeReady.requiredReviews entry "${from.join(", ")}" matches no reviewers; it can't be satisfied.`
+      );
+    }
+
+    const minApprovals = parseIntValue(
+      obj.minApprovals,
+      { min: 1, max: Math.max(reviewers.length, 1), default: 1 },
+      "mergeReady.requiredReviews.minApprovals",
+      repoFullName
+    );
+
+    rules.push({ from, reviewers, minApprovals });
+  }
+
+  return rules;
+}
+
+/**
+ * Parse mergeReady.autoMerge: `true`, or an object with `cooldownMinutes`.
+ * Returns undefined (auto-merge disabled) when absent, false, or invalid.
+ */
+function parseAutoMergeConfig(value: unknown, repoFullName: string): AutoMergeConfig | undefined {
+  if (value === undefined || value === null || value === false) {
+    return undefined;
+  }
+  if (value === true) {
+    return { cooldownMs: CONFIG_BOUNDS.mergeReady.autoMergeCooldownMinutes.default * 60 * 1000 };
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    logger.warn(
+      `[${repoFullName}] Invalid mergeReady.autoMerge: expected boolean or object. Disabling auto-merge.`
+    );
+    return undefined;
+  }
+
+  const obj = value as { enabled?: unknown; cooldownMinutes?: unknown };
+  if (obj.enabled === false) {
+    return undefined;
+  }
+
+  const cooldownMinutes = parseIntValue(
+    obj.cooldownMinutes,
+    CONFIG_BOUNDS.mergeReady.autoMergeCooldownMinutes,
+    "mergeReady.autoMerge.cooldownMinutes",
+    repoFullName
+  );
+  return { cooldownMs: cooldownMinutes * 60 * 1000 };
+}
+
+/**
+ * Parse the preferred merge method from the pr section.
+ * Falls back to squash when absent or not a known method.
+ */
+function parseMergeMethod(value: unknown, repoFullName: string): MergeMethod {
+  if (value === undefined || value === null) {
+    return DEFAULT_MERGE_METHOD;
+  }
+
+  const method = typeof value === "string" ? value.trim().toLowerCase() : value;
+  if (!MERGE_METHODS.includes(method as MergeMethod)) {
+    logger.warn(
+      `[${repoFullName}] Invalid pr.mergeMethod: expected one of ${MERGE_METHODS.join(", ")}. ` +
+      `Using default (${DEFAULT_MERGE_METHOD}).`
+    );
+    return DEFAULT_MERGE_METHOD;
+  }
+  return method as MergeMethod;
+}
+
+function createEmptyTeam(): TeamConfig {
+  return { name: "", onboarding: "", roles: {}, members: {} };
+}
+
+const ROLE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Parse and validate team config (name, onboarding, roles, members).
+ *
+ * Roles are keyed by lowercased name. Members map a GitHub login to one
+ * declared role; members referencing unknown roles are skipped.
+ */
+function parseTeamConfig(
+  value: unknown,
+  repoFullName: string
+): TeamConfig {
+  if (value === undefined || value === null) {
+    return createEmptyTeam();
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    logger.warn(
+      `[${repoFullName}] Invalid team config: expected object. Ignoring team.`
+    );
+    return createEmptyTeam();
+  }
+
+  const obj = value as { name?: unknown; onboarding?: unknown; roles?: unknown; members?: unknown };
+  const { maxRoles, maxMembers } = CONFIG_BOUNDS.team;
+
+  const roles: Record<string, TeamRole> = {};
+  if (obj.roles !== undefined && obj.roles !== null) {
+    if (typeof obj.roles !== "object" || Array.isArray(obj.roles)) {
+      logger.warn(`[${repoFullName}] Invalid team.roles: expected object. Ignoring roles.`);
+    } else {
+      for (const [rawName, rawRole] of Object.entries(obj.roles)) {
+        if (Object.keys(roles).length >= maxRoles) {
+          logger.info(`[${repoFullName}] team.roles truncated to ${maxRoles} entries`);
+          break;
+        }
+
+        const name = rawName.trim().toLowerCase();
+        if (!ROLE_NAME_PATTERN.test(name)) {
+          logger.warn(`[${repoFullName}] Invalid team role name '${rawName}'. Skipping.`);
+          continue;
+        }
+
+        const role = (typeof rawRole === "object" && rawRole !== null && !Array.isArray(rawRole))
+          ? rawRole as { description?: unknown; instructions?: unknown }
+          : {};
+        roles[name] = {
+          description: typeof role.description === "string" ? role.description.trim() : "",
+          instructions: typeof role.instructions === "string" ? role.instructions.trim() : "",
+        };
+      }
+    }
+  }
+
+  const members: Record<string, string> = {};
+  if (obj.members !== undefined && obj.members !== null) {
+    if (typeof obj.members !== "object" || Array.isArray(obj.members)) {
+      logger.warn(`[${repoFullName}] Invalid team.members: expected object. Ignoring members.`);
+    } else {
+      for (const [rawLogin, rawRole] of Object.entries(obj.members)) {
+        if (Object.keys(members).length >= maxMembers) {
+          logger.info(`[${repoFullName}] team.members truncated to ${maxMembers} entries`);
+          break;
+        }
+
+        const login = normalizeUsername(rawLogin, repoFullName, "team.members");
+        if (!login) {
+          continue;
+        }
+
+        const role = typeof rawRole === "string" ? rawRole.trim().toLowerCase() : "";
+        if (!Object.hasOwn(roles, role)) {
+          logger.warn(
+            `[${repoFullName}] team.members entry '${login}' references unknown role '${String(rawRole)}'. Skipping.`
+          );
+          continue;
+        }
+
+        members[login] = role;
+      }
+    }
+  }
+
+  return {
+    name: typeof obj.name === "string" ? obj.name.trim() : "",
+    onboarding: typeof obj.onboarding === "string" ? obj.onboarding.trim() : "",
+    roles,
+    members,
+  };
 }
 
 /**
@@ -898,7 +1755,7 @@ function parseStandupConfig(
   value: unknown,
   repoFullName: string
 ): StandupConfig {
-  const disabled: StandupConfig = { enabled: false, category: "" };
+  const disabled = createDisabledStandupConfig();
 
   if (value === undefined || value === null) {
     return disabled;
@@ -911,7 +1768,7 @@ function parseStandupConfig(
     return disabled;
   }
 
-  const obj = value as { enabled?: unknown; category?: unknown };
+  const obj = value as { enabled?: unknown; category?: unknown; healthRules?: unknown; targets?: unknown };
 
   let enabled = false;
   if (obj.enabled !== undefined && obj.enabled !== null) {
@@ -928,8 +1785,15 @@ function parseStandupConfig(
     return disabled;
   }
 
-  // category is required when enabled
-  if (typeof obj.category !== "string" || obj.category.trim().length === 0) {
+  const targets = parseStandupTargets(obj.targets, repoFullName);
+  if (targets.length === 0) {
+    logger.warn(`[${repoFullName}] standup.targets has no valid targets. Disabling standup.`);
+    return disabled;
+  }
+
+  // category is required when posting to the discussion
+  const category = typeof obj.category === "string" ? obj.category.trim() : "";
+  if (targets.some((target) => target.type === "discussion") && category.length === 0) {
     logger.warn(
       `[${repoFullName}] standup.enabled is true but standup.category is missing. ` +
       `Set standup.category to the Discussion category name (e.g., "Colony Reports"). Disabling standup.`
@@ -937,7 +1801,338 @@ function parseStandupConfig(
     return disabled;
   }
 
-  return { enabled: true, category: obj.category.trim() };
+  return {
+    enabled: true,
+    category,
+    healthRules: parseHealthRules(obj.healthRules, repoFullName),
+    targets,
+  };
+}
+
+function createDisabledStandupConfig(): StandupConfig {
+  return { enabled: false, category: "", healthRules: createDefaultHealthRules(), targets: [] };
+}
+
+/**
+ * Parse standup.targets. Defaults to the discussion alone.
+ *
+ * Entries are a target type (`- issue`) or an object with `type` and that
+ * target's options. Invalid entries are skipped with a warning; discussion
+ * and issue targets are kept once.
+ */
+function parseStandupTargets(value: unknown, repoFullName: string): StandupTarget[] {
+  if (value === undefined || value === null) {
+    return [{ type: "discussion" }];
+  }
+
+  if (!Array.isArray(value)) {
+    logger.warn(
+      `[${repoFullName}] Invalid standup.targets: expected array. Using the discussion target.`
+    );
+    return [{ type: "discussion" }];
+  }
+
+  const targets: StandupTarget[] = [];
+  const { maxTargets } = CONFIG_BOUNDS.standup;
+
+  for (const [index, entry] of value.entries()) {
+    const fieldPath = `standup.targets[${index}]`;
+    const target = parseStandupTarget(entry, fieldPath, repoFullName);
+    if (!target) {
+      continue;
+    }
+    if ((target.type === "discussion" || target.type === "issue") && targets.some((t) => t.type === target.type)) {
+      continue;
+    }
+    if (targets.length >= maxTargets) {
+      logger.info(`[${repoFullName}] standup.targets truncated to ${maxTargets} entries`);
+      break;
+    }
+    targets.push(target);
+  }
+
+  return targets;
+}
+
+function parseStandupTarget(
+  entry: unknown,
+  fieldPath: string,
+  repoFullName: string
+): StandupTarget | null {
+  const obj = (typeof entry === "string" ? { type: entry } : entry) as Record<string, unknown> | null;
+  if (typeof obj !== "object" || obj === null || Array.isArray(obj)) {
+    logger.warn(`[${repoFullName}] Invalid ${fieldPath}: expected target type or object. Skipping.`);
+    return null;
+  }
+
+  const type = typeof obj.type === "string" ? obj.type.trim().toLowerCase() : obj.type;
+  switch (type) {
+    case "discussion":
+    case "issue":
+      return { type };
+
+    case "file": {
+      const branch = obj.branch ?? DEFAULT_STANDUP_FILE_BRANCH;
+      if (typeof branch !== "string" || !/^[\w.\-/]+$/.test(branch) || branch.includes("..")) {
+        logger.warn(`[${repoFullName}] Invalid ${fieldPath}.branch: expected a branch name. Skipping.`);
+        return null;
+      }
+      const path = obj.path ?? DEFAULT_STANDUP_FILE_PATH;
+      if (
+        typeof path !== "string" ||
+        path.trim().length === 0 ||
+        path.startsWith("/") ||
+        path.split("/").includes("..")
+      ) {
+        logger.warn(
+          `[${repoFullName}] Invalid ${fieldPath}.path: expected a relative file path. Skipping.`
+        );
+        return null;
+      }
+      return { type: "file", branch, path: path.trim() };
+    }
+
+    case "webhook": {
+      let url: URL | null = null;
+      try {
+        url = typeof obj.url === "string" ? new URL(obj.url) : null;
+      } catch {
+        url = null;
+      }
+      if (!url || url.protocol !== "https:") {
+        logger.warn(`[${repoFullName}] Invalid ${fieldPath}.url: expected an https URL. Skipping.`);
+        return null;
+      }
+      return { type: "webhook", url: url.toString() };
+    }
+
+    default:
+      logger.warn(
+        `[${repoFullName}] Invalid ${fieldPath}.type: expected one of ${STANDUP_TARGET_TYPES.join(", ")}. Skipping.`
+      );
+      return null;
+  }
+}
+
+function createDefaultHealthRules(): StandupHealthRules {
+  return Object.fromEntries(
+    HEALTH_RULE_NAMES.map((name) => [name, { ...DEFAULT_HEALTH_RULES[name] }])
+  ) as StandupHealthRules;
+}
+
+/**
+ * Parse standup.healthRules.
+ *
+ * Each rule may be `false` (disabled), `true` (defaults), or an object with
+ * `enabled`, `threshold`, and `severity`. Omitted rules keep their defaults.
+ */
+function parseHealthRules(
+  value: unknown,
+  repoFullName: string
+): StandupHealthRules {
+  const rules = createDefaultHealthRules();
+
+  if (value === undefined || value === null) {
+    return rules;
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    logger.warn(
+      `[${repoFullName}] Invalid standup.healthRules: expected object. Using default rules.`
+    );
+    return rules;
+  }
+
+  for (const [name, entry] of Object.entries(value)) {
+    if (!HEALTH_RULE_NAMES.includes(name as HealthRuleName)) {
+      logger.warn(
+        `[${repoFullName}] Unknown standup.healthRules.${name}. ` +
+        `Expected one of ${HEALTH_RULE_NAMES.join(", ")}. Ignoring.`
+      );
+      continue;
+    }
+
+    const rule = rules[name as HealthRuleName];
+    if (entry === undefined || entry === null || entry === true) {
+      continue;
+    }
+    if (entry === false) {
+      rule.enabled = false;
+      continue;
+    }
+    if (typeof entry !== "object" || Array.isArray(entry)) {
+      logger.warn(
+        `[${repoFullName}] Invalid standup.healthRules.${name}: expected boolean or object. Using default.`
+      );
+      continue;
+    }
+
+    const obj = entry as { enabled?: unknown; threshold?: unknown; severity?: unknown };
+    if (obj.enabled === false) {
+      rule.enabled = false;
+    }
+
+    rule.threshold = parseIntValue(
+      obj.threshold,
+      { ...CONFIG_BOUNDS.standup.healthRuleThreshold, default: rule.threshold },
+      `standup.healthRules.${name}.threshold`,
+      repoFullName
+    );
+
+    if (obj.severity !== undefined && obj.severity !== null) {
+      const severity = typeof obj.severity === "string" ? obj.severity.trim().toLowerCase() : obj.severity;
+      if (HEALTH_SEVERITIES.includes(severity as HealthSeverity)) {
+        rule.severity = severity as HealthSeverity;
+      } else {
+        logger.warn(
+          `[${repoFullName}] Invalid standup.healthRules.${name}.severity: expected one of ` +
+          `${HEALTH_SEVERITIES.join(", ")}. Using default (${rule.severity}).`
+        );
+      }
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Parse per-verb command permissions.
+ *
+ * Each `commands.<verb>` entry may set `permissions` (repo permission levels;
+ * omitted → the default admin/maintain/write), `users` (logins or `role:`
+ * references), and `trustedReviewers: true` to admit governance.pr.trustedReviewers.
+ * Invalid entries are skipped with a warning and fall back to the default.
+ */
+function parseCommandsConfig(
+  value: unknown,
+  trustedReviewers: string[],
+  repoFullName: string,
+  team?: TeamConfig
+): Record<string, CommandPermission> {
+  const commands: Record<string, CommandPermission> = {};
+
+  if (value === undefined || value === null) {
+    return commands;
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    logger.warn(
+      `[${repoFullName}] Invalid commands config: expected object. Using default permissions.`
+    );
+    return commands;
+  }
+
+  const { maxVerbs } = CONFIG_BOUNDS.commands;
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length > maxVerbs) {
+    logger.info(`[${repoFullName}] commands truncated to ${maxVerbs} entries`);
+  }
+
+  for (const [rawVerb, entry] of entries.slice(0, maxVerbs)) {
+    const verb = rawVerb.trim().toLowerCase();
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      logger.warn(
+        `[${repoFullName}] Invalid commands.${rawVerb}: expected object. Using default permissions.`
+      );
+      continue;
+    }
+
+    const obj = entry as { permissions?: unknown; users?: unknown; trustedReviewers?: unknown };
+
+    let permissions = [...DEFAULT_COMMAND_PERMISSION.permissions];
+    if (obj.permissions !== undefined && obj.permissions !== null) {
+      if (Array.isArray(obj.permissions)) {
+        permissions = [];
+        for (const level of obj.permissions) {
+          const normalized = typeof level === "string" ? level.trim().toLowerCase() : level;
+          if (!COMMAND_PERMISSION_LEVELS.includes(normalized as CommandPermissionLevel)) {
+            logger.warn(
+              `[${repoFullName}] Invalid commands.${rawVerb}.permissions entry '${String(level)}': ` +
+              `expected one of ${COMMAND_PERMISSION_LEVELS.join(", ")}. Skipping.`
+            );
+            continue;
+          }
+          if (!permissions.includes(normalized as CommandPermissionLevel)) {
+            permissions.push(normalized as CommandPermissionLevel);
+          }
+        }
+      } else {
+        logger.warn(
+          `[${repoFullName}] Invalid commands.${rawVerb}.permissions: expected array. Using default.`
+        );
+      }
+    }
+
+    const users = parseVotersList(obj.users, repoFullName, `commands.${rawVerb}.users`, team);
+
+    if (obj.trustedReviewers !== undefined && typeof obj.trustedReviewers !== "boolean") {
+      logger.warn(
+        `[${repoFullName}] Invalid commands.${rawVerb}.trustedReviewers: expected boolean. Ignoring.`
+      );
+    } else if (obj.trustedReviewers === true) {
+      for (const reviewer of trustedReviewers) {
+        if (!users.includes(reviewer)) {
+          users.push(reviewer);
+        }
+      }
+    }
+
+    commands[verb] = { permissions, users };
+  }
+
+  return commands;
+}
+
+/**
+ * Parse and validate the `mentions` block.
+ *
+ * `aliases` lists extra names the bot answers to in this repository, on top
+ * of the installation-wide names. Entries follow GitHub login rules; invalid
+ * ones are skipped with a warning.
+ */
+function parseMentionsConfig(
+  value: unknown,
+  repoFullName: string
+): MentionsConfig {
+  const mentions: MentionsConfig = { aliases: [] };
+
+  if (value === undefined || value === null) {
+    return mentions;
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    logger.warn(
+      `[${repoFullName}] Invalid mentions config: expected object. Using no aliases.`
+    );
+    return mentions;
+  }
+
+  const { aliases } = value as { aliases?: unknown };
+  if (aliases === undefined || aliases === null) {
+    return mentions;
+  }
+
+  if (!Array.isArray(aliases)) {
+    logger.warn(
+      `[${repoFullName}] Invalid mentions.aliases: expected array. Using no aliases.`
+    );
+    return mentions;
+  }
+
+  const { maxAliases } = CONFIG_BOUNDS.mentions;
+  for (const entry of aliases) {
+    const alias = normalizeUsername(entry, repoFullName, "mentions.aliases");
+    if (!alias || mentions.aliases.includes(alias)) {
+      continue;
+    }
+    if (mentions.aliases.length >= maxAliases) {
+      logger.info(`[${repoFullName}] mentions.aliases truncated to ${maxAliases} entries`);
+      break;
+    }
+    mentions.aliases.push(alias);
+  }
+
+  return mentions;
 }
 
 function deriveDiscussionDurationMs(exits: DiscussionExit[]): number {
@@ -956,6 +2151,117 @@ function deriveVotingDurationMs(exits: VotingExit[]): number {
   return autoExits[autoExits.length - 1].afterMs;
 }
 
+/**
+ * Parse a `proposals` block.
+ *
+ * With `base`, phases (and voting weights) missing from `raw` inherit the
+ * base settings instead of falling back to defaults — used for profiles.
+ */
+function parseProposalsConfig(
+  raw: RepoProposalsConfigFile | undefined,
+  repoFullName: string,
+  team: TeamConfig,
+  base?: ProposalsConfig
+): ProposalsConfig {
+  // Discussion exits
+  const discussionExits = base && raw?.discussion?.exits === undefined
+    ? base.discussion.exits
+    : parseDiscussionExits(raw?.discussion?.exits, repoFullName, team);
+
+  // Voting exits
+  const exits = base && raw?.voting?.exits === undefined
+    ? base.voting.exits
+    : parseExits(raw?.voting?.exits, repoFullName, team);
+  const weights = base && raw?.voting?.weights === undefined
+    ? base.voting.weights
+    : parseVoteWeights(raw?.voting?.weights, repoFullName, team);
+
+  // Extended voting exits (independent defaults)
+  const extendedExits = base && raw?.extendedVoting?.exits === undefined
+    ? base.extendedVoting.exits
+    : parseExits(raw?.extendedVoting?.exits, repoFullName, team);
+
+  return {
+    discussion: {
+      exits: discussionExits,
+      durationMs: deriveDiscussionDurationMs(discussionExits),
+    },
+    voting: {
+      exits,
+      durationMs: deriveVotingDurationMs(exits),
+      weights,
+    },
+    extendedVoting: {
+      exits: extendedExits,
+      durationMs: deriveVotingDurationMs(extendedExits),
+    },
+  };
+}
+
+/**
+ * Parse and validate governance profiles.
+ *
+ * Each profile needs at least one label; `name` defaults to the first label.
+ * Invalid entries are skipped with a warning.
+ */
+function parseGovernanceProfiles(
+  value: unknown,
+  base: ProposalsConfig,
+  repoFullName: string,
+  team: TeamConfig
+): GovernanceProfile[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    logger.warn(`[${repoFullName}] Invalid governance.profiles: expected array. Ignoring profiles.`);
+    return [];
+  }
+
+  const { maxProfiles, maxLabels } = CONFIG_BOUNDS.profiles;
+  if (value.length > maxProfiles) {
+    logger.info(`[${repoFullName}] governance.profiles truncated to ${maxProfiles} entries`);
+  }
+
+  const profiles: GovernanceProfile[] = [];
+  for (const [index, entry] of value.slice(0, maxProfiles).entries()) {
+    const fieldPath = `governance.profiles[${index}]`;
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      logger.warn(`[${repoFullName}] Invalid ${fieldPath}: expected object. Skipping.`);
+      continue;
+    }
+
+    const obj = entry as { name?: unknown; labels?: unknown; proposals?: unknown };
+    const rawLabels = typeof obj.labels === "string" ? [obj.labels] : obj.labels;
+    const labels = Array.isArray(rawLabels)
+      ? [...new Set(
+        rawLabels
+          .filter((label): label is string => typeof label === "string" && label.trim().length > 0)
+          .map((label) => label.trim().toLowerCase())
+      )].slice(0, maxLabels)
+      : [];
+    if (labels.length === 0) {
+      logger.warn(`[${repoFullName}] ${fieldPath} has no labels. Skipping.`);
+      continue;
+    }
+
+    const proposalsRaw = obj.proposals;
+    if (proposalsRaw !== undefined && (typeof proposalsRaw !== "object" || proposalsRaw === null || Array.isArray(proposalsRaw))) {
+      logger.warn(`[${repoFullName}] Invalid ${fieldPath}.proposals: expected object. Skipping.`);
+      continue;
+    }
+
+    profiles.push({
+      name: typeof obj.name === "string" && obj.name.trim() ? obj.name.trim() : labels[0],
+      labels,
+      proposals: parseProposalsConfig(proposalsRaw as RepoProposalsConfigFile | undefined, repoFullName, team, base),
+    });
+  }
+
+  return profiles;
+}
+
 /**
  * Parse and validate a RepoConfigFile object.
  * Returns EffectiveConfig with all values validated and clamped.
@@ -965,40 +2271,25 @@ function deriveVotingDurationMs(exits: VotingExit[]): number {
 function parseRepoConfig(raw: unknown, repoFullName: string): EffectiveConfig {
   const config = raw as RepoConfigFile | undefined;
 
-  // Discussion exits
-  const discussionExitsRaw = config?.governance?.proposals?.discussion?.exits;
-  const discussionExits = parseDiscussionExits(discussionExitsRaw, repoFullName);
+  // Team (parsed first — role references in user lists resolve against members)
+  const team = parseTeamConfig(config?.team, repoFullName);
+
+  // Proposal phases, then label-scoped profiles that override them
+  const proposals = parseProposalsConfig(config?.governance?.proposals, repoFullName, team);
+  const profiles = parseGovernanceProfiles(config?.governance?.profiles, proposals, repoFullName, team);
 
   // Resolve PR settings (trustedReviewers parsed first — needed for intake and mergeReady clamping)
   const prConfig = config?.governance?.pr;
-  const trustedReviewers = parseTrustedReviewers(prConfig?.trustedReviewers, repoFullName);
+  const trustedReviewers = parseTrustedReviewers(prConfig?.trustedReviewers, repoFullName, team);
   const intake = parseIntakeMethods(prConfig?.intake, trustedReviewers, repoFullName);
-  const mergeReady = parseMergeReadyConfig(prConfig?.mergeReady, trustedReviewers, repoFullName);
-
-  // Voting exits
-  const exitsRaw = config?.governance?.proposals?.voting?.exits;
-  const exits = parseExits(exitsRaw, repoFullName);
-  // Extended voting exits (independent defaults)
-  const extendedExitsRaw = config?.governance?.proposals?.extendedVoting?.exits;
-  const extendedExits = parseExits(extendedExitsRaw, repoFullName);
+  const mergeReady = parseMergeReadyConfig(prConfig?.mergeReady, trustedReviewers, repoFullName, team);
 
   return {
     version: typeof config?.version === "number" ? config.version : 1,
+    team,
     governance: {
-      proposals: {
-        discussion: {
-          exits: discussionExits,
-          durationMs: deriveDiscussionDurationMs(discussionExits),
-        },
-        voting: {
-          exits,
-          durationMs: deriveVotingDurationMs(exits),
-        },
-        extendedVoting: {
-          exits: extendedExits,
-          durationMs: deriveVotingDurationMs(extendedExits),
-        },
-      },
+      proposals,
+      profiles,
       pr: {
         staleDays: parseIntValue(
           prConfig?.staleDays,
@@ -1015,9 +2306,12 @@ function parseRepoConfig(raw: unknown, repoFullName: string): EffectiveConfig {
         trustedReviewers,
         intake,
         mergeReady,
+        mergeMethod: parseMergeMethod(prConfig?.mergeMethod, repoFullName),
       },
     },
     standup: parseStandupConfig(config?.standup, repoFullName),
+    commands: parseCommandsConfig(config?.commands, trustedReviewers, repoFullName, team),
+    mentions: parseMentionsConfig(config?.mentions, repoFullName),
   };
 }
 
@@ -1027,6 +2321,7 @@ function parseRepoConfig(raw: unknown, repoFullName: string): EffectiveConfig {
 export function getDefaultConfig(): EffectiveConfig {
   return {
     version: 1,
+    team: createEmptyTeam(),
     governance: {
       proposals: {
         discussion: {
@@ -1036,21 +2331,26 @@ export function getDefaultConfig(): EffectiveConfig {
         voting: {
           exits: [DEFAULT_MANUAL_VOTING_EXIT],
           durationMs: 0,
+          weights: {},
         },
         extendedVoting: {
           exits: [DEFAULT_MANUAL_VOTING_EXIT],
           durationMs: 0,
         },
       },
+      profiles: [],
       pr: {
         staleDays: PR_STALE_THRESHOLD_DAYS,
         maxPRsPerIssue: MAX_PRS_PER_ISSUE,
         trustedReviewers: [],
         intake: [{ method: "update" }],
         mergeReady: null,
+        mergeMethod: DEFAULT_MERGE_METHOD,
       },
     },
-    standup: { enabled: false, category: "" },
+    standup: createDisabledStandupConfig(),
+    commands: {},
+    mentions: { aliases: [] },
   };
 }
 
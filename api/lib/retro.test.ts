@@ -0,0 +1,411 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  collectRetroData,
+  computeRejectionRate,
+  formatRetroComment,
+  getRetroPeriod,
+  type RetroClient,
+  type RetroData,
+} from "./retro.js";
+import {
+  createVotingMetadata,
+  generateMetadataTag,
+  parseMetadata,
+  type RetroMetadata,
+} from "./bot-comments.js";
+import { LABELS, PR_MESSAGES } from "../config.js";
+import { toLabelEvents, type TimelineEvent } from "./types.js";
+
+/**
+ * Tests for Retrospective Module
+ *
+ * Verifies:
+ * - Period boundaries (previous Monday–Sunday week, previous calendar month)
+ * - Proposal decisions and phase durations from label timelines
+ * - Closed PR classification (merged, superseded, stale-closed)
+ * - Contributor scorecards (votes, reviews, PR outcomes, leaderboard wins)
+ * - Comment formatting, including the quiet-period format
+ */
+
+const APP_ID = 12345;
+const RANGE = { period: "weekly" as const, start: "2026-02-09", end: "2026-02-15" };
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Test Helpers
+// ───────────────────────────────────────────────────────────────────────────────
+
+interface MockData {
+  issues?: unknown[];
+  timelines?: Record<number, unknown[]>;
+  pulls?: unknown[];
+  comments?: Record<number, unknown[]>;
+  reactions?: Record<number, unknown[]>;
+  reviews?: Record<number, unknown[]>;
+}
+
+function createMockOctokit(mock: MockData): RetroClient & {
+  rest: { pulls: { list: ReturnType<typeof vi.fn> } };
+} {
+  const rest = {
+    issues: {
+      listForRepo: vi.fn(async () => ({ data: mock.issues ?? [] })),
+      listComments: vi.fn(async (params: { issue_number: number }) => ({
+        data: mock.comments?.[params.issue_number] ?? [],
+      })),
+    },
+    reactions: {
+      listForIssueComment: vi.fn(async (params: { comment_id: number }) => ({
+        data: mock.reactions?.[params.comment_id] ?? [],
+      })),
+    },
+    pulls: {
+      list: vi.fn(async () => ({ data: mock.pulls ?? [] })),
+      listReviews: vi.fn(async (params: { pull_number: number }) => ({
+        data: mock.reviews?.[params.pull_number] ?? [],
+      })),
+    },
+  };
+  return {
+    rest,
+    paginate: {
+      iterator: <T>(method: unknown, params: unknown) =>
+        (async function* () {
+          yield (await (method as (p: unknown) => Promise<{ data: T[] }>)(params));
+        })(),
+    },
+  };
+}
+
+function createMockIssueOps(mock: MockData) {
+  return {
+    getLabelEvents: vi.fn(async ({ issueNumber }: { issueNumber: number }) =>
+      toLabelEvents((mock.timelines?.[issueNumber] ?? []) as TimelineEvent[])
+    ),
+  };
+}
+
+function issue(number: number, createdAt: string, labels: string[], author = "alice") {
+  return { number, title: `Issue ${number}`, user: { login: author }, created_at: createdAt, labels: labels.map((name) => ({ name })) };
+}
+
+function labelEvent(event: "labeled" | "unlabeled", name: string, createdAt: string) {
+  return { event, created_at: createdAt, label: { name } };
+}
+
+function pr(number: number, author: string, closedAt: string | null, merged: boolean, createdAt = "2026-01-01T00:00:00Z") {
+  return {
+    number,
+    title: `PR ${number}`,
+    user: { login: author },
+    created_at: createdAt,
+    merged_at: merged ? closedAt : null,
+    closed_at: closedAt,
+    updated_at: closedAt ?? createdAt,
+  };
+}
+
+function createRetroData(overrides?: Partial<RetroData>): RetroData {
+  return {
+    proposalsOpened: [],
+    accepted: [],
+    rejected: [],
+    inconclusive: [],
+    phaseDurations: [],
+    scorecards: [],
+    repoFullName: "hivemoot/colony",
+    period: "weekly",
+    periodStart: "2026-02-09",
+    periodEnd: "2026-02-15",
+    ...overrides,
+  };
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Tests
+// ───────────────────────────────────────────────────────────────────────────────
+
+describe("getRetroPeriod", () => {
+  it("should cover the previous Monday–Sunday week", () => {
+    // Monday
+    expect(getRetroPeriod("weekly", new Date("2026-02-16T00:15:00Z"))).toEqual({
+      period: "weekly",
+      start: "2026-02-09",
+      end: "2026-02-15",
+    });
+    // Sunday still reports the week before
+    expect(getRetroPeriod("weekly", new Date("2026-02-22T23:00:00Z")).start).toBe("2026-02-09");
+  });
+
+  it("should cover the previous calendar month, across year boundaries", () => {
+    expect(getRetroPeriod("monthly", new Date("2026-03-01T00:15:00Z"))).toEqual({
+      period: "monthly",
+      start: "2026-02-01",
+      end: "2026-02-28",
+    });
+    expect(getRetroPeriod("monthly", new Date("2026-01-15T00:00:00Z"))).toMatchObject({
+      start: "2025-12-01",
+      end: "2025-12-31",
+    });
+  });
+});
+
+describe("collectRetroData", () => {
+  it("should count proposals opened in the period and skip PRs", async () => {
+    const mock: MockData = {
+      issues: [
+        issue(1, "2026-02-10T09:00:00Z", []),
+        issue(2, "2026-02-01T09:00:00Z", []),
+        { ...issue(3, "2026-02-10T09:00:00Z", []), pull_request: {} },
+      ],
+    };
+    const octokit = createMockOctokit(mock);
+    const issueOps = createMockIssueOps(mock);
+
+    const data = await collectRetroData(octokit, issueOps, "hivemoot", "colony", RANGE, APP_ID);
+
+    expect(data.proposalsOpened).toEqual([{ number: 1, title: "Issue 1", author: "alice" }]);
+  });
+
+  it("should classify decisions reached during the period", async () => {
+    const mock: MockData = {
+      issues: [
+        issue(1, "2026-02-01T00:00:00Z", [LABELS.READY_TO_IMPLEMENT]),
+        issue(2, "2026-02-01T00:00:00Z", ["rejected"]),
+        issue(3, "2026-02-01T00:00:00Z", [LABELS.INCONCLUSIVE]),
+        issue(4, "2026-02-01T00:00:00Z", [LABELS.REJECTED]),
+      ],
+      timelines: {
+        1: [labelEvent("labeled", LABELS.READY_TO_IMPLEMENT, "2026-02-11T00:00:00Z")],
+        // Legacy label name
+        2: [labelEvent("labeled", "rejected", "2026-02-12T00:00:00Z")],
+        3: [labelEvent("labeled", LABELS.INCONCLUSIVE, "2026-02-15T23:00:00Z")],
+        // Decided before the period
+        4: [labelEvent("labeled", LABELS.REJECTED, "2026-02-05T00:00:00Z")],
+      },
+    };
+    const octokit = createMockOctokit(mock);
+    const issueOps = createMockIssueOps(mock);
+
+    const data = await collectRetroData(octokit, issueOps, "hivemoot", "colony", RANGE, APP_ID);
+
+    expect(data.accepted.map((i) => i.number)).toEqual([1]);
+    expect(data.rejected.map((i) => i.number)).toEqual([2]);
+    expect(data.inconclusive.map((i) => i.number)).toEqual([3]);
+    expect(computeRejectionRate(data)).toBeCloseTo(1 / 3);
+  });
+
+  it("should compute median durations for phases that ended during the period", async () => {
+    const mock: MockData = {
+      issues: [
+        issue(1, "2026-02-01T00:00:00Z", [LABELS.VOTING]),
+        issue(2, "2026-02-01T00:00:00Z", [LABELS.VOTING]),
+        issue(3, "2026-02-01T00:00:00Z", [LABELS.VOTING]),
+      ],
+      timelines: {
+        1: [
+          labelEvent("labeled", LABELS.DISCUSSION, "2026-02-08T00:00:00Z"),
+          labelEvent("unlabeled", LABELS.DISCUSSION, "2026-02-10T00:00:00Z"),
+          labelEvent("labeled", LABELS.VOTING, "2026-02-10T00:00:00Z"),
+        ],
+        2: [
+          labelEvent("unlabeled", LABELS.DISCUSSION, "2026-02-11T00:00:00Z"),
+          labelEvent("labeled", LABELS.DISCUSSION, "2026-02-10T00:00:00Z"),
+        ],
+        // Discussion ended before the period
+        3: [
+          labelEvent("labeled", LABELS.DISCUSSION, "2026-02-01T00:00:00Z"),
+          labelEvent("unlabeled", LABELS.DISCUSSION, "2026-02-03T00:00:00Z"),
+        ],
+      },
+    };
+    const octokit = createMockOctokit(mock);
+    const issueOps = createMockIssueOps(mock);
+
+    const data = await collectRetroData(octokit, issueOps, "hivemoot", "colony", RANGE, APP_ID);
+
+    // Spans of 2d and 1d (timeline sorted before pairing) → median 1.5d
+    expect(data.phaseDurations).toEqual([
+      { phase: LABELS.DISCUSSION, samples: 2, medianMs: 1.5 * 86_400_000 },
+    ]);
+  });
+
+  it("should not fetch timelines for issues outside governance", async () => {
+    const mock: MockData = {
+      issues: [issue(1, "2026-02-10T00:00:00Z", ["bug"])],
+    };
+    const octokit = createMockOctokit(mock);
+    const issueOps = createMockIssueOps(mock);
+
+    await collectRetroData(octokit, issueOps, "hivemoot", "colony", RANGE, APP_ID);
+
+    expect(issueOps.getLabelEvents).not.toHaveBeenCalled();
+  });
+
+  it("should classify closed PRs from the bot's closing comments", async () => {
+    const mock: MockData = {
+      pulls: [
+        pr(10, "bob", "2026-02-12T00:00:00Z", true),
+        pr(11, "carol", "2026-02-12T00:00:00Z", false),
+        pr(12, "dave", "2026-02-13T00:00:00Z", false),
+        pr(13, "erin", "2026-02-13T00:00:00Z", false),
+        pr(14, "frank", "2026-02-14T00:00:00Z", false),
+        pr(15, "bob", "2026-02-01T00:00:00Z", true),
+      ],
+      comments: {
+        11: [{ body: PR_MESSAGES.prSuperseded(10), performed_via_github_app: { id: APP_ID } }],
+        12: [{ body: PR_MESSAGES.prStaleClosed(21), performed_via_github_app: { id: APP_ID } }],
+        // Not posted by the app
+        13: [{ body: PR_MESSAGES.prSuperseded(10), performed_via_github_app: null }],
+      },
+    };
+    const octokit = createMockOctokit(mock);
+    const issueOps = createMockIssueOps(mock);
+
+    const data = await collectRetroData(octokit, issueOps, "hivemoot", "colony", RANGE, APP_ID);
+
+    expect(data.mergedPRs).toEqual([{ number: 10, title: "PR 10", author: "bob" }]);
+    expect(data.supersededPRs?.map((p) => p.number)).toEqual([11]);
+    expect(data.staleClosedPRs?.map((p) => p.number)).toEqual([12]);
+  });
+
+  it("should omit PR sections when listing PRs fails", async () => {
+    const octokit = createMockOctokit({});
+    const issueOps = createMockIssueOps({});
+    octokit.rest.pulls.list.mockRejectedValue(new Error("API error"));
+
+    const data = await collectRetroData(octokit, issueOps, "hivemoot", "colony", RANGE, APP_ID);
+
+    expect(data.mergedPRs).toBeUndefined();
+    expect(data.supersededPRs).toBeUndefined();
+  });
+
+  it("should build contributor scorecards from the period's activity", async () => {
+    const mock: MockData = {
+      issues: [
+        issue(1, "2026-02-10T00:00:00Z", [LABELS.READY_TO_IMPLEMENT], "alice"),
+        issue(2, "2026-02-10T00:00:00Z", [], "dependabot[bot]"),
+      ],
+      timelines: {
+        1: [
+          labelEvent("labeled", LABELS.VOTING, "2026-02-10T00:00:00Z"),
+          labelEvent("unlabeled", LABELS.VOTING, "2026-02-11T00:00:00Z"),
+          labelEvent("labeled", LABELS.READY_TO_IMPLEMENT, "2026-02-11T00:00:00Z"),
+        ],
+      },
+      comments: {
+        1: [{ id: 100, body: generateMetadataTag(createVotingMetadata(1, 1)), performed_via_github_app: { id: APP_ID } }],
+        11: [{ body: PR_MESSAGES.prSuperseded(10), performed_via_github_app: { id: APP_ID } }],
+        12: [{ body: PR_MESSAGES.prStaleClosed(21), performed_via_github_app: { id: APP_ID } }],
+      },
+      reactions: {
+        100: [
+          { content: "+1", user: { login: "bob" }, created_at: "2026-02-10T12:00:00Z" },
+          { content: "-1", user: { login: "carol" }, created_at: "2026-02-10T12:00:00Z" },
+          { content: "heart", user: { login: "dave" }, created_at: "2026-02-10T12:00:00Z" },
+        ],
+      },
+      pulls: [
+        pr(10, "bob", "2026-02-12T00:00:00Z", true, "2026-02-11T00:00:00Z"),
+        pr(11, "carol", "2026-02-12T00:00:00Z", false, "2026-02-11T00:00:00Z"),
+        pr(12, "carol", "2026-02-13T00:00:00Z", false),
+      ],
+      reviews: {
+        10: [
+          { state: "APPROVED", user: { login: "alice" }, submitted_at: "2026-02-11T12:00:00Z" },
+          { state: "COMMENTED", user: { login: "bob" }, submitted_at: "2026-02-11T12:00:00Z" },
+        ],
+      },
+    };
+    const octokit = createMockOctokit(mock);
+    const issueOps = createMockIssueOps(mock);
+
+    const data = await collectRetroData(octokit, issueOps, "hivemoot", "colony", RANGE, APP_ID);
+
+    expect(data.scorecards).toEqual([
+      {
+        login: "bob", proposals: 0, votes: 1, reviews: 0, prsOpened: 1,
+        prsMerged: 1, prsSuperseded: 0, prsStaleClosed: 0, leaderboardWins: 1,
+      },
+      {
+        login: "carol", proposals: 0, votes: 1, reviews: 0, prsOpened: 1,
+        prsMerged: 0, prsSuperseded: 1, prsStaleClosed: 1, leaderboardWins: 0,
+      },
+      {
+        login: "alice", proposals: 1, votes: 0, reviews: 1, prsOpened: 0,
+        prsMerged: 0, prsSuperseded: 0, prsStaleClosed: 0, leaderboardWins: 0,
+      },
+    ]);
+  });
+
+  it("should keep proposal scorecards when vote collection fails", async () => {
+    const mock: MockData = {
+      issues: [issue(1, "2026-02-10T00:00:00Z", [LABELS.VOTING], "alice")],
+      timelines: { 1: [labelEvent("labeled", LABELS.VOTING, "2026-02-10T00:00:00Z")] },
+    };
+    const octokit = createMockOctokit(mock);
+    const issueOps = createMockIssueOps(mock);
+    octokit.rest.issues.listComments = vi.fn().mockRejectedValue(new Error("API error"));
+
+    const data = await collectRetroData(octokit, issueOps, "hivemoot", "colony", RANGE, APP_ID);
+
+    expect(data.scorecards.map((c) => [c.login, c.proposals, c.votes])).toEqual([["alice", 1, 0]]);
+  });
+});
+
+describe("formatRetroComment", () => {
+  it("should embed retro metadata for idempotent reruns", () => {
+    const body = formatRetroComment(createRetroData());
+    const metadata = parseMetadata(body) as RetroMetadata;
+
+    expect(metadata).toMatchObject({
+      type: "retro",
+      period: "weekly",
+      periodStart: "2026-02-09",
+      periodEnd: "2026-02-15",
+      repo: "hivemoot/colony",
+    });
+  });
+
+  it("should use the quiet format when nothing happened", () => {
+    const body = formatRetroComment(createRetroData({ period: "monthly", periodStart: "2026-02-01", periodEnd: "2026-02-28" }));
+
+    expect(body).toContain("# 🐝 Monthly Retro — February 2026");
+    expect(body).toContain("No governance activity this month.");
+    expect(body).not.toContain("## Proposals");
+  });
+
+  it("should render all sections", () => {
+    const body = formatRetroComment(createRetroData({
+      proposalsOpened: [{ number: 1, title: "Add caching", author: "alice" }],
+      accepted: [{ number: 1, title: "Add caching" }],
+      rejected: [{ number: 2, title: "Rewrite in Rust" }],
+      phaseDurations: [{ phase: LABELS.VOTING, samples: 3, medianMs: 26 * 60 * 60 * 1000 }],
+      mergedPRs: [{ number: 10, title: "Caching layer", author: "bob" }],
+      supersededPRs: [{ number: 11, title: "Alt caching", author: "carol" }],
+      staleClosedPRs: [],
+      scorecards: [{
+        login: "bob", proposals: 0, votes: 2, reviews: 3, prsOpened: 1,
+        prsMerged: 1, prsSuperseded: 0, prsStaleClosed: 0, leaderboardWins: 1,
+      }],
+    }));
+
+    expect(body).toContain("# 🐝 Weekly Retro — Feb 9 – Feb 15, 2026");
+    expect(body).toContain("| 1 | 2 | 1 | 1 | 0 | 50% |");
+    expect(body).toContain("- #2 Rewrite in Rust");
+    expect(body).toContain("| Voting | 1d 2h | 3 |");
+    expect(body).toContain("| 1 | 1 | 0 |");
+    expect(body).toContain("- **#10** Caching layer (by @bob)");
+    expect(body).toContain("## Contributor Scorecards");
+    expect(body).toContain("| @bob | 0 | 2 | 3 | 1 | 1 | 0 | 0 | 1 |");
+    expect(body).toContain("buzz buzz 🐝 Hivemoot Queen");
+  });
+
+  it("should show no rejection rate when nothing was decided", () => {
+    const body = formatRetroComment(createRetroData({
+      proposalsOpened: [{ number: 1, title: "Add caching", author: "alice" }],
+    }));
+
+    expect(body).toContain("| 1 | 0 | 0 | 0 | 0 | — |");
+    expect(body).not.toContain("## Pull Requests");
+  });
+});
@@ -0,0 +1,582 @@
+/**
+ * Colony Retrospective Module
+ *
+ * Aggregates governance activity over a week or month and formats it as a
+ * Colony Journal comment, alongside the daily standup:
+ * - Proposals opened and decided (accepted, rejected, inconclusive)
+ * - Median time spent in each governance phase
+ * - Implementation PRs merged, superseded, and closed as stale
+ * - Contributor scorecards (see scorecards.ts)
+ *
+ * Periods are whole UTC calendar weeks (Monday–Sunday) or months.
+ */
+
+import { LABELS, PR_MESSAGES, formatDuration, isLabelMatch } from "../config.js";
+import {
+  createRetroMetadata,
+  generateMetadataTag,
+  type RetroPeriod,
+} from "./bot-comments.js";
+import {
+  CYCLE_TIME_PHASES,
+  computePhaseSpans,
+  isGovernanceIssue,
+  summarizePhaseSpans,
+  type CycleTimeIssueOperations,
+  type CycleTimePhase,
+  type PhaseSpan,
+} from "./cycle-time.js";
+import { logger } from "./logger.js";
+import {
+  buildScorecards,
+  collectReviews,
+  collectVotes,
+  emptyScorecardActivity,
+  formatScorecards,
+  inWindow,
+  type ActivityWindow,
+  type ContributorScorecard,
+} from "./scorecards.js";
+import type { StandupIssueRef, StandupPRRef } from "./standup.js";
+import type { LabelEvent } from "./types.js";
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────────────────────
+
+export interface RetroPeriodRange {
+  period: RetroPeriod;
+  /** First day of the period (YYYY-MM-DD, inclusive). */
+  start: string;
+  /** Last day of the period (YYYY-MM-DD, inclusive). */
+  end: string;
+}
+
+export interface RetroProposalRef extends StandupIssueRef {
+  author: string;
+}
+
+export interface RetroPhaseDuration {
+  phase: CycleTimePhase;
+  /** Number of phase spans that ended during the period. */
+  samples: number;
+  medianMs: number;
+}
+
+export interface RetroData {
+  // Proposals (required — fail if unavailable)
+  proposalsOpened: RetroProposalRef[];
+  accepted: StandupIssueRef[];
+  rejected: StandupIssueRef[];
+  inconclusive: StandupIssueRef[];
+  phaseDurations: RetroPhaseDuration[];
+
+  // Pull requests (optional — degrade gracefully)
+  mergedPRs?: StandupPRRef[];
+  supersededPRs?: StandupPRRef[];
+  staleClosedPRs?: StandupPRRef[];
+
+  /** Most active contributors first. */
+  scorecards: ContributorScorecard[];
+
+  // Metadata
+  repoFullName: string;
+  period: RetroPeriod;
+  periodStart: string;
+  periodEnd: string;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Retro Client Interface
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Minimal Octokit interface for retrospective data collection.
+ * All listing goes through paginate.iterator, so only the method
+ * references and their parameters are typed here.
+ */
+export interface RetroClient {
+  rest: {
+    issues: {
+      listForRepo: (params: {
+        owner: string;
+        repo: string;
+        state?: "open" | "closed" | "all";
+        since?: string;
+        per_page?: number;
+      }) => Promise<unknown>;
+      listComments: (params: {
+        owner: string;
+        repo: string;
+        issue_number: number;
+        per_page?: number;
+      }) => Promise<unknown>;
+    };
+    reactions: {
+      listForIssueComment: (params: {
+        owner: string;
+        repo: string;
+        comment_id: number;
+        per_page?: number;
+      }) => Promise<unknown>;
+    };
+    pulls: {
+      list: (params: {
+        owner: string;
+        repo: string;
+        state?: "closed" | "open" | "all";
+        sort?: "updated" | "created" | "popularity" | "long-running";
+        direction?: "desc" | "asc";
+        per_page?: number;
+      }) => Promise<unknown>;
+      listReviews: (params: {
+        owner: string;
+        repo: string;
+        pull_number: number;
+        per_page?: number;
+      }) => Promise<unknown>;
+    };
+  };
+  paginate: {
+    iterator: <T>(
+      method: unknown,
+      params: unknown
+    ) => AsyncIterable<{ data: T[] }>;
+  };
+}
+
+interface RetroIssue {
+  number: number;
+  title: string;
+  user: { login: string } | null;
+  created_at: string;
+  pull_request?: unknown;
+  labels: Array<string | { name?: string }>;
+}
+
+interface RetroPullRequest {
+  number: number;
+  title: string;
+  user: { login: string } | null;
+  created_at: string;
+  merged_at: string | null;
+  closed_at: string | null;
+  updated_at: string;
+}
+
+interface RetroComment {
+  body?: string;
+  performed_via_github_app?: { id: number } | null;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Period
+// ───────────────────────────────────────────────────────────────────────────────
+
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Get the most recent complete period before `now`: the previous
+ * Monday–Sunday week, or the previous calendar month (UTC).
+ */
+export function getRetroPeriod(period: RetroPeriod, now: Date = new Date()): RetroPeriodRange {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+
+  if (period === "weekly") {
+    const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+    const thisMonday = today - daysSinceMonday * MS_PER_DAY;
+    return {
+      period,
+      start: toDateString(thisMonday - 7 * MS_PER_DAY),
+      end: toDateString(thisMonday - MS_PER_DAY),
+    };
+  }
+
+  return {
+    period,
+    start: toDateString(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)),
+    // Day 0 of the current month is the last day of the previous one
+    end: toDateString(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 0)),
+  };
+}
+
+function toDateString(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0];
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Data Collection
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Collect retrospective data for a repository and period.
+ *
+ * Proposal data is required — failure throws.
+ * PR sections and vote/review counts are optional — failures logged and omitted.
+ */
+export async function collectRetroData(
+  octokit: RetroClient,
+  issueOps: CycleTimeIssueOperations,
+  owner: string,
+  repo: string,
+  range: RetroPeriodRange,
+  appId: number
+): Promise<RetroData> {
+  const repoFullName = `${owner}/${repo}`;
+  const window: ActivityWindow = {
+    start: `${range.start}T00:00:00Z`,
+    end: `${range.end}T23:59:59Z`,
+  };
+
+  // ── Required: Proposals ───────────────────────────────────────────────
+  // `since` filters by updated_at, which every issue opened or relabeled
+  // during the period satisfies.
+  const issues: RetroIssue[] = [];
+  for await (const { data } of octokit.paginate.iterator<RetroIssue>(
+    octokit.rest.issues.listForRepo,
+    { owner, repo, state: "all", since: window.start, per_page: 100 }
+  )) {
+    issues.push(...data.filter((issue) => !issue.pull_request));
+  }
+
+  const data: RetroData = {
+    proposalsOpened: issues
+      .filter((issue) => inWindow(issue.created_at, window))
+      .map((issue) => ({ ...toIssueRef(issue), author: issue.user?.login ?? "ghost" })),
+    accepted: [],
+    rejected: [],
+    inconclusive: [],
+    phaseDurations: [],
+    scorecards: [],
+    repoFullName,
+    period: range.period,
+    periodStart: range.start,
+    periodEnd: range.end,
+  };
+
+  // Only issues that went through governance get their timeline fetched
+  const spans: PhaseSpan[] = [];
+  const votedIssues: number[] = [];
+  for (const issue of issues.filter(isGovernanceIssue)) {
+    let events: LabelEvent[];
+    try {
+      events = await issueOps.getLabelEvents({ owner, repo, issueNumber: issue.number });
+    } catch (error) {
+      logger.debug(`Failed to fetch timeline for #${issue.number}: ${(error as Error).message}`);
+      continue;
+    }
+
+    const outcome = findOutcome(events, window);
+    if (outcome) {
+      data[outcome].push(toIssueRef(issue));
+    }
+
+    const issueSpans = computePhaseSpans(events);
+    if (issueSpans.some((span) => isVotingSpan(span) && overlapsWindow(span, window))) {
+      votedIssues.push(issue.number);
+    }
+    spans.push(...issueSpans);
+  }
+
+  // Phases that ended during the period
+  const percentiles = summarizePhaseSpans(spans, { from: new Date(window.start), to: new Date(window.end) });
+  data.phaseDurations = CYCLE_TIME_PHASES.flatMap((phase) => {
+    const stats = percentiles[phase];
+    return stats ? [{ phase, samples: stats.count, medianMs: stats.p50 }] : [];
+  });
+
+  const activity = emptyScorecardActivity();
+  activity.proposals = data.proposalsOpened.map((issue) => issue.author);
+
+  // ── Optional: Votes ───────────────────────────────────────────────────
+  try {
+    activity.votes = await collectVotes(octokit, owner, repo, votedIssues, window, appId);
+  } catch (error) {
+    logger.warn(`[${repoFullName}] Failed to collect votes: ${(error as Error).message}`);
+  }
+
+  // ── Optional: Pull requests ───────────────────────────────────────────
+  try {
+    const recentPRs = await fetchRecentPRs(octokit, owner, repo, window);
+    const closedPRs = recentPRs.filter((pr) => inWindow(pr.merged_at ?? pr.closed_at, window));
+    data.mergedPRs = closedPRs.filter((pr) => pr.merged_at).map(toPRRef);
+    data.supersededPRs = [];
+    data.staleClosedPRs = [];
+    const winners = new Set<number>();
+
+    for (const pr of closedPRs.filter((pr) => !pr.merged_at)) {
+      try {
+        const closure = await findCloseReason(octokit, owner, repo, pr.number, appId);
+        if (closure?.reason === "superseded") {
+          data.supersededPRs.push(toPRRef(pr));
+          if (closure.implementedBy !== null) {
+            winners.add(closure.implementedBy);
+          }
+        } else if (closure?.reason === "stale") {
+          data.staleClosedPRs.push(toPRRef(pr));
+        }
+      } catch (error) {
+        logger.debug(`Failed to fetch comments for PR #${pr.number}: ${(error as Error).message}`);
+      }
+    }
+
+    activity.prsOpened = recentPRs.filter((pr) => inWindow(pr.created_at, window)).map((pr) => toPRRef(pr).author);
+    activity.prsMerged = data.mergedPRs.map((pr) => pr.author);
+    activity.prsSuperseded = data.supersededPRs.map((pr) => pr.author);
+    activity.prsStaleClosed = data.staleClosedPRs.map((pr) => pr.author);
+    activity.leaderboardWins = data.mergedPRs.filter((pr) => winners.has(pr.number)).map((pr) => pr.author);
+
+    try {
+      const reviewed = recentPRs.map((pr) => ({ number: pr.number, author: toPRRef(pr).author }));
+      activity.reviews = await collectReviews(octokit, owner, repo, reviewed, window);
+    } catch (error) {
+      logger.warn(`[${repoFullName}] Failed to collect reviews: ${(error as Error).message}`);
+    }
+  } catch (error) {
+    logger.warn(`[${repoFullName}] Failed to fetch PRs: ${(error as Error).message}`);
+  }
+
+  data.scorecards = buildScorecards(activity);
+
+  return data;
+}
+
+function isVotingSpan(span: PhaseSpan): boolean {
+  return span.phase === LABELS.VOTING || span.phase === LABELS.EXTENDED_VOTING;
+}
+
+function overlapsWindow(span: PhaseSpan, window: ActivityWindow): boolean {
+  return span.start <= new Date(window.end) && (span.end === null || span.end >= new Date(window.start));
+}
+
+function toIssueRef(issue: RetroIssue): StandupIssueRef {
+  return { number: issue.number, title: issue.title };
+}
+
+function toPRRef(pr: RetroPullRequest): StandupPRRef {
+  return { number: pr.number, title: pr.title, author: pr.user?.login ?? "ghost" };
+}
+
+/**
+ * Find the decision reached during the period, if any.
+ * The latest outcome label added within the window wins.
+ */
+function findOutcome(
+  events: LabelEvent[],
+  window: ActivityWindow
+): "accepted" | "rejected" | "inconclusive" | null {
+  let outcome: "accepted" | "rejected" | "inconclusive" | null = null;
+  for (const event of events) {
+    if (event.type !== "labeled" || !inWindow(event.time.toISOString(), window)) continue;
+    if (isLabelMatch(event.label, LABELS.READY_TO_IMPLEMENT)) outcome = "accepted";
+    else if (isLabelMatch(event.label, LABELS.REJECTED)) outcome = "rejected";
+    else if (isLabelMatch(event.label, LABELS.INCONCLUSIVE)) outcome = "inconclusive";
+  }
+  return outcome;
+}
+
+/**
+ * Fetch PRs updated since the period start: every PR opened, reviewed,
+ * merged, or closed during the period.
+ * Walks recently-updated PRs and stops once past the period start.
+ */
+async function fetchRecentPRs(
+  octokit: RetroClient,
+  owner: string,
+  repo: string,
+  window: ActivityWindow
+): Promise<RetroPullRequest[]> {
+  const prs: RetroPullRequest[] = [];
+  for await (const { data } of octokit.paginate.iterator<RetroPullRequest>(
+    octokit.rest.pulls.list,
+    { owner, repo, state: "all", sort: "updated", direction: "desc", per_page: 100 }
+  )) {
+    prs.push(...data.filter((pr) => pr.updated_at >= window.start));
+    if (data.length === 0 || data[data.length - 1].updated_at < window.start) {
+      break;
+    }
+  }
+  return prs;
+}
+
+const SUPERSEDED_HEADER = PR_MESSAGES.prSuperseded(0).split("\n")[0];
+const STALE_CLOSED_HEADER = PR_MESSAGES.prStaleClosed(0).split("\n")[0];
+
+type CloseReason =
+  | { reason: "superseded"; implementedBy: number | null }
+  | { reason: "stale" };
+
+/**
+ * Tell why the bot closed an unmerged PR, from the closing comment it posted.
+ * Superseded PRs also report the PR that implemented the issue instead.
+ * Returns null for PRs closed by their author or a maintainer.
+ */
+async function findCloseReason(
+  octokit: RetroClient,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  appId: number
+): Promise<CloseReason | null> {
+  for await (const { data } of octokit.paginate.iterator<RetroComment>(
+    octokit.rest.issues.listComments,
+    { owner, repo, issue_number: prNumber, per_page: 100 }
+  )) {
+    for (const comment of data) {
+      if (comment.performed_via_github_app?.id !== appId || !comment.body) continue;
+      if (comment.body.startsWith(SUPERSEDED_HEADER)) {
+        const match = /#(\d+)/.exec(comment.body);
+        return { reason: "superseded", implementedBy: match ? Number(match[1]) : null };
+      }
+      if (comment.body.startsWith(STALE_CLOSED_HEADER)) return { reason: "stale" };
+    }
+  }
+  return null;
+}
+
+/**
+ * Share of decided proposals that were rejected, or null when nothing was decided.
+ */
+export function computeRejectionRate(data: RetroData): number | null {
+  const decided = data.accepted.length + data.rejected.length + data.inconclusive.length;
+  return decided > 0 ? data.rejected.length / decided : null;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Formatting
+// ───────────────────────────────────────────────────────────────────────────────
+
+const MAX_LIST_ITEMS = 8;
+const MAX_SCORECARDS = 10;
+
+const PHASE_NAMES: Record<string, string> = {
+  [LABELS.DISCUSSION]: "Discussion",
+  [LABELS.VOTING]: "Voting",
+  [LABELS.EXTENDED_VOTING]: "Extended voting",
+  [LABELS.READY_TO_IMPLEMENT]: "Ready to implement",
+};
+
+/**
+ * Format the period for display, e.g. "Feb 9 – Feb 15, 2026" or "February 2026".
+ */
+function formatPeriod(data: RetroData): string {
+  const start = new Date(`${data.periodStart}T12:00:00Z`);
+  if (data.period === "monthly") {
+    return start.toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+  }
+  const end = new Date(`${data.periodEnd}T12:00:00Z`);
+  const startText = start.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  const endText = end.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+  return `${startText} – ${endText}`;
+}
+
+function formatIssueList(title: string, issues: StandupIssueRef[]): string[] {
+  if (issues.length === 0) return [];
+  const lines = [`**${title}:**`];
+  for (const issue of issues.slice(0, MAX_LIST_ITEMS)) {
+    lines.push(`- #${issue.number} ${issue.title}`);
+  }
+  if (issues.length > MAX_LIST_ITEMS) {
+    lines.push(`- *...and ${issues.length - MAX_LIST_ITEMS} more*`);
+  }
+  lines.push("");
+  return lines;
+}
+
+function hasAnyActivity(data: RetroData): boolean {
+  return (
+    data.proposalsOpened.length > 0 ||
+    data.accepted.length + data.rejected.length + data.inconclusive.length > 0 ||
+    data.phaseDurations.length > 0 ||
+    (data.mergedPRs?.length ?? 0) > 0 ||
+    (data.supersededPRs?.length ?? 0) > 0 ||
+    (data.staleClosedPRs?.length ?? 0) > 0 ||
+    data.scorecards.length > 0
+  );
+}
+
+/**
+ * Format the retrospective comment body.
+ */
+export function formatRetroComment(data: RetroData): string {
+  const metadata = createRetroMetadata(data.period, data.periodStart, data.periodEnd, data.repoFullName);
+  const title = data.period === "weekly" ? "Weekly Retro" : "Monthly Retro";
+  const periodNoun = data.period === "weekly" ? "week" : "month";
+
+  const sections: string[] = [
+    generateMetadataTag(metadata),
+    "",
+    `# 🐝 ${title} — ${formatPeriod(data)}`,
+    "",
+  ];
+
+  if (!hasAnyActivity(data)) {
+    sections.push(`The colony rested. No governance activity this ${periodNoun}.`);
+    sections.push("");
+    sections.push("---");
+    sections.push("buzz buzz 🐝 Hivemoot Queen");
+    return sections.join("\n");
+  }
+
+  // Proposals
+  const decided = data.accepted.length + data.rejected.length + data.inconclusive.length;
+  const rejectionRate = computeRejectionRate(data);
+  sections.push("## Proposals");
+  sections.push("");
+  sections.push("| Opened | Decided | Accepted | Rejected | Inconclusive | Rejection rate |");
+  sections.push("|--------|---------|----------|----------|--------------|----------------|");
+  sections.push(
+    `| ${data.proposalsOpened.length} | ${decided} | ${data.accepted.length} | ${data.rejected.length} | ` +
+    `${data.inconclusive.length} | ${rejectionRate === null ? "—" : `${Math.round(rejectionRate * 100)}%`} |`
+  );
+  sections.push("");
+  sections.push(...formatIssueList("Accepted", data.accepted));
+  sections.push(...formatIssueList("Rejected", data.rejected));
+
+  // Time in phase
+  if (data.phaseDurations.length > 0) {
+    sections.push("## Time in Phase");
+    sections.push("");
+    sections.push("| Phase | Median | Samples |");
+    sections.push("|-------|--------|---------|");
+    for (const { phase, medianMs, samples } of data.phaseDurations) {
+      sections.push(`| ${PHASE_NAMES[phase] ?? phase} | ${formatDuration(medianMs)} | ${samples} |`);
+    }
+    sections.push("");
+  }
+
+  // Pull requests
+  if (data.mergedPRs) {
+    sections.push("## Pull Requests");
+    sections.push("");
+    sections.push("| Merged | Superseded | Stale-closed |");
+    sections.push("|--------|------------|--------------|");
+    sections.push(
+      `| ${data.mergedPRs.length} | ${data.supersededPRs?.length ?? 0} | ${data.staleClosedPRs?.length ?? 0} |`
+    );
+    sections.push("");
+    if (data.mergedPRs.length > 0) {
+      sections.push("**Merged:**");
+      for (const pr of data.mergedPRs.slice(0, MAX_LIST_ITEMS)) {
+        sections.push(`- **#${pr.number}** ${pr.title} (by @${pr.author})`);
+      }
+      if (data.mergedPRs.length > MAX_LIST_ITEMS) {
+        sections.push(`- *...and ${data.mergedPRs.length - MAX_LIST_ITEMS} more*`);
+      }
+      sections.push("");
+    }
+  }
+
+  // Contributor scorecards
+  if (data.scorecards.length > 0) {
+    sections.push("## Contributor Scorecards");
+    sections.push("");
+    sections.push(...formatScorecards(data.scorecards, MAX_SCORECARDS));
+    sections.push("");
+  }
+
+  sections.push("---");
+  sections.push("buzz buzz 🐝 Hivemoot Queen");
+
+  return sections.join("\n");
+}
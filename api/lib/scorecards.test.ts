@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildScorecards,
+  collectReviews,
+  collectVotes,
+  emptyScorecardActivity,
+  formatScorecards,
+  scorecardTotal,
+  type ScorecardClient,
+} from "./scorecards.js";
+import { createVotingMetadata, generateMetadataTag } from "./bot-comments.js";
+
+/**
+ * Tests for Contributor Scorecards
+ *
+ * Verifies:
+ * - Aggregation and ranking, excluding bots and deleted users
+ * - Votes counted once per voter per issue, within the period
+ * - Reviews counted once per reviewer per PR, excluding self-reviews
+ * - Table formatting
+ */
+
+const APP_ID = 12345;
+const WINDOW = { start: "2026-02-09T00:00:00Z", end: "2026-02-15T23:59:59Z" };
+
+function createMockClient(mock: {
+  comments?: Record<number, unknown[]>;
+  reactions?: Record<number, unknown[]>;
+  reviews?: Record<number, unknown[]>;
+}): ScorecardClient {
+  return {
+    rest: {
+      issues: {
+        listComments: vi.fn(async (params: { issue_number: number }) => ({
+          data: mock.comments?.[params.issue_number] ?? [],
+        })),
+      },
+      reactions: {
+        listForIssueComment: vi.fn(async (params: { comment_id: number }) => ({
+          data: mock.reactions?.[params.comment_id] ?? [],
+        })),
+      },
+      pulls: {
+        listReviews: vi.fn(async (params: { pull_number: number }) => ({
+          data: mock.reviews?.[params.pull_number] ?? [],
+        })),
+      },
+    },
+    paginate: {
+      iterator: <T>(method: unknown, params: unknown) =>
+        (async function* () {
+          yield (await (method as (p: unknown) => Promise<{ data: T[] }>)(params));
+        })(),
+    },
+  };
+}
+
+function votingComment(id: number, issueNumber: number, appId = APP_ID) {
+  return {
+    id,
+    body: generateMetadataTag(createVotingMetadata(issueNumber, 1)),
+    performed_via_github_app: { id: appId },
+  };
+}
+
+describe("buildScorecards", () => {
+  it("should aggregate activity per login, most active first", () => {
+    const activity = emptyScorecardActivity();
+    activity.proposals = ["alice", "alice", "alice"];
+    activity.votes = ["bob", "alice"];
+    activity.prsMerged = ["bob"];
+    activity.leaderboardWins = ["bob"];
+
+    const cards = buildScorecards(activity);
+
+    expect(cards.map((c) => c.login)).toEqual(["alice", "bob"]);
+    expect(cards[0]).toMatchObject({ proposals: 3, votes: 1, prsMerged: 0 });
+    expect(cards[1]).toMatchObject({ votes: 1, prsMerged: 1, leaderboardWins: 1 });
+    expect(scorecardTotal(cards[1])).toBe(3);
+  });
+
+  it("should break ties on merged PRs, then login", () => {
+    const activity = emptyScorecardActivity();
+    activity.proposals = ["carol", "alice"];
+    activity.prsMerged = ["bob"];
+
+    expect(buildScorecards(activity).map((c) => c.login)).toEqual(["bob", "alice", "carol"]);
+  });
+
+  it("should leave out bots and deleted users", () => {
+    const activity = emptyScorecardActivity();
+    activity.proposals = ["dependabot[bot]", "ghost", "alice"];
+
+    expect(buildScorecards(activity).map((c) => c.login)).toEqual(["alice"]);
+  });
+});
+
+describe("collectVotes", () => {
+  it("should count each voter once per issue, within the period", async () => {
+    const client = createMockClient({
+      comments: {
+        1: [votingComment(100, 1), votingComment(101, 1)],
+        2: [votingComment(200, 2)],
+      },
+      reactions: {
+        100: [
+          { content: "+1", user: { login: "alice" }, created_at: "2026-02-10T00:00:00Z" },
+          { content: "eyes", user: { login: "bob" }, created_at: "2026-02-10T00:00:00Z" },
+          { content: "heart", user: { login: "carol" }, created_at: "2026-02-10T00:00:00Z" },
+          { content: "-1", user: { login: "dave" }, created_at: "2026-02-01T00:00:00Z" },
+        ],
+        // Re-vote on a later voting cycle
+        101: [{ content: "-1", user: { login: "alice" }, created_at: "2026-02-12T00:00:00Z" }],
+        200: [{ content: "+1", user: { login: "alice" }, created_at: "2026-02-12T00:00:00Z" }],
+      },
+    });
+
+    const voters = await collectVotes(client, "hivemoot", "colony", [1, 2], WINDOW, APP_ID);
+
+    expect(voters.sort()).toEqual(["alice", "alice", "bob"]);
+  });
+
+  it("should ignore comments not posted by the app", async () => {
+    const client = createMockClient({
+      comments: { 1: [votingComment(100, 1, 999)] },
+      reactions: {
+        100: [{ content: "+1", user: { login: "alice" }, created_at: "2026-02-10T00:00:00Z" }],
+      },
+    });
+
+    const voters = await collectVotes(client, "hivemoot", "colony", [1], WINDOW, APP_ID);
+
+    expect(voters).toEqual([]);
+    expect(client.rest.reactions.listForIssueComment).not.toHaveBeenCalled();
+  });
+});
+
+describe("collectReviews", () => {
+  it("should count each reviewer once per PR, excluding the author", async () => {
+    const client = createMockClient({
+      reviews: {
+        10: [
+          { state: "COMMENTED", user: { login: "alice" }, submitted_at: "2026-02-10T00:00:00Z" },
+          { state: "APPROVED", user: { login: "alice" }, submitted_at: "2026-02-11T00:00:00Z" },
+          { state: "COMMENTED", user: { login: "bob" }, submitted_at: "2026-02-11T00:00:00Z" },
+          { state: "APPROVED", user: { login: "carol" }, submitted_at: "2026-02-01T00:00:00Z" },
+          { state: "PENDING", user: { login: "dave" }, submitted_at: null },
+        ],
+      },
+    });
+
+    const reviewers = await collectReviews(client, "hivemoot", "colony", [{ number: 10, author: "bob" }], WINDOW);
+
+    expect(reviewers).toEqual(["alice"]);
+  });
+});
+
+describe("formatScorecards", () => {
+  it("should render a row per contributor up to the limit", () => {
+    const activity = emptyScorecardActivity();
+    activity.proposals = ["alice", "alice", "bob", "carol"];
+    activity.reviews = ["alice"];
+
+    const lines = formatScorecards(buildScorecards(activity), 2);
+
+    expect(lines).toContain("| @alice | 2 | 0 | 1 | 0 | 0 | 0 | 0 | 0 |");
+    expect(lines).toContain("| @bob | 1 | 0 | 0 | 0 | 0 | 0 | 0 | 0 |");
+    expect(lines.join("\n")).not.toContain("@carol");
+    expect(lines).toContain("*...and 1 more contributors*");
+  });
+});
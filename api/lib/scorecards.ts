@@ -0,0 +1,279 @@
+/**
+ * Contributor Scorecards
+ *
+ * Per-login activity counts for a retrospective period, so the colony's
+ * agents get feedback on who is doing what:
+ * - Proposals authored
+ * - Votes cast on the Queen's voting comments (one per voter per issue)
+ * - Reviews given on other contributors' PRs (one per reviewer per PR)
+ * - PRs opened, merged, superseded, and closed as stale
+ * - Leaderboard wins: merged PRs that beat at least one competing implementation
+ *
+ * Published as the contributors section of the weekly/monthly retro.
+ */
+
+import { isVotingComment } from "./bot-comments.js";
+import type { VoteReaction } from "./types.js";
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────────────────────
+
+export interface ContributorScorecard {
+  login: string;
+  proposals: number;
+  votes: number;
+  reviews: number;
+  prsOpened: number;
+  prsMerged: number;
+  prsSuperseded: number;
+  prsStaleClosed: number;
+  leaderboardWins: number;
+}
+
+type ScorecardCount = Exclude<keyof ContributorScorecard, "login">;
+
+/**
+ * Raw activity for a period: one login entry per counted action.
+ */
+export type ScorecardActivity = Record<ScorecardCount, string[]>;
+
+/** ISO timestamps bounding a period (inclusive). */
+export interface ActivityWindow {
+  start: string;
+  end: string;
+}
+
+/**
+ * Minimal Octokit interface for vote and review collection.
+ */
+export interface ScorecardClient {
+  rest: {
+    issues: {
+      listComments: (params: {
+        owner: string;
+        repo: string;
+        issue_number: number;
+        per_page?: number;
+      }) => Promise<unknown>;
+    };
+    reactions: {
+      listForIssueComment: (params: {
+        owner: string;
+        repo: string;
+        comment_id: number;
+        per_page?: number;
+      }) => Promise<unknown>;
+    };
+    pulls: {
+      listReviews: (params: {
+        owner: string;
+        repo: string;
+        pull_number: number;
+        per_page?: number;
+      }) => Promise<unknown>;
+    };
+  };
+  paginate: {
+    iterator: <T>(
+      method: unknown,
+      params: unknown
+    ) => AsyncIterable<{ data: T[] }>;
+  };
+}
+
+interface ScorecardComment {
+  id: number;
+  body?: string;
+  performed_via_github_app?: { id: number } | null;
+}
+
+interface ScorecardReaction {
+  content: string;
+  user: { login: string } | null;
+  created_at?: string;
+}
+
+interface ScorecardReview {
+  state: string;
+  user: { login: string } | null;
+  submitted_at?: string | null;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Aggregation
+// ───────────────────────────────────────────────────────────────────────────────
+
+const SCORECARD_COUNTS: ScorecardCount[] = [
+  "proposals",
+  "votes",
+  "reviews",
+  "prsOpened",
+  "prsMerged",
+  "prsSuperseded",
+  "prsStaleClosed",
+  "leaderboardWins",
+];
+
+export function emptyScorecardActivity(): ScorecardActivity {
+  return Object.fromEntries(SCORECARD_COUNTS.map((count) => [count, []])) as unknown as ScorecardActivity;
+}
+
+/**
+ * Total actions on a scorecard, used for ranking.
+ */
+export function scorecardTotal(card: ContributorScorecard): number {
+  return SCORECARD_COUNTS.reduce((sum, count) => sum + card[count], 0);
+}
+
+/**
+ * Build one scorecard per login, most active first (ties break on merged
+ * PRs, then login). Deleted users ("ghost") and bot accounts are left out.
+ */
+export function buildScorecards(activity: ScorecardActivity): ContributorScorecard[] {
+  const byLogin = new Map<string, ContributorScorecard>();
+
+  for (const count of SCORECARD_COUNTS) {
+    for (const login of activity[count]) {
+      if (login === "ghost" || login.endsWith("[bot]")) continue;
+
+      let card = byLogin.get(login);
+      if (!card) {
+        card = {
+          login,
+          proposals: 0,
+          votes: 0,
+          reviews: 0,
+          prsOpened: 0,
+          prsMerged: 0,
+          prsSuperseded: 0,
+          prsStaleClosed: 0,
+          leaderboardWins: 0,
+        };
+        byLogin.set(login, card);
+      }
+      card[count]++;
+    }
+  }
+
+  return [...byLogin.values()].sort((a, b) =>
+    scorecardTotal(b) - scorecardTotal(a) ||
+    b.prsMerged - a.prsMerged ||
+    a.login.localeCompare(b.login)
+  );
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Collection
+// ───────────────────────────────────────────────────────────────────────────────
+
+const VOTE_REACTIONS = new Set<string>(["+1", "-1", "confused", "eyes"] satisfies VoteReaction[]);
+
+/**
+ * Check whether an ISO timestamp falls within the window.
+ */
+export function inWindow(timestamp: string | null | undefined, window: ActivityWindow): boolean {
+  return !!timestamp && timestamp >= window.start && timestamp <= window.end;
+}
+
+/**
+ * Collect votes cast during the period on the Queen's voting comments of
+ * the given issues. Returns one voter login per issue voted on.
+ */
+export async function collectVotes(
+  client: ScorecardClient,
+  owner: string,
+  repo: string,
+  issueNumbers: number[],
+  window: ActivityWindow,
+  appId: number
+): Promise<string[]> {
+  const voters: string[] = [];
+
+  for (const issueNumber of issueNumbers) {
+    const issueVoters = new Set<string>();
+
+    for await (const { data: comments } of client.paginate.iterator<ScorecardComment>(
+      client.rest.issues.listComments,
+      { owner, repo, issue_number: issueNumber, per_page: 100 }
+    )) {
+      for (const comment of comments) {
+        if (!isVotingComment(comment.body, appId, comment.performed_via_github_app?.id)) continue;
+
+        for await (const { data: reactions } of client.paginate.iterator<ScorecardReaction>(
+          client.rest.reactions.listForIssueComment,
+          { owner, repo, comment_id: comment.id, per_page: 100 }
+        )) {
+          for (const reaction of reactions) {
+            if (VOTE_REACTIONS.has(reaction.content) && reaction.user?.login && inWindow(reaction.created_at, window)) {
+              issueVoters.add(reaction.user.login);
+            }
+          }
+        }
+      }
+    }
+
+    voters.push(...issueVoters);
+  }
+
+  return voters;
+}
+
+/**
+ * Collect reviews submitted during the period on the given PRs, excluding
+ * the author's own. Returns one reviewer login per PR reviewed.
+ */
+export async function collectReviews(
+  client: ScorecardClient,
+  owner: string,
+  repo: string,
+  prs: Array<{ number: number; author: string }>,
+  window: ActivityWindow
+): Promise<string[]> {
+  const reviewers: string[] = [];
+
+  for (const pr of prs) {
+    const prReviewers = new Set<string>();
+
+    for await (const { data: reviews } of client.paginate.iterator<ScorecardReview>(
+      client.rest.pulls.listReviews,
+      { owner, repo, pull_number: pr.number, per_page: 100 }
+    )) {
+      for (const review of reviews) {
+        const login = review.user?.login;
+        if (login && login !== pr.author && review.state !== "PENDING" && inWindow(review.submitted_at, window)) {
+          prReviewers.add(login);
+        }
+      }
+    }
+
+    reviewers.push(...prReviewers);
+  }
+
+  return reviewers;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Formatting
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Format scorecards as a markdown table, listing at most `limit` rows.
+ */
+export function formatScorecards(cards: ContributorScorecard[], limit: number): string[] {
+  const lines = [
+    "| Contributor | Proposals | Votes | Reviews | PRs opened | Merged | Superseded | Stale-closed | Leaderboard wins |",
+    "|-------------|-----------|-------|---------|------------|--------|------------|--------------|------------------|",
+  ];
+  for (const c of cards.slice(0, limit)) {
+    lines.push(
+      `| @${c.login} | ${c.proposals} | ${c.votes} | ${c.reviews} | ${c.prsOpened} | ` +
+      `${c.prsMerged} | ${c.prsSuperseded} | ${c.prsStaleClosed} | ${c.leaderboardWins} |`
+    );
+  }
+  if (cards.length > limit) {
+    lines.push("");
+    lines.push(`*...and ${cards.length - limit} more contributors*`);
+  }
+  return lines;
+}
@@ -0,0 +1,338 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  createStandupSinks,
+  DiscussionSink,
+  FileSink,
+  IssueSink,
+  WebhookSink,
+  type StandupReport,
+  type StandupSinkClient,
+} from "./standup-sinks.js";
+import { createStandupMetadata, generateMetadataTag, parseMetadata } from "./bot-comments.js";
+import type { StandupData } from "./standup.js";
+
+/**
+ * Tests for Standup Sinks
+ *
+ * Verifies:
+ * - Sink selection from standup.targets
+ * - Tracking issue lookup, creation, pinning, and idempotency
+ * - File commits, branch creation, and idempotency via file metadata
+ * - Webhook payload and failure handling
+ */
+
+const CONTEXT = {
+  owner: "hivemoot",
+  repo: "colony",
+  repoInfo: {
+    repoId: "R_123",
+    repoCreatedAt: "2024-06-01T00:00:00Z",
+    hasDiscussions: true,
+    categories: [{ id: "DC_1", name: "Colony Reports" }],
+  },
+};
+
+const REPORT_DATE = "2026-02-06";
+
+function standupBody(date = REPORT_DATE): string {
+  return `# Colony Report\n\n${generateMetadataTag(createStandupMetadata(250, date, "hivemoot/colony"))}`;
+}
+
+const REPORT: StandupReport = {
+  reportDate: REPORT_DATE,
+  dayNumber: 250,
+  body: standupBody(),
+  data: { repoFullName: "hivemoot/colony", reportDate: REPORT_DATE, dayNumber: 250 } as StandupData,
+};
+
+function notFound(): Error {
+  return Object.assign(new Error("Not Found"), { status: 404 });
+}
+
+function createMockClient() {
+  return {
+    graphql: vi.fn(),
+    rest: {
+      repos: {
+        get: vi.fn().mockResolvedValue({ data: { default_branch: "main" } }),
+        getBranch: vi.fn().mockResolvedValue({ data: {} }),
+        getContent: vi.fn().mockRejectedValue(notFound()),
+        createOrUpdateFileContents: vi.fn().mockResolvedValue({
+          data: { content: { html_url: "https://github.com/hivemoot/colony/blob/colony-journal/x.md" } },
+        }),
+      },
+      git: {
+        getRef: vi.fn().mockResolvedValue({ data: { object: { sha: "abc123" } } }),
+        createRef: vi.fn().mockResolvedValue({ data: {} }),
+      },
+    },
+  } satisfies StandupSinkClient;
+}
+
+describe("createStandupSinks", () => {
+  it("should build a sink per target, in order", () => {
+    const sinks = createStandupSinks(createMockClient(), {
+      category: "Colony Reports",
+      targets: [
+        { type: "discussion" },
+        { type: "issue" },
+        { type: "file", branch: "colony-journal", path: "colony-journal/{date}.md" },
+        { type: "webhook", url: "https://example.com/hooks/standup?token=secret" },
+      ],
+    }, CONTEXT);
+
+    expect(sinks[0]).toBeInstanceOf(DiscussionSink);
+    expect(sinks[1]).toBeInstanceOf(IssueSink);
+    expect(sinks[2]).toBeInstanceOf(FileSink);
+    expect(sinks[3]).toBeInstanceOf(WebhookSink);
+    expect(sinks[3].name).toBe("webhook example.com");
+  });
+
+  it("should skip the discussion target when the repo can't serve it", () => {
+    const client = createMockClient();
+    const targets = [{ type: "discussion" as const }, { type: "issue" as const }];
+
+    expect(createStandupSinks(client, { category: "Missing", targets }, CONTEXT).map((s) => s.name))
+      .toEqual(["issue"]);
+    expect(createStandupSinks(client, { category: "Colony Reports", targets }, {
+      ...CONTEXT,
+      repoInfo: { ...CONTEXT.repoInfo, hasDiscussions: false },
+    }).map((s) => s.name)).toEqual(["issue"]);
+  });
+});
+
+describe("IssueSink", () => {
+  const journalIssue = { id: "I_1", number: 42, title: "Colony Journal", locked: true, viewerDidAuthor: true };
+
+  function findResponse(options: { pinned?: unknown[]; found?: unknown[] }) {
+    return {
+      repository: {
+        pinnedIssues: { nodes: (options.pinned ?? []).map((issue) => ({ issue })) },
+      },
+      search: { nodes: options.found ?? [] },
+    };
+  }
+
+  function commentsResponse(bodies: string[]) {
+    return { repository: { issue: { comments: { nodes: bodies.map((body) => ({ body })) } } } };
+  }
+
+  it("should detect today's report on the pinned journal", async () => {
+    const client = createMockClient();
+    client.graphql
+      .mockResolvedValueOnce(findResponse({
+        pinned: [{ id: "I_9", number: 9, title: "Roadmap", locked: false, viewerDidAuthor: true }, journalIssue],
+      }))
+      .mockResolvedValueOnce(commentsResponse([standupBody(REPORT_DATE), "unrelated comment"]));
+
+    const sink = new IssueSink(client, CONTEXT);
+
+    expect(await sink.hasReport(REPORT_DATE)).toBe(true);
+    expect(client.graphql.mock.calls[1][1]).toMatchObject({ number: 42 });
+  });
+
+  it("should report nothing delivered when no journal exists", async () => {
+    const client = createMockClient();
+    client.graphql.mockResolvedValueOnce(findResponse({}));
+
+    expect(await new IssueSink(client, CONTEXT).hasReport(REPORT_DATE)).toBe(false);
+    expect(client.graphql).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only read when checking for today's report", async () => {
+    const client = createMockClient();
+    client.graphql
+      .mockResolvedValueOnce(findResponse({ found: [{ ...journalIssue, locked: false }] }))
+      .mockResolvedValueOnce(commentsResponse([standupBody("2026-02-05")]));
+
+    expect(await new IssueSink(client, CONTEXT).hasReport(REPORT_DATE)).toBe(false);
+    expect(client.graphql).toHaveBeenCalledTimes(2);
+    expect(client.graphql.mock.calls[1][0]).toContain("getLastIssueComments");
+  });
+
+  it("should ignore issues with the journal title that the app didn't open", async () => {
+    const client = createMockClient();
+    client.graphql.mockResolvedValueOnce(findResponse({
+      pinned: [{ ...journalIssue, id: "I_5", number: 5, viewerDidAuthor: false }],
+      found: [{ ...journalIssue, id: "I_5", number: 5, viewerDidAuthor: false }],
+    }));
+
+    expect(await new IssueSink(client, CONTEXT).hasReport(REPORT_DATE)).toBe(false);
+    expect(client.graphql).toHaveBeenCalledTimes(1);
+  });
+
+  it("should re-pin and lock an unpinned journal found by search before delivering", async () => {
+    const client = createMockClient();
+    client.graphql
+      .mockResolvedValueOnce(findResponse({
+        found: [
+          { ...journalIssue, number: 50, id: "I_50", locked: false },
+          { ...journalIssue, locked: false },
+          { ...journalIssue, number: 3, id: "I_3", viewerDidAuthor: false },
+          {},
+        ],
+      }))
+      .mockResolvedValueOnce({ pinIssue: { issue: { id: "I_1" } } })
+      .mockResolvedValueOnce({ lockLockable: { lockedRecord: { locked: true } } })
+      .mockResolvedValueOnce({
+        addComment: { commentEdge: { node: { url: "https://github.com/hivemoot/colony/issues/42#issuecomment-1" } } },
+      });
+
+    await new IssueSink(client, CONTEXT).deliver(REPORT);
+
+    expect(client.graphql.mock.calls[1][0]).toContain("pinIssue");
+    expect(client.graphql.mock.calls[1][1]).toEqual({ issueId: "I_1" });
+    expect(client.graphql.mock.calls[2][0]).toContain("lockLockable");
+    expect(client.graphql.mock.calls[3][1]).toEqual({ subjectId: "I_1", body: REPORT.body });
+  });
+
+  it("should create, pin, and lock the journal on first delivery", async () => {
+    const client = createMockClient();
+    client.graphql
+      .mockResolvedValueOnce(findResponse({}))
+      .mockResolvedValueOnce({
+        createIssue: { issue: { id: "I_7", number: 7, url: "https://github.com/hivemoot/colony/issues/7" } },
+      })
+      .mockRejectedValueOnce(new Error("Maximum pinned issues reached"))
+      .mockResolvedValueOnce({ lockLockable: { lockedRecord: { locked: true } } })
+      .mockResolvedValueOnce({
+        addComment: { commentEdge: { node: { url: "https://github.com/hivemoot/colony/issues/7#issuecomment-1" } } },
+      });
+
+    const result = await new IssueSink(client, CONTEXT).deliver(REPORT);
+
+    expect(result.url).toBe("https://github.com/hivemoot/colony/issues/7#issuecomment-1");
+    expect(client.graphql.mock.calls[1][1]).toMatchObject({ repositoryId: "R_123", title: "Colony Journal" });
+    expect(parseMetadata(client.graphql.mock.calls[1][1].body)?.type).toBe("journal");
+    expect(client.graphql.mock.calls[4][1]).toEqual({ subjectId: "I_7", body: REPORT.body });
+  });
+
+  it("should treat a comment that landed despite an error as delivered", async () => {
+    const client = createMockClient();
+    client.graphql
+      .mockResolvedValueOnce(findResponse({ pinned: [journalIssue] }))
+      .mockRejectedValueOnce(new Error("socket hang up"))
+      .mockResolvedValueOnce(commentsResponse([standupBody(REPORT_DATE)]));
+
+    expect(await new IssueSink(client, CONTEXT).deliver(REPORT)).toEqual({ url: "" });
+  });
+
+  it("should rethrow when the comment did not land", async () => {
+    const client = createMockClient();
+    client.graphql
+      .mockResolvedValueOnce(findResponse({ pinned: [journalIssue] }))
+      .mockRejectedValueOnce(new Error("socket hang up"))
+      .mockResolvedValueOnce(commentsResponse([]));
+
+    await expect(new IssueSink(client, CONTEXT).deliver(REPORT)).rejects.toThrow("socket hang up");
+  });
+});
+
+describe("FileSink", () => {
+  function fileContent(body: string) {
+    return { data: { type: "file", sha: "file-sha", content: Buffer.from(body).toString("base64") } };
+  }
+
+  it("should detect today's report from the file metadata", async () => {
+    const client = createMockClient();
+    client.rest.repos.getContent.mockResolvedValueOnce(fileContent(standupBody()));
+
+    const sink = new FileSink(client, CONTEXT, "colony-journal", "colony-journal/{date}.md");
+
+    expect(await sink.hasReport(REPORT_DATE)).toBe(true);
+    expect(client.rest.repos.getContent).toHaveBeenCalledWith({
+      owner: "hivemoot",
+      repo: "colony",
+      path: "colony-journal/2026-02-06.md",
+      ref: "colony-journal",
+    });
+  });
+
+  it("should not count an older report at a fixed path", async () => {
+    const client = createMockClient();
+    client.rest.repos.getContent.mockResolvedValueOnce(fileContent(standupBody("2026-02-05")));
+
+    const sink = new FileSink(client, CONTEXT, "main", "STANDUP.md");
+
+    expect(await sink.hasReport(REPORT_DATE)).toBe(false);
+  });
+
+  it("should create the branch from the default branch and commit a new file", async () => {
+    const client = createMockClient();
+    client.rest.repos.getBranch.mockRejectedValueOnce(notFound());
+
+    const sink = new FileSink(client, CONTEXT, "colony-journal", "colony-journal/{date}.md");
+    const result = await sink.deliver(REPORT);
+
+    expect(client.rest.git.getRef).toHaveBeenCalledWith({ owner: "hivemoot", repo: "colony", ref: "heads/main" });
+    expect(client.rest.git.createRef).toHaveBeenCalledWith({
+      owner: "hivemoot",
+      repo: "colony",
+      ref: "refs/heads/colony-journal",
+      sha: "abc123",
+    });
+    const commit = client.rest.repos.createOrUpdateFileContents.mock.calls[0][0];
+    expect(commit).toMatchObject({
+      path: "colony-journal/2026-02-06.md",
+      branch: "colony-journal",
+      message: "Colony Report — Day 250 (2026-02-06)",
+    });
+    expect(commit).not.toHaveProperty("sha");
+    expect(Buffer.from(commit.content, "base64").toString("utf8")).toBe(REPORT.body);
+    expect(result.url).toContain("/blob/colony-journal/");
+  });
+
+  it("should update an existing file in place", async () => {
+    const client = createMockClient();
+    client.rest.repos.getContent.mockResolvedValueOnce(fileContent(standupBody("2026-02-05")));
+
+    await new FileSink(client, CONTEXT, "main", "STANDUP.md").deliver(REPORT);
+
+    expect(client.rest.git.createRef).not.toHaveBeenCalled();
+    expect(client.rest.repos.createOrUpdateFileContents.mock.calls[0][0]).toMatchObject({
+      path: "STANDUP.md",
+      sha: "file-sha",
+    });
+  });
+});
+
+describe("WebhookSink", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should POST the report as JSON", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    const sink = new WebhookSink(CONTEXT, "https://example.com/hooks/standup");
+    await sink.deliver(REPORT);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://example.com/hooks/standup");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body)).toEqual({
+      event: "standup",
+      repo: "hivemoot/colony",
+      reportDate: REPORT_DATE,
+      dayNumber: 250,
+      body: REPORT.body,
+      data: REPORT.data,
+    });
+    expect(await sink.hasReport()).toBe(false);
+  });
+
+  it("should throw on a non-2xx response", async () => {
+    fetchMock.mockResolvedValueOnce(new Response("nope", { status: 500 }));
+
+    const sink = new WebhookSink(CONTEXT, "https://example.com/hooks/standup");
+
+    await expect(sink.deliver(REPORT)).rejects.toThrow("HTTP 500");
+  });
+});
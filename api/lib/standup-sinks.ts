@@ -0,0 +1,698 @@
+/**
+ * Standup Sinks
+ *
+ * Delivery targets for the daily Colony Report, selected via
+ * `standup.targets` in repo config:
+ * - discussion: a comment on the locked Colony Journal discussion
+ * - issue: a comment on a pinned, locked Colony Journal tracking issue
+ * - file: a markdown file committed to a branch
+ * - webhook: a JSON POST to an outgoing URL
+ *
+ * Each sink owns its idempotency check so a partially failed run can be
+ * retried without duplicating reports on the sinks that succeeded.
+ */
+
+import type { GraphQLClient } from "./graphql-queries.js";
+import type { StandupConfig, StandupTarget } from "./repo-config.js";
+import type { StandupData } from "./standup.js";
+import { createJournalMetadata, generateMetadataTag, parseMetadata } from "./bot-comments.js";
+import {
+  addStandupComment,
+  findOrCreateColonyJournal,
+  getLastStandupDate,
+  type ColonyJournal,
+  type DiscussionCategory,
+  type RepoDiscussionInfo,
+} from "./discussions.js";
+import { logger } from "./logger.js";
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────────────────────
+
+export interface StandupReport {
+  reportDate: string;
+  dayNumber: number;
+  /** Rendered markdown, including the standup metadata tag. */
+  body: string;
+  data: StandupData;
+}
+
+export interface StandupDelivery {
+  /** Where the report landed; empty when it could not be determined. */
+  url: string;
+}
+
+export interface StandupSink {
+  /** Short label for logs, e.g. "issue" or "file colony-journal:reports/{date}.md". */
+  readonly name: string;
+  /** Whether the report for this date was already delivered. */
+  hasReport(reportDate: string): Promise<boolean>;
+  deliver(report: StandupReport): Promise<StandupDelivery>;
+}
+
+/**
+ * Minimal client interface for standup sinks.
+ * The discussion and issue sinks use GraphQL; the file sink uses the contents API.
+ */
+export interface StandupSinkClient extends GraphQLClient {
+  rest: {
+    repos: {
+      get: (params: { owner: string; repo: string }) => Promise<{
+        data: { default_branch: string };
+      }>;
+      getBranch: (params: { owner: string; repo: string; branch: string }) => Promise<unknown>;
+      getContent: (params: {
+        owner: string;
+        repo: string;
+        path: string;
+        ref?: string;
+      }) => Promise<{ data: unknown }>;
+      createOrUpdateFileContents: (params: {
+        owner: string;
+        repo: string;
+        path: string;
+        message: string;
+        content: string;
+        branch: string;
+        sha?: string;
+      }) => Promise<{
+        data: { content?: { html_url?: string | null } | null };
+      }>;
+    };
+    git: {
+      getRef: (params: { owner: string; repo: string; ref: string }) => Promise<{
+        data: { object: { sha: string } };
+      }>;
+      createRef: (params: {
+        owner: string;
+        repo: string;
+        ref: string;
+        sha: string;
+      }) => Promise<unknown>;
+    };
+  };
+}
+
+export interface StandupSinkContext {
+  owner: string;
+  repo: string;
+  repoInfo: RepoDiscussionInfo;
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Factory
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Build a sink for each configured standup target.
+ * A discussion target the repo can't serve (discussions off, category
+ * missing) is skipped with a log line rather than failing the others.
+ */
+export function createStandupSinks(
+  client: StandupSinkClient,
+  config: Pick<StandupConfig, "category" | "targets">,
+  context: StandupSinkContext
+): StandupSink[] {
+  const repoFullName = `${context.owner}/${context.repo}`;
+  const sinks: StandupSink[] = [];
+
+  for (const target of config.targets) {
+    const sink = createStandupSink(client, target, config.category, context, repoFullName);
+    if (sink) {
+      sinks.push(sink);
+    }
+  }
+
+  return sinks;
+}
+
+function createStandupSink(
+  client: StandupSinkClient,
+  target: StandupTarget,
+  categoryName: string,
+  context: StandupSinkContext,
+  repoFullName: string
+): StandupSink | null {
+  switch (target.type) {
+    case "discussion": {
+      if (!context.repoInfo.hasDiscussions) {
+        logger.debug(`Discussions not enabled for ${repoFullName}`);
+        return null;
+      }
+      const category = context.repoInfo.categories.find((c) => c.name === categoryName);
+      if (!category) {
+        logger.warn(
+          `[${repoFullName}] Discussion category "${categoryName}" not found. ` +
+          `Create this category in Settings → Discussions, or set standup.category in .github/hivemoot.yml.`
+        );
+        return null;
+      }
+      return new DiscussionSink(client, context, category);
+    }
+    case "issue":
+      return new IssueSink(client, context);
+    case "file":
+      return new FileSink(client, context, target.branch, target.path);
+    case "webhook":
+      return new WebhookSink(context, target.url);
+  }
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Discussion
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Comments on the Colony Journal discussion (the original standup target).
+ */
+export class DiscussionSink implements StandupSink {
+  readonly name = "discussion";
+  private journal: ColonyJournal | null = null;
+
+  constructor(
+    private client: GraphQLClient,
+    private context: StandupSinkContext,
+    private category: DiscussionCategory
+  ) {}
+
+  async hasReport(reportDate: string): Promise<boolean> {
+    const journal = await this.getJournal();
+    const lastDate = await getLastStandupDate(
+      this.client, this.context.owner, this.context.repo, journal.number
+    );
+    return lastDate === reportDate;
+  }
+
+  async deliver(report: StandupReport): Promise<StandupDelivery> {
+    const journal = await this.getJournal();
+    const result = await addStandupComment(
+      this.client,
+      journal.discussionId,
+      report.body,
+      this.context.owner,
+      this.context.repo,
+      journal.number,
+      report.reportDate
+    );
+    return { url: result.url };
+  }
+
+  private async getJournal(): Promise<ColonyJournal> {
+    this.journal ??= await findOrCreateColonyJournal(
+      this.client,
+      this.context.repoInfo.repoId,
+      this.category.id,
+      this.context.owner,
+      this.context.repo
+    );
+    return this.journal;
+  }
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Tracking issue
+// ───────────────────────────────────────────────────────────────────────────────
+
+const COLONY_JOURNAL_ISSUE_TITLE = "Colony Journal";
+const COLONY_JOURNAL_ISSUE_BODY = `# Colony Journal
+
+Daily standup reports from the Hivemoot Queen.
+
+Each comment below is one day's Colony Report — a snapshot of governance pipeline status, implementation activity, and the Queen's editorial take.
+
+This issue is pinned for visibility and locked to keep the timeline clean. Only the Queen posts here.
+
+---
+buzz buzz 🐝 Hivemoot Queen`;
+
+const FIND_JOURNAL_ISSUE_QUERY = `
+  query findColonyJournalIssue($owner: String!, $repo: String!, $search: String!) {
+    repository(owner: $owner, name: $repo) {
+      pinnedIssues(first: 3) {
+        nodes {
+          issue {
+            id
+            number
+            title
+            locked
+            viewerDidAuthor
+          }
+        }
+      }
+    }
+    search(query: $search, type: ISSUE, first: 10) {
+      nodes {
+        ... on Issue {
+          id
+          number
+          title
+          locked
+          viewerDidAuthor
+        }
+      }
+    }
+  }
+`;
+
+interface JournalIssueNode {
+  id: string;
+  number: number;
+  title: string;
+  locked: boolean;
+  /** True when the app (the token's viewer) opened the issue */
+  viewerDidAuthor: boolean;
+}
+
+/** A journal issue found by lookup, before any re-pinning or locking. */
+interface FoundJournal {
+  issue: JournalIssueNode;
+  pinned: boolean;
+}
+
+interface FindJournalIssueResponse {
+  repository: {
+    pinnedIssues: {
+      nodes: Array<{ issue: JournalIssueNode | null } | null>;
+    } | null;
+  };
+  search: {
+    nodes: Array<Partial<JournalIssueNode> | null>;
+  };
+}
+
+const CREATE_ISSUE_MUTATION = `
+  mutation createIssue($repositoryId: ID!, $title: String!, $body: String!) {
+    createIssue(input: {repositoryId: $repositoryId, title: $title, body: $body}) {
+      issue {
+        id
+        number
+        url
+      }
+    }
+  }
+`;
+
+interface CreateIssueResponse {
+  createIssue: {
+    issue: { id: string; number: number; url: string };
+  };
+}
+
+const PIN_ISSUE_MUTATION = `
+  mutation pinIssue($issueId: ID!) {
+    pinIssue(input: {issueId: $issueId}) {
+      issue {
+        id
+      }
+    }
+  }
+`;
+
+const LOCK_LOCKABLE_MUTATION = `
+  mutation lockLockable($lockableId: ID!) {
+    lockLockable(input: {lockableId: $lockableId}) {
+      lockedRecord {
+        locked
+      }
+    }
+  }
+`;
+
+const ADD_COMMENT_MUTATION = `
+  mutation addComment($subjectId: ID!, $body: String!) {
+    addComment(input: {subjectId: $subjectId, body: $body}) {
+      commentEdge {
+        node {
+          url
+        }
+      }
+    }
+  }
+`;
+
+interface AddCommentResponse {
+  addComment: {
+    commentEdge: { node: { url: string } | null } | null;
+  };
+}
+
+const GET_LAST_ISSUE_COMMENTS_QUERY = `
+  query getLastIssueComments($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      issue(number: $number) {
+        comments(last: 10) {
+          nodes {
+            body
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface LastIssueCommentsResponse {
+  repository: {
+    issue: {
+      comments: { nodes: Array<{ body: string } | null> };
+    } | null;
+  };
+}
+
+/**
+ * Comments on a pinned, locked "Colony Journal" tracking issue, for repos
+ * that don't use Discussions. The issue is created on first delivery.
+ */
+export class IssueSink implements StandupSink {
+  readonly name = "issue";
+  private found: FoundJournal | null = null;
+  private journal: JournalIssueNode | null = null;
+
+  constructor(
+    private client: GraphQLClient,
+    private context: StandupSinkContext
+  ) {}
+
+  async hasReport(reportDate: string): Promise<boolean> {
+    const found = await this.findJournal();
+    if (!found) {
+      return false;
+    }
+    return (await this.getLastStandupDate(found.issue.number)) === reportDate;
+  }
+
+  async deliver(report: StandupReport): Promise<StandupDelivery> {
+    const journal = await this.prepareJournal();
+
+    try {
+      const response = await this.client.graphql<AddCommentResponse>(
+        ADD_COMMENT_MUTATION,
+        { subjectId: journal.id, body: report.body }
+      );
+      return { url: response.addComment.commentEdge?.node?.url ?? "" };
+    } catch (error) {
+      // Write-then-verify, as for the discussion journal
+      logger.warn(`addComment threw, verifying if comment was created: ${(error as Error).message}`);
+      try {
+        if ((await this.getLastStandupDate(journal.number)) === report.reportDate) {
+          logger.info("Comment was created despite error (write-then-verify succeeded)");
+          return { url: "" };
+        }
+      } catch (verifyError) {
+        logger.warn(`Verification query also failed: ${(verifyError as Error).message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Look up the journal without changing it. Prefer a pinned journal; fall
+   * back to searching open issues by title in case it was unpinned (only
+   * three issues can be pinned per repo). Only issues the app opened count,
+   * so a user's issue with the same title is never adopted.
+   */
+  private async findJournal(): Promise<FoundJournal | null> {
+    if (this.found) {
+      return this.found;
+    }
+
+    const { owner, repo } = this.context;
+    const response = await this.client.graphql<FindJournalIssueResponse>(
+      FIND_JOURNAL_ISSUE_QUERY,
+      {
+        owner,
+        repo,
+        search: `repo:${owner}/${repo} is:issue is:open in:title "${COLONY_JOURNAL_ISSUE_TITLE}"`,
+      }
+    );
+
+    const pinned = (response.repository.pinnedIssues?.nodes ?? [])
+      .map((node) => node?.issue ?? null)
+      .find((issue): issue is JournalIssueNode => isJournalIssue(issue));
+    if (pinned) {
+      this.found = { issue: pinned, pinned: true };
+      return this.found;
+    }
+
+    const found = response.search.nodes
+      .filter((node): node is JournalIssueNode => isJournalIssue(node))
+      .sort((a, b) => a.number - b.number)[0];
+    if (found) {
+      this.found = { issue: found, pinned: false };
+      return this.found;
+    }
+
+    return null;
+  }
+
+  /** Find (re-pinning and locking it as needed) or create the journal to post to. */
+  private async prepareJournal(): Promise<JournalIssueNode> {
+    if (this.journal) {
+      return this.journal;
+    }
+
+    const found = await this.findJournal();
+    if (!found) {
+      return this.createJournal();
+    }
+    if (!found.pinned) {
+      await this.pin(found.issue);
+    }
+    this.journal = await this.ensureLocked(found.issue);
+    return this.journal;
+  }
+
+  private async createJournal(): Promise<JournalIssueNode> {
+    const { owner, repo, repoInfo } = this.context;
+    logger.info(`Creating Colony Journal issue in ${owner}/${repo}`);
+
+    const response = await this.client.graphql<CreateIssueResponse>(CREATE_ISSUE_MUTATION, {
+      repositoryId: repoInfo.repoId,
+      title: COLONY_JOURNAL_ISSUE_TITLE,
+      // App authorship keeps the journal out of governance; the marker tags it
+      body: `${generateMetadataTag(createJournalMetadata())}\n${COLONY_JOURNAL_ISSUE_BODY}`,
+    });
+    const issue = response.createIssue.issue;
+    logger.info(`Created Colony Journal issue #${issue.number}: ${issue.url}`);
+
+    const journal = {
+      id: issue.id,
+      number: issue.number,
+      title: COLONY_JOURNAL_ISSUE_TITLE,
+      locked: false,
+      viewerDidAuthor: true,
+    };
+    await this.pin(journal);
+    this.journal = await this.ensureLocked(journal);
+    return this.journal;
+  }
+
+  /** Best effort: pinning fails once the repo already has three pinned issues. */
+  private async pin(issue: JournalIssueNode): Promise<void> {
+    try {
+      await this.client.graphql(PIN_ISSUE_MUTATION, { issueId: issue.id });
+      logger.info(`Pinned Colony Journal issue #${issue.number}`);
+    } catch (error) {
+      logger.warn(`Could not pin Colony Journal issue #${issue.number}: ${(error as Error).message}`);
+    }
+  }
+
+  private async ensureLocked(issue: JournalIssueNode): Promise<JournalIssueNode> {
+    if (!issue.locked) {
+      await this.client.graphql(LOCK_LOCKABLE_MUTATION, { lockableId: issue.id });
+      logger.info(`Locked Colony Journal issue #${issue.number}`);
+    }
+    return { ...issue, locked: true };
+  }
+
+  private async getLastStandupDate(issueNumber: number): Promise<string | null> {
+    const { owner, repo } = this.context;
+    const response = await this.client.graphql<LastIssueCommentsResponse>(
+      GET_LAST_ISSUE_COMMENTS_QUERY,
+      { owner, repo, number: issueNumber }
+    );
+
+    const comments = response.repository.issue?.comments.nodes ?? [];
+    for (let i = comments.length - 1; i >= 0; i--) {
+      const metadata = comments[i] ? parseMetadata(comments[i]!.body) : null;
+      if (metadata?.type === "standup") {
+        return metadata.date;
+      }
+    }
+    return null;
+  }
+}
+
+function isJournalIssue(node: Partial<JournalIssueNode> | null | undefined): node is JournalIssueNode {
+  return (
+    typeof node?.id === "string" &&
+    typeof node.number === "number" &&
+    node.title === COLONY_JOURNAL_ISSUE_TITLE &&
+    node.viewerDidAuthor === true
+  );
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Markdown file
+// ───────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Commits the report as a markdown file. `{date}` in the path becomes the
+ * report date, so the default path keeps one file per day; a fixed path is
+ * overwritten daily with the latest report.
+ *
+ * The branch is created from the default branch head if it doesn't exist.
+ */
+export class FileSink implements StandupSink {
+  readonly name: string;
+
+  constructor(
+    private client: StandupSinkClient,
+    private context: StandupSinkContext,
+    private branch: string,
+    private pathTemplate: string
+  ) {
+    this.name = `file ${branch}:${pathTemplate}`;
+  }
+
+  async hasReport(reportDate: string): Promise<boolean> {
+    const existing = await this.getFile(this.resolvePath(reportDate));
+    if (!existing) {
+      return false;
+    }
+    const metadata = parseMetadata(existing.content);
+    return metadata?.type === "standup" && metadata.date === reportDate;
+  }
+
+  async deliver(report: StandupReport): Promise<StandupDelivery> {
+    const { owner, repo } = this.context;
+    const path = this.resolvePath(report.reportDate);
+
+    await this.ensureBranch();
+    const existing = await this.getFile(path);
+
+    const response = await this.client.rest.repos.createOrUpdateFileContents({
+      owner,
+      repo,
+      path,
+      branch: this.branch,
+      message: `Colony Report — Day ${report.dayNumber} (${report.reportDate})`,
+      content: Buffer.from(report.body, "utf8").toString("base64"),
+      ...(existing ? { sha: existing.sha } : {}),
+    });
+
+    return { url: response.data.content?.html_url ?? "" };
+  }
+
+  private resolvePath(reportDate: string): string {
+    return this.pathTemplate.replaceAll("{date}", reportDate);
+  }
+
+  /** Read a file on the branch; null when the file or branch doesn't exist. */
+  private async getFile(path: string): Promise<{ sha: string; content: string } | null> {
+    const { owner, repo } = this.context;
+    try {
+      const response = await this.client.rest.repos.getContent({ owner, repo, path, ref: this.branch });
+      const data = response.data as { type?: string; sha?: string; content?: string } | unknown[];
+      if (Array.isArray(data) || typeof data !== "object" || data === null || data.type !== "file") {
+        throw new Error(`${path} on ${this.branch} is not a file`);
+      }
+      return {
+        sha: data.sha ?? "",
+        content: Buffer.from(data.content ?? "", "base64").toString("utf8"),
+      };
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async ensureBranch(): Promise<void> {
+    const { owner, repo } = this.context;
+    try {
+      await this.client.rest.repos.getBranch({ owner, repo, branch: this.branch });
+      return;
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) {
+        throw error;
+      }
+    }
+
+    const { data: repoData } = await this.client.rest.repos.get({ owner, repo });
+    const { data: ref } = await this.client.rest.git.getRef({
+      owner,
+      repo,
+      ref: `heads/${repoData.default_branch}`,
+    });
+    await this.client.rest.git.createRef({
+      owner,
+      repo,
+      ref: `refs/heads/${this.branch}`,
+      sha: ref.object.sha,
+    });
+    logger.info(`Created branch ${this.branch} in ${owner}/${repo} for standup reports`);
+  }
+}
+
+// ───────────────────────────────────────────────────────────────────────────────
+// Webhook
+// ───────────────────────────────────────────────────────────────────────────────
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** JSON body POSTed to standup webhooks. */
+export interface StandupWebhookPayload {
+  event: "standup";
+  repo: string;
+  reportDate: string;
+  dayNumber: number;
+  /** Rendered markdown, as posted to the other targets. */
+  body: string;
+  data: StandupData;
+}
+
+/**
+ * POSTs the report as JSON. Webhooks can't be queried for past deliveries,
+ * so a retried run may deliver the same report twice — receivers should
+ * dedupe on `repo` + `reportDate`.
+ */
+export class WebhookSink implements StandupSink {
+  readonly name: string;
+
+  constructor(
+    private context: StandupSinkContext,
+    private url: string
+  ) {
+    this.name = `webhook ${new URL(url).host}`;
+  }
+
+  async hasReport(): Promise<boolean> {
+    return false;
+  }
+
+  async deliver(report: StandupReport): Promise<StandupDelivery> {
+    const payload: StandupWebhookPayload = {
+      event: "standup",
+      repo: `${this.context.owner}/${this.context.repo}`,
+      reportDate: report.reportDate,
+      dayNumber: report.dayNumber,
+      body: report.body,
+      data: report.data,
+    };
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "User-Agent": "hivemoot-bot" },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook ${this.name} responded with HTTP ${response.status}`);
+    }
+
+    return { url: "" };
+  }
+}
@@ -1,4 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("./graphql-queries.js", () => ({
+  getOpenPRsForIssue: vi.fn().mockResolvedValue([]),
+}));
+
+import { getOpenPRsForIssue } from "./graphql-queries.js";
+import { DEFAULT_HEALTH_RULES, type StandupHealthRules } from "./repo-config.js";
+import { LABELS } from "../config.js";
+import { buildStatusComment } from "./bot-comments.js";
 import {
   collectStandupData,
   hasAnyContent,
@@ -19,7 +28,7 @@ import {
  * - Content detection (hasAnyContent)
  * - Comment formatting (full, quiet day, truncation)
  * - LLM reference validation (valid, hallucinated, threshold)
- * - Health signal generation
+ * - Health signal generation, rule thresholds, and severities
  */
 
 // ───────────────────────────────────────────────────────────────────────────────
@@ -28,10 +37,14 @@ import {
 
 function createMockOctokit(): StandupClient & {
   rest: {
-    issues: { listForRepo: ReturnType<typeof vi.fn> };
+    issues: {
+      listComments: ReturnType<typeof vi.fn>;
+      listForRepo: ReturnType<typeof vi.fn>;
+    };
     pulls: {
       list: ReturnType<typeof vi.fn>;
       listCommits: ReturnType<typeof vi.fn>;
+      listReviews: ReturnType<typeof vi.fn>;
     };
     repos: {
       get: ReturnType<typeof vi.fn>;
@@ -40,13 +53,16 @@ function createMockOctokit(): StandupClient & {
   };
 } {
   return {
+    graphql: vi.fn(),
     rest: {
       issues: {
+        listComments: vi.fn().mockResolvedValue({ data: [] }),
         listForRepo: vi.fn().mockResolvedValue({ data: [] }),
       },
       pulls: {
         list: vi.fn().mockResolvedValue({ data: [] }),
         listCommits: vi.fn().mockResolvedValue({ data: [] }),
+        listReviews: vi.fn().mockResolvedValue({ data: [] }),
       },
       repos: {
         get: vi.fn().mockResolvedValue({ data: { open_issues_count: 0 } }),
@@ -82,6 +98,10 @@ function createEmptyStandupData(overrides?: Partial<StandupData>): StandupData {
 // ───────────────────────────────────────────────────────────────────────────────
 
 describe("collectStandupData", () => {
+  beforeEach(() => {
+    vi.mocked(getOpenPRsForIssue).mockClear();
+  });
+
   it("should collect pipeline issues by label", async () => {
     const octokit = createMockOctokit();
     const prs = createMockPROperations();
@@ -195,6 +215,161 @@ describe("collectStandupData", () => {
     // pulls.list called twice: 1x for enrichment (not 3x) + 1x for merged PRs
     expect(octokit.rest.pulls.list).toHaveBeenCalledTimes(2);
   });
+
+  it("should measure how long discussion and needs-human issues have held their label", async () => {
+    const octokit = createMockOctokit();
+    const prs = createMockPROperations();
+    octokit.rest.issues.listForRepo.mockImplementation(async (params: { labels?: string }) => ({
+      data: params.labels === LABELS.DISCUSSION
+        ? [{ number: 1, title: "Slow proposal" }]
+        : params.labels === LABELS.NEEDS_HUMAN
+          ? [{ number: 5, title: "Blocked" }]
+          : [],
+    }));
+    const issues = {
+      getLabelAddedTime: vi.fn(async (ref: { issueNumber: number }) =>
+        ref.issueNumber === 1 ? new Date("2026-01-28T12:00:00Z") : new Date("2026-02-05T00:00:00Z")
+      ),
+      getLabelEvents: vi.fn(),
+    };
+
+    const result = await collectStandupData(
+      octokit, prs, "hivemoot", "colony", "2026-02-06", 42, { issues }
+    );
+
+    expect(result.discussionPhase).toEqual([{ number: 1, title: "Slow proposal", daysInPhase: 9 }]);
+    expect(result.needsHumanIssues).toEqual([{ number: 5, title: "Blocked", daysInPhase: 1 }]);
+    expect(result.healthSignals).toContainEqual(expect.objectContaining({ rule: "stuckDiscussion" }));
+  });
+
+  it("should count voting rounds that missed their requirements", async () => {
+    const octokit = createMockOctokit();
+    const prs = createMockPROperations();
+    octokit.rest.issues.listForRepo.mockImplementation(async (params: { labels?: string }) => ({
+      data: params.labels === LABELS.EXTENDED_VOTING
+        ? [{ number: 2, title: "Quiet vote" }]
+        : params.labels === LABELS.INCONCLUSIVE
+          ? [{ number: 3, title: "Abandoned vote" }]
+          : [],
+    }));
+    const notMet = (final: boolean) => buildStatusComment(
+      `# 🐝 ${final ? "Inconclusive" : "Extended Voting"} (Requirements Not Met) ⚖️\n\nVoting requirements were not met.`,
+      2,
+      { outcome: "inconclusive", audit: [] }
+    );
+    const tied = buildStatusComment("# 🐝 Inconclusive ⚖️\n\nThe vote was tied.", 2, { outcome: "inconclusive" });
+    octokit.rest.issues.listComments.mockImplementation(async (params: { issue_number: number }) => ({
+      data: params.issue_number === 2
+        ? [
+          { body: notMet(false), created_at: "2026-02-05T00:00:00Z", performed_via_github_app: { id: 99 } },
+          { body: notMet(false), created_at: "2026-02-05T00:00:00Z", performed_via_github_app: null },
+          { body: tied, created_at: "2026-02-05T00:00:00Z", performed_via_github_app: { id: 99 } },
+        ]
+        : [
+          { body: notMet(false), created_at: "2026-02-02T00:00:00Z", performed_via_github_app: { id: 99 } },
+          { body: notMet(true), created_at: "2026-02-04T00:00:00Z", performed_via_github_app: { id: 99 } },
+        ],
+    }));
+
+    const result = await collectStandupData(
+      octokit, prs, "hivemoot", "colony", "2026-02-06", 42, { appId: 99 }
+    );
+
+    expect(result.quorumMisses?.map((issue) => issue.number)).toEqual([2, 3, 3]);
+    expect(result.healthSignals).toContainEqual(expect.objectContaining({
+      rule: "quorumMissed",
+      message: expect.stringContaining("missed 3 time(s)"),
+    }));
+  });
+
+  it("should flag competing PRs without reviews from anyone but their author", async () => {
+    const octokit = createMockOctokit();
+    const prs = createMockPROperations();
+    octokit.rest.issues.listForRepo.mockImplementation(async (params: { labels?: string }) => ({
+      data: params.labels === LABELS.READY_TO_IMPLEMENT ? [{ number: 3, title: "Build Z" }] : [],
+    }));
+    vi.mocked(getOpenPRsForIssue).mockResolvedValueOnce([
+      { number: 10, title: "Z one way", state: "OPEN", author: { login: "agent-1" } },
+      { number: 11, title: "Z another way", state: "OPEN", author: { login: "agent-2" } },
+    ]);
+    // agent-2 reviewed #10, and only commented on their own #11
+    octokit.rest.pulls.listReviews.mockResolvedValue({ data: [{ user: { login: "agent-2" } }] });
+
+    const result = await collectStandupData(octokit, prs, "hivemoot", "colony", "2026-02-06", 42);
+
+    expect(result.unreviewedCompetingPRs).toEqual([
+      { number: 11, title: "Z another way", author: "agent-2", linkedIssue: 3 },
+    ]);
+  });
+
+  it("should summarize cycle time over the past week when given a listing client", async () => {
+    const octokit = createMockOctokit();
+    const prs = createMockPROperations();
+    const cycleTimeClient = {
+      rest: { issues: { listForRepo: vi.fn() } },
+      paginate: {
+        iterator: <T>() =>
+          (async function* () {
+            yield { data: [{ number: 7, labels: [{ name: LABELS.VOTING }] }] as T[] };
+          })(),
+      },
+    };
+    const issues = {
+      getLabelAddedTime: vi.fn(),
+      getLabelEvents: vi.fn().mockResolvedValue([
+        { type: "labeled", label: LABELS.DISCUSSION, time: new Date("2026-02-03T00:00:00Z") },
+        { type: "unlabeled", label: LABELS.DISCUSSION, time: new Date("2026-02-04T06:00:00Z") },
+        { type: "labeled", label: LABELS.VOTING, time: new Date("2026-02-04T06:00:00Z") },
+      ]),
+    };
+
+    const result = await collectStandupData(
+      octokit, prs, "hivemoot", "colony", "2026-02-06", 42, { issues, cycleTimeClient }
+    );
+
+    // The ongoing voting span is left out
+    expect(Object.keys(result.cycleTime ?? {})).toEqual([LABELS.DISCUSSION]);
+    expect(result.cycleTime?.[LABELS.DISCUSSION]).toMatchObject({ count: 1, p50: 30 * 60 * 60 * 1000 });
+  });
+
+  it("should skip cycle time when listing issues fails", async () => {
+    const octokit = createMockOctokit();
+    const prs = createMockPROperations();
+    const cycleTimeClient = {
+      rest: { issues: { listForRepo: vi.fn() } },
+      paginate: {
+        iterator: () => {
+          throw new Error("rate limited");
+        },
+      },
+    };
+    const issues = { getLabelAddedTime: vi.fn(), getLabelEvents: vi.fn() };
+
+    const result = await collectStandupData(
+      octokit, prs, "hivemoot", "colony", "2026-02-06", 42, { issues, cycleTimeClient }
+    );
+
+    expect(result.cycleTime).toBeUndefined();
+  });
+
+  it("should skip inputs for disabled health rules", async () => {
+    const octokit = createMockOctokit();
+    const prs = createMockPROperations();
+    octokit.rest.issues.listForRepo.mockResolvedValue({ data: [{ number: 3, title: "Build Z" }] });
+    const issues = { getLabelAddedTime: vi.fn(), getLabelEvents: vi.fn() };
+    const healthRules = Object.fromEntries(
+      Object.entries(DEFAULT_HEALTH_RULES).map(([name, rule]) => [name, { ...rule, enabled: false }])
+    ) as StandupHealthRules;
+
+    const result = await collectStandupData(
+      octokit, prs, "hivemoot", "colony", "2026-02-06", 42, { healthRules, issues, appId: 99 }
+    );
+
+    expect(issues.getLabelAddedTime).not.toHaveBeenCalled();
+    expect(octokit.rest.issues.listComments).not.toHaveBeenCalled();
+    expect(getOpenPRsForIssue).not.toHaveBeenCalled();
+    expect(result.healthSignals).toEqual([]);
+  });
 });
 
 // ───────────────────────────────────────────────────────────────────────────────
@@ -279,6 +454,22 @@ describe("formatStandupComment", () => {
     expect(result).toContain("hivemoot-metadata:");
   });
 
+  it("should report median time per phase when cycle time was measured", () => {
+    const data = createEmptyStandupData({
+      discussionPhase: [{ number: 1, title: "Feature A" }],
+      cycleTime: {
+        [LABELS.DISCUSSION]: { count: 3, p50: 30 * 60 * 60 * 1000, p75: 0, p90: 0, max: 0 },
+      },
+    });
+
+    const result = formatStandupComment(data);
+
+    expect(result).toContain(`**Median time in phase (last 7d):** \`${LABELS.DISCUSSION}\` 1d 6h (3)`);
+    expect(formatStandupComment(createEmptyStandupData({
+      discussionPhase: [{ number: 1, title: "Feature A" }],
+    }))).not.toContain("Median time in phase");
+  });
+
   it("should include LLM content when provided", () => {
     const data = createEmptyStandupData({
       discussionPhase: [{ number: 1, title: "Feature" }],
@@ -322,6 +513,69 @@ describe("formatStandupComment", () => {
     expect(result).not.toContain("Needs addressing:");
   });
 
+  it("should list critical signals when the narration leaves needsAttention empty", () => {
+    const data = createEmptyStandupData({
+      discussionPhase: [{ number: 1, title: "Feature" }],
+      healthSignals: [
+        { rule: "stuckNeedsHuman", severity: "critical", message: "1 issue(s) waiting on human input for 3+ days: #5 (4d)" },
+        { rule: "stalePRs", severity: "warning", message: "1 stale PR(s) approaching auto-close: #20" },
+      ],
+    });
+
+    const llmContent: StandupLLMContent = {
+      narrative: "Summary.",
+      keyUpdates: ["Update"],
+      queensTake: { wentWell: "Things went well.", focusAreas: "Focus here.", needsAttention: "" },
+    };
+
+    const result = formatStandupComment(data, llmContent);
+
+    expect(result).toContain("**Needs addressing:**\n- 🔴 1 issue(s) waiting on human input");
+    expect(result).not.toContain("🟡");
+  });
+
+  it("should append critical signals the narration's needsAttention left out", () => {
+    const quoted = "1 issue(s) waiting on human input for 3+ days: #5 (4d)";
+    const data = createEmptyStandupData({
+      discussionPhase: [{ number: 1, title: "Feature" }],
+      healthSignals: [
+        { rule: "stuckNeedsHuman", severity: "critical", message: quoted },
+        { rule: "quorumMissed", severity: "critical", message: "2 vote(s) missed quorum: #7, #8" },
+        { rule: "stalePRs", severity: "warning", message: "1 stale PR(s) approaching auto-close: #20" },
+      ],
+    });
+
+    const llmContent: StandupLLMContent = {
+      narrative: "Summary.",
+      keyUpdates: ["Update"],
+      queensTake: { wentWell: "Things went well.", focusAreas: "Focus here.", needsAttention: `Unblock: ${quoted}.` },
+    };
+
+    const result = formatStandupComment(data, llmContent);
+
+    expect(result).toContain(`**Needs addressing:** Unblock: ${quoted}.\n- 🔴 2 vote(s) missed quorum: #7, #8\n`);
+    expect(result.split(quoted)).toHaveLength(2);
+    expect(result).not.toContain("🟡");
+  });
+
+  it("should list critical and warning signals without LLM content", () => {
+    const data = createEmptyStandupData({
+      healthSignals: [
+        { rule: "stuckNeedsHuman", severity: "critical", message: "1 issue(s) waiting on human input for 3+ days: #5 (4d)" },
+        { rule: "stalePRs", severity: "warning", message: "1 stale PR(s) approaching auto-close: #20" },
+        { rule: "readyBacklog", severity: "info", message: "Large ready-to-implement backlog: 6 issues waiting for PRs" },
+      ],
+    });
+
+    const result = formatStandupComment(data);
+
+    // Signals needing attention count as content, so this isn't a quiet day
+    expect(result).not.toContain("The colony rests");
+    expect(result).toContain("- 🔴 1 issue(s) waiting on human input");
+    expect(result).toContain("- 🟡 1 stale PR(s) approaching auto-close: #20");
+    expect(result).not.toContain("backlog");
+  });
+
   it("should format implementation activity table", () => {
     const data = createEmptyStandupData({
       discussionPhase: [{ number: 1, title: "X" }],
@@ -492,7 +746,7 @@ describe("computeHealthSignals", () => {
     const signals = computeHealthSignals(data);
 
     expect(signals).toContainEqual(
-      expect.stringContaining("merge-ready but unmerged")
+      expect.objectContaining({ message: expect.stringContaining("merge-ready but unmerged") })
     );
   });
 
@@ -504,7 +758,7 @@ describe("computeHealthSignals", () => {
     const signals = computeHealthSignals(data);
 
     expect(signals).toContainEqual(
-      expect.stringContaining("stale PR")
+      expect.objectContaining({ message: expect.stringContaining("stale PR") })
     );
   });
 
@@ -519,7 +773,7 @@ describe("computeHealthSignals", () => {
     const signals = computeHealthSignals(data);
 
     expect(signals).toContainEqual(
-      expect.stringContaining("ready-to-implement backlog")
+      expect.objectContaining({ message: expect.stringContaining("ready-to-implement backlog") })
     );
   });
 
@@ -532,7 +786,7 @@ describe("computeHealthSignals", () => {
     const signals = computeHealthSignals(data);
 
     expect(signals).toContainEqual(
-      expect.stringContaining("no active implementation PRs")
+      expect.objectContaining({ message: expect.stringContaining("no active implementation PRs") })
     );
   });
 
@@ -546,4 +800,70 @@ describe("computeHealthSignals", () => {
 
     expect(signals).toHaveLength(0);
   });
+
+  it("should carry each rule's severity, most severe first", () => {
+    const data = createEmptyStandupData({
+      readyToImplement: Array.from({ length: 6 }, (_, i) => ({ number: i + 1, title: `Issue ${i + 1}` })),
+      implementationPRs: [{ number: 10, title: "PR", author: "agent" }],
+      stalePRs: [{ number: 10, title: "PR", author: "agent" }],
+      needsHumanIssues: [{ number: 7, title: "Blocked", daysInPhase: 4 }],
+    });
+
+    const signals = computeHealthSignals(data);
+
+    expect(signals.map((s) => [s.rule, s.severity])).toEqual([
+      ["stuckNeedsHuman", "critical"],
+      ["stalePRs", "warning"],
+      ["readyBacklog", "info"],
+    ]);
+    expect(signals[0].message).toBe("1 issue(s) waiting on human input for 3+ days: #7 (4d)");
+  });
+
+  it("should apply configured thresholds, severities, and disabled rules", () => {
+    const rules: StandupHealthRules = {
+      ...DEFAULT_HEALTH_RULES,
+      stuckDiscussion: { enabled: true, threshold: 3, severity: "critical" },
+      stalePRs: { enabled: false, threshold: 1, severity: "warning" },
+    };
+    const data = createEmptyStandupData({
+      discussionPhase: [
+        { number: 1, title: "Old", daysInPhase: 4 },
+        { number: 2, title: "New", daysInPhase: 1 },
+        { number: 3, title: "Unknown age" },
+      ],
+      stalePRs: [{ number: 20, title: "Old PR", author: "agent" }],
+    });
+
+    const signals = computeHealthSignals(data, rules);
+
+    expect(signals).toEqual([{
+      rule: "stuckDiscussion",
+      severity: "critical",
+      message: "1 proposal(s) in discussion for 3+ days: #1 (4d)",
+    }]);
+  });
+
+  it("should only flag missed quorum once it repeats", () => {
+    const once = createEmptyStandupData({ quorumMisses: [{ number: 2, title: "Vote" }] });
+    const twice = createEmptyStandupData({
+      quorumMisses: [{ number: 2, title: "Vote" }, { number: 2, title: "Vote" }],
+    });
+
+    expect(computeHealthSignals(once)).toEqual([]);
+    expect(computeHealthSignals(twice)).toContainEqual(expect.objectContaining({
+      rule: "quorumMissed",
+      message: "Voting quorum or required voters missed 2 time(s) in the last 7 days: #2",
+    }));
+  });
+
+  it("should flag unreviewed competing PRs with their issue", () => {
+    const data = createEmptyStandupData({
+      unreviewedCompetingPRs: [{ number: 11, title: "Z", author: "agent", linkedIssue: 3 }],
+    });
+
+    expect(computeHealthSignals(data)).toContainEqual(expect.objectContaining({
+      rule: "unreviewedCompetingPRs",
+      message: "1 competing implementation PR(s) have no reviews: #11 (for #3)",
+    }));
+  });
 });
@@ -7,21 +7,41 @@
  * Layered reliability:
  * - Layer 0 (always): Snapshot counts, issue/PR lists, metadata tag
  * - Layer 1 (LLM, optional): Narrative summary, key updates, Queen's Take
+ *
+ * Health signals come from configurable rules (standup.healthRules); their
+ * severity decides what lands under "Needs addressing".
  */
 
 import { z } from "zod";
 import { generateObject } from "ai";
 
-import { LABELS, SIGNATURE, getLabelQueryAliases } from "../config.js";
+import { LABELS, SIGNATURE, formatDuration, getLabelQueryAliases } from "../config.js";
 import {
   createStandupMetadata,
   generateMetadataTag,
+  parseMetadata,
 } from "./bot-comments.js";
+import {
+  CYCLE_TIME_PHASES,
+  collectCycleTimeMetrics,
+  summarizePhaseSpans,
+  type CycleTimeClient,
+  type CycleTimeIssueOperations,
+  type PhasePercentiles,
+} from "./cycle-time.js";
+import { getOpenPRsForIssue, type GraphQLClient } from "./graphql-queries.js";
 import { repairMalformedJsonText } from "./llm/json-repair.js";
 import { createModelFromEnv } from "./llm/provider.js";
 import { STANDUP_SYSTEM_PROMPT, buildStandupUserPrompt } from "./llm/prompts.js";
 import { withLLMRetry } from "./llm/retry.js";
 import { logger } from "./logger.js";
+import {
+  DEFAULT_HEALTH_RULES,
+  type HealthRuleName,
+  type HealthSeverity,
+  type StandupHealthRules,
+} from "./repo-config.js";
+import type { IssueRef } from "./types.js";
 
 // ───────────────────────────────────────────────────────────────────────────────
 // Types
@@ -30,6 +50,8 @@ import { logger } from "./logger.js";
 export interface StandupIssueRef {
   number: number;
   title: string;
+  /** Whole days since the issue's current phase label was added, when known. */
+  daysInPhase?: number;
 }
 
 export interface StandupPRRef {
@@ -64,11 +86,20 @@ export interface StandupData {
   // Direct commits not attributable to any merged PR (optional)
   directCommits?: StandupCommitRef[];
 
-  // Health signals (pre-computed for LLM)
-  healthSignals?: string[];
+  // Inputs for health rules (optional — collected only when their rule is enabled)
+  needsHumanIssues?: StandupIssueRef[];
+  /** One entry per voting round that missed its requirements in the lookback window. */
+  quorumMisses?: StandupIssueRef[];
+  /** Open implementation PRs competing with others on their issue, with no reviews yet. */
+  unreviewedCompetingPRs?: StandupPRRef[];
+
+  // Health signals (pre-computed for LLM), most severe first
+  healthSignals?: HealthSignal[];
 
   // Repo-level stats
   openIssueCount?: number;
+  /** Percentiles of phase spans that ended in the cycle-time window up to the report. */
+  cycleTime?: PhasePercentiles;
 
   // Metadata
   repoFullName: string;
@@ -76,6 +107,12 @@ export interface StandupData {
   dayNumber: number;
 }
 
+export interface HealthSignal {
+  rule: HealthRuleName;
+  severity: HealthSeverity;
+  message: string;
+}
+
 export interface StandupLLMContent {
   narrative: string;
   keyUpdates: string[];
@@ -108,9 +145,22 @@ export const StandupOutputSchema = z.object({
  * Minimal Octokit interface for standup data collection.
  * Keeps the module testable with simple mocks.
  */
-export interface StandupClient {
+export interface StandupClient extends GraphQLClient {
   rest: {
     issues: {
+      listComments: (params: {
+        owner: string;
+        repo: string;
+        issue_number: number;
+        since?: string;
+        per_page?: number;
+      }) => Promise<{
+        data: Array<{
+          body?: string;
+          created_at: string;
+          performed_via_github_app?: { id: number } | null;
+        }>;
+      }>;
       listForRepo: (params: {
         owner: string;
         repo: string;
@@ -155,6 +205,16 @@ export interface StandupClient {
           commit: { message: string; author: { name?: string } | null };
         }>;
       }>;
+      listReviews: (params: {
+        owner: string;
+        repo: string;
+        pull_number: number;
+        per_page?: number;
+      }) => Promise<{
+        data: Array<{
+          user: { login: string } | null;
+        }>;
+      }>;
     };
     repos: {
       get: (params: {
@@ -198,6 +258,24 @@ export interface StandupPROperations {
   }>>;
 }
 
+/**
+ * Issue operations for phase-age health rules and cycle time (see IssueOperations).
+ */
+export interface StandupIssueOperations extends CycleTimeIssueOperations {
+  getLabelAddedTime: (ref: IssueRef, labelName: string) => Promise<Date | null>;
+}
+
+export interface StandupCollectOptions {
+  /** Rules to evaluate. Defaults to the built-in rules. */
+  healthRules?: StandupHealthRules;
+  /** Needed by the stuck-discussion and stuck-needs-human rules. */
+  issues?: StandupIssueOperations;
+  /** Needed by the quorum rule, to recognize the app's own outcome comments. */
+  appId?: number;
+  /** Lists recently updated issues for the cycle-time line; needs `issues` too. */
+  cycleTimeClient?: CycleTimeClient;
+}
+
 // ───────────────────────────────────────────────────────────────────────────────
 // Data Collection
 // ───────────────────────────────────────────────────────────────────────────────
@@ -214,9 +292,11 @@ export async function collectStandupData(
   owner: string,
   repo: string,
   reportDate: string,
-  dayNumber: number
+  dayNumber: number,
+  options: StandupCollectOptions = {}
 ): Promise<StandupData> {
   const repoFullName = `${owner}/${repo}`;
+  const rules = options.healthRules ?? DEFAULT_HEALTH_RULES;
 
   // Calendar day boundaries (UTC) for the reporting period
   const dayStart = `${reportDate}T00:00:00Z`;
@@ -305,8 +385,63 @@ export async function collectStandupData(
     logger.warn(`[${repoFullName}] Failed to fetch rejected issues: ${(error as Error).message}`);
   }
 
+  // ── Optional: Health rule inputs ──────────────────────────────────────
+  const reportEnd = new Date(dayEnd);
+
+  if (rules.stuckDiscussion.enabled && options.issues) {
+    try {
+      await addPhaseAges(options.issues, owner, repo, data.discussionPhase, LABELS.DISCUSSION, reportEnd);
+    } catch (error) {
+      logger.warn(`[${repoFullName}] Failed to measure discussion ages: ${(error as Error).message}`);
+    }
+  }
+
+  if (rules.stuckNeedsHuman.enabled && options.issues) {
+    try {
+      const needsHuman = await fetchIssuesByLabel(octokit, owner, repo, LABELS.NEEDS_HUMAN);
+      await addPhaseAges(options.issues, owner, repo, needsHuman, LABELS.NEEDS_HUMAN, reportEnd);
+      data.needsHumanIssues = needsHuman;
+    } catch (error) {
+      logger.warn(`[${repoFullName}] Failed to fetch needs-human issues: ${(error as Error).message}`);
+    }
+  }
+
+  if (rules.quorumMissed.enabled && options.appId !== undefined) {
+    try {
+      data.quorumMisses = await fetchQuorumMisses(
+        octokit, owner, repo, data.extendedVoting, options.appId, reportEnd
+      );
+    } catch (error) {
+      logger.warn(`[${repoFullName}] Failed to check voting requirements: ${(error as Error).message}`);
+    }
+  }
+
+  if (rules.unreviewedCompetingPRs.enabled) {
+    try {
+      data.unreviewedCompetingPRs = await fetchUnreviewedCompetingPRs(
+        octokit, owner, repo, data.readyToImplement
+      );
+    } catch (error) {
+      logger.warn(`[${repoFullName}] Failed to check competing PR reviews: ${(error as Error).message}`);
+    }
+  }
+
+  // ── Optional: Cycle time ──────────────────────────────────────────────
+  if (options.cycleTimeClient && options.issues) {
+    try {
+      const since = new Date(reportEnd.getTime() - CYCLE_TIME_WINDOW_DAYS * MS_PER_DAY);
+      const metrics = await collectCycleTimeMetrics(
+        options.cycleTimeClient, options.issues, owner, repo, since, reportEnd
+      );
+      const spans = metrics.issues.flatMap((issue) => issue.spans);
+      data.cycleTime = summarizePhaseSpans(spans, { from: since, to: reportEnd });
+    } catch (error) {
+      logger.warn(`[${repoFullName}] Failed to measure cycle time: ${(error as Error).message}`);
+    }
+  }
+
   // ── Health signals ────────────────────────────────────────────────────
-  data.healthSignals = computeHealthSignals(data);
+  data.healthSignals = computeHealthSignals(data, rules);
 
   return data;
 }
@@ -449,6 +584,149 @@ async function fetchRecentlyRejected(
     }));
 }
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Days of finished phases summarized in the cycle-time line. */
+const CYCLE_TIME_WINDOW_DAYS = 7;
+
+/** How far back the quorum rule looks for missed voting requirements. */
+const QUORUM_LOOKBACK_DAYS = 7;
+
+/**
+ * Marker in the heading of the bot's "requirements not met" voting outcome
+ * (see MESSAGES.votingEndRequirementsNotMet), for both the first round and
+ * extended voting. Tells it apart from other inconclusive outcomes (ties,
+ * unmet ratios), which carry the same status metadata.
+ */
+const REQUIREMENTS_NOT_MET_MARKER = "(Requirements Not Met)";
+
+/**
+ * Whether a comment is a "requirements not met" voting outcome: an
+ * inconclusive status comment whose heading (the first line after the
+ * metadata tag) carries the marker.
+ */
+function isRequirementsNotMetOutcome(body: string | undefined): boolean {
+  const metadata = parseMetadata(body);
+  if (metadata?.type !== "status" || metadata.outcome !== "inconclusive") {
+    return false;
+  }
+  const heading = body!.split("\n").find((line) => line.trim().length > 0 && !line.trim().startsWith("<!--"));
+  return heading?.includes(REQUIREMENTS_NOT_MET_MARKER) ?? false;
+}
+
+/**
+ * Set `daysInPhase` on each issue from when `label` was last added.
+ * Issues whose label time can't be found keep no age.
+ */
+async function addPhaseAges(
+  issues: StandupIssueOperations,
+  owner: string,
+  repo: string,
+  refs: StandupIssueRef[],
+  label: string,
+  reportEnd: Date
+): Promise<void> {
+  for (const ref of refs) {
+    const addedAt = await issues.getLabelAddedTime({ owner, repo, issueNumber: ref.number }, label);
+    if (addedAt) {
+      ref.daysInPhase = Math.max(0, Math.floor((reportEnd.getTime() - addedAt.getTime()) / MS_PER_DAY));
+    }
+  }
+}
+
+/**
+ * Find voting rounds that ended without meeting quorum or required voters
+ * during the lookback window, from the bot's outcome comments on issues
+ * now in extended voting or recently closed as inconclusive.
+ */
+async function fetchQuorumMisses(
+  octokit: StandupClient,
+  owner: string,
+  repo: string,
+  extendedVoting: StandupIssueRef[],
+  appId: number,
+  reportEnd: Date
+): Promise<StandupIssueRef[]> {
+  const since = new Date(reportEnd.getTime() - QUORUM_LOOKBACK_DAYS * MS_PER_DAY).toISOString();
+
+  const inconclusive = await octokit.rest.issues.listForRepo({
+    owner,
+    repo,
+    labels: LABELS.INCONCLUSIVE,
+    state: "closed",
+    since,
+    per_page: 50,
+  });
+
+  const candidates = new Map<number, StandupIssueRef>();
+  for (const issue of extendedVoting) {
+    candidates.set(issue.number, issue);
+  }
+  for (const issue of inconclusive.data) {
+    if (!issue.pull_request && !candidates.has(issue.number)) {
+      candidates.set(issue.number, { number: issue.number, title: issue.title });
+    }
+  }
+
+  const misses: StandupIssueRef[] = [];
+  for (const issue of candidates.values()) {
+    const response = await octokit.rest.issues.listComments({
+      owner,
+      repo,
+      issue_number: issue.number,
+      since,
+      per_page: 100,
+    });
+
+    for (const comment of response.data) {
+      if (
+        comment.performed_via_github_app?.id === appId &&
+        comment.created_at >= since &&
+        isRequirementsNotMetOutcome(comment.body)
+      ) {
+        misses.push({ number: issue.number, title: issue.title });
+      }
+    }
+  }
+
+  return misses;
+}
+
+/**
+ * Find open implementation PRs that compete with at least one other PR on
+ * the same ready-to-implement issue and have no reviews from anyone but
+ * their author.
+ */
+async function fetchUnreviewedCompetingPRs(
+  octokit: StandupClient,
+  owner: string,
+  repo: string,
+  readyToImplement: StandupIssueRef[]
+): Promise<StandupPRRef[]> {
+  const unreviewed: StandupPRRef[] = [];
+
+  for (const issue of readyToImplement) {
+    const competing = await getOpenPRsForIssue(octokit, owner, repo, issue.number);
+    if (competing.length < 2) continue;
+
+    for (const pr of competing) {
+      const response = await octokit.rest.pulls.listReviews({
+        owner,
+        repo,
+        pull_number: pr.number,
+        per_page: 100,
+      });
+
+      const reviewed = response.data.some((review) => review.user && review.user.login !== pr.author.login);
+      if (!reviewed) {
+        unreviewed.push({ number: pr.number, title: pr.title, author: pr.author.login, linkedIssue: issue.number });
+      }
+    }
+  }
+
+  return unreviewed;
+}
+
 /**
  * Find commits pushed directly to the default branch (not via a merged PR).
  * Fetches per-PR commit SHAs to exclude them, then returns the remainder.
@@ -515,44 +793,115 @@ async function fetchDirectCommits(
 // Health Signals
 // ───────────────────────────────────────────────────────────────────────────────
 
+const SEVERITY_RANK: Record<HealthSeverity, number> = { critical: 0, warning: 1, info: 2 };
+
 /**
- * Pre-compute health signals from standup data.
+ * Pre-compute health signals from standup data, most severe first.
  * These are injected into the LLM prompt so it doesn't need to compute them.
+ *
+ * Each enabled rule fires once its threshold is reached; rules whose input
+ * wasn't collected stay silent.
  */
-export function computeHealthSignals(data: StandupData): string[] {
-  const signals: string[] = [];
+export function computeHealthSignals(
+  data: StandupData,
+  rules: StandupHealthRules = DEFAULT_HEALTH_RULES
+): HealthSignal[] {
+  const signals: HealthSignal[] = [];
+  const fires = (rule: HealthRuleName, value: number): boolean =>
+    rules[rule].enabled && value >= rules[rule].threshold;
+  const add = (rule: HealthRuleName, message: string): void => {
+    signals.push({ rule, severity: rules[rule].severity, message });
+  };
 
   // Merge-ready but unmerged
-  if (data.mergeReadyPRs && data.mergeReadyPRs.length > 0) {
-    const numbers = data.mergeReadyPRs.map((p) => `#${p.number}`).join(", ");
-    signals.push(
-      `${data.mergeReadyPRs.length} PR(s) are merge-ready but unmerged: ${numbers}`
+  if (data.mergeReadyPRs && fires("mergeReadyUnmerged", data.mergeReadyPRs.length)) {
+    add(
+      "mergeReadyUnmerged",
+      `${data.mergeReadyPRs.length} PR(s) are merge-ready but unmerged: ${formatRefs(data.mergeReadyPRs)}`
     );
   }
 
   // Stale PRs approaching auto-close
-  if (data.stalePRs && data.stalePRs.length > 0) {
-    const numbers = data.stalePRs.map((p) => `#${p.number}`).join(", ");
-    signals.push(
-      `${data.stalePRs.length} stale PR(s) approaching auto-close: ${numbers}`
+  if (data.stalePRs && fires("stalePRs", data.stalePRs.length)) {
+    add(
+      "stalePRs",
+      `${data.stalePRs.length} stale PR(s) approaching auto-close: ${formatRefs(data.stalePRs)}`
     );
   }
 
   // Ready-to-implement backlog
-  if (data.readyToImplement.length > 5) {
-    signals.push(
+  if (fires("readyBacklog", data.readyToImplement.length)) {
+    add(
+      "readyBacklog",
       `Large ready-to-implement backlog: ${data.readyToImplement.length} issues waiting for PRs`
     );
   }
 
   // No implementation PRs for ready issues
-  if (data.readyToImplement.length > 0 && (!data.implementationPRs || data.implementationPRs.length === 0)) {
-    signals.push(
+  if (
+    fires("readyWithoutPRs", data.readyToImplement.length) &&
+    (!data.implementationPRs || data.implementationPRs.length === 0)
+  ) {
+    add(
+      "readyWithoutPRs",
       `${data.readyToImplement.length} issues are ready to implement but no active implementation PRs exist`
     );
   }
 
-  return signals;
+  // Proposals stuck in discussion
+  const stuckDiscussion = data.discussionPhase.filter(
+    (issue) => issue.daysInPhase !== undefined && issue.daysInPhase >= rules.stuckDiscussion.threshold
+  );
+  if (rules.stuckDiscussion.enabled && stuckDiscussion.length > 0) {
+    add(
+      "stuckDiscussion",
+      `${stuckDiscussion.length} proposal(s) in discussion for ${rules.stuckDiscussion.threshold}+ days: ` +
+      formatAgedRefs(stuckDiscussion)
+    );
+  }
+
+  // Voting requirements repeatedly missed
+  if (data.quorumMisses && fires("quorumMissed", data.quorumMisses.length)) {
+    const issues = [...new Set(data.quorumMisses.map((issue) => issue.number))];
+    add(
+      "quorumMissed",
+      `Voting quorum or required voters missed ${data.quorumMisses.length} time(s) in the last ` +
+      `${QUORUM_LOOKBACK_DAYS} days: ${issues.map((n) => `#${n}`).join(", ")}`
+    );
+  }
+
+  // Issues waiting on humans
+  const stuckNeedsHuman = (data.needsHumanIssues ?? []).filter(
+    (issue) => issue.daysInPhase !== undefined && issue.daysInPhase >= rules.stuckNeedsHuman.threshold
+  );
+  if (rules.stuckNeedsHuman.enabled && stuckNeedsHuman.length > 0) {
+    add(
+      "stuckNeedsHuman",
+      `${stuckNeedsHuman.length} issue(s) waiting on human input for ${rules.stuckNeedsHuman.threshold}+ days: ` +
+      formatAgedRefs(stuckNeedsHuman)
+    );
+  }
+
+  // Competing PRs nobody has reviewed
+  if (data.unreviewedCompetingPRs && fires("unreviewedCompetingPRs", data.unreviewedCompetingPRs.length)) {
+    const refs = data.unreviewedCompetingPRs
+      .map((pr) => (pr.linkedIssue ? `#${pr.number} (for #${pr.linkedIssue})` : `#${pr.number}`))
+      .join(", ");
+    add(
+      "unreviewedCompetingPRs",
+      `${data.unreviewedCompetingPRs.length} competing implementation PR(s) have no reviews: ${refs}`
+    );
+  }
+
+  return signals.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+}
+
+function formatRefs(refs: Array<{ number: number }>): string {
+  return refs.map((ref) => `#${ref.number}`).join(", ");
+}
+
+function formatAgedRefs(refs: StandupIssueRef[]): string {
+  return refs.map((ref) => `#${ref.number} (${ref.daysInPhase}d)`).join(", ");
 }
 
 // ───────────────────────────────────────────────────────────────────────────────
@@ -581,6 +930,9 @@ export function hasAnyContent(data: StandupData): boolean {
   if (data.recentlyRejected && data.recentlyRejected.length > 0) return true;
   if (data.directCommits && data.directCommits.length > 0) return true;
 
+  // Signals that need addressing, e.g. issues stuck waiting on humans
+  if (data.healthSignals?.some((signal) => signal.severity !== "info")) return true;
+
   return false;
 }
 
@@ -589,7 +941,22 @@ function formatCurrentState(data: StandupData): string {
   const openIssues = data.openIssueCount ?? "?";
   const prsInFlight = (data.implementationPRs?.length ?? 0) + (data.mergeReadyPRs?.length ?? 0);
 
-  return `**Current state:** ${openIssues} open issues · ${prsInFlight} PRs in flight`;
+  const state = `**Current state:** ${openIssues} open issues · ${prsInFlight} PRs in flight`;
+  const cycleTime = formatCycleTime(data);
+  return cycleTime ? `${state}\n\n${cycleTime}` : state;
+}
+
+/**
+ * Median time per phase over the cycle-time window, or null with no data.
+ */
+function formatCycleTime(data: StandupData): string | null {
+  const medians = CYCLE_TIME_PHASES.flatMap((phase) => {
+    const summary = data.cycleTime?.[phase];
+    return summary ? [`\`${phase}\` ${formatDuration(summary.p50)} (${summary.count})`] : [];
+  });
+  if (medians.length === 0) return null;
+
+  return `**Median time in phase (last ${CYCLE_TIME_WINDOW_DAYS}d):** ${medians.join(" · ")}`;
 }
 
 // ───────────────────────────────────────────────────────────────────────────────
@@ -623,6 +990,15 @@ function collectValidNumbers(data: StandupData): Set<number> {
   if (data.recentlyRejected) {
     for (const issue of data.recentlyRejected) numbers.add(issue.number);
   }
+  if (data.needsHumanIssues) {
+    for (const issue of data.needsHumanIssues) numbers.add(issue.number);
+  }
+  if (data.quorumMisses) {
+    for (const issue of data.quorumMisses) numbers.add(issue.number);
+  }
+  if (data.unreviewedCompetingPRs) {
+    for (const pr of data.unreviewedCompetingPRs) numbers.add(pr.number);
+  }
 
   return numbers;
 }
@@ -792,6 +1168,35 @@ function buildMergedPRSearchUrl(repoFullName: string, reportDate: string): strin
   return `https://github.com/${repoFullName}/pulls?q=${encodeURIComponent(query)}`;
 }
 
+const SEVERITY_ICONS: Record<HealthSeverity, string> = {
+  critical: "🔴",
+  warning: "🟡",
+  info: "🔵",
+};
+
+/**
+ * List health signals of the given severities under "Needs addressing",
+ * after the LLM's narration when there is one. Signals the narration already
+ * quotes verbatim are not repeated.
+ */
+function formatNeedsAddressing(
+  data: StandupData,
+  severities: HealthSeverity[],
+  narration = ""
+): string[] {
+  const narrated = narration.toLowerCase();
+  const signals = (data.healthSignals ?? []).filter(
+    (signal) => severities.includes(signal.severity) && !narrated.includes(signal.message.toLowerCase())
+  );
+  if (!narration && signals.length === 0) return [];
+
+  return [
+    narration ? `**Needs addressing:** ${narration}` : "**Needs addressing:**",
+    ...signals.map((signal) => `- ${SEVERITY_ICONS[signal.severity]} ${signal.message}`),
+    "",
+  ];
+}
+
 /**
  * Format the standup comment body.
  * Applies Layer 0 (always) + Layer 1 (LLM, if available).
@@ -843,10 +1248,10 @@ export function formatStandupComment(
     sections.push("");
     sections.push(`**Focus areas:** ${llmContent.queensTake.focusAreas}`);
     sections.push("");
-    if (llmContent.queensTake.needsAttention.length > 0) {
-      sections.push(`**Needs addressing:** ${llmContent.queensTake.needsAttention}`);
-      sections.push("");
-    }
+    // Critical signals are never left out, even if the narration skipped them
+    sections.push(...formatNeedsAddressing(data, ["critical"], llmContent.queensTake.needsAttention));
+  } else {
+    sections.push(...formatNeedsAddressing(data, ["critical", "warning"]));
   }
 
   sections.push(formatCurrentState(data));
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { hasLabel, filterByLabel } from "./types.js";
-import type { LinkedIssue } from "./types.js";
+import { hasLabel, filterByLabel, findLabelAddedTime, toLabelEvents } from "./types.js";
+import type { LabelEvent, LinkedIssue } from "./types.js";
+import { LABELS } from "../config.js";
 
 /**
  * Tests for type utility functions
@@ -101,4 +102,36 @@ describe("types utilities", () => {
       expect(result[0]).toBe(issue1);
     });
   });
+
+  describe("toLabelEvents", () => {
+    it("should keep only label events, oldest first", () => {
+      const events = toLabelEvents([
+        { event: "unlabeled", created_at: "2026-02-02T00:00:00Z", label: { name: LABELS.DISCUSSION } },
+        { event: "commented", created_at: "2026-02-01T12:00:00Z" },
+        { event: "labeled", created_at: "2026-02-01T00:00:00Z", label: { name: LABELS.DISCUSSION } },
+      ]);
+
+      expect(events).toEqual([
+        { type: "labeled", label: LABELS.DISCUSSION, time: new Date("2026-02-01T00:00:00Z") },
+        { type: "unlabeled", label: LABELS.DISCUSSION, time: new Date("2026-02-02T00:00:00Z") },
+      ]);
+    });
+  });
+
+  describe("findLabelAddedTime", () => {
+    const at = (hours: number) => new Date(Date.UTC(2026, 1, 1, hours));
+    const event = (type: LabelEvent["type"], label: string, hours: number): LabelEvent =>
+      ({ type, label, time: at(hours) });
+
+    it("should return the latest addition, or null once removed", () => {
+      const events = [
+        event("labeled", LABELS.VOTING, 0),
+        event("unlabeled", LABELS.VOTING, 5),
+        event("labeled", "phase:voting", 8),
+      ];
+
+      expect(findLabelAddedTime(events, LABELS.VOTING)).toEqual(at(8));
+      expect(findLabelAddedTime(events.slice(0, 2), LABELS.VOTING)).toBeNull();
+    });
+  });
 });
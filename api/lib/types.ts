@@ -12,7 +12,9 @@ import { isLabelMatch } from "../config.js";
 export interface Issue {
   number: number;
   title: string;
+  body?: string | null;
   labels: Array<{ name: string }>;
+  performed_via_github_app?: { id: number } | null;
   reactions?: {
     "+1": number;
     "-1": number;
@@ -42,15 +44,47 @@ export interface IssueRef {
 }
 
 /**
- * Vote counts from issue reactions
+ * Per-reaction tally of voting reactions
  */
-export interface VoteCounts {
+export interface VoteTally {
   thumbsUp: number;
   thumbsDown: number;
   confused: number;
   eyes: number;
 }
 
+/**
+ * Vote counts from issue reactions.
+ *
+ * The top-level fields are raw head counts (one vote per user). `weighted`
+ * is only present when per-voter weights are configured, and holds the same
+ * tally with each vote multiplied by its voter's weight.
+ */
+export interface VoteCounts extends VoteTally {
+  weighted?: VoteTally;
+}
+
+/**
+ * Approval ratio threshold evaluation for ratio-based voting exits.
+ * Only 👍 and 👎 count toward the ratio; 😕 and 👀 are abstentions.
+ */
+export interface RatioThreshold {
+  /** Required 👍 share of decisive votes (0.5–1) */
+  ratio: number;
+  /** 👍 votes cast (weighted when weights are configured) */
+  approvals: number;
+  /** 👍 + 👎 votes cast */
+  decisive: number;
+  /** 👍 votes needed among the current decisive votes */
+  needed: number;
+  /**
+   * Additional 👍 votes that would meet the ratio (0 when met). Each one also
+   * adds to the decisive count. Null when no number can, i.e. a ratio of 1
+   * with any 👎.
+   */
+  missedBy: number | null;
+}
+
 /**
  * Validated vote result with multi-reaction discard.
  *
@@ -66,6 +100,38 @@ export interface ValidatedVoteResult {
   voters: string[];
   /** All unique users who cast any voting reaction (valid for requiredVoters participation) */
   participants: string[];
+  /** Valid voters whose single voting reaction was 👎 (used for veto checks) */
+  thumbsDownVoters: string[];
+  /** Per-user voting reactions, one ballot per participant (used for the audit trail) */
+  ballots: VoteBallot[];
+}
+
+/**
+ * Voting reaction content on the Queen's voting comment.
+ */
+export type VoteReaction = "+1" | "-1" | "confused" | "eyes";
+
+/**
+ * A single participant's voting reactions.
+ * A ballot with more than one reaction type is discarded from the tally.
+ */
+export interface VoteBallot {
+  /** Lowercased GitHub login */
+  user: string;
+  /** Distinct voting reaction types the user cast */
+  reactions: VoteReaction[];
+  /** When the user's latest voting reaction was cast (ISO 8601), if reported by GitHub */
+  votedAt?: string;
+}
+
+/**
+ * One row of a voting outcome's audit trail.
+ * - counted: exactly one voting reaction, included in the tally
+ * - discarded: multiple voting reaction types, excluded from tally and quorum
+ * - missing: a required voter who did not react
+ */
+export interface VoteAuditEntry extends VoteBallot {
+  status: "counted" | "discarded" | "missing";
 }
 
 /**
@@ -96,6 +162,43 @@ export interface TimelineEvent {
   };
 }
 
+/**
+ * A label added to or removed from an issue, extracted from its timeline.
+ * `label` is the name as it appeared at the time (possibly a legacy name).
+ */
+export interface LabelEvent {
+  type: "labeled" | "unlabeled";
+  label: string;
+  time: Date;
+}
+
+/**
+ * Extract label events from raw timeline events, oldest first.
+ */
+export function toLabelEvents(timeline: TimelineEvent[]): LabelEvent[] {
+  const events: LabelEvent[] = [];
+  for (const event of timeline) {
+    if ((event.event === "labeled" || event.event === "unlabeled") && event.label?.name) {
+      events.push({ type: event.event, label: event.label.name, time: new Date(event.created_at) });
+    }
+  }
+  return events.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+/**
+ * Find when a label was most recently added, or null if it was removed since.
+ * Legacy label names match their canonical label.
+ */
+export function findLabelAddedTime(events: LabelEvent[], labelName: string): Date | null {
+  let addedAt: Date | null = null;
+  for (const event of events) {
+    if (isLabelMatch(event.label, labelName)) {
+      addedAt = event.type === "labeled" ? event.time : null;
+    }
+  }
+  return addedAt;
+}
+
 // ───────────────────────────────────────────────────────────────────────────────
 // PR Types
 // ───────────────────────────────────────────────────────────────────────────────
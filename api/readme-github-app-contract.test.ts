@@ -29,23 +29,25 @@ function extractBullets(section: string): string[] {
 describe("README GitHub App setup contract", () => {
   it("documents all required GitHub App permissions", () => {
     const permissions = extractBullets(extractSection(readReadme(), "Permissions"));
-    expect(permissions).toHaveLength(6);
+    expect(permissions).toHaveLength(8);
 
     expect(permissions).toEqual(
       expect.arrayContaining([
         "Issues: Read & Write",
         "Pull Requests: Read & Write",
         "Discussions: Read & Write (required for standup discussion posting)",
+        "Contents: Read & Write (required for the standup `file` target)",
         "Checks: Read (required for merge-readiness evaluation)",
         "Commit statuses: Read (required for legacy CI status integration)",
         "Metadata: Read",
+        "Organization Members: Read (required to expand `@org/team` CODEOWNERS owners)",
       ]),
     );
   });
 
   it("documents all required webhook event subscriptions", () => {
     const events = extractBullets(extractSection(readReadme(), "Events"));
-    expect(events).toHaveLength(9);
+    expect(events).toHaveLength(10);
 
     expect(events).toEqual(
       expect.arrayContaining([
@@ -55,6 +57,7 @@ describe("README GitHub App setup contract", () => {
         "Installation repositories",
         "Pull requests",
         "Pull request reviews",
+        "Pull request review comments",
         "Check suites",
         "Check runs",
         "Statuses",
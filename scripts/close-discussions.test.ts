@@ -72,7 +72,7 @@ import {
 } from "./close-discussions.js";
 import type { EarlyDecisionDeps, DiscussionEarlyCheckDeps } from "./close-discussions.js";
 import { getOpenPRsForIssue, logger, loadRepositoryConfig, createIssueOperations, createGovernanceService } from "../api/lib/index.js";
-import { PR_MESSAGES } from "../api/config.js";
+import { LABELS, PR_MESSAGES } from "../api/config.js";
 import type {
   VotingOutcome,
   IssueRef,
@@ -124,6 +124,7 @@ describe("close-discussions script", () => {
             exits: votingExits,
           },
         },
+        profiles: [],
         pr: {
           staleDays: 3,
           maxPRsPerIssue: 3,
@@ -154,6 +155,14 @@ describe("close-discussions script", () => {
     it("should return true when any phase has auto exits", () => {
       expect(hasAutomaticGovernancePhases(makeRepoConfig("auto"))).toBe(true);
     });
+
+    it("should return true when only a governance profile has auto exits", () => {
+      const config = makeRepoConfig("manual");
+      config.governance.profiles = [
+        { name: "docs", labels: ["docs"], proposals: makeRepoConfig("auto").governance.proposals },
+      ];
+      expect(hasAutomaticGovernancePhases(config)).toBe(true);
+    });
   });
 
   describe("reconcileMissingVotingComments", () => {
@@ -329,6 +338,85 @@ describe("close-discussions script", () => {
       expect(mockCreateIssueOperations).toHaveBeenCalled();
     });
 
+    it("should apply a governance profile's exits only to issues carrying its labels", async () => {
+      const mockGovernance = {
+        postVotingComment: vi.fn(),
+        transitionToVoting: vi.fn().mockResolvedValue(undefined),
+      } as any;
+      mockCreateGovernanceService.mockReturnValue(mockGovernance);
+      mockCreateIssueOperations.mockReturnValue({
+        getLabelAddedTime: vi.fn().mockResolvedValue(new Date(Date.now() - 120_000)),
+        getPhaseExtensionMs: vi.fn().mockResolvedValue(0),
+      } as any);
+
+      const fakeOctokit = {
+        rest: {
+          issues: {
+            listForRepo: vi.fn(),
+          },
+        },
+        paginate: {
+          iterator: vi.fn().mockImplementation((_fn, params: { labels: string }) =>
+            params.labels === LABELS.DISCUSSION
+              ? buildIterator([[
+                { number: 1, labels: [{ name: LABELS.DISCUSSION }] },
+                { number: 2, labels: [{ name: LABELS.DISCUSSION }, { name: "Docs" }] },
+              ]])
+              : emptyIterator()
+          ),
+        },
+      } as any;
+      const config = makeRepoConfig("manual");
+      config.governance.profiles = [
+        { name: "docs", labels: ["docs"], proposals: makeRepoConfig("auto").governance.proposals },
+      ];
+      mockLoadRepositoryConfig.mockResolvedValue(config);
+
+      await processRepository(fakeOctokit, repo, appId);
+
+      expect(mockGovernance.transitionToVoting).toHaveBeenCalledTimes(1);
+      expect(mockGovernance.transitionToVoting).toHaveBeenCalledWith(
+        { owner: "test-org", repo: "test-repo", issueNumber: 2 },
+        "docs",
+      );
+    });
+
+    it("should leave issues opened by the app out of phase transitions", async () => {
+      const mockGovernance = {
+        postVotingComment: vi.fn(),
+        transitionToVoting: vi.fn().mockResolvedValue(undefined),
+      } as any;
+      mockCreateGovernanceService.mockReturnValue(mockGovernance);
+      mockCreateIssueOperations.mockReturnValue({
+        getLabelAddedTime: vi.fn().mockResolvedValue(new Date(Date.now() - 120_000)),
+        getPhaseExtensionMs: vi.fn().mockResolvedValue(0),
+      } as any);
+
+      const fakeOctokit = {
+        rest: {
+          issues: {
+            listForRepo: vi.fn(),
+          },
+        },
+        paginate: {
+          iterator: vi.fn().mockImplementation((_fn, params: { labels: string }) =>
+            params.labels === LABELS.DISCUSSION
+              ? buildIterator([[
+                { number: 1, title: "Colony Journal", labels: [{ name: LABELS.DISCUSSION }], performed_via_github_app: { id: appId } },
+                { number: 2, labels: [{ name: LABELS.DISCUSSION }] },
+              ]])
+              : emptyIterator()
+          ),
+        },
+      } as any;
+      mockLoadRepositoryConfig.mockResolvedValue(makeRepoConfig("auto"));
+
+      await processRepository(fakeOctokit, repo, appId);
+
+      expect(mockGovernance.transitionToVoting).toHaveBeenCalledTimes(1);
+      expect(mockGovernance.transitionToVoting.mock.calls[0][0]).toMatchObject({ issueNumber: 2 });
+    });
+
     it("should continue with phase transitions when reconciliation fails", async () => {
       const mockGovernance = { postVotingComment: vi.fn() } as any;
       mockCreateGovernanceService.mockReturnValue(mockGovernance);
@@ -372,7 +460,10 @@ describe("close-discussions script", () => {
     const durationMs = 5 * 60 * 1000; // 5 minutes
 
     let mockGetLabelAddedTime: ReturnType<typeof vi.fn>;
-    let mockIssues: { getLabelAddedTime: ReturnType<typeof vi.fn> };
+    let mockIssues: {
+      getLabelAddedTime: ReturnType<typeof vi.fn>;
+      getPhaseExtensionMs: ReturnType<typeof vi.fn>;
+    };
     let transitionFn: ReturnType<typeof vi.fn>;
     let onAccessIssue: ReturnType<typeof vi.fn>;
 
@@ -382,7 +473,10 @@ describe("close-discussions script", () => {
       vi.clearAllMocks();
 
       mockGetLabelAddedTime = vi.fn();
-      mockIssues = { getLabelAddedTime: mockGetLabelAddedTime };
+      mockIssues = {
+        getLabelAddedTime: mockGetLabelAddedTime,
+        getPhaseExtensionMs: vi.fn().mockResolvedValue(0),
+      };
       transitionFn = vi.fn().mockResolvedValue(undefined);
       onAccessIssue = vi.fn();
     });
@@ -430,6 +524,27 @@ describe("close-discussions script", () => {
       );
     });
 
+    it("should measure elapsed time from the extended start when the phase was extended", async () => {
+      // 10 minutes elapsed, but extended by 8 → 2 minutes counted, 3m remaining
+      mockGetLabelAddedTime.mockResolvedValue(new Date(Date.now() - 10 * 60 * 1000));
+      mockIssues.getPhaseExtensionMs.mockResolvedValue(8 * 60 * 1000);
+      const earlyCheck = vi.fn().mockResolvedValue(false);
+
+      await processIssuePhase(
+        mockIssues as any, {} as any, ref, labelName, durationMs, phaseName,
+        transitionFn, onAccessIssue, earlyCheck
+      );
+
+      expect(mockIssues.getPhaseExtensionMs).toHaveBeenCalledWith(
+        ref, labelName, new Date("2024-01-20T11:50:00.000Z")
+      );
+      expect(earlyCheck).toHaveBeenCalledWith(ref, 2 * 60 * 1000);
+      expect(transitionFn).not.toHaveBeenCalled();
+      expect(logger.debug).toHaveBeenCalledWith(
+        expect.stringMatching(/3m 0s remaining/)
+      );
+    });
+
     it("should return early when label time cannot be determined", async () => {
       mockGetLabelAddedTime.mockResolvedValue(null);
 
@@ -833,7 +948,7 @@ describe("close-discussions script", () => {
       getValidatedVoteCounts: vi.fn().mockResolvedValue({
         votes: { thumbsUp: 2, thumbsDown: 0, confused: 0, eyes: 0 },
         voters: ["agent-a", "agent-b"],
-        participants: ["agent-a", "agent-b"],
+        participants: ["agent-a", "agent-b"], ballots: [],
       } as ValidatedVoteResult),
       votingEndOptions: { votingConfig: { minVoters: 1, requiredVoters: { minCount: 0, voters: [] } } },
       trackOutcome: vi.fn(),
@@ -887,10 +1002,131 @@ describe("close-discussions script", () => {
         votingConfig: {
           minVoters: 2,
           requiredVoters: { minCount: 2, voters: ["agent-a", "agent-b"] },
+          requires: "majority",
         },
       }));
     });
 
+    it("should pass a ratio exit's requirement on to the resolution", async () => {
+      const deps = createMockDeps({
+        earlyExits: [
+          {
+            type: "auto",
+            afterMs: 15 * 60 * 1000,
+            minVoters: 3,
+            requiredVoters: { minCount: 0, voters: [] },
+            requires: { ratio: 0.66 },
+          },
+        ],
+        getValidatedVoteCounts: vi.fn().mockResolvedValue({
+          votes: { thumbsUp: 2, thumbsDown: 1, confused: 0, eyes: 0 },
+          voters: ["agent-a", "agent-b", "agent-c"],
+          participants: ["agent-a", "agent-b", "agent-c"], ballots: [],
+          thumbsDownVoters: ["agent-c"],
+        } as ValidatedVoteResult),
+      });
+      const resolveFn = vi.fn().mockResolvedValue("ready-to-implement" as VotingOutcome);
+
+      const check = makeEarlyDecisionCheck(resolveFn, deps);
+      const result = await check!(testRef, 20 * 60 * 1000);
+
+      expect(result).toBe(true);
+      expect(resolveFn).toHaveBeenCalledWith(testRef, expect.objectContaining({
+        votingConfig: {
+          minVoters: 3,
+          requiredVoters: { minCount: 0, voters: [] },
+          requires: { ratio: 0.66 },
+        },
+      }));
+    });
+
+    it("should close early and pass the veto when a veto voter casts 👎", async () => {
+      const veto = { voters: ["guard"], outcome: "rejected" as const };
+      const deps = createMockDeps({
+        earlyExits: [
+          {
+            type: "auto",
+            afterMs: 15 * 60 * 1000,
+            minVoters: 5,
+            requiredVoters: { minCount: 0, voters: [] },
+            requires: "majority",
+            veto,
+          },
+        ],
+        getValidatedVoteCounts: vi.fn().mockResolvedValue({
+          votes: { thumbsUp: 1, thumbsDown: 1, confused: 0, eyes: 0 },
+          voters: ["agent-a", "guard"],
+          participants: ["agent-a", "guard"], ballots: [],
+          thumbsDownVoters: ["guard"],
+        } as ValidatedVoteResult),
+      });
+      const resolveFn = vi.fn().mockResolvedValue("rejected" as VotingOutcome);
+
+      const check = makeEarlyDecisionCheck(resolveFn, deps);
+      const result = await check!(testRef, 20 * 60 * 1000);
+
+      expect(result).toBe(true);
+      expect(resolveFn).toHaveBeenCalledWith(testRef, expect.objectContaining({
+        earlyDecision: true,
+        votingConfig: {
+          minVoters: 5,
+          requiredVoters: { minCount: 0, voters: [] },
+          requires: "majority",
+          veto,
+        },
+      }));
+    });
+
+    describe("deadline exit veto", () => {
+      const veto = { voters: ["guard"], outcome: "needs-human-input" as const };
+      const deadlineExit = {
+        type: "auto" as const,
+        afterMs: 24 * 60 * 60 * 1000,
+        minVoters: 3,
+        requiredVoters: { minCount: 0, voters: [] },
+        requires: "majority" as const,
+        veto,
+      };
+      const votes = (thumbsDownVoters: string[]) => vi.fn().mockResolvedValue({
+        votes: { thumbsUp: 1, thumbsDown: thumbsDownVoters.length, confused: 0, eyes: 0 },
+        voters: ["agent-a", ...thumbsDownVoters],
+        participants: ["agent-a", ...thumbsDownVoters], ballots: [],
+        thumbsDownVoters,
+      } as ValidatedVoteResult);
+
+      it("should close voting early on a veto when the deadline is the only exit", async () => {
+        const deps = createMockDeps({ earlyExits: [], deadlineExit, getValidatedVoteCounts: votes(["guard"]) });
+        const resolveFn = vi.fn().mockResolvedValue("needs-human-input" as VotingOutcome);
+
+        const check = makeEarlyDecisionCheck(resolveFn, deps);
+        const result = await check!(testRef, 5 * 60 * 1000);
+
+        expect(result).toBe(true);
+        expect(resolveFn).toHaveBeenCalledWith(testRef, expect.objectContaining({
+          earlyDecision: true,
+          votingConfig: { minVoters: 3, requiredVoters: { minCount: 0, voters: [] }, requires: "majority", veto },
+        }));
+      });
+
+      it("should leave the deadline's other conditions to the timer", async () => {
+        const deps = createMockDeps({ earlyExits: [], deadlineExit, getValidatedVoteCounts: votes(["agent-b"]) });
+        const resolveFn = vi.fn();
+
+        const check = makeEarlyDecisionCheck(resolveFn, deps);
+        const result = await check!(testRef, 5 * 60 * 1000);
+
+        expect(result).toBe(false);
+        expect(resolveFn).not.toHaveBeenCalled();
+      });
+
+      it("should not build a check when the deadline exit has no veto", () => {
+        const { veto: _veto, ...plainDeadline } = deadlineExit;
+
+        expect(makeEarlyDecisionCheck(vi.fn(), createMockDeps({ earlyExits: [], deadlineExit: plainDeadline })))
+          .toBeUndefined();
+      });
+    });
+
     it("should call trackOutcome with the resolution result", async () => {
       const trackOutcome = vi.fn();
       const deps = createMockDeps({ trackOutcome });
@@ -23,11 +23,13 @@ import {
   loadRepositoryConfig,
   logger,
 } from "../api/lib/index.js";
-import { NOTIFICATION_TYPES } from "../api/lib/bot-comments.js";
+import { NOTIFICATION_TYPES, isAppOwnedIssue } from "../api/lib/bot-comments.js";
 import { processImplementationIntake } from "../api/lib/implementation-intake.js";
 import { getLinkedIssues } from "../api/lib/graphql-queries.js";
 import { runForAllRepositories, runIfMain } from "./shared/run-installations.js";
-import { isExitEligible, isDiscussionExitEligible } from "../api/lib/governance.js";
+import { isExitEligible, isDiscussionExitEligible, getVetoingVoters } from "../api/lib/governance.js";
+import { describeExitRequires, findGovernanceProfile } from "../api/lib/repo-config.js";
+import type { GovernanceProfile, ProposalsConfig, VoteWeights } from "../api/lib/repo-config.js";
 import type {
   Repository,
   Issue,
@@ -69,11 +71,15 @@ export function hasAutoExits(exits: Array<{ type: ExitType }>): boolean {
 }
 
 /**
- * Whether any governance phase has automatic exits enabled.
+ * Whether any governance phase has automatic exits enabled, either in the
+ * top-level proposals config or in any governance profile.
  */
 export function hasAutomaticGovernancePhases(config: EffectiveConfig): boolean {
-  const { discussion, voting, extendedVoting } = config.governance.proposals;
-  return hasAutoExits(discussion.exits) || hasAutoExits(voting.exits) || hasAutoExits(extendedVoting.exits);
+  const { proposals, profiles } = config.governance;
+  return [proposals, ...profiles.map((profile) => profile.proposals)].some(
+    ({ discussion, voting, extendedVoting }) =>
+      hasAutoExits(discussion.exits) || hasAutoExits(voting.exits) || hasAutoExits(extendedVoting.exits)
+  );
 }
 
 // ───────────────────────────────────────────────────────────────────────────────
@@ -177,6 +183,11 @@ export async function withRetry<T>(
 export interface EarlyDecisionDeps {
   /** Early exits to evaluate (all except deadline) */
   earlyExits: VotingAutoExit[];
+  /**
+   * The deadline exit. Only its veto is checked early: the timer applies its
+   * other conditions, but a veto shouldn't wait out the whole voting period.
+   */
+  deadlineExit?: VotingAutoExit;
   /** Find the voting comment ID for an issue */
   findVotingCommentId: (ref: IssueRef) => Promise<number | null>;
   /** Get validated vote counts from a voting comment */
@@ -195,11 +206,12 @@ export interface EarlyDecisionDeps {
 /**
  * Factory for early decision checks using exit evaluation.
  * Returns a function that checks if voting can close early, or undefined
- * if there are no early exits configured.
+ * if there are no early exits and the deadline exit has no veto.
  *
  * Exits are evaluated first-match-wins among those whose time gate
  * has elapsed. Each exit is self-contained with its own minVoters,
- * requiredVoters, and requires condition.
+ * requiredVoters, and requires condition. A veto on the deadline exit
+ * closes voting at any point in the phase.
  *
  * @param resolveFn - The resolution function to call (endVoting or resolveInconclusive)
  * @param deps - Dependencies for the check
@@ -210,8 +222,9 @@ export function makeEarlyDecisionCheck(
   deps: EarlyDecisionDeps
 ): ((ref: IssueRef, elapsed: number) => Promise<boolean>) | undefined {
   const { earlyExits, findVotingCommentId, getValidatedVoteCounts, votingEndOptions, trackOutcome, notifyPRs } = deps;
+  const deadlineVetoExit = deps.deadlineExit?.veto ? deps.deadlineExit : undefined;
 
-  if (earlyExits.length === 0) {
+  if (earlyExits.length === 0 && !deadlineVetoExit) {
     return undefined;
   }
 
@@ -222,7 +235,7 @@ export function makeEarlyDecisionCheck(
     try {
       // Find exits whose time gate has elapsed
       const eligible = earlyExits.filter(e => elapsed >= e.afterMs);
-      if (eligible.length === 0) return false;
+      if (eligible.length === 0 && !deadlineVetoExit) return false;
 
       const commentId = await findVotingCommentId(ref);
       if (!commentId) return false;
@@ -233,14 +246,27 @@ export function makeEarlyDecisionCheck(
       for (const exit of eligible) {
         if (!isExitEligible(exit, validated)) continue;
 
-        // All conditions met — close early
+        // All conditions met (or vetoed) — close early
+        const vetoedBy = exit.veto ? getVetoingVoters(exit.veto, validated) : [];
         logger.info(
           `Early decision for #${ref.issueNumber}: exit(after=${exit.afterMs}ms, ` +
-          `requires=${exit.requires}), ${validated.voters.length} valid voters`
+          `requires=${describeExitRequires(exit.requires)}), ${validated.voters.length} valid voters` +
+          (vetoedBy.length > 0 ? `, vetoed by ${vetoedBy.join(", ")}` : "")
         );
         matchedExit = exit;
         break;
       }
+
+      // Otherwise only a veto can end voting before the deadline
+      if (!matchedExit && deadlineVetoExit?.veto) {
+        const vetoedBy = getVetoingVoters(deadlineVetoExit.veto, validated);
+        if (vetoedBy.length > 0) {
+          logger.info(
+            `Early decision for #${ref.issueNumber}: deadline exit vetoed by ${vetoedBy.join(", ")}`
+          );
+          matchedExit = deadlineVetoExit;
+        }
+      }
     } catch (error) {
       // Early decision is an optimization — if the eligibility check fails,
       // the normal timer-based path handles this issue when the voting period
@@ -263,6 +289,8 @@ export function makeEarlyDecisionCheck(
       votingConfig: {
         minVoters: matchedExit.minVoters,
         requiredVoters: matchedExit.requiredVoters,
+        requires: matchedExit.requires,
+        ...(matchedExit.veto && { veto: matchedExit.veto }),
       },
       validatedVotes: validated,
     });
@@ -391,7 +419,14 @@ export async function processIssuePhase(
       return;
     }
 
-    const elapsed = Date.now() - labeledAt.getTime();
+    // /extend pushes every exit back: measure elapsed time from the extended start
+    const extensionMs = await withRetry(() =>
+      issues.getPhaseExtensionMs(ref, labelName, labeledAt)
+    );
+    if (extensionMs > 0) {
+      logger.debug(`Issue #${ref.issueNumber}: ${phaseName} extended by ${Math.floor(extensionMs / 60000)}m`);
+    }
+    const elapsed = Date.now() - labeledAt.getTime() - extensionMs;
 
     // Early decision: check if voting can close before the timer expires
     if (earlyCheck && elapsed < durationMs) {
@@ -608,11 +643,25 @@ interface PhaseConfig {
   earlyCheck?: (ref: IssueRef, elapsed: number) => Promise<boolean>;
 }
 
+/**
+ * Phase labels in processing order, with the proposals config key and
+ * display name for each.
+ */
+const GOVERNANCE_PHASES = [
+  { label: LABELS.DISCUSSION, key: "discussion", phaseName: "discussion" },
+  { label: LABELS.VOTING, key: "voting", phaseName: "voting" },
+  { label: LABELS.EXTENDED_VOTING, key: "extendedVoting", phaseName: "extended voting" },
+] as const;
+
 /**
  * Paginate through issues with a given label and process each through
  * the phase transition pipeline. Queries both canonical and legacy label
  * names to catch entities carrying either old or new labels.
- * Skips pull requests (the issues API returns both issues and PRs).
+ * Skips pull requests (the issues API returns both issues and PRs) and the
+ * app's own issues.
+ *
+ * The phase config is resolved per issue, since governance profiles can
+ * give labeled issues different exits (or none).
  */
 async function processPhaseIssues(
   octokit: InstanceType<typeof Octokit>,
@@ -620,12 +669,14 @@ async function processPhaseIssues(
   repoName: string,
   issues: IssueOperations,
   governance: GovernanceService,
-  phase: PhaseConfig,
+  appId: number,
+  label: string,
+  resolvePhase: (issue: Issue) => PhaseConfig | undefined,
   onAccessIssue: (ref: IssueRef, status: number | undefined, reason: AccessIssueReason) => void
 ): Promise<void> {
   const seen = new Set<number>();
 
-  for (const alias of getLabelQueryAliases(phase.label)) {
+  for (const alias of getLabelQueryAliases(label)) {
     const iterator = octokit.paginate.iterator(
       octokit.rest.issues.listForRepo,
       {
@@ -644,6 +695,15 @@ async function processPhaseIssues(
         }
         if (seen.has(issue.number)) continue;
         seen.add(issue.number);
+        if (isAppOwnedIssue(appId, issue.performed_via_github_app?.id)) {
+          logger.debug(`Issue #${issue.number}: opened by the app (e.g. the Colony Journal). Skipping.`);
+          continue;
+        }
+        const phase = resolvePhase(issue);
+        if (!phase) {
+          logger.debug(`Issue #${issue.number}: exits for '${label}' are manual under its governance profile. Skipping.`);
+          continue;
+        }
         const ref: IssueRef = { owner, repo: repoName, issueNumber: issue.number };
         await processIssuePhase(
           issues,
@@ -723,9 +783,10 @@ export async function processRepository(
       accessIssues.push({ repo: repo.full_name, issueNumber: ref.issueNumber, status, reason });
     };
 
-    const { discussion, voting, extendedVoting } = repoConfig.governance.proposals;
     const { trustedReviewers, intake, maxPRsPerIssue } = repoConfig.governance.pr;
     const prIntakeConfig = { maxPRsPerIssue, trustedReviewers, intake };
+    const notifyPRs = (issueNumber: number) =>
+      notifyPendingPRs(octokit, appId, owner, repoName, issueNumber, prIntakeConfig);
 
     // Voting/inconclusive phases share a transition pattern: end voting, track
     // outcome, and notify pending PRs if the proposal passed.
@@ -738,96 +799,120 @@ export async function processRepository(
       const outcome = await endFn(ref, endOptions);
       trackOutcome(outcome, ref.issueNumber);
       if (outcome === "ready-to-implement") {
-        await notifyPendingPRs(octokit, appId, owner, repoName, ref.issueNumber, prIntakeConfig);
+        await notifyPRs(ref.issueNumber);
       }
     };
 
     const createEndOptions = (
       deadlineExit: VotingAutoExit,
+      weights: VoteWeights,
     ): import("../api/lib/governance.js").EndVotingOptions => ({
       votingConfig: {
         minVoters: deadlineExit.minVoters,
         requiredVoters: deadlineExit.requiredVoters,
         requires: deadlineExit.requires,
+        ...(deadlineExit.veto && { veto: deadlineExit.veto }),
       },
+      weights,
     });
 
-    const phases: PhaseConfig[] = [];
-
-    const discussionAutoExits = discussion.exits.filter(isAutoDiscussionExit);
-    if (discussionAutoExits.length > 0) {
-      const deadlineExit = discussionAutoExits[discussionAutoExits.length - 1];
-      phases.push({
-        label: LABELS.DISCUSSION,
-        durationMs: deadlineExit.afterMs,
-        phaseName: "discussion",
-        transition: (_gov, ref) => governance.transitionToVoting(ref),
-        earlyCheck: makeDiscussionEarlyCheck(
-          (ref) => governance.transitionToVoting(ref),
-          {
-            earlyExits: discussionAutoExits.slice(0, -1),
-            getDiscussionReadiness: (ref) => issues.getDiscussionReadiness(ref),
-          },
-        ),
-      });
-    } else {
-      logger.info(`[${repo.full_name}] discussion exits are manual; skipping automatic discussion transitions`);
-    }
+    /**
+     * Build the automatic phases for one proposals config (top-level or a
+     * governance profile's). Phases with only manual exits are omitted.
+     */
+    const buildPhases = (proposals: ProposalsConfig, profile?: GovernanceProfile): PhaseConfig[] => {
+      const { discussion, voting, extendedVoting } = proposals;
+      const displayName = (phaseName: string) => profile ? `${phaseName} (${profile.name} profile)` : phaseName;
+      const phases: PhaseConfig[] = [];
+
+      const discussionAutoExits = discussion.exits.filter(isAutoDiscussionExit);
+      if (discussionAutoExits.length > 0) {
+        const deadlineExit = discussionAutoExits[discussionAutoExits.length - 1];
+        phases.push({
+          label: LABELS.DISCUSSION,
+          durationMs: deadlineExit.afterMs,
+          phaseName: displayName("discussion"),
+          transition: (_gov, ref) => governance.transitionToVoting(ref, profile?.name),
+          earlyCheck: makeDiscussionEarlyCheck(
+            (ref) => governance.transitionToVoting(ref, profile?.name),
+            {
+              earlyExits: discussionAutoExits.slice(0, -1),
+              getDiscussionReadiness: (ref) => issues.getDiscussionReadiness(ref),
+            },
+          ),
+        });
+      }
 
-    const votingAutoExits = voting.exits.filter(isAutoVotingExit);
-    if (votingAutoExits.length > 0) {
-      const deadlineExit = votingAutoExits[votingAutoExits.length - 1];
-      const votingEndOptions = createEndOptions(deadlineExit);
-      const votingEarlyDecisionDeps: EarlyDecisionDeps = {
-        earlyExits: votingAutoExits.slice(0, -1), // all except deadline
-        findVotingCommentId: (ref) => issues.findVotingCommentId(ref),
-        getValidatedVoteCounts: (ref, commentId) => issues.getValidatedVoteCounts(ref, commentId),
-        votingEndOptions,
-        trackOutcome,
-        notifyPRs: (issueNumber) => notifyPendingPRs(octokit, appId, owner, repoName, issueNumber, prIntakeConfig),
-      };
-
-      phases.push({
-        label: LABELS.VOTING,
-        durationMs: deadlineExit.afterMs,
-        phaseName: "voting",
-        transition: votingTransition((ref, opts) => governance.endVoting(ref, opts), votingEndOptions),
-        earlyCheck: makeEarlyDecisionCheck((ref, opts) => governance.endVoting(ref, opts), votingEarlyDecisionDeps),
-      });
-    } else {
-      logger.info(`[${repo.full_name}] voting exits are manual; skipping automatic voting transitions`);
-    }
+      const votingAutoExits = voting.exits.filter(isAutoVotingExit);
+      if (votingAutoExits.length > 0) {
+        const deadlineExit = votingAutoExits[votingAutoExits.length - 1];
+        const votingEndOptions = createEndOptions(deadlineExit, voting.weights);
+        const votingEarlyDecisionDeps: EarlyDecisionDeps = {
+          earlyExits: votingAutoExits.slice(0, -1), // all except deadline
+          deadlineExit,
+          findVotingCommentId: (ref) => issues.findVotingCommentId(ref),
+          getValidatedVoteCounts: (ref, commentId) => issues.getValidatedVoteCounts(ref, commentId, voting.weights),
+          votingEndOptions,
+          trackOutcome,
+          notifyPRs,
+        };
+
+        phases.push({
+          label: LABELS.VOTING,
+          durationMs: deadlineExit.afterMs,
+          phaseName: displayName("voting"),
+          transition: votingTransition((ref, opts) => governance.endVoting(ref, opts), votingEndOptions),
+          earlyCheck: makeEarlyDecisionCheck((ref, opts) => governance.endVoting(ref, opts), votingEarlyDecisionDeps),
+        });
+      }
 
-    const extendedAutoExits = extendedVoting.exits.filter(isAutoVotingExit);
-    if (extendedAutoExits.length > 0) {
-      const deadlineExit = extendedAutoExits[extendedAutoExits.length - 1];
-      const extendedVotingEndOptions = createEndOptions(deadlineExit);
-      const extendedEarlyDecisionDeps: EarlyDecisionDeps = {
-        earlyExits: extendedAutoExits.slice(0, -1), // all except deadline
-        findVotingCommentId: (ref) => issues.findVotingCommentId(ref),
-        getValidatedVoteCounts: (ref, commentId) => issues.getValidatedVoteCounts(ref, commentId),
-        votingEndOptions: extendedVotingEndOptions,
-        trackOutcome,
-        notifyPRs: (issueNumber) => notifyPendingPRs(octokit, appId, owner, repoName, issueNumber, prIntakeConfig),
-      };
-
-      phases.push({
-        label: LABELS.EXTENDED_VOTING,
-        durationMs: deadlineExit.afterMs,
-        phaseName: "extended voting",
-        transition: votingTransition((ref, opts) => governance.resolveInconclusive(ref, opts), extendedVotingEndOptions),
-        earlyCheck: makeEarlyDecisionCheck(
-          (ref, opts) => governance.resolveInconclusive(ref, opts),
-          extendedEarlyDecisionDeps,
-        ),
-      });
-    } else {
-      logger.info(`[${repo.full_name}] extendedVoting exits are manual; skipping automatic extended voting transitions`);
-    }
+      const extendedAutoExits = extendedVoting.exits.filter(isAutoVotingExit);
+      if (extendedAutoExits.length > 0) {
+        const deadlineExit = extendedAutoExits[extendedAutoExits.length - 1];
+        const extendedVotingEndOptions = createEndOptions(deadlineExit, voting.weights);
+        const extendedEarlyDecisionDeps: EarlyDecisionDeps = {
+          earlyExits: extendedAutoExits.slice(0, -1), // all except deadline
+          deadlineExit,
+          findVotingCommentId: (ref) => issues.findVotingCommentId(ref),
+          getValidatedVoteCounts: (ref, commentId) => issues.getValidatedVoteCounts(ref, commentId, voting.weights),
+          votingEndOptions: extendedVotingEndOptions,
+          trackOutcome,
+          notifyPRs,
+        };
+
+        phases.push({
+          label: LABELS.EXTENDED_VOTING,
+          durationMs: deadlineExit.afterMs,
+          phaseName: displayName("extended voting"),
+          transition: votingTransition((ref, opts) => governance.resolveInconclusive(ref, opts), extendedVotingEndOptions),
+          earlyCheck: makeEarlyDecisionCheck(
+            (ref, opts) => governance.resolveInconclusive(ref, opts),
+            extendedEarlyDecisionDeps,
+          ),
+        });
+      }
 
-    for (const phase of phases) {
+      return phases;
+    };
+
+    // Phases are built once per profile (undefined = top-level proposals)
+    // and shared by every issue that resolves to it.
+    const { proposals, profiles } = repoConfig.governance;
+    const phasesByProfile = new Map<GovernanceProfile | undefined, PhaseConfig[]>([
+      [undefined, buildPhases(proposals)],
+      ...profiles.map((profile): [GovernanceProfile, PhaseConfig[]] => [profile, buildPhases(profile.proposals, profile)]),
+    ]);
+    const resolvePhase = (label: string, issue: Issue): PhaseConfig | undefined =>
+      phasesByProfile.get(findGovernanceProfile(repoConfig, issue.labels))?.find((phase) => phase.label === label);
+
+    for (const { label, key, phaseName } of GOVERNANCE_PHASES) {
+      const anyAuto = [...phasesByProfile.values()].some((phases) => phases.some((phase) => phase.label === label));
+      if (!anyAuto) {
+        logger.info(`[${repo.full_name}] ${key} exits are manual; skipping automatic ${phaseName} transitions`);
+        continue;
+      }
       await processPhaseIssues(
-        octokit, owner, repoName, issues, governance, phase, trackAccessIssue
+        octokit, owner, repoName, issues, governance, appId, label, (issue) => resolvePhase(label, issue), trackAccessIssue
       );
     }
 
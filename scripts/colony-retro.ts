@@ -0,0 +1,136 @@
+/**
+ * Scheduled Colony Retrospective
+ *
+ * Runs weekly (Mondays 00:15 UTC) and monthly (the 1st, 00:15 UTC) via
+ * GitHub Actions. For each repository with standup enabled, appends a
+ * retrospective comment covering the previous week or calendar month to
+ * the Colony Journal discussion.
+ *
+ * Usage: `node dist/scripts/colony-retro.js <weekly|monthly>`
+ * Idempotent — skips if the period's retro already exists.
+ */
+
+import { Octokit } from "octokit";
+import { createIssueOperations, loadRepositoryConfig, logger } from "../api/lib/index.js";
+import {
+  getRepoDiscussionInfo,
+  findOrCreateColonyJournal,
+  addRetroComment,
+  getLastRetroPeriodStart,
+} from "../api/lib/discussions.js";
+import { collectRetroData, formatRetroComment, getRetroPeriod } from "../api/lib/retro.js";
+import { runForAllRepositories, runIfMain } from "./shared/run-installations.js";
+import type { RetroPeriod } from "../api/lib/bot-comments.js";
+import type { Repository } from "../api/lib/index.js";
+
+/**
+ * Process a single repository for the retrospective.
+ * Exported for testing.
+ */
+export async function processRepository(
+  octokit: InstanceType<typeof Octokit>,
+  repo: Repository,
+  appId: number,
+  period: RetroPeriod = "weekly",
+  now: Date = new Date()
+): Promise<void> {
+  const owner = repo.owner.login;
+  const repoName = repo.name;
+
+  logger.group(`Processing ${repo.full_name}`);
+
+  try {
+    // 1. Retros share the standup's opt-in and Colony Journal
+    const repoConfig = await loadRepositoryConfig(octokit, owner, repoName);
+    if (!repoConfig.standup.enabled) {
+      logger.debug(`Standup not enabled for ${repo.full_name}`);
+      return;
+    }
+    if (!repoConfig.standup.targets.some((target) => target.type === "discussion")) {
+      logger.debug(`Standup has no discussion target for ${repo.full_name}`);
+      return;
+    }
+
+    const repoInfo = await getRepoDiscussionInfo(octokit, owner, repoName);
+    if (!repoInfo.hasDiscussions) {
+      logger.debug(`Discussions not enabled for ${repo.full_name}`);
+      return;
+    }
+
+    const categoryName = repoConfig.standup.category;
+    const category = repoInfo.categories.find((c) => c.name === categoryName);
+    if (!category) {
+      logger.warn(
+        `[${repo.full_name}] Discussion category "${categoryName}" not found. ` +
+        `Create this category in Settings → Discussions, or set standup.category in .github/hivemoot.yml.`
+      );
+      return;
+    }
+
+    const journal = await findOrCreateColonyJournal(
+      octokit,
+      repoInfo.repoId,
+      category.id,
+      owner,
+      repoName
+    );
+
+    // 2. Idempotency check — skip if this period's retro already exists
+    const range = getRetroPeriod(period, now);
+    const lastStart = await getLastRetroPeriodStart(octokit, owner, repoName, journal.number, period);
+    if (lastStart === range.start) {
+      logger.info(`[${repo.full_name}] ${period} retro for ${range.start} already posted, skipping`);
+      return;
+    }
+
+    // 3. Collect, format, and post
+    const data = await collectRetroData(
+      octokit,
+      createIssueOperations(octokit, { appId }),
+      owner,
+      repoName,
+      range,
+      appId
+    );
+    const body = formatRetroComment(data);
+    const result = await addRetroComment(
+      octokit,
+      journal.discussionId,
+      body,
+      owner,
+      repoName,
+      journal.number,
+      period,
+      range.start
+    );
+
+    logger.info(
+      `[${repo.full_name}] Posted ${period} retro for ${range.start}..${range.end} (${result.url || "verified"})`
+    );
+  } finally {
+    logger.groupEnd();
+  }
+}
+
+/**
+ * Parse the period argument. Defaults to weekly.
+ */
+export function parsePeriodArg(arg: string | undefined): RetroPeriod {
+  if (arg === undefined || arg === "weekly") return "weekly";
+  if (arg === "monthly") return "monthly";
+  throw new Error(`Invalid retro period "${arg}": expected "weekly" or "monthly"`);
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  const period = parsePeriodArg(process.argv[2]);
+  await runForAllRepositories({
+    scriptName: `${period} retro`,
+    startMessage: `Posting ${period} retros for repositories with standup enabled`,
+    processRepository: (octokit, repo, appId) => processRepository(octokit, repo, appId, period),
+  });
+}
+
+runIfMain(import.meta.url, main);
@@ -2,32 +2,28 @@
  * Scheduled Daily Standup
  *
  * Runs daily at 00:05 UTC via GitHub Actions. For each repository
- * with standup enabled, appends a Colony Report comment to the
- * Colony Journal discussion.
+ * with standup enabled, delivers a Colony Report to each configured
+ * target (Colony Journal discussion by default; see standup-sinks.ts).
  *
  * Reports cover the previous calendar day (UTC).
- * Idempotent — skips if today's report already exists.
+ * Idempotent — skips targets that already have today's report.
  */
 
 import { Octokit } from "octokit";
 import {
   loadRepositoryConfig,
+  createIssueOperations,
   createPROperations,
   logger,
 } from "../api/lib/index.js";
-import {
-  getRepoDiscussionInfo,
-  findOrCreateColonyJournal,
-  addStandupComment,
-  getLastStandupDate,
-  computeDayNumber,
-} from "../api/lib/discussions.js";
+import { getRepoDiscussionInfo, computeDayNumber } from "../api/lib/discussions.js";
 import {
   collectStandupData,
   formatStandupComment,
   generateStandupLLMContent,
   hasAnyContent,
 } from "../api/lib/standup.js";
+import { createStandupSinks, type StandupSink } from "../api/lib/standup-sinks.js";
 import { runForAllRepositories, runIfMain } from "./shared/run-installations.js";
 import type { Repository } from "../api/lib/index.js";
 
@@ -49,7 +45,7 @@ function getReportDate(): string {
 export async function processRepository(
   octokit: InstanceType<typeof Octokit>,
   repo: Repository,
-  _appId: number
+  appId: number
 ): Promise<void> {
   const owner = repo.owner.login;
   const repoName = repo.name;
@@ -64,76 +60,77 @@ export async function processRepository(
       return;
     }
 
-    // 2. Check if discussions are enabled
+    // 2. Build a sink per configured target
     const repoInfo = await getRepoDiscussionInfo(octokit, owner, repoName);
-    if (!repoInfo.hasDiscussions) {
-      logger.debug(`Discussions not enabled for ${repo.full_name}`);
-      return;
-    }
-
-    // 3. Find the configured category
-    const categoryName = repoConfig.standup.category;
-    const category = repoInfo.categories.find((c) => c.name === categoryName);
-    if (!category) {
-      logger.warn(
-        `[${repo.full_name}] Discussion category "${categoryName}" not found. ` +
-        `Create this category in Settings → Discussions, or set standup.category in .github/hivemoot.yml.`
-      );
-      return;
-    }
-
-    // 4. Find or create the Colony Journal discussion
-    const journal = await findOrCreateColonyJournal(
-      octokit,
-      repoInfo.repoId,
-      category.id,
+    const sinks = createStandupSinks(octokit, repoConfig.standup, {
       owner,
-      repoName
-    );
+      repo: repoName,
+      repoInfo,
+    });
 
-    // 5. Idempotency check — skip if today's report already exists
+    // 3. Idempotency check — only deliver to sinks missing today's report
     const reportDate = getReportDate();
-    const lastDate = await getLastStandupDate(octokit, owner, repoName, journal.number);
-    if (lastDate === reportDate) {
-      logger.info(`[${repo.full_name}] Today's standup already posted, skipping`);
-      return;
+    const pending: StandupSink[] = [];
+    const failures: string[] = [];
+    for (const sink of sinks) {
+      try {
+        if (await sink.hasReport(reportDate)) {
+          logger.info(`[${repo.full_name}] Today's standup already delivered to ${sink.name}, skipping`);
+        } else {
+          pending.push(sink);
+        }
+      } catch (error) {
+        logger.error(`[${repo.full_name}] Failed to check ${sink.name} for today's standup`, error as Error);
+        failures.push(sink.name);
+      }
     }
 
-    // 6. Compute day number
-    const dayNumber = computeDayNumber(repoInfo.repoCreatedAt, reportDate);
-
-    // 7. Collect standup data
-    const prs = createPROperations(octokit, { appId: _appId });
-    const data = await collectStandupData(
-      octokit,
-      prs,
-      owner,
-      repoName,
-      reportDate,
-      dayNumber
-    );
+    if (pending.length > 0) {
+      // 4. Compute day number
+      const dayNumber = computeDayNumber(repoInfo.repoCreatedAt, reportDate);
+
+      // 5. Collect standup data
+      const prs = createPROperations(octokit, { appId });
+      const data = await collectStandupData(
+        octokit,
+        prs,
+        owner,
+        repoName,
+        reportDate,
+        dayNumber,
+        {
+          healthRules: repoConfig.standup.healthRules,
+          issues: createIssueOperations(octokit, { appId }),
+          appId,
+          cycleTimeClient: octokit,
+        }
+      );
 
-    // 8. Generate LLM content (optional — graceful fallback)
-    let llmContent = null;
-    if (hasAnyContent(data)) {
-      llmContent = await generateStandupLLMContent(data);
+      // 6. Generate LLM content (optional — graceful fallback)
+      let llmContent = null;
+      if (hasAnyContent(data)) {
+        llmContent = await generateStandupLLMContent(data);
+      }
+
+      // 7. Format once, then deliver to each pending sink
+      const body = formatStandupComment(data, llmContent);
+      for (const sink of pending) {
+        try {
+          const result = await sink.deliver({ reportDate, dayNumber, body, data });
+          logger.info(
+            `[${repo.full_name}] Delivered Colony Report — Day ${dayNumber} to ${sink.name} (${result.url || "verified"})`
+          );
+        } catch (error) {
+          logger.error(`[${repo.full_name}] Failed to deliver standup to ${sink.name}`, error as Error);
+          failures.push(sink.name);
+        }
+      }
     }
 
-    // 9. Format the comment body
-    const body = formatStandupComment(data, llmContent);
-
-    // 10. Post the standup comment (with write-then-verify)
-    const result = await addStandupComment(
-      octokit,
-      journal.discussionId,
-      body,
-      owner,
-      repoName,
-      journal.number,
-      reportDate
-    );
-
-    logger.info(`[${repo.full_name}] Posted Colony Report — Day ${dayNumber} (${result.url || "verified"})`);
+    // One failing target shouldn't block the others, but the run should still fail
+    if (failures.length > 0) {
+      throw new Error(`Standup delivery failed for: ${failures.join(", ")}`);
+    }
   } finally {
     logger.groupEnd();
   }
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { parseExportArgs } from "./export-cycle-time.js";
+
+/**
+ * Tests for the cycle-time export script's argument parsing.
+ * Metric computation is covered in api/lib/cycle-time.test.ts.
+ */
+
+describe("parseExportArgs", () => {
+  it("should default to 90 days and cycle-time.json", () => {
+    expect(parseExportArgs([])).toEqual({ days: 90, output: "cycle-time.json" });
+  });
+
+  it("should accept --days and --output", () => {
+    expect(parseExportArgs(["--days", "30", "--output", "out/metrics.json"])).toEqual({
+      days: 30,
+      output: "out/metrics.json",
+    });
+  });
+
+  it("should reject a non-positive or fractional --days", () => {
+    expect(() => parseExportArgs(["--days", "0"])).toThrow("Invalid --days");
+    expect(() => parseExportArgs(["--days", "1.5"])).toThrow("Invalid --days");
+  });
+
+  it("should reject unknown options", () => {
+    expect(() => parseExportArgs(["--since", "2026-01-01"])).toThrow();
+  });
+});
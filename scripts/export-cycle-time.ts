@@ -0,0 +1,87 @@
+/**
+ * Cycle-Time Export
+ *
+ * Measures governance cycle times (see api/lib/cycle-time.ts) for every
+ * repository the app is installed on and writes them to a JSON file:
+ * per-issue phase spans and totals, plus per-phase percentiles.
+ *
+ * Usage: `node dist/scripts/export-cycle-time.js [--days 90] [--output cycle-time.json]`
+ * Only issues updated within the last `--days` days are measured.
+ */
+
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { Octokit } from "octokit";
+import { createIssueOperations, logger } from "../api/lib/index.js";
+import { collectCycleTimeMetrics, type RepoCycleTimeMetrics } from "../api/lib/cycle-time.js";
+import { runForAllRepositories, runIfMain } from "./shared/run-installations.js";
+import type { Repository } from "../api/lib/index.js";
+
+const DEFAULT_DAYS = 90;
+const DEFAULT_OUTPUT = "cycle-time.json";
+const MS_PER_DAY = 86_400_000;
+
+export interface ExportOptions {
+  days: number;
+  output: string;
+}
+
+/**
+ * Parse command-line options.
+ */
+export function parseExportArgs(args: string[]): ExportOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      days: { type: "string" },
+      output: { type: "string" },
+    },
+  });
+
+  const days = values.days === undefined ? DEFAULT_DAYS : Number(values.days);
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error(`Invalid --days "${values.days}": expected a positive integer`);
+  }
+  return { days, output: values.output ?? DEFAULT_OUTPUT };
+}
+
+/**
+ * Measure a single repository.
+ * Exported for testing.
+ */
+export async function processRepository(
+  octokit: InstanceType<typeof Octokit>,
+  repo: Repository,
+  appId: number,
+  days: number = DEFAULT_DAYS,
+  now: Date = new Date()
+): Promise<RepoCycleTimeMetrics> {
+  const issues = createIssueOperations(octokit, { appId });
+  const since = new Date(now.getTime() - days * MS_PER_DAY);
+  const metrics = await collectCycleTimeMetrics(octokit, issues, repo.owner.login, repo.name, since, now);
+  logger.info(`[${repo.full_name}] Measured ${metrics.issues.length} issue(s)`);
+  return metrics;
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  const { days, output } = parseExportArgs(process.argv.slice(2));
+  await runForAllRepositories({
+    scriptName: "cycle-time export",
+    startMessage: `Measuring issues updated in the last ${days} day(s)`,
+    processRepository: (octokit, repo, appId) => processRepository(octokit, repo, appId, days),
+    afterAll: ({ results }) => {
+      const report = {
+        generatedAt: new Date().toISOString(),
+        days,
+        repositories: results.map((r) => r.result),
+      };
+      writeFileSync(output, `${JSON.stringify(report, null, 2)}\n`);
+      logger.info(`Wrote cycle times for ${results.length} repository(ies) to ${output}`);
+    },
+  });
+}
+
+runIfMain(import.meta.url, main);
@@ -6,6 +6,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
  * Verifies:
  * - processRepository: skips repos without mergeReady config, processes implementation PRs
  * - Error isolation: one PR failure doesn't block others, AggregateError preserves causes
+ * - Auto-merge: advanced only for PRs that were already merge-ready
  */
 
 // Mock external dependencies
@@ -24,6 +25,7 @@ process.on("unhandledRejection", () => {});
 
 const mockEvaluateMergeReadiness = vi.fn().mockResolvedValue({ action: "noop", labeled: false });
 const mockFindPRsWithLabel = vi.fn().mockResolvedValue([]);
+const mockProcessAutoMerge = vi.fn().mockResolvedValue({ action: "waiting", mergeAt: new Date() });
 
 vi.mock("../api/lib/index.js", () => ({
   createPROperations: vi.fn(() => ({
@@ -33,6 +35,7 @@ vi.mock("../api/lib/index.js", () => ({
     governance: { pr: { mergeReady: null, trustedReviewers: [] } },
   }),
   evaluateMergeReadiness: (...args: unknown[]) => mockEvaluateMergeReadiness(...args),
+  processAutoMerge: (...args: unknown[]) => mockProcessAutoMerge(...args),
   logger: {
     info: vi.fn(),
     warn: vi.fn(),
@@ -176,5 +179,60 @@ describe("reconcile-merge-ready", () => {
         })
       );
     });
+
+    it("should advance auto-merge only for PRs that were already merge-ready", async () => {
+      mockLoadRepositoryConfig.mockResolvedValue({
+        governance: {
+          pr: {
+            mergeReady: { minApprovals: 1, autoMerge: { cooldownMs: 0 } },
+            trustedReviewers: ["alice"],
+          },
+        },
+      } as ReturnType<typeof loadRepositoryConfig> extends Promise<infer T> ? T : never);
+
+      mockFindPRsWithLabel.mockResolvedValue([
+        { number: 1, labels: [{ name: "hivemoot:candidate" }] },
+        { number: 2, labels: [{ name: "hivemoot:candidate" }, { name: "hivemoot:merge-ready" }] },
+        { number: 3, labels: [{ name: "hivemoot:candidate" }] },
+      ]);
+
+      mockEvaluateMergeReadiness
+        .mockResolvedValueOnce({ action: "added" })
+        .mockResolvedValueOnce({ action: "noop", labeled: true })
+        .mockResolvedValueOnce({ action: "noop", labeled: false });
+      mockProcessAutoMerge.mockResolvedValueOnce({ action: "merged" });
+
+      await processRepository({} as never, testRepo, testAppId);
+
+      // PR #1 was just labeled — the labeled webhook picks it up
+      expect(mockProcessAutoMerge).toHaveBeenCalledTimes(1);
+      expect(mockProcessAutoMerge).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ref: { owner: "test-org", repo: "test-repo", prNumber: 2 },
+          currentLabels: ["hivemoot:candidate", "hivemoot:merge-ready"],
+        })
+      );
+      expect(vi.mocked(logger.info)).toHaveBeenCalledWith(expect.stringContaining("auto-merged=1"));
+    });
+
+    it("should not run auto-merge when it is not enabled", async () => {
+      mockLoadRepositoryConfig.mockResolvedValue({
+        governance: {
+          pr: {
+            mergeReady: { minApprovals: 1 },
+            trustedReviewers: ["alice"],
+          },
+        },
+      } as ReturnType<typeof loadRepositoryConfig> extends Promise<infer T> ? T : never);
+
+      mockFindPRsWithLabel.mockResolvedValue([
+        { number: 2, labels: [{ name: "hivemoot:candidate" }, { name: "hivemoot:merge-ready" }] },
+      ]);
+      mockEvaluateMergeReadiness.mockResolvedValue({ action: "noop", labeled: true });
+
+      await processRepository({} as never, testRepo, testAppId);
+
+      expect(mockProcessAutoMerge).not.toHaveBeenCalled();
+    });
   });
 });
@@ -8,6 +8,11 @@
  * - Missed webhook events (transient errors, GitHub delivery failures)
  * - Stale labels from any cause (eventual consistency guarantee)
  * - Base branch updates causing conflicts (mergeable may be null during webhooks)
+ *
+ * With `mergeReady.autoMerge`, also advances auto-merge for PRs that were
+ * already merge-ready: announcing missed ones and merging once the
+ * cool-down has elapsed. PRs labeled in this run are left to the
+ * `pull_request.labeled` webhook.
  */
 
 import { Octokit } from "octokit";
@@ -16,6 +21,7 @@ import {
   createPROperations,
   loadRepositoryConfig,
   evaluateMergeReadiness,
+  processAutoMerge,
   logger,
 } from "../api/lib/index.js";
 import { runForAllRepositories, runIfMain } from "./shared/run-installations.js";
@@ -57,22 +63,37 @@ export async function processRepository(
     let added = 0;
     let removed = 0;
     let unchanged = 0;
+    let autoMerged = 0;
     const collectedErrors: Error[] = [];
 
     for (const pr of implementationPRs) {
       try {
+        const ref = { owner, repo: repoName, prNumber: pr.number };
+        const currentLabels = pr.labels.map((l) => l.name);
         const result = await evaluateMergeReadiness({
           prs,
-          ref: { owner, repo: repoName, prNumber: pr.number },
+          ref,
           config: mergeReady,
           trustedReviewers,
-          currentLabels: pr.labels.map((l) => l.name),
+          currentLabels,
           log: logger,
         });
 
         if (result.action === "added") added++;
         else if (result.action === "removed") removed++;
         else unchanged++;
+
+        if (mergeReady.autoMerge && result.action === "noop" && result.labeled) {
+          const autoMerge = await processAutoMerge({
+            client: octokit,
+            prs,
+            ref,
+            repoConfig,
+            currentLabels,
+            log: logger,
+          });
+          if (autoMerge.action === "merged" || autoMerge.action === "queued") autoMerged++;
+        }
       } catch (error) {
         collectedErrors.push(error as Error);
         logger.error(
@@ -83,7 +104,7 @@ export async function processRepository(
     }
 
     logger.info(
-      `[${repo.full_name}] Reconciliation complete: +${added} -${removed} =${unchanged} errors=${collectedErrors.length}`
+      `[${repo.full_name}] Reconciliation complete: +${added} -${removed} =${unchanged} auto-merged=${autoMerged} errors=${collectedErrors.length}`
     );
 
     if (collectedErrors.length > 0) {